@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { AISession, AIType } from '../../../domain/entities/AISession';
 import { DiffService } from '../../../domain/services/DiffService';
+import { AgentRegistry, DEFAULT_AGENT_ID } from '../../../domain/services/AgentRegistry';
 import { SessionContext } from '../../../application/ports/outbound/SessionContext';
 import { IFileSystemPort } from '../../../application/ports/outbound/IFileSystemPort';
 import { IGitPort } from '../../../application/ports/outbound/IGitPort';
@@ -9,16 +10,24 @@ import { IFileGlobber } from '../../../application/ports/outbound/IFileGlobber';
 import { ICommentRepository } from '../../../application/ports/outbound/ICommentRepository';
 import { ISymbolPort } from '../../../application/ports/outbound/ISymbolPort';
 import { IThreadStateRepository } from '../../../application/ports/outbound/IThreadStateRepository';
+import { ThreadState } from '../../../domain/entities/ThreadState';
 import { IDeleteThreadUseCase } from '../../../application/ports/inbound/IDeleteThreadUseCase';
-import { FileInfo } from '../../../application/ports/outbound/PanelState';
+import { IRestoreThreadSessionsUseCase } from '../../../application/ports/inbound/IRestoreThreadSessionsUseCase';
+import { IReopenThreadTerminalUseCase } from '../../../application/ports/inbound/IReopenThreadTerminalUseCase';
+import { FileInfo, toCommentInfo } from '../../../application/ports/outbound/PanelState';
 import { IPanelStateManager } from '../../../application/services/IPanelStateManager';
 import { PanelStateManager } from '../../../application/services/PanelStateManager';
 import { CaptureSnapshotsUseCase } from '../../../application/useCases/CaptureSnapshotsUseCase';
 import { GenerateDiffUseCase } from '../../../application/useCases/GenerateDiffUseCase';
 import { GenerateScopedDiffUseCase } from '../../../application/useCases/GenerateScopedDiffUseCase';
+import { GetCommitTimelineUseCase } from '../../../application/useCases/GetCommitTimelineUseCase';
+import { TurnCheckpointsUseCase } from '../../../application/useCases/TurnCheckpointsUseCase';
+import { ApplyChunkActionUseCase } from '../../../application/useCases/ApplyChunkActionUseCase';
+import { CommitChangesUseCase } from '../../../application/useCases/CommitChangesUseCase';
 import { AddCommentUseCase } from '../../../application/useCases/AddCommentUseCase';
 import { EditCommentUseCase } from '../../../application/useCases/EditCommentUseCase';
 import { DeleteCommentUseCase } from '../../../application/useCases/DeleteCommentUseCase';
+import { ManageCommentThreadsUseCase } from '../../../application/useCases/ManageCommentThreadsUseCase';
 import { SubmitCommentsUseCase } from '../../../application/useCases/SubmitCommentsUseCase';
 import { IFetchHNStoriesUseCase } from '../../../application/ports/inbound/IFetchHNStoriesUseCase';
 import {
@@ -28,6 +37,8 @@ import {
 } from '../../../application/ports/outbound/IWorkspaceStatePort';
 import { ScopeMappingService } from '../../../domain/services/ScopeMappingService';
 import { InMemorySnapshotRepository } from '../../../infrastructure/repositories/InMemorySnapshotRepository';
+import { InMemoryCheckpointRepository } from '../../../infrastructure/repositories/InMemoryCheckpointRepository';
+import { ISnapshotRepository } from '../../../application/ports/outbound/ISnapshotRepository';
 import { VscodeTerminalGateway } from '../../outbound/gateways/VscodeTerminalGateway';
 import { CodeSquadPanelAdapter } from '../ui/CodeSquadPanelAdapter';
 
@@ -35,6 +46,7 @@ import { CodeSquadPanelAdapter } from '../ui/CodeSquadPanelAdapter';
 interface IFileWatchController {
     registerSessionWorkspace(terminalId: string, workspaceRoot: string): Promise<void>;
     unregisterSessionWorkspace(terminalId: string): void;
+    handleSessionCommit(terminalId: string): Promise<void>;
 }
 
 export class AIDetectionController {
@@ -51,6 +63,13 @@ export class AIDetectionController {
     /** DeleteThreadUseCase for terminal close cleanup options */
     private deleteThreadUseCase: IDeleteThreadUseCase | undefined;
 
+    /** Creates each session's snapshot store; keyed by thread so disk stores survive reloads */
+    private createSnapshotRepository: (sessionKey: string) => ISnapshotRepository = () => new InMemorySnapshotRepository();
+
+    /** Use cases for reconnecting persisted threads after a window reload */
+    private restoreThreadSessionsUseCase: IRestoreThreadSessionsUseCase | undefined;
+    private reopenThreadTerminalUseCase: IReopenThreadTerminalUseCase | undefined;
+
     /** Callback for session changes (used by ThreadListController) */
     private onSessionChangeCallback?: () => void;
 
@@ -84,6 +103,7 @@ export class AIDetectionController {
         private readonly submitCommentsUseCase: SubmitCommentsUseCase,
         private readonly diffService: DiffService,
         private readonly symbolPort: ISymbolPort,
+        private readonly agentRegistry: AgentRegistry,
         private readonly fetchHNStoriesUseCase?: IFetchHNStoriesUseCase,
         private readonly workspaceStatePort?: IWorkspaceStatePort
     ) {}
@@ -109,6 +129,24 @@ export class AIDetectionController {
         this.deleteThreadUseCase = useCase;
     }
 
+    /**
+     * Set the factory for per-session snapshot stores (in-memory by default).
+     */
+    setSnapshotRepositoryFactory(factory: (sessionKey: string) => ISnapshotRepository): void {
+        this.createSnapshotRepository = factory;
+    }
+
+    /**
+     * Set use cases for restoring thread sessions after a window reload.
+     */
+    setThreadRestoreUseCases(
+        restoreUseCase: IRestoreThreadSessionsUseCase,
+        reopenUseCase: IReopenThreadTerminalUseCase
+    ): void {
+        this.restoreThreadSessionsUseCase = restoreUseCase;
+        this.reopenThreadTerminalUseCase = reopenUseCase;
+    }
+
     /**
      * Set callback for session changes (used by ThreadListController).
      */
@@ -193,54 +231,22 @@ export class AIDetectionController {
                 return;
             }
 
-            if (this.isClaudeCommand(commandLine)) {
-                this.log('🤖 Claude Code detected!');
-                await this.promptAndActivateCodeSquad('claude', terminal);
-            } else if (this.isCodexCommand(commandLine)) {
-                this.log('🤖 Codex detected!');
-                await this.promptAndActivateCodeSquad('codex', terminal);
-            } else if (this.isGeminiCommand(commandLine)) {
-                this.log('🤖 Gemini CLI detected!');
-                await this.promptAndActivateCodeSquad('gemini', terminal);
+            const type = this.agentRegistry.matchCommand(commandLine);
+            if (type) {
+                this.log(`🤖 ${this.agentRegistry.getDisplayName(type)} detected!`);
+                await this.promptAndActivateCodeSquad(type, terminal);
             }
         } catch (error) {
             this.logError('handleCommandStart', error);
         }
     }
 
-    private isClaudeCommand(commandLine: string): boolean {
-        // 명령어가 claude 또는 claude-code로 시작하는 경우만 감지
-        // npx claude, bunx claude 등도 지원
-        return /^(npx\s+|bunx\s+|pnpx\s+)?claude(-code)?(\s|$)/.test(commandLine.trim());
-    }
-
-    private isCodexCommand(commandLine: string): boolean {
-        // 명령어가 codex로 시작하는 경우만 감지
-        return /^(npx\s+|bunx\s+|pnpx\s+)?codex(\s|$)/.test(commandLine.trim());
-    }
-
-    private isGeminiCommand(commandLine: string): boolean {
-        const normalized = commandLine.trim().toLowerCase();
-        // 명령어가 gemini로 시작하거나 gcloud ai gemini 명령인 경우만 감지
-        return (
-            /^(npx\s+|bunx\s+|pnpx\s+)?gemini(\s|$)/.test(normalized) ||
-            /^npx\s+@google\/generative-ai-cli(\s|$)/.test(normalized) ||
-            /^gcloud\s+ai\s+gemini(\s|$)/.test(normalized)
-        );
-    }
-
-    private isAICommand(commandLine: string): boolean {
-        return this.isClaudeCommand(commandLine) ||
-               this.isCodexCommand(commandLine) ||
-               this.isGeminiCommand(commandLine);
-    }
-
     /**
      * Prompt user before opening Code Squad panel.
      * Respects saved preference (always/never/ask).
      */
     private async promptAndActivateCodeSquad(type: AIType, terminal: vscode.Terminal): Promise<void> {
-        const displayName = AISession.getDisplayName(type);
+        const displayName = this.agentRegistry.getDisplayName(type);
 
         // Check saved preference
         const setting = this.workspaceStatePort?.get<AutoOpenPanelSetting>(
@@ -290,7 +296,11 @@ export class AIDetectionController {
         }
     }
 
-    private async activateCodeSquad(type: AIType, terminal: vscode.Terminal): Promise<void> {
+    /**
+     * @param reveal Move the terminal beside the panel and show the panel.
+     *               Off when restoring sessions, where the layout is already in place.
+     */
+    private async activateCodeSquad(type: AIType, terminal: vscode.Terminal, reveal = true): Promise<void> {
         const startTime = Date.now();
         this.log(`🟢 activateCodeSquad START: type=${type}, terminal="${terminal.name}"`);
 
@@ -317,7 +327,7 @@ export class AIDetectionController {
         }
 
         // ===== 세션별 독립 리소스 생성 =====
-        const snapshotRepository = new InMemorySnapshotRepository();
+        const snapshotRepository = this.createSnapshotRepository(threadState?.threadId ?? terminalId);
         const stateManager = new PanelStateManager();
 
         // 세션별 UseCase 인스턴스 생성
@@ -335,6 +345,9 @@ export class AIDetectionController {
             this.diffService,
             workspaceRoot  // 세션별 workspaceRoot (worktree 지원)
         );
+        // Thread base enables the "since base" diff mode (includes agent commits)
+        const baseCommit = await this.resolveThreadBase(threadState);
+        generateDiffUseCase.setBaseCommit(baseCommit);
 
         const addCommentUseCase = new AddCommentUseCase(
             this.commentRepository
@@ -348,6 +361,11 @@ export class AIDetectionController {
             this.commentRepository
         );
 
+        const manageCommentThreadsUseCase = new ManageCommentThreadsUseCase(
+            this.commentRepository,
+            this.diffService
+        );
+
         const scopeMappingService = new ScopeMappingService();
         const generateScopedDiffUseCase = new GenerateScopedDiffUseCase(
             generateDiffUseCase,
@@ -356,21 +374,65 @@ export class AIDetectionController {
             scopeMappingService
         );
 
+        // Commits made after this point (or the thread's base) appear in the timeline
+        const headCommit = await this.resolveHeadCommit(workspaceRoot);
+        const timelineStart = baseCommit ?? headCommit;
+        const getCommitTimelineUseCase = new GetCommitTimelineUseCase(
+            this.gitPort,
+            this.diffService,
+            workspaceRoot,
+            timelineStart
+        );
+
         // 스냅샷 캡처
-        try {
-            const config = vscode.workspace.getConfiguration('codeSquad');
-            const includePatterns = config.get<string[]>('includeFiles', []);
-            await captureSnapshotsUseCase.execute(includePatterns);
-        } catch (error) {
-            console.error('[Code Squad] Failed to capture snapshots:', error);
+        // A persistent store restored after reload keeps the snapshots taken when the session began
+        const persistedSnapshots = snapshotRepository.getStats().count;
+        if (persistedSnapshots > 0) {
+            this.log(`🟢 activateCodeSquad: reusing ${persistedSnapshots} persisted snapshots`);
+        } else {
+            try {
+                const config = vscode.workspace.getConfiguration('codeSquad');
+                const includePatterns = config.get<string[]>('includeFiles', []);
+                await captureSnapshotsUseCase.execute(includePatterns);
+            } catch (error) {
+                console.error('[Code Squad] Failed to capture snapshots:', error);
+            }
         }
 
+        // Per-turn checkpoints fall back to HEAD for files the agent hasn't touched yet
+        const turnCheckpointsUseCase = new TurnCheckpointsUseCase(
+            new InMemoryCheckpointRepository(),
+            snapshotRepository,
+            this.fileSystemGateway,
+            this.gitPort,
+            this.diffService,
+            workspaceRoot,
+            headCommit
+        );
+
+        const applyChunkActionUseCase = new ApplyChunkActionUseCase(
+            this.gitPort,
+            this.diffService
+        );
+
+        const commitChangesUseCase = new CommitChangesUseCase(
+            this.gitPort,
+            this.terminalGateway
+        );
+
         // Baseline 캡처
         if (workspaceRoot) {
             await this.captureBaseline(workspaceRoot, stateManager);
+            // Turn 0 keeps files that were already changed, so reverting doesn't lose them
+            await turnCheckpointsUseCase.captureStart(
+                stateManager.getState().uncommittedFiles.map(f => f.path)
+            );
+            stateManager.setCheckpoints(turnCheckpointsUseCase.list());
         }
 
-        await this.moveTerminalToSide(terminalId);
+        if (reveal) {
+            await this.moveTerminalToSide(terminalId);
+        }
 
         // ===== 싱글 패널 생성 또는 재사용 =====
         const panel = CodeSquadPanelAdapter.getOrCreate(this.getExtensionContext());
@@ -387,6 +449,11 @@ export class AIDetectionController {
             }
         };
 
+        // 패널에서 만든 커밋도 git watcher와 같은 경로로 세션을 갱신
+        const commitCallback = async () => {
+            await this.fileWatchController?.handleSessionCommit(terminalId);
+        };
+
         // 세션 전환 (UseCase, StateManager 연결)
         panel.switchToSession(
             terminalId,
@@ -399,7 +466,13 @@ export class AIDetectionController {
             editCommentUseCase,
             deleteCommentUseCase,
             this.fetchHNStoriesUseCase,
-            generateScopedDiffUseCase
+            generateScopedDiffUseCase,
+            getCommitTimelineUseCase,
+            turnCheckpointsUseCase,
+            applyChunkActionUseCase,
+            commitChangesUseCase,
+            manageCommentThreadsUseCase,
+            commitCallback
         );
 
         // State manager → Panel 연결 (현재 포커스된 세션만)
@@ -411,7 +484,7 @@ export class AIDetectionController {
         });
 
         // ===== SessionContext 생성 및 저장 =====
-        const session = AISession.create(type, terminalId);
+        const session = AISession.create(type, terminalId, this.agentRegistry.getDisplayName(type));
         // Set initial status to 'inactive' - agent just started, waiting for first interaction
         // Status will change to 'working'/'idle' based on terminal activity
         session.setAgentMetadata({
@@ -439,7 +512,12 @@ export class AIDetectionController {
             addCommentUseCase,
             editCommentUseCase,
             deleteCommentUseCase,
+            manageCommentThreadsUseCase,
             generateScopedDiffUseCase,
+            getCommitTimelineUseCase,
+            turnCheckpointsUseCase,
+            applyChunkActionUseCase,
+            commitChangesUseCase,
             fetchHNStoriesUseCase: this.fetchHNStoriesUseCase,
             captureSnapshotsUseCase,
             // Panel은 세션이 닫힐 때 dispose하지 않음 (싱글 패널이므로)
@@ -478,10 +556,22 @@ export class AIDetectionController {
         this.terminalGateway.registerTerminal(terminalId, terminal);
 
         // AI 상태 업데이트
-        stateManager.setAIStatus({ active: true, type });
+        stateManager.setAIStatus({ active: true, type, displayName: session.displayName });
 
         // Set threadId on state manager for comment isolation
         stateManager.setThreadId(threadState?.threadId);
+        // Commits already made since the thread's base
+        const commits = await getCommitTimelineUseCase.execute();
+        if (commits.length > 0) {
+            stateManager.setCommits(commits);
+        }
+
+        if (threadState && baseCommit) {
+            const shortSha = baseCommit.slice(0, 7);
+            stateManager.setDiffBaseLabel(
+                threadState.baseBranch ? `${threadState.baseBranch} @ ${shortSha}` : shortSha
+            );
+        }
 
         // Load existing comments for this thread
         if (threadState) {
@@ -491,21 +581,14 @@ export class AIDetectionController {
             const legacyComments = allComments.filter(c => !c.threadId);
             const threadComments = [...comments, ...legacyComments];
 
-            stateManager.setComments(threadComments.map(c => ({
-                id: c.id,
-                file: c.file,
-                line: c.line,
-                endLine: c.endLine,
-                text: c.text,
-                isSubmitted: c.isSubmitted,
-                codeContext: c.codeContext,
-                timestamp: c.timestamp,
-            })));
+            stateManager.setComments(threadComments.map(toCommentInfo));
         }
 
         // 패널 자동 표시
-        panel.show();
-        this.log(`🟢 activateCodeSquad: panel.show() called`);
+        if (reveal) {
+            panel.show();
+            this.log(`🟢 activateCodeSquad: panel.show() called`);
+        }
 
         const elapsed = Date.now() - startTime;
         this.log(`🟢 activateCodeSquad END: terminalId=${terminalId}, elapsed=${elapsed}ms, totalSessions=${this.sessions.size}`);
@@ -606,6 +689,45 @@ export class AIDetectionController {
         }
     }
 
+    /**
+     * Resolve the commit a thread started from.
+     * Threads created before bases were recorded get one backfilled from the
+     * merge-base of their branch and the main workspace's branch.
+     */
+    private async resolveThreadBase(threadState: ThreadState | null | undefined): Promise<string | undefined> {
+        if (!threadState) return undefined;
+        if (threadState.baseCommit) return threadState.baseCommit;
+        if (!threadState.branch || !this.threadStateRepository) return undefined;
+
+        const mainRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!mainRoot) return undefined;
+
+        try {
+            const baseBranch = threadState.baseBranch ?? await this.gitPort.getCurrentBranch(mainRoot);
+            if (baseBranch === 'HEAD' || baseBranch === threadState.branch) return undefined;
+
+            const baseCommit = await this.gitPort.getMergeBase(baseBranch, threadState.branch, mainRoot);
+            if (!baseCommit) return undefined;
+
+            await this.threadStateRepository.updateBase(threadState.threadId, baseCommit, baseBranch);
+            this.log(`🟢 Backfilled base for thread "${threadState.name}": ${baseBranch} @ ${baseCommit}`);
+            return baseCommit;
+        } catch (error) {
+            console.warn('[Code Squad] Failed to resolve thread base:', error);
+            return undefined;
+        }
+    }
+
+    private async resolveHeadCommit(workspaceRoot: string | undefined): Promise<string | undefined> {
+        if (!workspaceRoot) return undefined;
+        try {
+            return await this.gitPort.getHeadCommit(workspaceRoot);
+        } catch {
+            // Not a git repository or no commits yet
+            return undefined;
+        }
+    }
+
     private async captureBaseline(
         workspaceRoot: string,
         stateManager: IPanelStateManager
@@ -634,7 +756,7 @@ export class AIDetectionController {
         const commandLine = event.execution.commandLine.value;
 
         // AI 명령 종료 시에만 세션 플러시
-        if (this.isAICommand(commandLine)) {
+        if (this.agentRegistry.matchCommand(commandLine)) {
             console.log(`[Code Squad] AI command ended: ${context.session.type} (${terminalId})`);
             this.flushSession(terminalId);
         }
@@ -646,6 +768,11 @@ export class AIDetectionController {
 
         if (!context) {
             // 세션이 없으면 무시 (싱글 패널은 세션과 독립적으로 유지)
+            // A thread without a worktree still loses its terminal
+            const threadState = await this.threadStateRepository?.findByTerminalId(terminalId);
+            if (threadState && !threadState.worktreePath) {
+                await this.detachLocalThread(threadState);
+            }
             return;
         }
 
@@ -689,11 +816,67 @@ export class AIDetectionController {
 
             this.notifySessionChange();
         } else {
-            // No worktree - just flush session
+            // No worktree - flush session; the thread and its comments stay
             this.flushSession(terminalId);
+            if (threadState) {
+                await this.detachLocalThread(threadState);
+            }
         }
     }
 
+    /**
+     * Keep a thread without a worktree whose terminal closed, marked as detached
+     * so its old terminal ID isn't matched again, and offer it a terminal.
+     */
+    private async detachLocalThread(threadState: ThreadState): Promise<void> {
+        if (!this.threadStateRepository) return;
+
+        try {
+            threadState.detachTerminal();
+            await this.threadStateRepository.save(threadState);
+            this.notifySessionChange();
+        } catch (error) {
+            this.logError('detachLocalThread', error);
+            return;
+        }
+
+        const OPEN = 'Open New Terminal';
+        const ATTACH = 'Attach to Terminal…';
+        const choice = await vscode.window.showInformationMessage(
+            `Thread "${threadState.name}" lost its terminal. Its comments are kept.`,
+            OPEN,
+            ATTACH
+        );
+        if (choice === OPEN) {
+            await this.offerNewTerminals([threadState], false);
+        } else if (choice === ATTACH) {
+            await this.reattachThread(threadState);
+        }
+    }
+
+    /**
+     * Let the user pick an open terminal without a session for a detached thread.
+     */
+    private async reattachThread(threadState: ThreadState): Promise<void> {
+        const items = vscode.window.terminals
+            .map(terminal => ({ terminal, terminalId: this.getTerminalId(terminal) }))
+            .filter(({ terminalId }) => !this.sessions.has(terminalId))
+            .map(({ terminal, terminalId }) => ({ label: terminal.name || `Terminal ${terminalId}`, terminalId }));
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('No terminals without a Code Squad session are open.');
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: `Terminal for thread "${threadState.name}"`,
+        });
+        if (!picked || !this.threadStateRepository) return;
+
+        threadState.reassignTerminal(picked.terminalId);
+        await this.threadStateRepository.updateTerminalId(threadState.threadId, picked.terminalId);
+        await this.attachToTerminalById(picked.terminalId);
+    }
+
     private async handleTerminalFocus(terminal: vscode.Terminal): Promise<void> {
         const terminalId = this.getTerminalId(terminal);
         const context = this.sessions.get(terminalId);
@@ -711,16 +894,7 @@ export class AIDetectionController {
                 const legacyComments = allComments.filter(c => !c.threadId);
                 const threadComments = [...comments, ...legacyComments];
 
-                context.stateManager.setComments(threadComments.map(c => ({
-                    id: c.id,
-                    file: c.file,
-                    line: c.line,
-                    endLine: c.endLine,
-                    text: c.text,
-                    isSubmitted: c.isSubmitted,
-                    codeContext: c.codeContext,
-                    timestamp: c.timestamp,
-                })));
+                context.stateManager.setComments(threadComments.map(toCommentInfo));
             }
 
             // Switch panel to this session's context
@@ -742,7 +916,15 @@ export class AIDetectionController {
                     context.editCommentUseCase,
                     context.deleteCommentUseCase,
                     context.fetchHNStoriesUseCase,
-                    context.generateScopedDiffUseCase
+                    context.generateScopedDiffUseCase,
+                    context.getCommitTimelineUseCase,
+                    context.turnCheckpointsUseCase,
+                    context.applyChunkActionUseCase,
+                    context.commitChangesUseCase,
+                    context.manageCommentThreadsUseCase,
+                    async () => {
+                        await this.fileWatchController?.handleSessionCommit(terminalId);
+                    }
                 );
                 panel.show();
             }
@@ -786,25 +968,38 @@ export class AIDetectionController {
         this.flushSession(terminalId);
     }
 
+    /**
+     * Checkpoint a session's files when its agent finishes a turn,
+     * so the turn can be reviewed or reverted from the panel.
+     */
+    async captureTurnCheckpoint(terminalId: string): Promise<void> {
+        const context = this.sessions.get(terminalId);
+        if (!context) return;
+
+        try {
+            const sessionPaths = context.stateManager.getState().sessionFiles.map(f => f.path);
+            const checkpoint = await context.turnCheckpointsUseCase.capture(sessionPaths);
+            if (checkpoint) {
+                this.log(`📍 captureTurnCheckpoint: turn ${checkpoint.turn}, ${checkpoint.changedFileCount} file(s) changed`);
+                context.stateManager.setCheckpoints(context.turnCheckpointsUseCase.list());
+            }
+        } catch (error) {
+            console.error('[Code Squad] Failed to capture turn checkpoint:', error);
+        }
+    }
+
     /**
      * Detect AI type from terminal name or thread name.
      */
     private detectAITypeFromName(name: string): AIType {
-        const lowerName = name.toLowerCase();
-        if (lowerName.includes('codex')) {
-            return 'codex';
-        }
-        if (lowerName.includes('gemini')) {
-            return 'gemini';
-        }
-        return 'claude';
+        return this.agentRegistry.detectFromName(name) ?? DEFAULT_AGENT_ID;
     }
 
     /**
      * Attach Code Squad to a terminal by its ID.
      * Used when creating threads via the UI.
      */
-    async attachToTerminalById(terminalId: string): Promise<void> {
+    async attachToTerminalById(terminalId: string, reveal = true): Promise<void> {
         const terminal = this.terminalGateway.getTerminal(terminalId);
         if (!terminal) {
             this.log(`⚠️ attachToTerminalById: terminal not found for ${terminalId}`);
@@ -821,13 +1016,64 @@ export class AIDetectionController {
             return;
         }
 
-        // Detect AI type from terminal name or thread state
+        // Use the agent launched with the thread, else detect from terminal name or thread state
         const threadState = await this.threadStateRepository?.findByTerminalId(terminalId);
         const nameToCheck = threadState?.name ?? terminal.name;
-        const aiType = this.detectAITypeFromName(nameToCheck);
+        const aiType = threadState?.agentId ?? this.detectAITypeFromName(nameToCheck);
         this.log(`🔍 attachToTerminalById: detected aiType=${aiType} from name="${nameToCheck}"`);
 
-        await this.activateCodeSquad(aiType, terminal);
+        await this.activateCodeSquad(aiType, terminal, reveal);
+    }
+
+    /**
+     * Rebuild sessions for persisted threads after a window reload.
+     * Threads are matched to the terminals VS Code restored; threads whose
+     * terminal is gone are offered a new one in their worktree.
+     */
+    async restoreSessions(): Promise<void> {
+        if (!this.restoreThreadSessionsUseCase) return;
+
+        try {
+            const { restored, unmatched } = await this.restoreThreadSessionsUseCase.execute();
+            this.log(`♻️ restoreSessions: restored=${restored.length}, unmatched=${unmatched.length}`);
+
+            for (const { threadState, matchedBy } of restored) {
+                this.log(`  Restoring "${threadState.name}" (${threadState.terminalId}) matched by ${matchedBy}`);
+                await this.attachToTerminalById(threadState.terminalId, false);
+            }
+
+            if (unmatched.length > 0) {
+                await this.offerNewTerminals(unmatched);
+            }
+        } catch (error) {
+            this.logError('restoreSessions', error);
+        }
+    }
+
+    /**
+     * Open new terminals for threads without one, asking first unless the user already chose to.
+     */
+    private async offerNewTerminals(threads: ThreadState[], ask = true): Promise<void> {
+        if (!this.reopenThreadTerminalUseCase) return;
+
+        if (ask) {
+            const OPEN = threads.length === 1 ? 'Open Terminal' : 'Open Terminals';
+            const message = threads.length === 1
+                ? `Thread "${threads[0].name}" has no terminal after reload.`
+                : `${threads.length} threads have no terminal after reload.`;
+            const choice = await vscode.window.showInformationMessage(message, OPEN);
+            if (choice !== OPEN) return;
+        }
+
+        for (const thread of threads) {
+            try {
+                const { threadState } = await this.reopenThreadTerminalUseCase.execute({ threadId: thread.threadId });
+                await this.attachToTerminalById(threadState.terminalId);
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to reopen thread "${thread.name}": ${errorMsg}`);
+            }
+        }
     }
 
     /**
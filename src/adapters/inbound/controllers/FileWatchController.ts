@@ -1,14 +1,14 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { exec } from 'child_process';
 import ignore, { Ignore } from 'ignore';
 import { SessionContext } from '../../../application/ports/outbound/SessionContext';
-import { IGitPort } from '../../../application/ports/outbound/IGitPort';
-import { DiffDisplayState, ChunkDisplayInfo, FileInfo } from '../../../application/ports/outbound/PanelState';
+import { IGitPort, FileStatus, ChangedFile } from '../../../application/ports/outbound/IGitPort';
+import { DiffDisplayState, ChunkDisplayInfo, FileInfo, toCommentInfo } from '../../../application/ports/outbound/PanelState';
 import { DiffResult } from '../../../domain/entities/Diff';
 import { IThreadStateRepository } from '../../../application/ports/outbound/IThreadStateRepository';
 import { ITrackFileOwnershipUseCase } from '../../../application/ports/inbound/ITrackFileOwnershipUseCase';
+import { IGetFileConflictsUseCase } from '../../../application/ports/inbound/IGetFileConflictsUseCase';
 import {
     BatchEventCollector,
     IBatchEventCollector,
@@ -139,6 +139,10 @@ export class FileWatchController {
     private threadStateRepository: IThreadStateRepository | undefined;
     /** Use case for tracking file ownership */
     private trackFileOwnershipUseCase: ITrackFileOwnershipUseCase | undefined;
+    /** Use case for finding files modified by several live threads */
+    private getFileConflictsUseCase: IGetFileConflictsUseCase | undefined;
+    /** Called after conflict badges change (e.g. to refresh the thread list) */
+    private onConflictsChanged: (() => void) | undefined;
 
     constructor() {
         this.gitignore = ignore();
@@ -208,6 +212,90 @@ export class FileWatchController {
         this.trackFileOwnershipUseCase = useCase;
     }
 
+    setGetFileConflictsUseCase(useCase: IGetFileConflictsUseCase, onConflictsChanged?: () => void): void {
+        this.getFileConflictsUseCase = useCase;
+        this.onConflictsChanged = onConflictsChanged;
+    }
+
+    /**
+     * Recompute conflict badges for every session.
+     * Only live threads sharing a working directory can conflict;
+     * worktrees have their own copy of each file.
+     */
+    async refreshFileConflicts(): Promise<void> {
+        if (!this.sessions || !this.getFileConflictsUseCase) return;
+
+        const byWorkingDir = new Map<string, SessionContext[]>();
+        for (const session of this.sessions.values()) {
+            const group = byWorkingDir.get(session.workspaceRoot) ?? [];
+            group.push(session);
+            byWorkingDir.set(session.workspaceRoot, group);
+        }
+
+        let changed = false;
+        for (const group of byWorkingDir.values()) {
+            const names = new Map<string, string>();
+            for (const session of group) {
+                if (session.threadState) {
+                    names.set(session.threadState.threadId, session.threadState.name);
+                }
+            }
+            const conflicts = await this.getFileConflictsUseCase.execute({ threadIds: [...names.keys()] });
+
+            for (const session of group) {
+                const threadId = session.threadState?.threadId;
+                const fileConflicts: Record<string, string[]> = {};
+                for (const conflict of conflicts) {
+                    if (!threadId || !conflict.threadIds.includes(threadId)) continue;
+                    fileConflicts[conflict.filePath] = conflict.threadIds
+                        .filter(id => id !== threadId)
+                        .map(id => names.get(id) ?? id);
+                }
+
+                const current = session.stateManager.getState().fileConflicts;
+                if (JSON.stringify(current) !== JSON.stringify(fileConflicts)) {
+                    session.stateManager.setFileConflicts(fileConflicts);
+                    changed = true;
+                }
+            }
+        }
+
+        if (changed) {
+            this.onConflictsChanged?.();
+        }
+    }
+
+    /**
+     * Record that the session's thread modified a file.
+     * Warns the first time it touches a file another live thread in the
+     * same working directory already changed; returns true in that case.
+     */
+    private async trackOwnership(session: SessionContext, filePath: string): Promise<boolean> {
+        const threadState = session.threadState;
+        if (!threadState?.threadId || !this.trackFileOwnershipUseCase) return false;
+
+        const { otherThreadIds, isFirstEdit } = await this.trackFileOwnershipUseCase.execute({
+            filePath,
+            threadId: threadState.threadId,
+        });
+        if (!isFirstEdit || otherThreadIds.length === 0 || !this.sessions) return false;
+
+        const otherNames: string[] = [];
+        for (const other of this.sessions.values()) {
+            if (other.workspaceRoot !== session.workspaceRoot || !other.threadState) continue;
+            if (otherThreadIds.includes(other.threadState.threadId)) {
+                otherNames.push(`"${other.threadState.name}"`);
+            }
+        }
+        if (otherNames.length === 0) return false;
+
+        this.log(`[Conflict] ${filePath}: ${threadState.name} after ${otherNames.join(', ')}`);
+        vscode.window.showWarningMessage(
+            `Agent "${threadState.name}" is editing ${filePath}, which ${otherNames.join(', ')} already changed`
+        );
+        return true;
+    }
+
     /**
      * Set the current thread and apply its whitelist patterns.
      * Called when user selects a thread in ThreadListController.
@@ -678,6 +766,7 @@ export class FileWatchController {
 
                 // Use batch update for single render
                 sessionContext.stateManager.updateSessionFilesBatch(fileInfos);
+                await this.refreshBranchFiles(sessionContext);
 
                 // Auto-mount diff for the focused session
                 await this.maybeAutoMountDiffForFocusedSession(sessionContext, terminalId, fileInfos, 'Batch');
@@ -688,17 +777,18 @@ export class FileWatchController {
             if (focusedThreadId && this.trackFileOwnershipUseCase) {
                 const focusedSession = this.sessions?.get(focusedThreadId);
                 if (focusedSession?.threadState?.threadId) {
+                    let newConflict = false;
                     for (const event of coalesced) {
                         if (event.type !== 'delete') {
                             const relativePath = vscode.workspace.asRelativePath(
                                 vscode.Uri.file(event.uri.fsPath)
                             );
-                            await this.trackFileOwnershipUseCase.execute({
-                                filePath: relativePath,
-                                threadId: focusedSession.threadState.threadId
-                            });
+                            newConflict = await this.trackOwnership(focusedSession, relativePath) || newConflict;
                         }
                     }
+                    if (newConflict) {
+                        await this.refreshFileConflicts();
+                    }
                 }
             }
 
@@ -768,49 +858,59 @@ export class FileWatchController {
         );
         this.gitHeadWatcher = vscode.workspace.createFileSystemWatcher(gitPattern);
 
-        const handleGitChange = async () => {
-            const currentCommit = await this.getCurrentHeadCommit();
-            if (currentCommit && currentCommit !== this.lastHeadCommit) {
-                this.log(`Git commit detected: ${this.lastHeadCommit?.slice(0, 7)} -> ${currentCommit.slice(0, 7)}`);
-                this.lastHeadCommit = currentCommit;
-
-                // Flush pending batch events BEFORE processing commit
-                // This prevents race condition where pending file changes
-                // would re-add files that handleCommit removes
-                if (this.batchCollector && this.batchCollector.pendingCount > 0) {
-                    this.log(`[Commit] Flushing ${this.batchCollector.pendingCount} pending events before commit handling`);
-                    await this.batchCollector.flush();
-                }
-
-                await this.handleCommit();
-            }
-        };
+        const handleGitChange = () => this.handleMainHeadChange();
 
         context.subscriptions.push(this.gitHeadWatcher);
         context.subscriptions.push(this.gitHeadWatcher.onDidChange(handleGitChange));
         context.subscriptions.push(this.gitHeadWatcher.onDidCreate(handleGitChange));
     }
 
+    /**
+     * Refresh the sessions of the main workspace when its HEAD moved.
+     */
+    private async handleMainHeadChange(): Promise<void> {
+        const currentCommit = await this.getCurrentHeadCommit();
+        if (!currentCommit || currentCommit === this.lastHeadCommit) return;
+
+        this.log(`Git commit detected: ${this.lastHeadCommit?.slice(0, 7)} -> ${currentCommit.slice(0, 7)}`);
+        this.lastHeadCommit = currentCommit;
+
+        // Flush pending batch events BEFORE processing commit
+        // This prevents race condition where pending file changes
+        // would re-add files that handleCommit removes
+        if (this.batchCollector && this.batchCollector.pendingCount > 0) {
+            this.log(`[Commit] Flushing ${this.batchCollector.pendingCount} pending events before commit handling`);
+            await this.batchCollector.flush();
+        }
+
+        try {
+            await this.handleCommit();
+        } catch (error) {
+            // git couldn't list changes; keep the session files as they are
+            this.logError('handleCommit', error);
+        }
+    }
+
+    /**
+     * Refresh a session after a commit made from the panel, the same way as
+     * when its git watcher sees HEAD move. The watcher firing afterwards finds
+     * HEAD unchanged and does nothing.
+     */
+    public async handleSessionCommit(terminalId: string): Promise<void> {
+        if (this.sessionWorktreeWatchers.has(terminalId)) {
+            await this.handleWorktreeHeadChange(terminalId);
+        } else {
+            await this.handleMainHeadChange();
+        }
+    }
+
     private async updateLastHeadCommit(): Promise<void> {
         this.lastHeadCommit = await this.getCurrentHeadCommit();
     }
 
     private getCurrentHeadCommit(): Promise<string | undefined> {
         if (!this.workspaceRoot) return Promise.resolve(undefined);
-
-        return new Promise((resolve) => {
-            exec(
-                `cd "${this.workspaceRoot}" && git rev-parse HEAD`,
-                { maxBuffer: 1024 },
-                (error: Error | null, stdout: string) => {
-                    if (error) {
-                        resolve(undefined);
-                    } else {
-                        resolve(stdout.trim());
-                    }
-                }
-            );
-        });
+        return this.getHeadCommitForPath(this.workspaceRoot);
     }
 
     /**
@@ -835,7 +935,6 @@ export class FileWatchController {
 
         // Get current uncommitted files from git
         const uncommittedFiles = await this.gitPort.getUncommittedFilesWithStatus(this.workspaceRoot);
-        const uncommittedPaths = new Set(uncommittedFiles.map(f => f.path));
 
         // Update only sessions that belong to this (main) workspace
         // Worktree sessions are handled separately by handleWorktreeCommit()
@@ -846,35 +945,80 @@ export class FileWatchController {
                 continue;
             }
 
-            const { stateManager } = sessionContext;
-            const currentState = stateManager.getState();
-
-            // Find files that were committed (no longer in uncommitted list)
-            // Also include whitelist files (gitignored) - they should be flushed on commit too
-            // Check both global and per-session whitelist
-            const filesToRemove = currentState.sessionFiles.filter(f => {
-                const isUncommitted = uncommittedPaths.has(f.path);
-                const isInWhitelist = this.isWhitelisted(f.path, sessionContext);
-                // Remove if: (git-tracked AND committed) OR (whitelist file)
-                return !isUncommitted || isInWhitelist;
-            });
+            const removed = await this.refreshSessionAfterCommit(sessionContext, uncommittedFiles, ' ');
+            this.log(`  Session ${terminalId}: removed ${removed} files`);
+        }
+    }
 
-            // Remove files from session
-            for (const file of filesToRemove) {
-                const reason = this.isWhitelisted(file.path, sessionContext) ? 'whitelist' : 'committed';
-                this.log(`  Removing ${reason} file: ${file.path}`);
-                stateManager.removeSessionFile(file.path);
-            }
+    /**
+     * Drop committed files from a session and reset its baseline to what is
+     * still uncommitted. Whitelist files (gitignored files tracked via
+     * includeFiles) are flushed on commit too.
+     * @returns the number of files removed from the session
+     */
+    private async refreshSessionAfterCommit(
+        session: SessionContext,
+        uncommittedFiles: ChangedFile[],
+        logPrefix: string
+    ): Promise<number> {
+        const { stateManager } = session;
+        const uncommittedPaths = new Set(uncommittedFiles.map(f => f.path));
+
+        // Find files that were committed (no longer in uncommitted list)
+        // Check both global and per-session whitelist
+        const filesToRemove = stateManager.getState().sessionFiles.filter(f => {
+            const isUncommitted = uncommittedPaths.has(f.path);
+            const isInWhitelist = this.isWhitelisted(f.path, session);
+            // Remove if: (git-tracked AND committed) OR (whitelist file)
+            return !isUncommitted || isInWhitelist;
+        });
+
+        // Remove files from session
+        for (const file of filesToRemove) {
+            const reason = this.isWhitelisted(file.path, session) ? 'whitelist' : 'committed';
+            this.log(`${logPrefix} Removing ${reason} file: ${file.path}`);
+            stateManager.removeSessionFile(file.path);
+        }
+
+        // Update baseline with current uncommitted files
+        const baselineFiles: FileInfo[] = uncommittedFiles.map(f => ({
+            path: f.path,
+            name: path.basename(f.path),
+            status: f.status,
+        }));
+        stateManager.setBaseline(baselineFiles);
+        await this.refreshCommitTimeline(session);
+        await this.refreshBranchFiles(session);
 
-            // Update baseline with current uncommitted files
-            const baselineFiles: FileInfo[] = uncommittedFiles.map(f => ({
-                path: f.path,
-                name: path.basename(f.path),
-                status: f.status,
-            }));
-            stateManager.setBaseline(baselineFiles);
+        return filesToRemove.length;
+    }
 
-            this.log(`  Session ${terminalId}: removed ${filesToRemove.length} files`);
+    /**
+     * Reload the session's commit timeline so committed work stays reviewable
+     * after its files leave the uncommitted list.
+     */
+    private async refreshCommitTimeline(session: SessionContext): Promise<void> {
+        try {
+            const commits = await session.getCommitTimelineUseCase.execute();
+            session.stateManager.setCommits(commits);
+        } catch (error) {
+            this.log(`  Failed to refresh commit timeline: ${error}`);
+        }
+    }
+
+    /**
+     * Reload the files changed since the thread's base while the session shows
+     * them, so later edits and commits are listed without toggling the base again.
+     */
+    private async refreshBranchFiles(session: SessionContext): Promise<void> {
+        const { generateDiffUseCase, stateManager } = session;
+        if (generateDiffUseCase.getDiffBaseMode() !== 'base') return;
+
+        try {
+            const files = await generateDiffUseCase.getChangedFilesSinceBase();
+            stateManager.setBranchFiles(files.map(f => ({ ...f, name: path.basename(f.path) })));
+        } catch (error) {
+            this.log(`  Failed to refresh branch files: ${error}`);
         }
     }
 
@@ -885,7 +1029,7 @@ export class FileWatchController {
         context: SessionContext,
         relativePath: string,
         fileName: string,
-        status: 'added' | 'modified' | 'deleted'
+        status: FileStatus
     ): Promise<void> {
         const { stateManager, generateDiffUseCase } = context;
         const currentState = stateManager.getState();
@@ -918,9 +1062,41 @@ export class FileWatchController {
                 // Use session's workspaceRoot for worktree support
                 const sessionWorkspaceRoot = context.workspaceRoot || this.workspaceRoot;
                 const displayState = await this.createDiffDisplayState(diffResult, relativePath, sessionWorkspaceRoot);
+                // Context lines the reviewer revealed stay shown
+                displayState.chunks = await generateDiffUseCase.revealContext(
+                    relativePath,
+                    displayState.chunks,
+                    stateManager.getRevealedLines(relativePath)
+                );
                 stateManager.showDiff(displayState);
             }
         }
+
+        await this.reanchorComments(context, relativePath, status);
+    }
+
+    /**
+     * 파일이 바뀌면 그 파일의 코멘트를 코드가 옮겨간 줄로 이동 (수정되면 outdated, 삭제되면 deleted)
+     */
+    private async reanchorComments(context: SessionContext, relativePath: string, status: FileStatus): Promise<void> {
+        const { stateManager, manageCommentThreadsUseCase } = context;
+        const hasComments = stateManager.getState().comments.some((c) => c.file === relativePath);
+        if (!hasComments) return;
+
+        // 삭제된 파일은 빈 내용으로 취급해 코멘트를 deleted로 표시
+        const content = status === 'deleted'
+            ? ''
+            : await this.readFullFileContent(relativePath, context.workspaceRoot || this.workspaceRoot);
+        if (content === null) return;
+
+        const changed = await manageCommentThreadsUseCase.reanchor({
+            file: relativePath,
+            content,
+            threadId: context.threadState?.threadId,
+        });
+        for (const comment of changed) {
+            stateManager.updateComment(toCommentInfo(comment));
+        }
     }
 
     private async createDiffDisplayState(diff: DiffResult, filePath: string, workspaceRoot?: string): Promise<DiffDisplayState> {
@@ -1102,23 +1278,7 @@ export class FileWatchController {
         );
         watcher.headWatcher = vscode.workspace.createFileSystemWatcher(gitPattern);
 
-        const handleGitChange = async () => {
-            const currentCommit = await this.getHeadCommitForPath(sessionWorkspaceRoot);
-            if (currentCommit && currentCommit !== watcher.lastHeadCommit) {
-                this.log(`[Worktree] Git commit detected in ${sessionWorkspaceRoot}: ${watcher.lastHeadCommit?.slice(0, 7)} -> ${currentCommit.slice(0, 7)}`);
-                watcher.lastHeadCommit = currentCommit;
-
-                // Flush pending batch events BEFORE processing commit
-                // This prevents race condition where pending file changes
-                // would re-add files that handleWorktreeCommit removes
-                if (watcher.batchCollector && watcher.batchCollector.pendingCount > 0) {
-                    this.log(`[Worktree:Commit] Flushing ${watcher.batchCollector.pendingCount} pending events before commit handling`);
-                    await watcher.batchCollector.flush();
-                }
-
-                await this.handleWorktreeCommit(terminalId);
-            }
-        };
+        const handleGitChange = () => this.handleWorktreeHeadChange(terminalId);
 
         watcher.headWatcher.onDidChange(handleGitChange);
         watcher.headWatcher.onDidCreate(handleGitChange);
@@ -1305,20 +1465,22 @@ export class FileWatchController {
 
             // Use batch update for single render
             session.stateManager.updateSessionFilesBatch(fileInfos);
+            await this.refreshBranchFiles(session);
 
             // Auto-mount diff for the focused worktree session
             await this.maybeAutoMountDiffForFocusedSession(session, terminalId, fileInfos, 'Worktree:Batch');
 
             // Track file ownership for this worktree session
             if (session.threadState?.threadId && this.trackFileOwnershipUseCase) {
+                let newConflict = false;
                 for (const fileInfo of fileInfos) {
                     if (fileInfo.status !== 'deleted') {
-                        await this.trackFileOwnershipUseCase.execute({
-                            filePath: fileInfo.path,
-                            threadId: session.threadState.threadId
-                        });
+                        newConflict = await this.trackOwnership(session, fileInfo.path) || newConflict;
                     }
                 }
+                if (newConflict) {
+                    await this.refreshFileConflicts();
+                }
             }
 
             const totalTime = Date.now() - startTime;
@@ -1369,10 +1531,9 @@ export class FileWatchController {
 
             // Track file ownership for this worktree session
             if (session.threadState?.threadId && this.trackFileOwnershipUseCase) {
-                await this.trackFileOwnershipUseCase.execute({
-                    filePath: relativePath,
-                    threadId: session.threadState.threadId
-                });
+                if (await this.trackOwnership(session, relativePath)) {
+                    await this.refreshFileConflicts();
+                }
                 this.log(`[Worktree:FSW] Tracked ownership: ${relativePath} -> ${session.threadState.name}`);
             }
         } catch (error) {
@@ -1380,6 +1541,35 @@ export class FileWatchController {
         }
     }
 
+    /**
+     * Refresh a worktree session when the worktree's HEAD moved.
+     */
+    private async handleWorktreeHeadChange(terminalId: string): Promise<void> {
+        const watcher = this.sessionWorktreeWatchers.get(terminalId);
+        if (!watcher) return;
+
+        const currentCommit = await this.getHeadCommitForPath(watcher.workspaceRoot);
+        if (!currentCommit || currentCommit === watcher.lastHeadCommit) return;
+
+        this.log(`[Worktree] Git commit detected in ${watcher.workspaceRoot}: ${watcher.lastHeadCommit?.slice(0, 7)} -> ${currentCommit.slice(0, 7)}`);
+        watcher.lastHeadCommit = currentCommit;
+
+        // Flush pending batch events BEFORE processing commit
+        // This prevents race condition where pending file changes
+        // would re-add files that handleWorktreeCommit removes
+        if (watcher.batchCollector && watcher.batchCollector.pendingCount > 0) {
+            this.log(`[Worktree:Commit] Flushing ${watcher.batchCollector.pendingCount} pending events before commit handling`);
+            await watcher.batchCollector.flush();
+        }
+
+        try {
+            await this.handleWorktreeCommit(terminalId);
+        } catch (error) {
+            // git couldn't list changes; keep the session files as they are
+            this.logError('handleWorktreeCommit', error);
+        }
+    }
+
     /**
      * Handle git commit for a specific worktree session.
      */
@@ -1394,37 +1584,11 @@ export class FileWatchController {
         this.lastWorktreeCommitTimes.set(terminalId, Date.now());
         this.log(`[Worktree] Refreshing session ${terminalId} files after commit...`);
 
-        const { stateManager } = session;
-        const currentState = stateManager.getState();
-
         // Get current uncommitted files from git
         const uncommittedFiles = await this.gitPort.getUncommittedFilesWithStatus(watcher.workspaceRoot);
-        const uncommittedPaths = new Set(uncommittedFiles.map(f => f.path));
-
-        // Find files that were committed
-        // Check both global and per-session whitelist
-        const filesToRemove = currentState.sessionFiles.filter(f => {
-            const isUncommitted = uncommittedPaths.has(f.path);
-            const isInWhitelist = this.isWhitelisted(f.path, session);
-            return !isUncommitted || isInWhitelist;
-        });
-
-        // Remove files from session
-        for (const file of filesToRemove) {
-            const reason = this.isWhitelisted(file.path, session) ? 'whitelist' : 'committed';
-            this.log(`[Worktree] Removing ${reason} file: ${file.path}`);
-            stateManager.removeSessionFile(file.path);
-        }
 
-        // Update baseline
-        const baselineFiles: FileInfo[] = uncommittedFiles.map(f => ({
-            path: f.path,
-            name: path.basename(f.path),
-            status: f.status,
-        }));
-        stateManager.setBaseline(baselineFiles);
-
-        this.log(`[Worktree] Session ${terminalId}: removed ${filesToRemove.length} files`);
+        const removed = await this.refreshSessionAfterCommit(session, uncommittedFiles, '[Worktree]');
+        this.log(`[Worktree] Session ${terminalId}: removed ${removed} files`);
     }
 
     /**
@@ -1491,19 +1655,7 @@ export class FileWatchController {
     /**
      * Get HEAD commit hash for a specific path.
      */
-    private getHeadCommitForPath(workspaceRoot: string): Promise<string | undefined> {
-        return new Promise((resolve) => {
-            exec(
-                `cd "${workspaceRoot}" && git rev-parse HEAD`,
-                { maxBuffer: 1024 },
-                (error: Error | null, stdout: string) => {
-                    if (error) {
-                        resolve(undefined);
-                    } else {
-                        resolve(stdout.trim());
-                    }
-                }
-            );
-        });
+    private async getHeadCommitForPath(workspaceRoot: string): Promise<string | undefined> {
+        return this.gitPort?.getHeadCommit(workspaceRoot).catch(() => undefined);
     }
 }
@@ -1,26 +1,48 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { SessionContext } from '../../../application/ports/outbound/SessionContext';
-import { ThreadListWebviewProvider, CreateThreadOptions } from '../ui/ThreadListWebviewProvider';
+import { ThreadListWebviewProvider, CreateThreadOptions, AgentOption, TemplateOption } from '../ui/ThreadListWebviewProvider';
 import { CodeSquadPanelAdapter } from '../ui/CodeSquadPanelAdapter';
 import { ITerminalPort } from '../../../application/ports/outbound/ITerminalPort';
-import { ICreateThreadUseCase, IsolationMode } from '../../../application/ports/inbound/ICreateThreadUseCase';
+import { ICreateThreadUseCase, CreateThreadInput, IsolationMode } from '../../../application/ports/inbound/ICreateThreadUseCase';
 import { IAttachToWorktreeUseCase } from '../../../application/ports/inbound/IAttachToWorktreeUseCase';
 import { IDeleteThreadUseCase } from '../../../application/ports/inbound/IDeleteThreadUseCase';
 import { IOpenInEditorUseCase } from '../../../application/ports/inbound/IOpenInEditorUseCase';
+import { IMergeThreadUseCase, MergeStrategy } from '../../../application/ports/inbound/IMergeThreadUseCase';
 import { IThreadStateRepository } from '../../../application/ports/outbound/IThreadStateRepository';
 import { FileWatchController } from './FileWatchController';
 import { ICommentRepository } from '../../../application/ports/outbound/ICommentRepository';
 import { IGitPort, WorktreeInfo } from '../../../application/ports/outbound/IGitPort';
-import { FileInfo } from '../../../application/ports/outbound/PanelState';
+import { FileInfo, toCommentInfo } from '../../../application/ports/outbound/PanelState';
+import { ThreadState } from '../../../domain/entities/ThreadState';
+import { ThreadTemplate, parseThreadTemplates, resolveTemplateBranchName } from '../../../domain/entities/ThreadTemplate';
+import { AgentRegistry } from '../../../domain/services/AgentRegistry';
+import { SetupStep, parseSetupSteps } from '../../../domain/entities/SetupStep';
+import { RunWorktreeSetupOutput, SetupProgress } from '../../../application/ports/inbound/IRunWorktreeSetupUseCase';
+import { ISyncWorktreeFilesUseCase } from '../../../application/ports/inbound/ISyncWorktreeFilesUseCase';
+import {
+    WorktreeCopyPatternConfig,
+    normalizeWorktreeCopyPatterns,
+    parseWorktreeCopyPatternConfigs,
+} from '../../../domain/entities/WorktreeCopyPattern';
 
 const LAST_ISOLATION_MODE_KEY = 'codeSquad.lastIsolationMode';
+const LAST_AGENT_KEY = 'codeSquad.lastAgent';
+const STALE_CHECK_DELAY_MS = 1000;
 
 export class ThreadListController {
     private webviewProvider: ThreadListWebviewProvider | undefined;
     private selectedThreadId: string | null = null; // null = "All Agents"
     private disposables: vscode.Disposable[] = [];
     private extensionContext: vscode.ExtensionContext | undefined;
+    private setupOutputChannel: vscode.OutputChannel | undefined;
+    /** Terminal IDs of threads whose worktree setup is still running */
+    private settingUpTerminals = new Set<string>();
+    /** Copied files that differ from the main workspace, per worktree thread terminal */
+    private staleWorktreeFiles = new Map<string, string[]>();
+    private staleCheckTimer: NodeJS.Timeout | undefined;
+    /** File watchers by the copy pattern they watch */
+    private copyPatternWatchers = new Map<string, vscode.Disposable>();
 
     constructor(
         private readonly getSessions: () => Map<string, SessionContext>,
@@ -34,7 +56,10 @@ export class ThreadListController {
         private readonly deleteThreadUseCase?: IDeleteThreadUseCase,
         private readonly threadStateRepository?: IThreadStateRepository,
         private readonly openInEditorUseCase?: IOpenInEditorUseCase,
-        private readonly removeSession?: (terminalId: string) => void
+        private readonly removeSession?: (terminalId: string) => void,
+        private readonly mergeThreadUseCase?: IMergeThreadUseCase,
+        private readonly agentRegistry?: AgentRegistry,
+        private readonly syncWorktreeFilesUseCase?: ISyncWorktreeFilesUseCase
     ) {}
 
     activate(context: vscode.ExtensionContext): void {
@@ -51,7 +76,14 @@ export class ThreadListController {
             (id) => this.deleteThread(id),
             (id) => this.openInEditor(id),
             () => this.getAvailableWorktreeCount(),
-            () => this.getLastIsolationMode()
+            () => this.getLastIsolationMode(),
+            (id) => this.mergeThread(id),
+            () => this.getAgentOptions(),
+            () => this.getLastAgent(),
+            () => this.getTemplateOptions(),
+            (id) => this.settingUpTerminals.has(id),
+            (id) => this.staleWorktreeFiles.get(id) ?? [],
+            (id) => this.syncWorktreeFiles(id)
         );
 
         // Register webview view provider
@@ -62,6 +94,8 @@ export class ThreadListController {
         );
         context.subscriptions.push(registration);
         this.disposables.push(registration);
+
+        this.watchCopyPatterns();
     }
 
     /**
@@ -116,16 +150,7 @@ export class ThreadListController {
             const legacyComments = allComments.filter(c => !c.threadId);
             const threadComments = [...comments, ...legacyComments];
 
-            context.stateManager.setComments(threadComments.map(c => ({
-                id: c.id,
-                file: c.file,
-                line: c.line,
-                endLine: c.endLine,
-                text: c.text,
-                isSubmitted: c.isSubmitted,
-                codeContext: c.codeContext,
-                timestamp: c.timestamp,
-            })));
+            context.stateManager.setComments(threadComments.map(toCommentInfo));
         }
 
         // Show terminal for this session
@@ -145,7 +170,12 @@ export class ThreadListController {
                 context.editCommentUseCase,
                 context.deleteCommentUseCase,
                 context.fetchHNStoriesUseCase,
-                context.generateScopedDiffUseCase
+                context.generateScopedDiffUseCase,
+                context.getCommitTimelineUseCase,
+                context.turnCheckpointsUseCase,
+                context.applyChunkActionUseCase,
+                context.commitChangesUseCase,
+                context.manageCommentThreadsUseCase
             );
             panel.show();
         }
@@ -195,62 +225,164 @@ export class ThreadListController {
      * Call when sessions change.
      */
     refresh(): void {
+        // Worktree threads not checked yet (new or just attached)
+        for (const [terminalId, ctx] of this.getSessions()) {
+            if (ctx.threadState?.worktreePath && !this.staleWorktreeFiles.has(terminalId)) {
+                // A thread created from a template may copy files no watcher covers yet
+                const unwatched = [...this.getCopiedPatterns()].some(p => !this.copyPatternWatchers.has(p));
+                if (unwatched) {
+                    this.watchCopyPatterns();
+                } else {
+                    this.scheduleStaleCheck();
+                }
+                break;
+            }
+        }
         this.webviewProvider?.refresh();
     }
 
     /**
-     * Update thread selection without triggering full selectThread logic.
-     * Used when terminal is focused externally (e.g., clicking terminal panel).
+     * Watch copied files in the main workspace so drifted worktree copies are flagged.
+     * Covers the configured patterns and those of each worktree thread.
+     * Called again when `codeSquad.worktreeCopyPatterns` changes.
      */
-    updateSelectedThread(terminalId: string): void {
-        this.selectedThreadId = terminalId;
-        this.webviewProvider?.setSelectedId(terminalId);
+    watchCopyPatterns(): void {
+        for (const watcher of this.copyPatternWatchers.values()) {
+            watcher.dispose();
+        }
+        this.copyPatternWatchers.clear();
+
+        const workspaceRoot = this.getWorkspaceRoot();
+        if (!workspaceRoot) return;
+
+        for (const pattern of this.getCopiedPatterns()) {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceRoot, pattern));
+            watcher.onDidCreate(() => this.scheduleStaleCheck());
+            watcher.onDidChange(() => this.scheduleStaleCheck());
+            watcher.onDidDelete(() => this.scheduleStaleCheck());
+            this.copyPatternWatchers.set(pattern, watcher);
+        }
+        this.scheduleStaleCheck();
     }
 
     /**
-     * Create a thread from webview input.
+     * Copied patterns of the configuration and of each worktree thread.
+     * Symlinks follow the source, so only copies can drift.
      */
-    private async createThreadFromInput(options: CreateThreadOptions): Promise<void> {
-        if (!this.createThreadUseCase) {
-            vscode.window.showErrorMessage('Create thread use case not available');
-            return;
-        }
+    private getCopiedPatterns(): Set<string> {
+        const threadConfigs = [...this.getSessions().values()].flatMap(ctx =>
+            ctx.threadState?.worktreePath ? this.getThreadCopyPatterns(ctx.threadState) : []
+        );
+        const patterns = normalizeWorktreeCopyPatterns([...this.getWorktreeCopyPatterns(), ...threadConfigs]);
+        return new Set(patterns.filter(p => p.mode === 'copy').map(p => p.pattern));
+    }
+
+    /**
+     * Stale-copy check shortly after the first request, so bursts of file events run one comparison.
+     */
+    private scheduleStaleCheck(): void {
+        if (!this.syncWorktreeFilesUseCase || this.staleCheckTimer) return;
+        this.staleCheckTimer = setTimeout(() => {
+            this.staleCheckTimer = undefined;
+            void this.checkStaleWorktreeFiles();
+        }, STALE_CHECK_DELAY_MS);
+    }
 
+    /**
+     * Compare each worktree thread's copied files with the main workspace.
+     */
+    private async checkStaleWorktreeFiles(): Promise<void> {
         const workspaceRoot = this.getWorkspaceRoot();
-        if (!workspaceRoot) {
-            vscode.window.showErrorMessage('No workspace folder open');
-            return;
+        if (!this.syncWorktreeFilesUseCase || !workspaceRoot) return;
+
+        const checked = new Map<string, string[]>();
+        for (const [terminalId, ctx] of this.getSessions()) {
+            const threadState = ctx.threadState;
+            const worktreePath = threadState?.worktreePath;
+            if (!threadState || !worktreePath) continue;
+            try {
+                const { stale } = await this.syncWorktreeFilesUseCase.execute({
+                    workspaceRoot,
+                    worktreePath,
+                    patterns: this.getThreadCopyPatterns(threadState),
+                    checkOnly: true,
+                });
+                checked.set(terminalId, stale);
+            } catch (error) {
+                console.warn(`[Code Squad] Failed to check worktree files for ${worktreePath}:`, error);
+                checked.set(terminalId, []);
+            }
         }
 
+        this.staleWorktreeFiles = checked;
+        this.webviewProvider?.refresh();
+    }
+
+    /**
+     * Copy stale files and missing links from the main workspace into a thread's worktree.
+     */
+    async syncWorktreeFiles(id: string): Promise<void> {
+        const threadState = this.getSessions().get(id)?.threadState;
+        const worktreePath = threadState?.worktreePath;
+        const workspaceRoot = this.getWorkspaceRoot();
+        if (!this.syncWorktreeFilesUseCase || !threadState || !worktreePath || !workspaceRoot) return;
+
         try {
-            const result = await this.createThreadUseCase.execute({
-                name: options.name.trim(),
-                isolationMode: options.isolationMode,
-                branchName: options.branchName?.trim(),
-                worktreePath: options.worktreePath?.trim(),
+            const { synced, stale } = await this.syncWorktreeFilesUseCase.execute({
                 workspaceRoot,
-                worktreeCopyPatterns: this.getWorktreeCopyPatterns(),
+                worktreePath,
+                patterns: this.getThreadCopyPatterns(threadState),
             });
-
-            // Save last used isolation mode
-            this.saveLastIsolationMode(options.isolationMode);
-
-            // Auto-attach Code Squad to the new terminal
-            if (this.attachCodeSquad) {
-                await this.attachCodeSquad(result.threadState.terminalId);
+            this.staleWorktreeFiles.set(id, stale);
+            this.webviewProvider?.refresh();
+
+            if (stale.length > 0) {
+                vscode.window.showWarningMessage(`Re-synced ${synced.length} file(s); ${stale.length} could not be updated: ${stale.join(', ')}`);
+            } else {
+                vscode.window.showInformationMessage(synced.length > 0
+                    ? `Re-synced ${synced.length} file(s) into the worktree`
+                    : 'Worktree files are up to date');
             }
-
-            // Refresh and select new thread
-            this.refresh();
-            await this.selectThread(result.threadState.terminalId);
-
-            vscode.window.showInformationMessage(`Agent "${options.name.trim()}" created`);
         } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
-            vscode.window.showErrorMessage(`Failed to create agent: ${message}`);
+            vscode.window.showErrorMessage(`Failed to re-sync worktree files: ${message}`);
         }
     }
 
+    /**
+     * Resend agents and templates to the create-thread form after settings change.
+     */
+    refreshCreateOptions(): void {
+        this.webviewProvider?.sendWorkspaceInfo();
+    }
+
+    /**
+     * Update thread selection without triggering full selectThread logic.
+     * Used when terminal is focused externally (e.g., clicking terminal panel).
+     */
+    updateSelectedThread(terminalId: string): void {
+        this.selectedThreadId = terminalId;
+        this.webviewProvider?.setSelectedId(terminalId);
+    }
+
+    /**
+     * Create a thread from webview input.
+     */
+    private async createThreadFromInput(options: CreateThreadOptions): Promise<void> {
+        const template = options.templateName
+            ? this.getThreadTemplates().find(t => t.name === options.templateName)
+            : undefined;
+
+        await this.executeCreateThread({
+            name: options.name.trim(),
+            isolationMode: options.isolationMode,
+            branchName: options.branchName?.trim(),
+            worktreePath: options.worktreePath?.trim(),
+            agentId: options.agentId || undefined,
+            initialPrompt: options.initialPrompt?.trim() || undefined,
+        }, template);
+    }
+
     /**
      * Create a new agent thread with interactive quick pick flow.
      */
@@ -260,12 +392,25 @@ export class ThreadListController {
             return;
         }
 
-        const workspaceRoot = this.getWorkspaceRoot();
-        if (!workspaceRoot) {
+        if (!this.getWorkspaceRoot()) {
             vscode.window.showErrorMessage('No workspace folder open');
             return;
         }
 
+        // Step 0: Template (only when templates are configured)
+        let template: ThreadTemplate | undefined;
+        const templates = this.getThreadTemplates();
+        if (templates.length > 0) {
+            const templatePick = await vscode.window.showQuickPick([
+                ...templates.map(t => ({ label: t.name, description: t.description, template: t as ThreadTemplate | undefined })),
+                { label: 'No template', description: 'Choose every option', template: undefined },
+            ], {
+                placeHolder: 'Select thread template',
+            });
+            if (!templatePick) return;
+            template = templatePick.template;
+        }
+
         // Step 1: Name input
         const name = await vscode.window.showInputBox({
             prompt: 'Enter agent name',
@@ -274,55 +419,221 @@ export class ThreadListController {
         });
         if (!name) return;
 
-        // Step 2: Isolation mode
-        const isolationPick = await vscode.window.showQuickPick([
-            { label: 'Local', description: 'Work in current workspace', mode: 'none' as IsolationMode },
-            { label: 'Worktree', description: 'Create isolated worktree for parallel work', mode: 'worktree' as IsolationMode },
-        ], {
-            placeHolder: 'Select isolation mode',
-        });
-        if (!isolationPick) return;
+        // Step 2: Isolation mode (preset by template)
+        let isolationMode: IsolationMode;
+        if (template?.isolationMode) {
+            isolationMode = template.isolationMode === 'worktree' ? 'worktree' : 'none';
+        } else {
+            const isolationPick = await vscode.window.showQuickPick([
+                { label: 'Local', description: 'Work in current workspace', mode: 'none' as IsolationMode },
+                { label: 'Worktree', description: 'Create isolated worktree for parallel work', mode: 'worktree' as IsolationMode },
+            ], {
+                placeHolder: 'Select isolation mode',
+            });
+            if (!isolationPick) return;
+            isolationMode = isolationPick.mode;
+        }
 
         // Step 3: Branch name (for worktree)
         let branchName: string | undefined;
-        if (isolationPick.mode === 'worktree') {
+        if (isolationMode === 'worktree') {
+            const defaultBranch = resolveTemplateBranchName(template, name);
             branchName = await vscode.window.showInputBox({
                 prompt: 'Branch name',
-                value: name.trim(),
-                placeHolder: name.trim(),
+                value: defaultBranch,
+                placeHolder: defaultBranch,
             });
             if (branchName === undefined) return;
         }
 
-        // Execute
+        // Step 4: Agent CLI to start in the terminal (preset by template)
+        let agentPick: { label: string; agentId?: string; acceptsPrompt: boolean } | undefined;
+        if (template?.agent !== undefined) {
+            const agent = this.getAgentOptions().find(a => a.id === template?.agent);
+            agentPick = agent
+                ? { label: agent.displayName, agentId: agent.id, acceptsPrompt: agent.acceptsPrompt }
+                : { label: 'None', acceptsPrompt: false };
+        } else {
+            agentPick = await this.pickAgent();
+            if (!agentPick) return;
+        }
+
+        // Step 5: Initial prompt (only for agents that accept one)
+        let initialPrompt: string | undefined;
+        if (agentPick.acceptsPrompt) {
+            initialPrompt = await vscode.window.showInputBox({
+                prompt: `Initial prompt for ${agentPick.label} (optional)`,
+                placeHolder: 'Leave empty to start without a prompt',
+            });
+            if (initialPrompt === undefined) return;
+        }
+
+        await this.executeCreateThread({
+            name: name.trim(),
+            isolationMode,
+            branchName: branchName?.trim(),
+            agentId: agentPick.agentId,
+            initialPrompt: initialPrompt?.trim() || undefined,
+        }, template);
+    }
+
+    /**
+     * Run the create-thread use case, applying template presets, then attach and select the thread.
+     */
+    private async executeCreateThread(
+        input: Omit<CreateThreadInput, 'workspaceRoot'>,
+        template?: ThreadTemplate
+    ): Promise<void> {
+        if (!this.createThreadUseCase) {
+            vscode.window.showErrorMessage('Create thread use case not available');
+            return;
+        }
+
+        const workspaceRoot = this.getWorkspaceRoot();
+        if (!workspaceRoot) {
+            vscode.window.showErrorMessage('No workspace folder open');
+            return;
+        }
+
+        const setupSteps = template?.setupSteps ?? this.getWorktreeSetupSteps();
+        const setupLog = input.isolationMode === 'worktree' && setupSteps.length > 0
+            ? this.startSetupLog(input.name)
+            : undefined;
+        let reportProgress: ((progress: SetupProgress) => void) | undefined;
+        let pendingProgress: SetupProgress | undefined;
+
         try {
             const result = await this.createThreadUseCase.execute({
-                name: name.trim(),
-                isolationMode: isolationPick.mode,
-                branchName: branchName?.trim(),
+                ...input,
                 workspaceRoot,
-                worktreeCopyPatterns: this.getWorktreeCopyPatterns(),
+                worktreeCopyPatterns: template?.worktreeCopyPatterns ?? this.getWorktreeCopyPatterns(),
+                setupCommand: template?.setupCommand,
+                whitelistPatterns: template?.whitelistPatterns,
+                setupSteps,
+                // First step starts before the progress notification is shown
+                onSetupProgress: (progress) => {
+                    pendingProgress = progress;
+                    reportProgress?.(progress);
+                },
+                onSetupOutput: setupLog,
             });
 
-            // Save last used isolation mode
-            this.saveLastIsolationMode(isolationPick.mode);
+            // Save last used isolation mode and agent
+            this.saveLastIsolationMode(input.isolationMode);
+            this.saveLastAgent(input.agentId ?? '');
+
+            const terminalId = result.threadState.terminalId;
+            if (result.setup) {
+                this.settingUpTerminals.add(terminalId);
+                void this.trackWorktreeSetup(input.name, terminalId, result.setup, (report) => {
+                    reportProgress = report;
+                    if (pendingProgress) report(pendingProgress);
+                });
+            }
 
             // Auto-attach Code Squad to the new terminal
             if (this.attachCodeSquad) {
-                await this.attachCodeSquad(result.threadState.terminalId);
+                await this.attachCodeSquad(terminalId);
             }
 
             // Refresh and select new thread
             this.refresh();
-            await this.selectThread(result.threadState.terminalId);
+            await this.selectThread(terminalId);
 
-            vscode.window.showInformationMessage(`Agent "${name.trim()}" created`);
+            vscode.window.showInformationMessage(
+                result.setup ? `Agent "${input.name}" created, setting up worktree…` : `Agent "${input.name}" created`
+            );
         } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
             vscode.window.showErrorMessage(`Failed to create agent: ${message}`);
         }
     }
 
+    /**
+     * Show worktree setup progress until it finishes, then report failures.
+     */
+    private async trackWorktreeSetup(
+        name: string,
+        terminalId: string,
+        setup: Promise<RunWorktreeSetupOutput>,
+        onReporter: (report: (progress: SetupProgress) => void) => void
+    ): Promise<void> {
+        let result: RunWorktreeSetupOutput;
+        try {
+            result = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Setting up "${name}"`,
+            }, (progress) => {
+                onReporter(({ step, index, total }) => {
+                    progress.report({ message: `${step.name} (${index + 1}/${total})` });
+                });
+                return setup;
+            });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            result = { success: false, error: message };
+        } finally {
+            this.settingUpTerminals.delete(terminalId);
+            this.refresh();
+        }
+
+        if (result.success) return;
+
+        const step = result.failedStep ? ` at "${result.failedStep}"` : '';
+        const action = await vscode.window.showErrorMessage(
+            `Worktree setup for "${name}" failed${step}: ${result.error ?? 'unknown error'}. The agent was not started.`,
+            'Show Log'
+        );
+        if (action === 'Show Log') {
+            this.setupOutputChannel?.show(true);
+        }
+    }
+
+    /**
+     * Start a section in the setup output channel; returns a writer for it.
+     */
+    private startSetupLog(name: string): (text: string) => void {
+        if (!this.setupOutputChannel) {
+            this.setupOutputChannel = vscode.window.createOutputChannel('Code Squad: Worktree Setup');
+            this.disposables.push(this.setupOutputChannel);
+        }
+        const channel = this.setupOutputChannel;
+        channel.appendLine(`=== ${name} (${new Date().toLocaleString()}) ===`);
+        return (text) => channel.append(text);
+    }
+
+    /**
+     * Show agent picker for the create-thread flow.
+     * The last used agent is listed first; "None" opens an empty terminal.
+     */
+    private async pickAgent(): Promise<{ label: string; agentId?: string; acceptsPrompt: boolean } | undefined> {
+        const lastAgent = this.getLastAgent();
+        const items = this.getAgentOptions().map(agent => ({
+            label: agent.displayName,
+            description: agent.command,
+            agentId: agent.id as string | undefined,
+            acceptsPrompt: agent.acceptsPrompt,
+        }));
+        items.sort((a, b) => Number(b.agentId === lastAgent) - Number(a.agentId === lastAgent));
+        items.push({ label: 'None', description: 'Open an empty terminal', agentId: undefined, acceptsPrompt: false });
+
+        return vscode.window.showQuickPick(items, {
+            placeHolder: 'Select agent to start',
+        });
+    }
+
+    /**
+     * Agents that can be started in a new thread, for the pickers.
+     */
+    private getAgentOptions(): AgentOption[] {
+        return (this.agentRegistry?.getLaunchable() ?? []).map(agent => ({
+            id: agent.id,
+            displayName: agent.displayName,
+            command: agent.launch?.command ?? agent.id,
+            acceptsPrompt: !!agent.launch?.promptArgs,
+        }));
+    }
+
     /**
      * Get workspace root folder path.
      */
@@ -330,12 +641,49 @@ export class ThreadListController {
         return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
     }
 
+    /**
+     * Get thread templates from configuration.
+     */
+    private getThreadTemplates(): ThreadTemplate[] {
+        const config = vscode.workspace.getConfiguration('codeSquad');
+        return parseThreadTemplates(config.get<unknown>('threadTemplates', []));
+    }
+
+    /**
+     * Templates offered in the create-thread form.
+     */
+    private getTemplateOptions(): TemplateOption[] {
+        return this.getThreadTemplates().map(t => ({
+            name: t.name,
+            description: t.description,
+            isolationMode: t.isolationMode === 'worktree' ? 'worktree' : t.isolationMode === 'local' ? 'none' : undefined,
+            branchPattern: t.branchPattern,
+            agent: t.agent,
+        }));
+    }
+
     /**
      * Get worktree copy patterns from configuration.
      */
-    private getWorktreeCopyPatterns(): string[] {
+    private getWorktreeCopyPatterns(): WorktreeCopyPatternConfig[] {
         const config = vscode.workspace.getConfiguration('codeSquad');
-        return config.get<string[]>('worktreeCopyPatterns', []);
+        return parseWorktreeCopyPatternConfigs(config.get<unknown>('worktreeCopyPatterns', []));
+    }
+
+    /**
+     * Copy patterns a thread's worktree was created with, or the configured
+     * ones for threads created before they were recorded.
+     */
+    private getThreadCopyPatterns(threadState: ThreadState): WorktreeCopyPatternConfig[] {
+        return threadState.worktreeCopyPatterns ?? this.getWorktreeCopyPatterns();
+    }
+
+    /**
+     * Get worktree setup steps from configuration.
+     */
+    private getWorktreeSetupSteps(): SetupStep[] {
+        const config = vscode.workspace.getConfiguration('codeSquad');
+        return parseSetupSteps(config.get<unknown>('worktreeSetupSteps', []));
     }
 
     /**
@@ -545,6 +893,98 @@ export class ThreadListController {
             if (!result || result.title === 'Cancel') return;
         }
 
+        await this.cleanupThread(thread, workspaceRoot, removeWorktree);
+    }
+
+    /**
+     * Merge a worktree thread into its base branch, then clean it up.
+     * Worktree and branch are kept when the merge fails or conflicts.
+     */
+    async mergeThread(threadId: string): Promise<void> {
+        if (!this.mergeThreadUseCase || !this.deleteThreadUseCase || !this.threadStateRepository) {
+            vscode.window.showErrorMessage('Merge thread use case not available');
+            return;
+        }
+
+        const thread = await this.threadStateRepository.findById(threadId);
+        if (!thread || !thread.branch || !thread.worktreePath) return;
+
+        const workspaceRoot = this.getWorkspaceRoot();
+        if (!workspaceRoot) {
+            vscode.window.showErrorMessage('No workspace folder open');
+            return;
+        }
+
+        const baseLabel = thread.baseBranch ?? 'current branch';
+
+        // Step 1: Merge strategy
+        const strategyPick = await vscode.window.showQuickPick([
+            { label: 'Merge', description: `Create a merge commit on ${baseLabel}`, strategy: 'merge' as MergeStrategy },
+            { label: 'Squash', description: `Squash all commits into one commit on ${baseLabel}`, strategy: 'squash' as MergeStrategy },
+            { label: 'Rebase', description: `Rebase onto ${baseLabel} and fast-forward`, strategy: 'rebase' as MergeStrategy },
+        ], {
+            placeHolder: `Merge "${thread.branch}" into ${baseLabel}`,
+        });
+        if (!strategyPick) return;
+
+        // Step 2: Commit message (not used by rebase, which fast-forwards)
+        let commitMessage: string | undefined;
+        if (strategyPick.strategy !== 'rebase') {
+            commitMessage = await vscode.window.showInputBox({
+                prompt: 'Commit message',
+                value: strategyPick.strategy === 'squash'
+                    ? thread.name
+                    : `Merge thread "${thread.name}" (${thread.branch})`,
+            });
+            if (commitMessage === undefined) return;
+        }
+
+        // Step 3: Confirm cleanup
+        const confirm = await vscode.window.showWarningMessage(
+            `Merge "${thread.branch}" into ${baseLabel} and clean up thread "${thread.name}"?`,
+            { modal: true, detail: 'The terminal will be closed and the worktree and branch deleted after a successful merge.' },
+            { title: 'Merge & Clean up' },
+            { title: 'Cancel', isCloseAffordance: true }
+        );
+        if (!confirm || confirm.title === 'Cancel') return;
+
+        // Step 4: Merge
+        const result = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Merging "${thread.branch}"...` },
+            () => this.mergeThreadUseCase!.execute({
+                threadId,
+                workspaceRoot,
+                strategy: strategyPick.strategy,
+                commitMessage,
+            })
+        );
+
+        if (result.conflicts.length > 0) {
+            vscode.window.showWarningMessage(
+                `"${thread.branch}" conflicts with ${result.baseBranch} in ${result.conflicts.length} file(s). ` +
+                `Worktree and branch were kept.`,
+                { modal: true, detail: result.conflicts.join('\n') }
+            );
+            return;
+        }
+
+        if (!result.success) {
+            vscode.window.showErrorMessage(`Failed to merge thread: ${result.error}. Worktree and branch were kept.`);
+            return;
+        }
+
+        // Step 5: Clean up only after a successful merge
+        await this.cleanupThread(thread, workspaceRoot, true);
+
+        vscode.window.showInformationMessage(`Agent "${thread.name}" merged into ${result.baseBranch}`);
+    }
+
+    /**
+     * Remove the thread's session and delete it (terminal, comments, optionally worktree).
+     */
+    private async cleanupThread(thread: ThreadState, workspaceRoot: string, removeWorktree: boolean): Promise<void> {
+        if (!this.deleteThreadUseCase) return;
+
         // Remove session BEFORE executing deletion
         // This prevents handleTerminalClose from showing another dialog
         // when the terminal is closed by deleteThreadUseCase
@@ -552,7 +992,7 @@ export class ThreadListController {
             this.removeSession(thread.terminalId);
         }
         await this.deleteThreadUseCase.execute({
-            threadId,
+            threadId: thread.threadId,
             workspaceRoot,
             closeTerminal: true, // Always close terminal when deleting thread
             removeWorktree
@@ -608,6 +1048,17 @@ export class ThreadListController {
         return this.extensionContext.globalState.get<IsolationMode>(LAST_ISOLATION_MODE_KEY) ?? 'none';
     }
 
+    /**
+     * Get last used agent id from global state ('' = none).
+     */
+    private getLastAgent(): string {
+        return this.extensionContext?.globalState.get<string>(LAST_AGENT_KEY) ?? '';
+    }
+
+    private saveLastAgent(agentId: string): void {
+        this.extensionContext?.globalState.update(LAST_AGENT_KEY, agentId);
+    }
+
     /**
      * Save last used isolation mode to global state.
      */
@@ -620,7 +1071,10 @@ export class ThreadListController {
     }
 
     dispose(): void {
-        for (const d of this.disposables) {
+        if (this.staleCheckTimer) {
+            clearTimeout(this.staleCheckTimer);
+        }
+        for (const d of [...this.disposables, ...this.copyPatternWatchers.values()]) {
             d.dispose();
         }
     }
@@ -1,18 +1,40 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { PanelState, DiffDisplayState, ChunkDisplayInfo, ScopedDiffDisplayState, ScopedChunkDisplay } from '../../../application/ports/outbound/PanelState';
+import { PanelState, DiffDisplayState, ChunkDisplayInfo, ImagePreview, ScopedDiffDisplayState, ScopedChunkDisplay, toCommentInfo } from '../../../application/ports/outbound/PanelState';
 import { IGenerateDiffUseCase } from '../../../application/ports/inbound/IGenerateDiffUseCase';
 import { IGenerateScopedDiffUseCase } from '../../../application/ports/inbound/IGenerateScopedDiffUseCase';
+import { IGetCommitTimelineUseCase } from '../../../application/ports/inbound/IGetCommitTimelineUseCase';
+import { ITurnCheckpointsUseCase, TurnDiffScope } from '../../../application/ports/inbound/ITurnCheckpointsUseCase';
+import { IApplyChunkActionUseCase, ChunkAction } from '../../../application/ports/inbound/IApplyChunkActionUseCase';
+import { ICommitChangesUseCase, CommitChangesResult } from '../../../application/ports/inbound/ICommitChangesUseCase';
 import { IAddCommentUseCase } from '../../../application/ports/inbound/IAddCommentUseCase';
 import { IEditCommentUseCase } from '../../../application/ports/inbound/IEditCommentUseCase';
 import { IDeleteCommentUseCase } from '../../../application/ports/inbound/IDeleteCommentUseCase';
+import { IManageCommentThreadsUseCase } from '../../../application/ports/inbound/IManageCommentThreadsUseCase';
 import { IFetchHNStoriesUseCase } from '../../../application/ports/inbound/IFetchHNStoriesUseCase';
 import { IPanelStateManager } from '../../../application/services/IPanelStateManager';
 import { ISymbolPort, ScopeInfo } from '../../../application/ports/outbound/ISymbolPort';
-import { DiffResult, DiffChunk, DiffLine } from '../../../domain/entities/Diff';
+import { ContextExpansion, DiffResult, DiffChunk, DiffLine, DiffOptions } from '../../../domain/entities/Diff';
 import { ScopedDiffResult, ScopedChunk } from '../../../domain/entities/ScopedDiff';
 import { getWebviewContent } from './webview';
 
+const DIFF_OPTION_KEYS: (keyof DiffOptions)[] = ['ignoreWhitespace', 'ignoreBlankLines', 'detectMoves'];
+
+/** Files shown as pictures before and after the change, by extension */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.bmp': 'image/bmp',
+    '.ico': 'image/x-icon',
+    '.svg': 'image/svg+xml',
+};
+
+/** Larger images are not sent to the webview */
+const MAX_IMAGE_PREVIEW_BYTES = 5 * 1024 * 1024;
+
 /**
  * Webview Panel Adapter (Inbound Adapter)
  *
@@ -45,11 +67,17 @@ export class CodeSquadPanelAdapter {
     // Inbound handlers (webview → application)
     private generateDiffUseCase: IGenerateDiffUseCase | undefined;
     private generateScopedDiffUseCase: IGenerateScopedDiffUseCase | undefined;
+    private getCommitTimelineUseCase: IGetCommitTimelineUseCase | undefined;
+    private turnCheckpointsUseCase: ITurnCheckpointsUseCase | undefined;
+    private applyChunkActionUseCase: IApplyChunkActionUseCase | undefined;
+    private commitChangesUseCase: ICommitChangesUseCase | undefined;
     private addCommentUseCase: IAddCommentUseCase | undefined;
     private editCommentUseCase: IEditCommentUseCase | undefined;
     private deleteCommentUseCase: IDeleteCommentUseCase | undefined;
+    private manageCommentThreadsUseCase: IManageCommentThreadsUseCase | undefined;
     private fetchHNStoriesUseCase: IFetchHNStoriesUseCase | undefined;
     private onSubmitComments: (() => Promise<void>) | undefined;
+    private onCommitted: (() => Promise<void>) | undefined;
     private panelStateManager: IPanelStateManager | undefined;
     private symbolPort: ISymbolPort | undefined;
     private workspaceRoot: string | undefined;
@@ -148,6 +176,57 @@ export class CodeSquadPanelAdapter {
                     case 'toggleUncommitted':
                         this.panelStateManager?.toggleShowUncommitted();
                         break;
+                    case 'toggleDiffBase':
+                        await this.handleToggleDiffBase();
+                        break;
+                    case 'toggleDiffOption':
+                        await this.handleToggleDiffOption(message.option);
+                        break;
+                    case 'expandContext':
+                        await this.handleExpandContext(message.gap, message.direction);
+                        break;
+                    case 'selectCommit':
+                        await this.handleSelectCommit(message.sha);
+                        break;
+                    case 'clearCommit':
+                        this.panelStateManager?.clearSelectedCommit();
+                        break;
+                    case 'selectTurn':
+                        await this.handleSelectTurn(message.turn, message.scope);
+                        break;
+                    case 'clearTurn':
+                        this.panelStateManager?.clearSelectedTurn();
+                        break;
+                    case 'revertToCheckpoint':
+                        await this.handleRevertToCheckpoint(message.turn);
+                        break;
+                    case 'discardChunk':
+                        await this.handleChunkAction('discard', message.index);
+                        break;
+                    case 'stageChunk':
+                        await this.handleChunkAction('stage', message.index);
+                        break;
+                    case 'discardLines':
+                        await this.handleLineAction('discard', message.startLine, message.endLine);
+                        break;
+                    case 'stageLines':
+                        await this.handleLineAction('stage', message.startLine, message.endLine);
+                        break;
+                    case 'setFileChecked':
+                        this.panelStateManager?.setFileChecked(message.file, !!message.checked);
+                        break;
+                    case 'setCheckedFiles':
+                        this.panelStateManager?.setCheckedFiles(message.files ?? []);
+                        break;
+                    case 'stageFiles':
+                        await this.handleStageFiles();
+                        break;
+                    case 'commitFiles':
+                        await this.handleCommitFiles(message.message);
+                        break;
+                    case 'draftCommitMessage':
+                        this.handleDraftCommitMessage();
+                        break;
                     case 'toggleChunkCollapse':
                         this.panelStateManager?.toggleChunkCollapse(message.index);
                         break;
@@ -172,6 +251,7 @@ export class CodeSquadPanelAdapter {
                         if (this.panelStateManager) {
                             const state = this.panelStateManager.getState();
                             const current = state.diffViewMode;
+                            const layout = this.panelStateManager.getDiffLayout();
                             const selectedFile = state.selectedFile || '';
                             const isMarkdown = selectedFile.endsWith('.md') ||
                                 selectedFile.endsWith('.markdown') ||
@@ -180,16 +260,22 @@ export class CodeSquadPanelAdapter {
                             if (isMarkdown) {
                                 // Markdown: toggle between diff and preview
                                 this.panelStateManager.setDiffViewMode(
-                                    current === 'preview' ? 'diff' : 'preview'
+                                    current === 'preview' ? layout : 'preview'
                                 );
                             } else {
                                 // Non-markdown: toggle between diff and scope
                                 this.panelStateManager.setDiffViewMode(
-                                    current === 'scope' ? 'diff' : 'scope'
+                                    current === 'scope' ? layout : 'scope'
                                 );
                             }
                         }
                         break;
+                    case 'toggleSplitView':
+                        if (this.panelStateManager) {
+                            const current = this.panelStateManager.getState().diffViewMode;
+                            this.panelStateManager.setDiffViewMode(current === 'split' ? 'diff' : 'split');
+                        }
+                        break;
                     case 'setSearchQuery':
                         this.panelStateManager?.setSearchQuery(message.query);
                         break;
@@ -202,6 +288,15 @@ export class CodeSquadPanelAdapter {
                     case 'deleteComment':
                         await this.handleDeleteComment(message.id);
                         break;
+                    case 'replyToComment':
+                        await this.handleReplyToComment(message.id, message.text);
+                        break;
+                    case 'resolveComment':
+                        await this.handleSetCommentResolved(message.id, true);
+                        break;
+                    case 'reopenComment':
+                        await this.handleSetCommentResolved(message.id, false);
+                        break;
                     case 'navigateToComment':
                         await this.handleNavigateToComment(message.id);
                         break;
@@ -302,6 +397,16 @@ export class CodeSquadPanelAdapter {
     private async handleSelectFile(file: string): Promise<void> {
         if (!file || !this.generateDiffUseCase || !this.panelStateManager) return;
 
+        const { selectedCommit, selectedTurn, turnDiffScope } = this.panelStateManager.getState();
+        if (selectedCommit) {
+            await this.handleSelectCommitFile(selectedCommit, file);
+            return;
+        }
+        if (selectedTurn !== null) {
+            await this.handleSelectTurnFile(selectedTurn, turnDiffScope, file);
+            return;
+        }
+
         const isMarkdown = file.endsWith('.md') || file.endsWith('.markdown') || file.endsWith('.mdx');
 
         // Always fetch regular diff first
@@ -324,6 +429,7 @@ export class CodeSquadPanelAdapter {
                 displayState.changedLineNumbers = this.extractChangedLineNumbers(diffResult);
                 displayState.deletions = this.extractDeletions(diffResult);
             }
+            await this.revealContext(displayState);
             // Markdown: no scoped diff, just diff/preview toggle
             this.panelStateManager.showDiff(displayState);
             return;
@@ -346,6 +452,8 @@ export class CodeSquadPanelAdapter {
         if (fullContent !== null) {
             displayState.newFileContent = fullContent;
         }
+        displayState.imagePreview = await this.getWorkingTreeImagePreview(file, diffResult);
+        await this.revealContext(displayState);
         const scopedDisplayState = scopedResult?.hasScopeData
             ? this.createScopedDiffDisplayState(scopedResult)
             : null;
@@ -354,7 +462,306 @@ export class CodeSquadPanelAdapter {
         this.panelStateManager.showDiff(displayState, scopedDisplayState ?? undefined);
     }
 
+    private async handleSelectCommit(sha: string): Promise<void> {
+        if (!sha || !this.getCommitTimelineUseCase || !this.panelStateManager) return;
+
+        const files = await this.getCommitTimelineUseCase.getCommitFiles(sha);
+        this.panelStateManager.selectCommit(sha, files.map(f => ({ ...f, name: path.basename(f.path) })));
+
+        // Open the first file so the commit's changes are visible right away
+        const firstFile = files.find(f => f.status !== 'deleted') ?? files[0];
+        if (firstFile) {
+            await this.handleSelectCommitFile(sha, firstFile.path);
+        }
+    }
+
+    /**
+     * Show the diff a commit made to a file.
+     * Scopes and markdown preview are skipped: they read the working tree,
+     * which may no longer match the commit.
+     */
+    private async handleSelectCommitFile(sha: string, file: string): Promise<void> {
+        if (!this.getCommitTimelineUseCase || !this.panelStateManager) return;
+
+        const diffResult = await this.getCommitTimelineUseCase.getCommitDiff(sha, file);
+        if (diffResult === null) {
+            this.panelStateManager.selectFile(file);
+            this.panelStateManager.clearDiff();
+            return;
+        }
+        const displayState = this.createDiffDisplayState(diffResult, []);
+        if (this.getImageMimeType(file)) {
+            const { before, after } = await this.getCommitTimelineUseCase.getCommitFileBytes(sha, file, diffResult);
+            displayState.imagePreview = this.createImagePreview(file, before, after);
+        }
+        this.panelStateManager.showDiff(displayState);
+        // Markdown preview renders the working tree file, not the commit
+        this.leavePreviewMode();
+    }
+
+    /**
+     * Fall back from markdown preview to the diff, keeping the split layout
+     */
+    private leavePreviewMode(): void {
+        if (this.panelStateManager?.getState().diffViewMode === 'preview') {
+            this.panelStateManager.setDiffViewMode(this.panelStateManager.getDiffLayout());
+        }
+    }
+
+    private async handleSelectTurn(turn: number, scope: TurnDiffScope = 'turn'): Promise<void> {
+        if (typeof turn !== 'number' || !this.turnCheckpointsUseCase || !this.panelStateManager) return;
+
+        const sessionPaths = this.panelStateManager.getState().sessionFiles.map(f => f.path);
+        const files = await this.turnCheckpointsUseCase.getChangedFiles(turn, scope, sessionPaths);
+        this.panelStateManager.selectTurn(turn, scope, files.map(f => ({
+            path: f.path,
+            name: path.basename(f.path),
+            status: f.status,
+        })));
+
+        const firstFile = files.find(f => f.status !== 'deleted') ?? files[0];
+        if (firstFile) {
+            await this.handleSelectTurnFile(turn, scope, firstFile.path);
+        }
+    }
+
+    /**
+     * Show a file's changes in a turn (or since it), from checkpoint contents.
+     * Like commits, scopes and markdown preview are skipped.
+     */
+    private async handleSelectTurnFile(turn: number, scope: TurnDiffScope, file: string): Promise<void> {
+        if (!this.turnCheckpointsUseCase || !this.panelStateManager) return;
+
+        const diffResult = await this.turnCheckpointsUseCase.getDiff(turn, scope, file);
+        if (diffResult === null) {
+            this.panelStateManager.selectFile(file);
+            this.panelStateManager.clearDiff();
+            return;
+        }
+        this.panelStateManager.showDiff(this.createDiffDisplayState(diffResult, []));
+        this.leavePreviewMode();
+    }
+
+    /**
+     * Restore the session's files to a checkpoint, after confirmation.
+     * The file watcher picks up the restored files and refreshes the file list.
+     */
+    private async handleRevertToCheckpoint(turn: number): Promise<void> {
+        if (typeof turn !== 'number' || !this.turnCheckpointsUseCase || !this.panelStateManager) return;
+
+        const label = turn === 0 ? 'the session start' : `the end of turn ${turn}`;
+        const choice = await vscode.window.showWarningMessage(
+            `Restore files to ${label}? Changes made after it will be lost.`,
+            { modal: true },
+            'Revert'
+        );
+        if (choice !== 'Revert') return;
+
+        const sessionPaths = this.panelStateManager.getState().sessionFiles.map(f => f.path);
+        const result = await this.turnCheckpointsUseCase.revert(turn, sessionPaths);
+
+        if (result.failed.length > 0) {
+            vscode.window.showErrorMessage(
+                `Could not restore ${result.failed.length} file(s): ${result.failed.join(', ')}`
+            );
+        } else {
+            vscode.window.showInformationMessage(
+                result.restored.length > 0
+                    ? `Restored ${result.restored.length} file(s) to ${label}.`
+                    : `Files already match ${label}.`
+            );
+        }
+        this.panelStateManager.clearSelectedTurn();
+    }
+
+    private async handleChunkAction(action: ChunkAction, index: number): Promise<void> {
+        const chunk = this.panelStateManager?.getState().diff?.chunks[index];
+        if (!chunk) return;
+        await this.applyChunkAction(action, [chunk]);
+    }
+
+    private async handleLineAction(action: ChunkAction, startLine: number, endLine: number): Promise<void> {
+        const chunks = this.panelStateManager?.getState().diff?.chunks;
+        if (!chunks || typeof startLine !== 'number' || typeof endLine !== 'number') return;
+        await this.applyChunkAction(action, chunks, { startLine, endLine });
+    }
+
+    /**
+     * Discard or stage changes of the displayed diff, then reload it.
+     * Commit and turn diffs are history, not working tree changes, so they are left alone,
+     * as are branch diffs, whose chunks include committed changes.
+     */
+    private async applyChunkAction(
+        action: ChunkAction,
+        chunks: DiffChunk[],
+        lineRange?: { startLine: number; endLine: number }
+    ): Promise<void> {
+        if (!this.applyChunkActionUseCase || !this.generateDiffUseCase || !this.panelStateManager) return;
+
+        const { selectedFile, selectedCommit, selectedTurn } = this.panelStateManager.getState();
+        const workspaceRoot = this.generateDiffUseCase.getWorkspaceRoot();
+        if (!selectedFile || selectedCommit || selectedTurn !== null || !workspaceRoot) return;
+        if (this.generateDiffUseCase.getDiffBaseMode() === 'base') return;
+        // Whitespace-insensitive chunks no longer match the file byte for byte
+        if (this.generateDiffUseCase.getDiffOptions().ignoreWhitespace) return;
+
+        try {
+            await this.applyChunkActionUseCase.execute({
+                workspaceRoot,
+                relativePath: selectedFile,
+                action,
+                chunks,
+                lineRange,
+            });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to ${action} changes: ${message}`);
+            return;
+        }
+
+        if (action === 'stage') {
+            vscode.window.setStatusBarMessage(`Staged changes in ${path.basename(selectedFile)}`, 3000);
+        }
+        await this.handleSelectFile(selectedFile);
+    }
+
+    private async handleStageFiles(): Promise<void> {
+        if (!this.commitChangesUseCase || !this.generateDiffUseCase || !this.panelStateManager) return;
+
+        const workspaceRoot = this.generateDiffUseCase.getWorkspaceRoot();
+        const { checkedFiles } = this.panelStateManager.getState();
+        if (!workspaceRoot || checkedFiles.length === 0) return;
+
+        try {
+            await this.commitChangesUseCase.stage(workspaceRoot, checkedFiles);
+            vscode.window.setStatusBarMessage(`Staged ${checkedFiles.length} file(s)`, 3000);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to stage files: ${message}`);
+        }
+    }
+
+    /**
+     * Commit the checked files (or what is staged when none are checked).
+     * The session is then refreshed the same way as after a commit made
+     * outside the panel.
+     */
+    private async handleCommitFiles(message: string): Promise<void> {
+        if (!this.commitChangesUseCase || !this.generateDiffUseCase || !this.panelStateManager) return;
+
+        const workspaceRoot = this.generateDiffUseCase.getWorkspaceRoot();
+        if (!workspaceRoot) return;
+
+        const { checkedFiles } = this.panelStateManager.getState();
+        let result: CommitChangesResult;
+        try {
+            result = await this.commitChangesUseCase.commit({
+                workspaceRoot,
+                message: message ?? '',
+                paths: checkedFiles,
+            });
+        } catch (error) {
+            const detail = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to commit: ${detail}`);
+            return;
+        }
+
+        this.panelStateManager.setCheckedFiles([]);
+        await this.onCommitted?.();
+
+        this.panel.webview.postMessage({ type: 'commitCreated', sha: result.commit });
+        vscode.window.setStatusBarMessage(`Committed ${result.commit.slice(0, 7)}`, 3000);
+    }
+
+    private handleDraftCommitMessage(): void {
+        if (!this.commitChangesUseCase || !this.currentTerminalId || !this.panelStateManager) return;
+
+        const { checkedFiles } = this.panelStateManager.getState();
+        this.commitChangesUseCase.requestDraftMessage(this.currentTerminalId, checkedFiles);
+    }
+
+    /**
+     * Switch between uncommitted changes and everything since the thread's base.
+     * Base mode lists committed files too, so the list is refreshed from git.
+     */
+    private async handleToggleDiffBase(): Promise<void> {
+        if (!this.generateDiffUseCase || !this.panelStateManager) return;
+        if (!this.generateDiffUseCase.getBaseCommit()) return;
+
+        const mode = this.generateDiffUseCase.getDiffBaseMode() === 'base' ? 'head' : 'base';
+        this.generateDiffUseCase.setDiffBaseMode(mode);
+
+        await this.refreshBranchFiles();
+        this.panelStateManager.setDiffBaseMode(mode);
+
+        // Re-render the open file against the new base
+        const selectedFile = this.panelStateManager.getState().selectedFile;
+        if (selectedFile) {
+            await this.handleSelectFile(selectedFile);
+        }
+    }
+
+    /**
+     * Reload the files changed since the thread's base, when they are shown.
+     */
+    private async refreshBranchFiles(): Promise<void> {
+        if (!this.generateDiffUseCase || !this.panelStateManager) return;
+        if (this.generateDiffUseCase.getDiffBaseMode() !== 'base') return;
+
+        const files = await this.generateDiffUseCase.getChangedFilesSinceBase();
+        this.panelStateManager.setBranchFiles(files.map(f => ({ ...f, name: path.basename(f.path) })));
+    }
+
+    /**
+     * Toggle a whitespace, blank line or moved code option and re-render the open file.
+     */
+    private async handleToggleDiffOption(option: keyof DiffOptions): Promise<void> {
+        if (!this.generateDiffUseCase || !this.panelStateManager) return;
+        if (!DIFF_OPTION_KEYS.includes(option)) return;
+
+        const options = this.generateDiffUseCase.getDiffOptions();
+        options[option] = !options[option];
+        this.generateDiffUseCase.setDiffOptions(options);
+        this.panelStateManager.setDiffOptions(options);
+
+        const selectedFile = this.panelStateManager.getState().selectedFile;
+        if (selectedFile) {
+            await this.handleSelectFile(selectedFile);
+        }
+    }
+
+    /**
+     * Reveal unchanged lines between chunks of the shown working tree diff.
+     */
+    private async handleExpandContext(gap: number, direction: ContextExpansion): Promise<void> {
+        if (!this.generateDiffUseCase || !this.panelStateManager) return;
+        if (typeof gap !== 'number' || !['up', 'down', 'all'].includes(direction)) return;
+
+        const { diff, selectedCommit, selectedTurn } = this.panelStateManager.getState();
+        // Commit and turn diffs are not against the file as it is now
+        if (!diff || selectedCommit || selectedTurn !== null) return;
+
+        const chunks = await this.generateDiffUseCase.expandContext(diff.file, diff.chunks, gap, direction);
+        if (chunks && this.panelStateManager.getState().diff === diff) {
+            this.panelStateManager.setDiffChunks(chunks);
+        }
+    }
+
+    /**
+     * Show again the context lines revealed in the file's diff before it was regenerated
+     */
+    private async revealContext(displayState: DiffDisplayState): Promise<void> {
+        if (!this.generateDiffUseCase || !this.panelStateManager) return;
+        const lines = this.panelStateManager.getRevealedLines(displayState.file);
+        displayState.chunks = await this.generateDiffUseCase.revealContext(displayState.file, displayState.chunks, lines);
+    }
+
     private async readFullFileContent(relativePath: string): Promise<string | null> {
+        const content = await this.readFileBytes(relativePath);
+        return content ? Buffer.from(content).toString('utf8') : null;
+    }
+
+    private async readFileBytes(relativePath: string): Promise<Uint8Array | null> {
         try {
             // Use session's workspaceRoot for worktree support, fallback to VSCode workspace
             const effectiveRoot = this.workspaceRoot || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
@@ -362,13 +769,48 @@ export class CodeSquadPanelAdapter {
 
             const absolutePath = path.join(effectiveRoot, relativePath);
             const uri = vscode.Uri.file(absolutePath);
-            const content = await vscode.workspace.fs.readFile(uri);
-            return Buffer.from(content).toString('utf8');
+            return await vscode.workspace.fs.readFile(uri);
         } catch {
             return null;
         }
     }
 
+    /**
+     * Image as it was (HEAD or the base commit) and as it is in the working tree.
+     * Undefined for files that aren't images.
+     */
+    private async getWorkingTreeImagePreview(file: string, diff: DiffResult): Promise<ImagePreview | undefined> {
+        if (!this.getImageMimeType(file) || !this.generateDiffUseCase) return undefined;
+
+        const [before, after] = await Promise.all([
+            this.generateDiffUseCase.getOriginalFileBytes(file, diff),
+            this.readFileBytes(file)
+        ]);
+        return this.createImagePreview(file, before, after);
+    }
+
+    private getImageMimeType(file: string): string | undefined {
+        return IMAGE_MIME_TYPES[path.extname(file).toLowerCase()];
+    }
+
+    /**
+     * Encode image versions as data URIs, leaving out missing or oversized ones.
+     */
+    private createImagePreview(
+        file: string,
+        before: Uint8Array | null,
+        after: Uint8Array | null
+    ): ImagePreview | undefined {
+        const mimeType = this.getImageMimeType(file);
+        if (!mimeType) return undefined;
+
+        const toDataUri = (bytes: Uint8Array | null) => bytes && bytes.length <= MAX_IMAGE_PREVIEW_BYTES
+            ? `data:${mimeType};base64,${Buffer.from(bytes).toString('base64')}`
+            : undefined;
+        const preview: ImagePreview = { before: toDataUri(before), after: toDataUri(after) };
+        return preview.before || preview.after ? preview : undefined;
+    }
+
     private extractChangedLineNumbers(diffResult: DiffResult): number[] {
         const changedLines: number[] = [];
         for (const chunk of diffResult.chunks) {
@@ -604,26 +1046,38 @@ export class CodeSquadPanelAdapter {
         // Get threadId from panel state for per-thread comment association
         const threadId = this.panelStateManager.getThreadId();
 
+        const content = await this.readWorkingTreeContent(message.file);
+        const commentedCode = content === null
+            ? ''
+            : content.split('\n').slice(message.line - 1, message.endLine ?? message.line).join('\n');
+
         const comment = await this.addCommentUseCase.execute({
             file: message.file,
             line: message.line,
             endLine: message.endLine,
             text: message.text,
-            codeContext: message.context || '',
+            codeContext: message.context || commentedCode,
             threadId,
         });
 
+        // Later edits to the file are followed from this content
+        if (content !== null) {
+            this.manageCommentThreadsUseCase?.trackFile(message.file, content);
+        }
+
         // Update panel state with new comment
-        this.panelStateManager.addComment({
-            id: comment.id,
-            file: comment.file,
-            line: comment.line,
-            endLine: comment.endLine,
-            text: comment.text,
-            isSubmitted: comment.isSubmitted,
-            codeContext: comment.codeContext,
-            timestamp: comment.timestamp,
-        });
+        this.panelStateManager.addComment(toCommentInfo(comment));
+    }
+
+    /**
+     * The file as comments on the working tree diff see it, so their code can be
+     * followed after the file changes. Comments on a commit or turn view have nothing to follow.
+     */
+    private async readWorkingTreeContent(file: string): Promise<string | null> {
+        const state = this.panelStateManager?.getState();
+        if (state?.selectedCommit || (state && state.selectedTurn !== null)) return null;
+
+        return this.readFullFileContent(file);
     }
 
     private async handleSubmitComments(): Promise<void> {
@@ -655,16 +1109,7 @@ export class CodeSquadPanelAdapter {
 
         const updated = await this.editCommentUseCase.execute({ id, text });
         if (updated) {
-            this.panelStateManager.updateComment({
-                id: updated.id,
-                file: updated.file,
-                line: updated.line,
-                endLine: updated.endLine,
-                text: updated.text,
-                isSubmitted: updated.isSubmitted,
-                codeContext: updated.codeContext,
-                timestamp: updated.timestamp,
-            });
+            this.panelStateManager.updateComment(toCommentInfo(updated));
         }
     }
 
@@ -677,6 +1122,24 @@ export class CodeSquadPanelAdapter {
         }
     }
 
+    private async handleReplyToComment(id: string, text: string): Promise<void> {
+        if (!this.manageCommentThreadsUseCase || !this.panelStateManager) return;
+
+        const updated = await this.manageCommentThreadsUseCase.reply({ id, text });
+        if (updated) {
+            this.panelStateManager.updateComment(toCommentInfo(updated));
+        }
+    }
+
+    private async handleSetCommentResolved(id: string, resolved: boolean): Promise<void> {
+        if (!this.manageCommentThreadsUseCase || !this.panelStateManager) return;
+
+        const updated = await this.manageCommentThreadsUseCase.setResolved(id, resolved);
+        if (updated) {
+            this.panelStateManager.updateComment(toCommentInfo(updated));
+        }
+    }
+
     private async handleNavigateToComment(id: string): Promise<void> {
         if (!this.panelStateManager) return;
 
@@ -802,7 +1265,13 @@ export class CodeSquadPanelAdapter {
         editCommentUseCase?: IEditCommentUseCase,
         deleteCommentUseCase?: IDeleteCommentUseCase,
         fetchHNStoriesUseCase?: IFetchHNStoriesUseCase,
-        generateScopedDiffUseCase?: IGenerateScopedDiffUseCase
+        generateScopedDiffUseCase?: IGenerateScopedDiffUseCase,
+        getCommitTimelineUseCase?: IGetCommitTimelineUseCase,
+        turnCheckpointsUseCase?: ITurnCheckpointsUseCase,
+        applyChunkActionUseCase?: IApplyChunkActionUseCase,
+        commitChangesUseCase?: ICommitChangesUseCase,
+        manageCommentThreadsUseCase?: IManageCommentThreadsUseCase,
+        onCommitted?: () => Promise<void>
     ): void {
         console.log(`[Code Squad] Switching panel to session: ${terminalId}`);
 
@@ -819,6 +1288,12 @@ export class CodeSquadPanelAdapter {
         this.deleteCommentUseCase = deleteCommentUseCase;
         this.fetchHNStoriesUseCase = fetchHNStoriesUseCase;
         this.generateScopedDiffUseCase = generateScopedDiffUseCase;
+        this.getCommitTimelineUseCase = getCommitTimelineUseCase;
+        this.turnCheckpointsUseCase = turnCheckpointsUseCase;
+        this.applyChunkActionUseCase = applyChunkActionUseCase;
+        this.commitChangesUseCase = commitChangesUseCase;
+        this.manageCommentThreadsUseCase = manageCommentThreadsUseCase;
+        this.onCommitted = onCommitted;
 
         // Update panel title
         this.panel.title = `Code Squad`;
@@ -826,6 +1301,10 @@ export class CodeSquadPanelAdapter {
         // Re-render with new session's state
         const state = panelStateManager.getState();
         this.render(state);
+        // Branch files may have changed while another session was shown
+        this.refreshBranchFiles().catch((error) => {
+            console.warn('[Code Squad] Failed to refresh branch files:', error);
+        });
 
         // Auto-select first file if no file is selected but session has files
         // This handles the case where files were added while another session was focused
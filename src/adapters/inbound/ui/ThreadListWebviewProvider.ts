@@ -8,13 +8,20 @@ interface ThreadInfo {
     id: string;
     name: string;
     status: AgentStatus;
+    /** Worktree setup steps still running; the agent hasn't started yet */
+    settingUp: boolean;
+    /** Copied worktree files that differ from the main workspace */
+    staleFiles: string[];
     fileCount: number;
+    /** Files other live threads also modified */
+    conflictCount: number;
     isSelected: boolean;
     workingDir: string;
     hasWorktree: boolean;
     threadId: string;
     isolationMode: 'local' | 'branch' | 'worktree';
     branchName?: string;
+    baseBranch?: string;
 }
 
 export interface CreateThreadOptions {
@@ -22,6 +29,26 @@ export interface CreateThreadOptions {
     isolationMode: IsolationMode;
     branchName?: string;
     worktreePath?: string;
+    agentId?: string;
+    initialPrompt?: string;
+    templateName?: string;
+}
+
+/** Thread template offered in the create-thread form (presets applied in the form) */
+export interface TemplateOption {
+    name: string;
+    description?: string;
+    isolationMode?: IsolationMode;
+    branchPattern?: string;
+    agent?: string;
+}
+
+/** Agent offered in the create-thread form */
+export interface AgentOption {
+    id: string;
+    displayName: string;
+    command: string;
+    acceptsPrompt: boolean;
 }
 
 export class ThreadListWebviewProvider implements vscode.WebviewViewProvider {
@@ -40,7 +67,14 @@ export class ThreadListWebviewProvider implements vscode.WebviewViewProvider {
         private readonly onDeleteThread?: (threadId: string) => void,
         private readonly onOpenInEditor?: (threadId: string) => void,
         private readonly getAvailableWorktreeCount?: () => Promise<number>,
-        private readonly getDefaultIsolationMode?: () => IsolationMode
+        private readonly getDefaultIsolationMode?: () => IsolationMode,
+        private readonly onMergeThread?: (threadId: string) => void,
+        private readonly getAgentOptions?: () => AgentOption[],
+        private readonly getDefaultAgent?: () => string,
+        private readonly getTemplateOptions?: () => TemplateOption[],
+        private readonly isSettingUp?: (terminalId: string) => boolean,
+        private readonly getStaleFiles?: (terminalId: string) => string[],
+        private readonly onSyncWorktreeFiles?: (terminalId: string) => void
     ) {}
 
     resolveWebviewView(
@@ -73,6 +107,9 @@ export class ThreadListWebviewProvider implements vscode.WebviewViewProvider {
                         isolationMode: message.isolationMode,
                         branchName: message.branchName,
                         worktreePath: message.worktreePath,
+                        agentId: message.agentId,
+                        initialPrompt: message.initialPrompt,
+                        templateName: message.templateName,
                     });
                     break;
                 case 'openNewTerminal':
@@ -91,6 +128,14 @@ export class ThreadListWebviewProvider implements vscode.WebviewViewProvider {
                         this.onOpenInEditor(message.threadId);
                     }
                     break;
+                case 'mergeThread':
+                    if (this.onMergeThread) {
+                        this.onMergeThread(message.threadId);
+                    }
+                    break;
+                case 'syncWorktreeFiles':
+                    this.onSyncWorktreeFiles?.(message.id);
+                    break;
             }
         });
     }
@@ -113,7 +158,11 @@ export class ThreadListWebviewProvider implements vscode.WebviewViewProvider {
         });
     }
 
-    private sendWorkspaceInfo(): void {
+    /**
+     * Send workspace name and create-form options (isolation mode, agents, templates).
+     * Called again when agent definitions or templates change.
+     */
+    sendWorkspaceInfo(): void {
         if (!this.view) return;
 
         const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
@@ -123,7 +172,10 @@ export class ThreadListWebviewProvider implements vscode.WebviewViewProvider {
         this.view.webview.postMessage({
             type: 'workspaceInfo',
             workspaceName,
-            defaultIsolationMode
+            defaultIsolationMode,
+            agents: this.getAgentOptions?.() ?? [],
+            defaultAgent: this.getDefaultAgent?.() ?? '',
+            templates: this.getTemplateOptions?.() ?? []
         });
     }
 
@@ -136,7 +188,8 @@ export class ThreadListWebviewProvider implements vscode.WebviewViewProvider {
             const session = ctx.session;
             const metadata = session.agentMetadata;
             const threadState = ctx.threadState;
-            const fileCount = ctx.stateManager.getState().sessionFiles.length;
+            const panelState = ctx.stateManager.getState();
+            const fileCount = panelState.sessionFiles.length;
 
             // Name priority: threadState.name > agentMetadata.name > session.displayName
             const name = threadState?.name ?? metadata?.name ?? session.displayName;
@@ -156,13 +209,17 @@ export class ThreadListWebviewProvider implements vscode.WebviewViewProvider {
                 id: terminalId,
                 name,
                 status: metadata?.status ?? 'inactive',
+                settingUp: this.isSettingUp?.(terminalId) ?? false,
+                staleFiles: this.getStaleFiles?.(terminalId) ?? [],
                 fileCount,
+                conflictCount: Object.keys(panelState.fileConflicts).length,
                 isSelected: this.selectedId === terminalId,
                 workingDir,
                 hasWorktree: !!threadState?.worktreePath,
                 threadId: threadState?.threadId ?? '',
                 isolationMode,
-                branchName: threadState?.branch
+                branchName: threadState?.branch,
+                baseBranch: threadState?.baseBranch
             });
         }
 
@@ -213,6 +270,7 @@ export class ThreadListWebviewProvider implements vscode.WebviewViewProvider {
         .thread-status.idle{color:var(--vscode-charts-blue,#3794ff)}
         .thread-status.working{color:var(--vscode-charts-green,#89d185);animation:pulse 1.5s ease-in-out infinite;text-shadow:0 0 8px var(--vscode-charts-green,#89d185)}
         .thread-status.waiting{color:var(--vscode-charts-yellow,#cca700);animation:blink 1s ease-in-out infinite}
+        .thread-status.setting-up{color:var(--vscode-charts-orange,#d18616);animation:pulse 1.5s ease-in-out infinite}
         @keyframes pulse{0%,100%{opacity:1;transform:scale(1)}50%{opacity:0.6;transform:scale(1.2)}}
         @keyframes blink{0%,100%{opacity:1}50%{opacity:0.4}}
         .thread-file-count{font-size:11px;color:var(--vscode-descriptionForeground);flex-shrink:0}
@@ -229,6 +287,9 @@ export class ThreadListWebviewProvider implements vscode.WebviewViewProvider {
         .isolation-badge.branch{background:rgba(55,148,255,0.2);color:var(--vscode-charts-blue,#3794ff)}
         .isolation-badge.worktree{background:rgba(137,209,133,0.2);color:var(--vscode-charts-green,#89d185)}
         .thread-branch-name{opacity:0.8}
+        .stale-badge{padding:0 4px;font-size:10px;color:var(--vscode-editorWarning-foreground,#cca700);background:transparent;border:1px solid currentColor;border-radius:2px;cursor:pointer}
+        .stale-badge:hover{background:var(--vscode-toolbar-hoverBackground)}
+        .conflict-badge{padding:0 4px;font-size:10px;color:var(--vscode-errorForeground,#f48771);border:1px solid currentColor;border-radius:2px}
     </style>
 </head>
 <body>
@@ -237,6 +298,12 @@ export class ThreadListWebviewProvider implements vscode.WebviewViewProvider {
             <span class="codicon">▾</span> New Thread
         </div>
         <div class="section-content" id="newContent">
+            <div class="form-group hidden" id="templateGroup">
+                <label class="form-label">Template</label>
+                <select class="form-select" id="templateSelect">
+                    <option value="">No template</option>
+                </select>
+            </div>
             <div class="form-row">
                 <div class="form-group">
                     <label class="form-label">Thread Name</label>
@@ -258,6 +325,16 @@ export class ThreadListWebviewProvider implements vscode.WebviewViewProvider {
                 <label class="form-label">Worktree Path</label>
                 <input type="text" class="form-input" id="worktreePath" placeholder="../project.worktree/branch-name">
             </div>
+            <div class="form-group">
+                <label class="form-label">Agent</label>
+                <select class="form-select" id="agentSelect">
+                    <option value="">None (empty terminal)</option>
+                </select>
+            </div>
+            <div class="form-group hidden" id="promptGroup">
+                <label class="form-label">Initial Prompt</label>
+                <input type="text" class="form-input" id="initialPrompt" placeholder="Optional">
+            </div>
             <button class="submit-button" id="startBtn">Start Thread</button>
             <button class="submit-button secondary-button" id="attachBtn">Attach to Worktree</button>
         </div>
@@ -279,9 +356,29 @@ const branchGroup = $('branchGroup');
 const worktreePath = $('worktreePath');
 const pathGroup = $('pathGroup');
 const isolationMode = $('isolationMode');
+const agentSelect = $('agentSelect');
+const promptGroup = $('promptGroup');
+const initialPrompt = $('initialPrompt');
+const templateGroup = $('templateGroup');
+const templateSelect = $('templateSelect');
 const threadList = $('threadList');
 
 let workspaceName = '';
+let agents = [];
+let templates = [];
+
+function selectedTemplate() {
+    return templates.find(t => t.name === templateSelect.value);
+}
+
+// Branch name for the thread name, following the selected template's pattern
+function defaultBranchName() {
+    const template = selectedTemplate();
+    const name = threadName.value.trim();
+    return template && template.branchPattern && name
+        ? template.branchPattern.split('{name}').join(name.replace(/\\s+/g, '-'))
+        : threadName.value;
+}
 
 
 function updateWorktreePath() {
@@ -294,12 +391,12 @@ function updateWorktreePath() {
 // Sync branch name with thread name
 threadName.addEventListener('input', () => {
     if (!branchName.dataset.edited) {
-        branchName.value = threadName.value;
+        branchName.value = defaultBranchName();
     }
     updateWorktreePath();
 });
 branchName.addEventListener('input', () => {
-    branchName.dataset.edited = branchName.value !== threadName.value ? '1' : '';
+    branchName.dataset.edited = branchName.value !== defaultBranchName() ? '1' : '';
     updateWorktreePath();
 });
 worktreePath.addEventListener('input', () => {
@@ -308,16 +405,57 @@ worktreePath.addEventListener('input', () => {
 });
 
 // Toggle branch name and path inputs based on isolation mode
-isolationMode.addEventListener('change', () => {
+function updateIsolationGroups() {
     const show = isolationMode.value !== 'none';
     branchGroup.classList.toggle('hidden', !show);
     pathGroup.classList.toggle('hidden', !show);
     if (show) {
-        if (!branchName.value) branchName.value = threadName.value;
+        if (!branchName.value) branchName.value = defaultBranchName();
         updateWorktreePath();
     }
+}
+isolationMode.addEventListener('change', updateIsolationGroups);
+
+// Apply template presets to the form
+templateSelect.addEventListener('change', () => {
+    const template = selectedTemplate();
+    if (!template) return;
+    if (template.isolationMode) {
+        isolationMode.value = template.isolationMode;
+    }
+    if (template.agent !== undefined) {
+        agentSelect.value = agents.some(a => a.id === template.agent) ? template.agent : '';
+        updatePromptGroup();
+    }
+    if (!branchName.dataset.edited) {
+        branchName.value = defaultBranchName();
+    }
+    updateIsolationGroups();
 });
 
+function renderTemplateOptions() {
+    const current = templateSelect.value;
+    templateSelect.innerHTML = '<option value="">No template</option>' +
+        templates.map(t => '<option value="' + esc(t.name) + '" title="' + esc(t.description || '') + '">' + esc(t.name) + '</option>').join('');
+    templateSelect.value = templates.some(t => t.name === current) ? current : '';
+    templateGroup.classList.toggle('hidden', templates.length === 0);
+}
+
+// Show prompt input only for agents that accept an initial prompt
+function updatePromptGroup() {
+    const agent = agents.find(a => a.id === agentSelect.value);
+    promptGroup.classList.toggle('hidden', !(agent && agent.acceptsPrompt));
+}
+agentSelect.addEventListener('change', updatePromptGroup);
+
+function renderAgentOptions(defaultAgent) {
+    const current = agentSelect.value || defaultAgent || '';
+    agentSelect.innerHTML = '<option value="">None (empty terminal)</option>' +
+        agents.map(a => '<option value="' + esc(a.id) + '">' + esc(a.displayName) + '</option>').join('');
+    agentSelect.value = agents.some(a => a.id === current) ? current : '';
+    updatePromptGroup();
+}
+
 // Toggle sections
 document.querySelectorAll('.section-header').forEach(h => {
     h.addEventListener('click', () => {
@@ -335,16 +473,21 @@ $('startBtn').addEventListener('click', () => {
 
     const mode = isolationMode.value;
     const path = worktreePath.value.trim();
+    const prompt = initialPrompt.value.trim();
 
     vscode.postMessage({
         type: 'createThread',
         name,
         isolationMode: mode,
         branchName: mode !== 'none' ? (branchName.value.trim() || name) : undefined,
-        worktreePath: mode !== 'none' && path ? path : undefined
+        worktreePath: mode !== 'none' && path ? path : undefined,
+        agentId: agentSelect.value || undefined,
+        initialPrompt: !promptGroup.classList.contains('hidden') && prompt ? prompt : undefined,
+        templateName: templateSelect.value || undefined
     });
 
     threadName.value = '';
+    initialPrompt.value = '';
     branchName.value = '';
     branchName.dataset.edited = '';
     worktreePath.value = '';
@@ -352,6 +495,7 @@ $('startBtn').addEventListener('click', () => {
 });
 
 threadName.addEventListener('keydown', e => { if (e.key === 'Enter') $('startBtn').click(); });
+initialPrompt.addEventListener('keydown', e => { if (e.key === 'Enter') $('startBtn').click(); });
 
 // Attach to worktree
 $('attachBtn').addEventListener('click', () => {
@@ -365,6 +509,7 @@ function getStatusIcon(status) {
         case 'idle': return '\u25CF';      // ● Filled circle
         case 'working': return '\u25CF';   // ● Filled circle (animated)
         case 'waiting': return '\u25CF';   // ● Filled circle
+        case 'setting-up': return '\u25CC'; // ◌ Dotted circle
         default: return '\u25CB';
     }
 }
@@ -375,6 +520,7 @@ function getStatusTitle(status) {
         case 'idle': return 'AI idle - ready for input';
         case 'working': return 'AI working...';
         case 'waiting': return 'AI waiting for answer';
+        case 'setting-up': return 'Setting up worktree...';
         default: return '';
     }
 }
@@ -391,13 +537,15 @@ function render(threads) {
         const isolationLabel = t.isolationMode === 'worktree' ? 'Worktree'
             : t.isolationMode === 'branch' ? 'Branch'
             : 'Local';
+        const status = t.settingUp ? 'setting-up' : t.status;
 
-        return '<div class="thread-item ' + t.status + (t.isSelected ? ' selected' : '') + '" data-id="' + t.id + '" data-thread-id="' + t.threadId + '" data-has-worktree="' + t.hasWorktree + '">' +
+        return '<div class="thread-item ' + status + (t.isSelected ? ' selected' : '') + '" data-id="' + t.id + '" data-thread-id="' + t.threadId + '" data-has-worktree="' + t.hasWorktree + '">' +
             '<div class="thread-main">' +
-            '<span class="thread-status ' + t.status + '" title="' + getStatusTitle(t.status) + '">' + getStatusIcon(t.status) + '</span>' +
+            '<span class="thread-status ' + status + '" title="' + getStatusTitle(status) + '">' + getStatusIcon(status) + '</span>' +
             '<span class="thread-name">' + esc(t.name) + '</span>' +
             '<div class="thread-actions">' +
             '<button class="thread-action-btn terminal" title="Open Terminal"><svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor"><path d="M3 3l4 4-4 4v-1l3-3-3-3V3zm5 7h5v1H8v-1z"/></svg></button>' +
+            (t.hasWorktree ? '<button class="thread-action-btn merge" title="Merge &amp; Clean up' + (t.baseBranch ? ' into ' + esc(t.baseBranch) : '') + '"><svg width="14" height="14" viewBox="0 0 16 16" fill="none" stroke="currentColor" stroke-width="1.2"><circle cx="4" cy="3" r="1.5"/><circle cx="4" cy="13" r="1.5"/><circle cx="12" cy="8" r="1.5"/><path d="M4 4.5v7M4 4.5c0 2.5 2 3.5 6.5 3.5"/></svg></button>' : '') +
             (t.hasWorktree ? '<button class="thread-action-btn editor" title="Open in Editor"><svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor"><path d="M1.5 1H10v1H2v12h12V6h1v8.5l-.5.5h-13l-.5-.5v-13l.5-.5z"/><path d="M15 1.5V5h-1V2.707L8.354 8.354l-.708-.708L13.293 2H11V1h3.5l.5.5z"/></svg></button>' : '') +
             '<button class="thread-action-btn delete" title="Cleanup">\uD83D\uDDD1\uFE0F</button>' +
             '</div>' +
@@ -405,6 +553,8 @@ function render(threads) {
             '<div class="thread-isolation">' +
             '<span class="isolation-badge ' + t.isolationMode + '">' + isolationLabel + '</span>' +
             (t.branchName ? '<span class="thread-branch-name">' + esc(t.branchName) + '</span>' : '') +
+            (t.conflictCount ? '<span class="conflict-badge" title="' + t.conflictCount + ' file(s) also changed by another agent">\u26A1 ' + t.conflictCount + ' conflict' + (t.conflictCount === 1 ? '' : 's') + '</span>' : '') +
+            (t.staleFiles.length ? '<button class="stale-badge" title="' + esc('Differs from main workspace: ' + t.staleFiles.join(', ') + '. Click to re-sync.') + '">\u26A0 ' + t.staleFiles.length + ' stale</button>' : '') +
             '</div>' +
             '</div>';
     }).join('');
@@ -416,6 +566,13 @@ function render(threads) {
             e.stopPropagation();
             vscode.postMessage({ type: 'openNewTerminal', id: el.dataset.id });
         });
+        const mergeBtn = el.querySelector('.merge');
+        if (mergeBtn) {
+            mergeBtn.addEventListener('click', (e) => {
+                e.stopPropagation();
+                vscode.postMessage({ type: 'mergeThread', threadId });
+            });
+        }
         const editorBtn = el.querySelector('.editor');
         if (editorBtn) {
             editorBtn.addEventListener('click', (e) => {
@@ -423,6 +580,13 @@ function render(threads) {
                 vscode.postMessage({ type: 'openInEditor', threadId });
             });
         }
+        const staleBadge = el.querySelector('.stale-badge');
+        if (staleBadge) {
+            staleBadge.addEventListener('click', (e) => {
+                e.stopPropagation();
+                vscode.postMessage({ type: 'syncWorktreeFiles', id: el.dataset.id });
+            });
+        }
         el.querySelector('.delete').addEventListener('click', (e) => {
             e.stopPropagation();
             vscode.postMessage({ type: 'deleteThread', threadId });
@@ -450,6 +614,10 @@ window.addEventListener('message', e => {
             branchGroup.classList.toggle('hidden', !show);
             pathGroup.classList.toggle('hidden', !show);
         }
+        agents = e.data.agents || [];
+        renderAgentOptions(e.data.defaultAgent);
+        templates = e.data.templates || [];
+        renderTemplateOptions();
     }
 });
 
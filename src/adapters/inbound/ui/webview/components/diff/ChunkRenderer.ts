@@ -4,13 +4,25 @@
  * Renders diff chunks with syntax highlighting and inline comments.
  */
 
-import { escapeHtml } from '../../utils/dom';
+import { escapeHtml, wrapTextRange } from '../../utils/dom';
+import { renderInlineCommentBox } from './InlineComments';
+
+export interface DiffSegment {
+  start: number;
+  end: number;
+}
 
 export interface DiffLine {
   type: 'addition' | 'deletion' | 'context';
   content: string;
   oldLineNumber?: number;
   newLineNumber?: number;
+  /** Changed character ranges within an edited line */
+  segments?: DiffSegment[];
+  /** New line number the deleted line was moved to */
+  movedTo?: number;
+  /** Old line number the added line was moved from */
+  movedFrom?: number;
 }
 
 export interface ChunkStats {
@@ -19,23 +31,43 @@ export interface ChunkStats {
 }
 
 export interface DiffChunk {
+  /** Hunk header; its counts bound the chunk's lines */
+  header?: string;
   oldStart: number;
   newStart: number;
   lines: DiffLine[];
   stats?: ChunkStats;
 }
 
+export type ChunkAction = 'discard' | 'stage';
+
+export type ContextExpansion = 'up' | 'down' | 'all';
+
 export interface ChunkState {
   isCollapsed: boolean;
   scopeLabel?: string | null;
 }
 
+export type CommentStatus = 'open' | 'resolved' | 'outdated' | 'deleted';
+
+export interface CommentReply {
+  id: string;
+  text: string;
+  isSubmitted: boolean;
+  /** 'agent' replies hold what the agent printed after the comment was sent */
+  author?: 'reviewer' | 'agent';
+}
+
 export interface InlineComment {
   id: string;
   line: number;
   endLine?: number;
   text: string;
   isSubmitted?: boolean;
+  status?: CommentStatus;
+  replies?: CommentReply[];
+  /** The code the comment was written on */
+  codeContext?: string;
   colorIndex?: number;
 }
 
@@ -99,46 +131,6 @@ function renderRangeIndicators(lineNum: number, lineComments: InlineComment[]):
   return html;
 }
 
-/**
- * Render inline comment box
- */
-function renderInlineCommentBox(comment: InlineComment): string {
-  const isPending = !comment.isSubmitted;
-  const statusClass = isPending ? 'pending' : 'submitted';
-  const colorIndex = comment.colorIndex ?? 0;
-  const lineNum = comment.endLine || comment.line;
-
-  return `
-    <div class="inline-comment-box ${statusClass} color-${colorIndex}" data-comment-id="${comment.id}">
-      <div class="inline-comment-header" onclick="toggleInlineComment(${lineNum})" style="cursor: pointer;">
-        <span class="comment-author">Comment</span>
-        ${
-          isPending
-            ? `
-          <div class="inline-comment-actions" onclick="event.stopPropagation()">
-            <button class="btn-icon" onclick="startInlineEdit('${comment.id}')" title="Edit">✎</button>
-            <button class="btn-icon btn-danger" onclick="deleteComment('${comment.id}')" title="Delete">🗑</button>
-          </div>
-        `
-            : `
-          <span class="submitted-label">submitted</span>
-        `
-        }
-      </div>
-      <div class="inline-comment-body" id="inline-body-${comment.id}">
-        ${escapeHtml(comment.text)}
-      </div>
-      <div class="inline-comment-edit" id="inline-edit-${comment.id}" style="display: none;">
-        <textarea class="comment-textarea">${escapeHtml(comment.text)}</textarea>
-        <div class="comment-form-actions">
-          <button class="btn-secondary" onclick="cancelInlineEdit('${comment.id}')">Cancel</button>
-          <button onclick="saveInlineEdit('${comment.id}')">Save</button>
-        </div>
-      </div>
-    </div>
-  `;
-}
-
 /**
  * Render all diff chunks to HTML with syntax highlighting
  * @param chunks - Diff chunks to render
@@ -149,16 +141,278 @@ function renderInlineCommentBox(comment: InlineComment): string {
  *   When provided, uses this for accurate syntax highlighting context
  *   (handles multi-line strings, block comments spanning hunks).
  *   Keys are 1-indexed line numbers.
+ * @param showActions - Show discard/stage buttons on chunk headers
+ *   (working tree diffs only)
+ * @param expandableContext - Lines in the file shown and how many one
+ *   expand up / down reveals; enables expanding the unchanged lines between
+ *   chunks (working tree diffs only)
  */
 export async function renderChunksToHtml(
   chunks: DiffChunk[],
   chunkStates: ChunkState[],
   comments: InlineComment[] = [],
   language = 'plaintext',
-  highlightedLineMap?: Map<number, string>
+  highlightedLineMap?: Map<number, string>,
+  showActions = false,
+  expandableContext?: ExpandableContext
+): Promise<string> {
+  const { byLine: commentsByLine } = buildCommentMaps(comments);
+  const highlighted = await highlightChunkLines(chunks, language, highlightedLineMap);
+  const gaps = expandableContext
+    ? getContextGaps(chunks, expandableContext.fileLineCount)
+    : new Map<number, ContextGap>();
+  const step = expandableContext?.step ?? 0;
+
+  let html = '';
+
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const state = chunkStates[i] || { isCollapsed: false, scopeLabel: null };
+
+    html += renderContextExpander(gaps.get(i), step);
+    html += renderChunkHeader(getChunkHeaderLabel(chunk), i, chunk.stats, hasChunkActions(chunk, showActions));
+
+    const linesClass = state.isCollapsed ? 'collapsed' : '';
+    html += `<tbody class="chunk-lines ${linesClass}" data-chunk-index="${i}">`;
+
+    chunk.lines.forEach((line, lineIdx) => {
+      const lineNum = line.newLineNumber || line.oldLineNumber || 0;
+      const isDeletion = line.type === 'deletion';
+
+      const hasComments = !isDeletion && commentsByLine.has(lineNum);
+      const lineComments = hasComments ? commentsByLine.get(lineNum)! : [];
+      const primaryComments = lineComments.filter(
+        (c) => (c.endLine || c.line) === lineNum
+      );
+
+      html += renderDiffLine(
+        line,
+        lineNum,
+        markSegments(highlighted[i][lineIdx], line),
+        hasComments,
+        lineComments,
+        primaryComments
+      );
+    });
+
+    html += '</tbody>';
+  }
+  html += renderContextExpander(gaps.get(chunks.length), step);
+
+  return html;
+}
+
+/**
+ * Render all diff chunks as a side-by-side (split) table: old lines on the
+ * left, new lines on the right.
+ *
+ * Both sides live in the same table row, so they scroll together and stay
+ * aligned; a side without a counterpart gets an empty padding cell. Rows
+ * carry the new line number, so line selection and inline comments work on
+ * the new side exactly as in the unified view.
+ * Parameters are the same as renderChunksToHtml.
+ */
+export async function renderSplitChunksToHtml(
+  chunks: DiffChunk[],
+  chunkStates: ChunkState[],
+  comments: InlineComment[] = [],
+  language = 'plaintext',
+  highlightedLineMap?: Map<number, string>,
+  showActions = false,
+  expandableContext?: ExpandableContext
 ): Promise<string> {
   const { byLine: commentsByLine } = buildCommentMaps(comments);
+  const highlighted = await highlightChunkLines(chunks, language, highlightedLineMap);
+  const gaps = expandableContext
+    ? getContextGaps(chunks, expandableContext.fileLineCount)
+    : new Map<number, ContextGap>();
+  const step = expandableContext?.step ?? 0;
+
+  let html = '';
+
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const state = chunkStates[i] || { isCollapsed: false, scopeLabel: null };
+
+    html += renderContextExpander(gaps.get(i), step, SPLIT_COLUMN_COUNT);
+    html += renderChunkHeader(
+      getChunkHeaderLabel(chunk),
+      i,
+      chunk.stats,
+      hasChunkActions(chunk, showActions),
+      SPLIT_COLUMN_COUNT
+    );
+
+    const linesClass = state.isCollapsed ? 'collapsed' : '';
+    html += `<tbody class="chunk-lines ${linesClass}" data-chunk-index="${i}">`;
+
+    const toSide = (line: IndexedLine | null): SplitSide | null =>
+      line ? { line, html: markSegments(highlighted[i][line.index], line) } : null;
+
+    for (const row of pairSplitRows(chunk.lines)) {
+      const oldSide = toSide(row.old);
+      const newSide = toSide(row.new);
+
+      const lineNum = newSide?.line.newLineNumber || 0;
+      const lineComments = lineNum > 0 ? commentsByLine.get(lineNum) || [] : [];
+      html += renderSplitLine(oldSide, newSide, lineComments);
+    }
+
+    html += '</tbody>';
+  }
+  html += renderContextExpander(gaps.get(chunks.length), step, SPLIT_COLUMN_COUNT);
+
+  return html;
+}
+
+/** Old line number, old content, gutter, new line number, new content */
+const SPLIT_COLUMN_COUNT = 5;
+
+/** What the unchanged lines between chunks can be expanded from */
+export interface ExpandableContext {
+  /** Lines in the file as it is now */
+  fileLineCount: number;
+  /** Lines revealed by one expand up / expand down, as the extension reveals them */
+  step: number;
+}
+
+/** Unchanged lines hidden between chunks, in the new file (inclusive) */
+interface ContextGap {
+  index: number;
+  start: number;
+  end: number;
+  /** Whether a chunk follows (false for the gap at the end of the file) */
+  hasNext: boolean;
+}
+
+/**
+ * Hidden line ranges by gap index: gap i lies before chunk i, and gap
+ * chunks.length after the last chunk. Empty gaps are left out.
+ */
+function getContextGaps(chunks: DiffChunk[], fileLineCount: number): Map<number, ContextGap> {
+  const gaps = new Map<number, ContextGap>();
+  // Whole-file chunks (new or deleted files) leave nothing to expand
+  if (chunks.length === 0 || chunks.some((c) => c.oldStart === 0 || c.newStart === 0)) return gaps;
+
+  let start = 1;
+  chunks.forEach((chunk, index) => {
+    const { firstNew, nextNew } = getNewLineBounds(chunk);
+    if (firstNew > start) gaps.set(index, { index, start, end: firstNew - 1, hasNext: true });
+    start = nextNew;
+  });
+  if (fileLineCount >= start) {
+    gaps.set(chunks.length, { index: chunks.length, start, end: fileLineCount, hasNext: false });
+  }
+  return gaps;
+}
+
+/**
+ * First new-file line of a chunk and the line after it. Lines past the
+ * header counts (the empty line a trailing newline leaves) don't count.
+ */
+function getNewLineBounds(chunk: DiffChunk): { firstNew: number; nextNew: number } {
+  const counts = chunk.header?.match(/^@@ -\d+(?:,\d+)? \+\d+(?:,(\d+))? @@/);
+  const newCount = counts
+    ? parseInt(counts[1] ?? '1', 10)
+    : chunk.lines.filter((l) => l.type !== 'deletion').length;
+  const firstNew = newCount > 0 ? chunk.newStart : chunk.newStart + 1;
+  return { firstNew, nextNew: firstNew + newCount };
+}
+
+/**
+ * Row offering to reveal a gap's hidden lines: up and down for long gaps,
+ * a single expand for short ones
+ */
+function renderContextExpander(gap: ContextGap | undefined, step: number, colspan = 3): string {
+  if (!gap) return '';
+
+  const hidden = gap.end - gap.start + 1;
+  const label = `${hidden} hidden line${hidden === 1 ? '' : 's'}`;
+  const buttons: Array<{ direction: ContextExpansion; icon: string; title: string }> = [];
+  if (hidden > step) {
+    if (gap.index > 0) buttons.push({ direction: 'down', icon: '↓', title: 'Expand down' });
+    if (gap.hasNext) buttons.push({ direction: 'up', icon: '↑', title: 'Expand up' });
+  }
+  buttons.push({ direction: 'all', icon: '↕', title: `Show ${label}` });
+
+  return `
+    <tr class="context-expander-row" data-gap="${gap.index}">
+      <td colspan="${colspan}" class="context-expander">
+        ${buttons.map((b) => `<button class="context-expand-btn" data-direction="${b.direction}" title="${b.title}">${b.icon}</button>`).join('')}
+        <span class="context-expander-label">${label}</span>
+      </td>
+    </tr>
+  `;
+}
+
+interface IndexedLine extends DiffLine {
+  /** Position of the line in its chunk */
+  index: number;
+}
+
+interface SplitRow {
+  old: IndexedLine | null;
+  new: IndexedLine | null;
+}
+
+interface SplitSide {
+  line: IndexedLine;
+  html: string;
+}
+
+/**
+ * Align a chunk's lines into split rows.
+ * Context lines fill both sides; within each run of changes, the n-th
+ * deletion sits next to the n-th addition and the longer side is padded.
+ */
+function pairSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let deletions: IndexedLine[] = [];
+  let additions: IndexedLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(deletions.length, additions.length); i++) {
+      rows.push({ old: deletions[i] || null, new: additions[i] || null });
+    }
+    deletions = [];
+    additions = [];
+  };
+
+  lines.forEach((line, index) => {
+    const indexed = { ...line, index };
+    if (line.type === 'deletion') {
+      deletions.push(indexed);
+    } else if (line.type === 'addition') {
+      additions.push(indexed);
+    } else {
+      flush();
+      rows.push({ old: indexed, new: indexed });
+    }
+  });
+  flush();
 
+  return rows;
+}
+
+/**
+ * Highlight the changed segments of an edited line.
+ * Segments count characters of the content, so syntax colouring is kept.
+ */
+function markSegments(html: string, line: DiffLine): string {
+  return (line.segments || []).reduce(
+    (result, segment) => wrapTextRange(result, segment.start, segment.end, 'intra-change'),
+    html
+  );
+}
+
+/**
+ * Syntax-highlighted HTML for every line, indexed by chunk then line
+ */
+async function highlightChunkLines(
+  chunks: DiffChunk[],
+  language: string,
+  highlightedLineMap?: Map<number, string>
+): Promise<string[][]> {
   // If we have a pre-highlighted full file map, use it directly
   // Otherwise, fall back to highlighting just the chunk lines
   let highlightedContents: string[] | null = null;
@@ -186,39 +440,17 @@ export async function renderChunksToHtml(
     }
   }
 
-  let html = '';
   let lineIndex = 0;
-
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
-    const state = chunkStates[i] || { isCollapsed: false, scopeLabel: null };
-
-    // In diff mode, always use standard GitHub-style hunk headers (ignore scopeLabel)
-    // scopeLabel is only used in the dedicated Scope View (renderScopedDiff)
-    let chunkHeader: string;
-    if (chunk.oldStart === 0) {
-      chunkHeader = 'New file';
-    } else {
-      const oldCount = chunk.lines.filter(l => l.type !== 'addition').length;
-      const newCount = chunk.lines.filter(l => l.type !== 'deletion').length;
-      chunkHeader = `@@ -${chunk.oldStart},${oldCount} +${chunk.newStart},${newCount} @@`;
-    }
-
-    html += renderChunkHeader(chunkHeader, i, chunk.stats);
-
-    const linesClass = state.isCollapsed ? 'collapsed' : '';
-    html += `<tbody class="chunk-lines ${linesClass}" data-chunk-index="${i}">`;
-
-    for (const line of chunk.lines) {
+  return chunks.map((chunk) =>
+    chunk.lines.map((line) => {
       const lineNum = line.newLineNumber || line.oldLineNumber || 0;
-      const isDeletion = line.type === 'deletion';
 
       // Get highlighted content: prefer full-file map, fallback to batch highlighting
       let highlightedContent: string;
       if (highlightedLineMap && lineNum > 0) {
         // For additions/context, use newLineNumber from the full file map
         // For deletions, we don't have the line in the new file, so escape the content
-        if (isDeletion) {
+        if (line.type === 'deletion') {
           highlightedContent = escapeHtml(line.content);
         } else {
           highlightedContent = highlightedLineMap.get(lineNum) || escapeHtml(line.content);
@@ -229,27 +461,25 @@ export async function renderChunksToHtml(
         highlightedContent = escapeHtml(line.content);
       }
       lineIndex++;
+      return highlightedContent;
+    })
+  );
+}
 
-      const hasComments = !isDeletion && commentsByLine.has(lineNum);
-      const lineComments = hasComments ? commentsByLine.get(lineNum)! : [];
-      const primaryComments = lineComments.filter(
-        (c) => (c.endLine || c.line) === lineNum
-      );
-
-      html += renderDiffLine(
-        line,
-        lineNum,
-        highlightedContent,
-        hasComments,
-        lineComments,
-        primaryComments
-      );
-    }
-
-    html += '</tbody>';
+function getChunkHeaderLabel(chunk: DiffChunk): string {
+  // In diff mode, always use standard GitHub-style hunk headers (ignore scopeLabel)
+  // scopeLabel is only used in the dedicated Scope View (renderScopedDiff)
+  if (chunk.oldStart === 0) {
+    return 'New file';
   }
+  const oldCount = chunk.lines.filter(l => l.type !== 'addition').length;
+  const newCount = chunk.lines.filter(l => l.type !== 'deletion').length;
+  return `@@ -${chunk.oldStart},${oldCount} +${chunk.newStart},${newCount} @@`;
+}
 
-  return html;
+function hasChunkActions(chunk: DiffChunk, showActions: boolean): boolean {
+  // Whole-file chunks (new or deleted files) can't be patched in place
+  return showActions && chunk.oldStart > 0 && chunk.newStart > 0;
 }
 
 /**
@@ -258,17 +488,28 @@ export async function renderChunksToHtml(
 function renderChunkHeader(
   scopeLabel: string,
   index: number,
-  stats?: ChunkStats
+  stats?: ChunkStats,
+  hasActions = false,
+  colspan = 3
 ): string {
+  const actions = hasActions
+    ? `
+        <span class="chunk-actions">
+          <button class="chunk-action-btn" data-action="discard" title="Discard this change">Discard</button>
+          <button class="chunk-action-btn" data-action="stage" title="Stage this change">Stage</button>
+        </span>
+      `
+    : '';
   return `
     <tr class="chunk-header-row" data-chunk-index="${index}">
-      <td colspan="3" class="chunk-header">
+      <td colspan="${colspan}" class="chunk-header">
         <span class="chunk-toggle">▼</span>
         <span class="chunk-scope">${escapeHtml(scopeLabel)}</span>
         <span class="chunk-stats">
           <span class="added">+${stats?.additions || 0}</span>
           <span class="removed">-${stats?.deletions || 0}</span>
         </span>
+        ${actions}
       </td>
     </tr>
   `;
@@ -296,14 +537,15 @@ function renderDiffLine(
     primaryComments.length > 0
       ? ` data-end-lines="${lineNum}" onclick="toggleInlineComment(this)"`
       : '';
+  const movedClass = isMovedLine(line) ? ' moved' : '';
 
   let html = `
-    <tr class="diff-line ${lineClass}" data-line="${lineNum}">
+    <tr class="diff-line ${lineClass}${movedClass}" data-line="${lineNum}"${renderMovedAttrs(line)}>
       <td class="diff-gutter ${markerClass}"${gutterAttrs}>
         ${rangeIndicators}
       </td>
       <td class="diff-line-num">${lineNum}</td>
-      <td class="diff-line-content shiki" data-prefix="${prefix}">${highlightedContent}</td>
+      <td class="diff-line-content shiki" data-prefix="${prefix}">${highlightedContent}${renderMovedLink(line)}</td>
     </tr>
   `;
 
@@ -313,7 +555,7 @@ function renderDiffLine(
       <tr class="inline-comment-row" data-line="${lineNum}">
         <td colspan="3">
           <div class="inline-comments">
-            ${primaryComments.map(renderInlineCommentBox).join('')}
+            ${primaryComments.map((c) => renderInlineCommentBox(c)).join('')}
           </div>
         </td>
       </tr>
@@ -323,6 +565,105 @@ function renderDiffLine(
   return html;
 }
 
+/**
+ * Render single split row, followed by comments that end on its new line
+ */
+function renderSplitLine(
+  oldSide: SplitSide | null,
+  newSide: SplitSide | null,
+  lineComments: InlineComment[]
+): string {
+  // The row type follows the new side, which is the one that takes comments
+  const rowType = newSide ? newSide.line.type : 'deletion';
+  const lineNum = newSide?.line.newLineNumber || oldSide?.line.oldLineNumber || 0;
+  const hasComments = lineComments.length > 0;
+  const primaryComments = lineComments.filter(
+    (c) => (c.endLine || c.line) === lineNum
+  );
+  const rangeIndicators = hasComments
+    ? renderRangeIndicators(lineNum, lineComments)
+    : '';
+  const markerClass = hasComments ? 'has-comment' : '';
+  const gutterAttrs =
+    primaryComments.length > 0
+      ? ` data-end-lines="${lineNum}" onclick="toggleInlineComment(this)"`
+      : '';
+
+  const movedAttrs = (oldSide ? renderMovedAttrs(oldSide.line) : '') +
+    (newSide ? renderMovedAttrs(newSide.line) : '');
+
+  let html = `
+    <tr class="diff-line split-row ${rowType}" data-line="${lineNum}"${movedAttrs}>
+      ${renderSplitCells(oldSide, 'old')}
+      <td class="diff-gutter ${markerClass}"${gutterAttrs}>
+        ${rangeIndicators}
+      </td>
+      ${renderSplitCells(newSide, 'new')}
+    </tr>
+  `;
+
+  if (primaryComments.length > 0) {
+    html += `
+      <tr class="inline-comment-row split-row" data-line="${lineNum}">
+        <td colspan="2" class="split-empty"></td>
+        <td colspan="3">
+          <div class="inline-comments">
+            ${primaryComments.map((c) => renderInlineCommentBox(c)).join('')}
+          </div>
+        </td>
+      </tr>
+    `;
+  }
+
+  return html;
+}
+
+/**
+ * Line number and content cells for one side of a split row
+ */
+function renderSplitCells(side: SplitSide | null, which: 'old' | 'new'): string {
+  if (!side) {
+    return `
+      <td class="diff-line-num split-${which} split-empty"></td>
+      <td class="diff-line-content split-${which} split-empty"></td>
+    `;
+  }
+
+  const lineNum = which === 'old' ? side.line.oldLineNumber : side.line.newLineNumber;
+  const cellClass = `split-${which} split-${side.line.type}${isMovedLine(side.line) ? ' split-moved' : ''}`;
+  return `
+    <td class="diff-line-num ${cellClass}">${lineNum || ''}</td>
+    <td class="diff-line-content shiki ${cellClass}">${side.html}${renderMovedLink(side.line)}</td>
+  `;
+}
+
+function isMovedLine(line: DiffLine): boolean {
+  return line.movedTo !== undefined || line.movedFrom !== undefined;
+}
+
+/**
+ * Mark where a moved line sits, so the link on its counterpart can find it
+ */
+function renderMovedAttrs(line: DiffLine): string {
+  if (line.movedTo !== undefined) return ` data-moved-old="${line.oldLineNumber}"`;
+  if (line.movedFrom !== undefined) return ` data-moved-new="${line.newLineNumber}"`;
+  return '';
+}
+
+/**
+ * Link from a moved line to its counterpart.
+ * The label is drawn by CSS from data-label, so it stays out of search and copied text.
+ */
+function renderMovedLink(line: DiffLine): string {
+  if (line.movedTo !== undefined) {
+    return `<span class="moved-link" data-moved-side="new" data-moved-line="${line.movedTo}" data-label="moved to line ${line.movedTo}"></span>`;
+  }
+  if (line.movedFrom !== undefined) {
+    return `<span class="moved-link" data-moved-side="old" data-moved-line="${line.movedFrom}" data-label="moved from line ${line.movedFrom}"></span>`;
+  }
+  return '';
+}
+
 /**
  * Setup chunk collapse/expand handlers
  */
@@ -330,9 +671,57 @@ export function setupChunkToggleHandlers(
   onToggle: (chunkIndex: number) => void
 ): void {
   document.querySelectorAll('.chunk-header-row').forEach((row) => {
-    (row as HTMLElement).onclick = () => {
+    (row as HTMLElement).onclick = (e: MouseEvent) => {
+      if ((e.target as HTMLElement).closest('.chunk-action-btn')) return;
       const index = parseInt((row as HTMLElement).dataset.chunkIndex || '0');
       onToggle(index);
     };
   });
 }
+
+/**
+ * Setup buttons that reveal hidden lines between chunks
+ */
+export function setupContextExpandHandlers(
+  onExpand: (gap: number, direction: ContextExpansion) => void
+): void {
+  document.querySelectorAll('.context-expand-btn').forEach((btn) => {
+    (btn as HTMLElement).onclick = () => {
+      const row = btn.closest('.context-expander-row') as HTMLElement | null;
+      const gap = parseInt(row?.dataset.gap || '0');
+      onExpand(gap, (btn as HTMLElement).dataset.direction as ContextExpansion);
+    };
+  });
+}
+
+/**
+ * Setup moved line links: clicking one scrolls to where the code moved
+ */
+export function setupMovedLineHandlers(): void {
+  document.querySelectorAll('.moved-link').forEach((link) => {
+    (link as HTMLElement).onclick = (e: MouseEvent) => {
+      e.stopPropagation();
+      const { movedSide, movedLine } = (link as HTMLElement).dataset;
+      const target = document.querySelector(`.diff-line[data-moved-${movedSide}="${movedLine}"]`);
+      if (!target) return;
+      target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      target.classList.add('highlight-target');
+      setTimeout(() => target.classList.remove('highlight-target'), 2000);
+    };
+  });
+}
+
+/**
+ * Setup discard/stage button handlers on chunk headers
+ */
+export function setupChunkActionHandlers(
+  onAction: (action: ChunkAction, chunkIndex: number) => void
+): void {
+  document.querySelectorAll('.chunk-action-btn').forEach((btn) => {
+    (btn as HTMLElement).onclick = () => {
+      const row = btn.closest('.chunk-header-row') as HTMLElement | null;
+      const index = parseInt(row?.dataset.chunkIndex || '0');
+      onAction((btn as HTMLElement).dataset.action as ChunkAction, index);
+    };
+  });
+}
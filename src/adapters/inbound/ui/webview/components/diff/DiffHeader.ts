@@ -4,12 +4,32 @@
  * Renders file path, stats badges, and view mode toggle.
  */
 
+import { escapeHtml } from '../../utils/dom';
+
 export interface DiffStats {
   additions: number;
   deletions: number;
 }
 
-export type ViewMode = 'diff' | 'scope' | 'preview';
+export type ViewMode = 'diff' | 'split' | 'scope' | 'preview';
+
+export interface FileOrigin {
+  kind: 'renamed' | 'copied';
+  oldPath: string;
+  similarity: number;
+}
+
+export interface DiffOptions {
+  ignoreWhitespace?: boolean;
+  ignoreBlankLines?: boolean;
+  detectMoves?: boolean;
+}
+
+const DIFF_OPTION_LABELS: Array<{ key: keyof DiffOptions; label: string; title: string }> = [
+  { key: 'ignoreWhitespace', label: 'Whitespace', title: 'Ignore whitespace changes' },
+  { key: 'ignoreBlankLines', label: 'Blank lines', title: 'Ignore added or removed blank lines' },
+  { key: 'detectMoves', label: 'Moves', title: 'Highlight moved blocks of code' },
+];
 
 export interface DiffHeaderProps {
   filePath: string;
@@ -44,7 +64,7 @@ export function renderDiffStats(stats: DiffStats): string {
 }
 
 /**
- * Render view mode toggle button
+ * Render view mode toggle buttons
  */
 export function renderViewModeToggle(
   viewMode: ViewMode,
@@ -54,20 +74,40 @@ export function renderViewModeToggle(
   if (isMarkdown) {
     return `
       <div class="view-mode-toggle">
+        ${renderSplitToggle(viewMode)}
         <button class="toggle-btn" onclick="toggleDiffViewMode()">${viewMode === 'preview' ? 'Diff' : 'Preview'}</button>
       </div>
     `;
   }
 
-  if (hasScopedDiff) {
-    return `
-      <div class="view-mode-toggle">
-        <button class="toggle-btn" onclick="toggleDiffViewMode()">Scope</button>
-      </div>
-    `;
-  }
+  const scopeToggle = hasScopedDiff
+    ? '<button class="toggle-btn" onclick="toggleDiffViewMode()">Scope</button>'
+    : '';
+  return `
+    <div class="view-mode-toggle">
+      ${renderSplitToggle(viewMode)}
+      ${scopeToggle}
+    </div>
+  `;
+}
 
-  return '';
+/**
+ * Render unified/split layout toggle button (not shown in preview)
+ */
+export function renderSplitToggle(viewMode: ViewMode): string {
+  if (viewMode === 'preview') return '';
+  return `<button class="toggle-btn" onclick="toggleSplitView()">${viewMode === 'split' ? 'Unified' : 'Split'}</button>`;
+}
+
+/**
+ * Render diff option toggles (whitespace, blank lines, moved code)
+ */
+export function renderDiffOptions(options: DiffOptions): string {
+  const buttons = DIFF_OPTION_LABELS.map(({ key, label, title }) => {
+    const active = options[key] ? ' active' : '';
+    return `<button class="toggle-btn diff-option-btn${active}" onclick="toggleDiffOption('${key}')" title="${title}">${label}</button>`;
+  }).join('');
+  return `<div class="diff-options">${buttons}</div>`;
 }
 
 /**
@@ -128,6 +168,43 @@ export function updateDiffHeader(
   });
 }
 
+/**
+ * Render placeholder for a file too large to diff
+ */
+export function renderTooLargePlaceholder(tooLarge: { oldLineCount: number; newLineCount: number }): string {
+  return `
+    <div class="placeholder">
+      <div class="placeholder-icon">📄</div>
+      <div class="placeholder-text">File too large to diff (${tooLarge.oldLineCount} → ${tooLarge.newLineCount} lines)</div>
+    </div>
+  `;
+}
+
+/**
+ * Render where a renamed or copied file came from
+ */
+export function renderFileOrigin(origin: FileOrigin): string {
+  return `
+    <div class="file-origin">
+      ${origin.kind === 'renamed' ? 'Renamed' : 'Copied'} from
+      <span class="file-origin-path">${escapeHtml(origin.oldPath)}</span>
+      <span class="file-origin-similarity">${origin.similarity}% similar</span>
+    </div>
+  `;
+}
+
+/**
+ * Render placeholder for a binary file that can't be previewed
+ */
+export function renderBinaryPlaceholder(): string {
+  return `
+    <div class="placeholder">
+      <div class="placeholder-icon">📦</div>
+      <div class="placeholder-text">Binary file changed</div>
+    </div>
+  `;
+}
+
 /**
  * Render placeholder when no file selected
  */
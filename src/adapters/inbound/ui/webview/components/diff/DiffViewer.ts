@@ -106,20 +106,21 @@ export function renderEmptyState(
 }
 
 /**
- * Toggle diff view mode
+ * Toggle diff view mode, returning to the last diff layout from scope or preview
  */
 export function getNextViewMode(
   currentMode: ViewMode,
   isMarkdown: boolean,
-  hasScopedDiff: boolean
+  hasScopedDiff: boolean,
+  diffLayout: 'diff' | 'split' = 'diff'
 ): ViewMode {
   if (isMarkdown) {
-    return currentMode === 'preview' ? 'diff' : 'preview';
+    return currentMode === 'preview' ? diffLayout : 'preview';
   }
   if (hasScopedDiff) {
-    return currentMode === 'scope' ? 'diff' : 'scope';
+    return currentMode === 'scope' ? diffLayout : 'scope';
   }
-  return 'diff';
+  return diffLayout;
 }
 
 /**
@@ -132,6 +133,26 @@ export function registerViewModeToggle(
   win.toggleDiffViewMode = onToggle;
 }
 
+/**
+ * Register unified/split toggle on window
+ */
+export function registerSplitViewToggle(
+  onToggle: () => void
+): void {
+  const win = window as unknown as Record<string, unknown>;
+  win.toggleSplitView = onToggle;
+}
+
+/**
+ * Register diff option toggle on window
+ */
+export function registerDiffOptionToggle(
+  onToggle: (option: string) => void
+): void {
+  const win = window as unknown as Record<string, unknown>;
+  win.toggleDiffOption = onToggle;
+}
+
 /**
  * Register feed toggle on window
  */
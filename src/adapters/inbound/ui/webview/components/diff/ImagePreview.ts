@@ -0,0 +1,55 @@
+/**
+ * Image Preview Component
+ *
+ * Renders an image as it was and as it is, side by side.
+ */
+
+export interface ImagePreview {
+  /** Data URI of the old image; missing when the file is new */
+  before?: string;
+  /** Data URI of the new image; missing when the file was deleted */
+  after?: string;
+}
+
+/**
+ * Render before/after panes
+ */
+export function renderImagePreview(preview: ImagePreview): string {
+  return `
+    <div class="image-preview">
+      ${renderImagePane('Before', 'before', preview.before)}
+      ${renderImagePane('After', 'after', preview.after)}
+    </div>
+  `;
+}
+
+function renderImagePane(label: string, side: string, src: string | undefined): string {
+  const content = src
+    ? `<img class="image-preview-img" src="${src}" alt="${label}">`
+    : '<div class="image-preview-none">No image</div>';
+  return `
+    <div class="image-preview-pane ${side}">
+      <div class="image-preview-label">${label}<span class="image-preview-size"></span></div>
+      <div class="image-preview-frame">${content}</div>
+    </div>
+  `;
+}
+
+/**
+ * Show each image's dimensions once it has loaded
+ */
+export function setupImagePreviewHandlers(): void {
+  document.querySelectorAll<HTMLImageElement>('.image-preview-img').forEach((img) => {
+    const showSize = () => {
+      const size = img.closest('.image-preview-pane')?.querySelector('.image-preview-size');
+      if (size && img.naturalWidth) {
+        size.textContent = ` · ${img.naturalWidth} × ${img.naturalHeight}`;
+      }
+    };
+    if (img.complete) {
+      showSize();
+    } else {
+      img.addEventListener('load', showSize, { once: true });
+    }
+  });
+}
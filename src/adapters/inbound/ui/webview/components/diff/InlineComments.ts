@@ -6,6 +6,7 @@
 
 import { escapeHtml } from '../../utils/dom';
 import { clearLineSelection } from './LineSelection';
+import type { ChunkAction, CommentReply, CommentStatus, InlineComment } from './ChunkRenderer';
 
 export interface CommentDraft {
   file: string;
@@ -22,9 +23,116 @@ export interface InlineCommentHandlers {
   onExpandSidebar: () => void;
   onEdit?: (id: string, text: string) => void;
   onDelete?: (id: string) => void;
+  onReply?: (id: string, text: string) => void;
+  onSetResolved?: (id: string, resolved: boolean) => void;
+  /** Discard or stage the selected lines; the form offers it only when set */
+  onLineAction?: (action: ChunkAction, startLine: number, endLine: number) => void;
   getSignal: () => AbortSignal;
 }
 
+/**
+ * Badge for a comment whose code changed after it was written
+ */
+export function renderDetachedBadge(status: CommentStatus | undefined): string {
+  if (status === 'outdated') {
+    return '<span class="outdated-label" title="The commented code was edited">outdated</span>';
+  }
+  if (status === 'deleted') {
+    return '<span class="outdated-label" title="The commented code was removed">code deleted</span>';
+  }
+  return '';
+}
+
+/**
+ * The code an outdated or deleted comment was written on
+ */
+export function renderOriginalCode(status: CommentStatus | undefined, codeContext: string | undefined): string {
+  if ((status !== 'outdated' && status !== 'deleted') || !codeContext?.trim()) return '';
+  return `
+    <div class="comment-original-code">
+      <div class="comment-original-label">Originally commented on</div>
+      <pre>${escapeHtml(codeContext)}</pre>
+    </div>
+  `;
+}
+
+/**
+ * The agent's terminal output for a sent comment, collapsed since it can be long
+ */
+export function renderAgentResponse(reply: CommentReply): string {
+  return `
+    <details class="comment-agent-response">
+      <summary>Agent response</summary>
+      <pre>${escapeHtml(reply.text)}</pre>
+    </details>
+  `;
+}
+
+/**
+ * Render a comment thread below the lines it is on: the comment, its replies,
+ * and a reply form once the comment has been sent
+ * @param toggleLine - Line whose comment row the header collapses
+ */
+export function renderInlineCommentBox(
+  comment: InlineComment,
+  toggleLine: number = comment.endLine || comment.line
+): string {
+  const isPending = !comment.isSubmitted;
+  const statusClass = isPending ? 'pending' : 'submitted';
+  const colorIndex = comment.colorIndex ?? 0;
+  const replies = (comment.replies || [])
+    .map((reply) => reply.author === 'agent' ? renderAgentResponse(reply) : `
+      <div class="inline-comment-reply${reply.isSubmitted ? '' : ' pending'}">
+        ${escapeHtml(reply.text)}${reply.isSubmitted ? '' : '<span class="unsent-label">not sent</span>'}
+      </div>
+    `)
+    .join('');
+
+  return `
+    <div class="inline-comment-box ${statusClass} color-${colorIndex}" data-comment-id="${comment.id}">
+      <div class="inline-comment-header" onclick="toggleInlineComment(${toggleLine})" style="cursor: pointer;">
+        <span class="comment-author">Comment</span>
+        ${renderDetachedBadge(comment.status)}
+        ${
+          isPending
+            ? `
+          <div class="inline-comment-actions" onclick="event.stopPropagation()">
+            <button class="btn-icon" onclick="startInlineEdit('${comment.id}')" title="Edit">✎</button>
+            <button class="btn-icon btn-danger" onclick="deleteComment('${comment.id}')" title="Delete">🗑</button>
+          </div>
+        `
+            : `
+          <span class="submitted-label">submitted</span>
+          <div class="inline-comment-actions" onclick="event.stopPropagation()">
+            <button class="btn-icon" onclick="startInlineReply('${comment.id}')" title="Reply">↩</button>
+            <button class="btn-icon" onclick="resolveInlineComment('${comment.id}')" title="Resolve">✓</button>
+          </div>
+        `
+        }
+      </div>
+      ${renderOriginalCode(comment.status, comment.codeContext)}
+      <div class="inline-comment-body" id="inline-body-${comment.id}">
+        ${escapeHtml(comment.text)}
+      </div>
+      <div class="inline-comment-edit" id="inline-edit-${comment.id}" style="display: none;">
+        <textarea class="comment-textarea">${escapeHtml(comment.text)}</textarea>
+        <div class="comment-form-actions">
+          <button class="btn-secondary" onclick="cancelInlineEdit('${comment.id}')">Cancel</button>
+          <button onclick="saveInlineEdit('${comment.id}')">Save</button>
+        </div>
+      </div>
+      ${replies}
+      <div class="inline-comment-edit" id="inline-reply-${comment.id}" style="display: none;">
+        <textarea class="comment-textarea" placeholder="Reply..."></textarea>
+        <div class="comment-form-actions">
+          <button class="btn-secondary" onclick="cancelInlineReply('${comment.id}')">Cancel</button>
+          <button onclick="submitInlineReply('${comment.id}')">Reply</button>
+        </div>
+      </div>
+    </div>
+  `;
+}
+
 /**
  * Show inline comment form after line selection
  */
@@ -59,12 +167,24 @@ export function showInlineCommentForm(
   formRow.dataset.file = currentFile;
   formRow.dataset.start = String(startLine);
   formRow.dataset.end = String(actualEndLine);
+  const lineActions = handlers.onLineAction
+    ? `
+          <span class="line-actions">
+            <button class="btn-secondary" onclick="applyLineAction('discard')" title="Discard changes on ${lineDisplay}">Discard</button>
+            <button class="btn-secondary" onclick="applyLineAction('stage')" title="Stage changes on ${lineDisplay}">Stage</button>
+          </span>
+        `
+    : '';
+  // In split view the form sits under the new side, like comment rows
+  const isSplitRow = selectedLineElement.classList.contains('split-row');
   formRow.innerHTML = `
+    ${isSplitRow ? '<td colspan="2" class="split-empty"></td>' : ''}
     <td colspan="3">
       <div class="inline-comment-form active">
         <div class="comment-form-header">Comment on ${lineDisplay}</div>
         <textarea class="comment-textarea" placeholder="Leave a comment...">${escapeHtml(existingText)}</textarea>
         <div class="comment-form-actions">
+          ${lineActions}
           <button class="btn-secondary" onclick="cancelCommentForm()">Cancel</button>
           <button onclick="submitInlineComment()">Add Comment</button>
         </div>
@@ -178,6 +298,22 @@ export function cancelCommentForm(handlers: InlineCommentHandlers): void {
   handlers.onDraftClear();
 }
 
+/**
+ * Discard or stage the lines the comment form was opened on
+ */
+export function applyLineAction(action: ChunkAction, handlers: InlineCommentHandlers): void {
+  const formRow = document.querySelector('.comment-form-row');
+  if (!formRow || !handlers.onLineAction) return;
+
+  const startLine = parseInt(formRow.getAttribute('data-start') || '0');
+  const endLine = parseInt(formRow.getAttribute('data-end') || '0');
+
+  handlers.onLineAction(action, startLine, endLine);
+  clearLineSelection();
+  formRow.remove();
+  handlers.onDraftClear();
+}
+
 /**
  * Submit inline comment
  */
@@ -281,6 +417,48 @@ export function saveInlineEdit(
   cancelInlineEdit(commentId);
 }
 
+/**
+ * Open the reply form of a sent comment
+ */
+export function startInlineReply(commentId: string): void {
+  const replyEl = document.getElementById('inline-reply-' + commentId);
+  if (!replyEl) return;
+  replyEl.style.display = 'block';
+  const textarea = replyEl.querySelector('textarea');
+  if (textarea) textarea.focus();
+}
+
+/**
+ * Close the reply form and drop what was typed
+ */
+export function cancelInlineReply(commentId: string): void {
+  const replyEl = document.getElementById('inline-reply-' + commentId);
+  if (!replyEl) return;
+  replyEl.style.display = 'none';
+  const textarea = replyEl.querySelector('textarea');
+  if (textarea) textarea.value = '';
+}
+
+/**
+ * Add the typed reply to the comment's thread
+ */
+export function submitInlineReply(
+  commentId: string,
+  onReply: (id: string, text: string) => void,
+  onSaveScrollPosition: () => void
+): void {
+  const replyEl = document.getElementById('inline-reply-' + commentId);
+  const textarea = replyEl?.querySelector('textarea');
+  if (!textarea) return;
+
+  const text = textarea.value.trim();
+  if (text) {
+    onSaveScrollPosition();
+    onReply(commentId, text);
+  }
+  cancelInlineReply(commentId);
+}
+
 /**
  * Register inline comment handlers on window
  */
@@ -288,6 +466,7 @@ export function registerInlineCommentHandlers(handlers: InlineCommentHandlers):
   const win = window as unknown as Record<string, unknown>;
   win.cancelCommentForm = () => cancelCommentForm(handlers);
   win.submitInlineComment = () => submitInlineComment(handlers);
+  win.applyLineAction = (action: ChunkAction) => applyLineAction(action, handlers);
   win.toggleInlineComment = toggleInlineComment;
   win.startInlineEdit = startInlineEdit;
   win.cancelInlineEdit = cancelInlineEdit;
@@ -301,4 +480,17 @@ export function registerInlineCommentHandlers(handlers: InlineCommentHandlers):
       handlers.onDelete(commentId);
     }
   };
+  win.startInlineReply = startInlineReply;
+  win.cancelInlineReply = cancelInlineReply;
+  win.submitInlineReply = (commentId: string) => {
+    if (handlers.onReply) {
+      submitInlineReply(commentId, handlers.onReply, handlers.onSaveScrollPosition);
+    }
+  };
+  win.resolveInlineComment = (commentId: string) => {
+    if (handlers.onSetResolved) {
+      handlers.onSaveScrollPosition();
+      handlers.onSetResolved(commentId, true);
+    }
+  };
 }
@@ -114,7 +114,7 @@ export function handleLineMouseDown(
   const row = target.closest('.diff-line') as HTMLElement | null;
 
   if (!row) return state;
-  if (target.closest('.line-comment-btn') || target.closest('.inline-comment-form')) {
+  if (target.closest('.line-comment-btn') || target.closest('.inline-comment-form') || target.closest('.moved-link')) {
     return state;
   }
 
@@ -127,8 +127,8 @@ export function handleLineMouseDown(
     }
   }
 
-  // Don't allow comments on deletion lines
-  if (row.classList.contains('deletion')) return state;
+  // Don't allow comments on deletion lines, or on the old side of a split row
+  if (row.classList.contains('deletion') || target.closest('.split-old')) return state;
 
   const lineNum = row.dataset.line;
   if (!lineNum) return state;
@@ -6,6 +6,7 @@
 
 import { escapeHtml } from '../../utils/dom';
 import type { InlineComment } from './ChunkRenderer';
+import { renderInlineCommentBox } from './InlineComments';
 
 export interface ScopeDiffLine {
   type: 'addition' | 'deletion' | 'context';
@@ -131,45 +132,6 @@ function renderRangeIndicators(lineNum: number, lineComments: InlineComment[]):
   return html;
 }
 
-/**
- * Render inline comment box
- */
-function renderInlineCommentBox(comment: InlineComment, lineNum: number): string {
-  const isPending = !comment.isSubmitted;
-  const statusClass = isPending ? 'pending' : 'submitted';
-  const colorIndex = comment.colorIndex ?? 0;
-
-  return `
-    <div class="inline-comment-box ${statusClass} color-${colorIndex}" data-comment-id="${comment.id}">
-      <div class="inline-comment-header" onclick="toggleInlineComment(${lineNum})" style="cursor: pointer;">
-        <span class="comment-author">Comment</span>
-        ${
-          isPending
-            ? `
-          <div class="inline-comment-actions" onclick="event.stopPropagation()">
-            <button class="btn-icon" onclick="startInlineEdit('${comment.id}')" title="Edit">✎</button>
-            <button class="btn-icon btn-danger" onclick="deleteComment('${comment.id}')" title="Delete">🗑</button>
-          </div>
-        `
-            : `
-          <span class="submitted-label">submitted</span>
-        `
-        }
-      </div>
-      <div class="inline-comment-body" id="inline-body-${comment.id}">
-        ${escapeHtml(comment.text)}
-      </div>
-      <div class="inline-comment-edit" id="inline-edit-${comment.id}" style="display: none;">
-        <textarea class="comment-textarea">${escapeHtml(comment.text)}</textarea>
-        <div class="comment-form-actions">
-          <button class="btn-secondary" onclick="cancelInlineEdit('${comment.id}')">Cancel</button>
-          <button onclick="saveInlineEdit('${comment.id}')">Save</button>
-        </div>
-      </div>
-    </div>
-  `;
-}
-
 /**
  * Render diff lines within a scope
  */
@@ -23,13 +23,21 @@ export {
   isMarkdownFile,
   renderDiffStats,
   renderViewModeToggle,
+  renderSplitToggle,
+  renderDiffOptions,
   renderFeedToggle,
   renderThreadBadge,
   renderStatsSection,
   updateDiffHeader,
   renderPlaceholder,
+  renderTooLargePlaceholder,
+  renderFileOrigin,
+  renderBinaryPlaceholder,
 } from './DiffHeader';
-export type { DiffStats, ViewMode, DiffHeaderProps } from './DiffHeader';
+export type { DiffStats, ViewMode, DiffOptions, FileOrigin, DiffHeaderProps } from './DiffHeader';
+
+export { renderImagePreview, setupImagePreviewHandlers } from './ImagePreview';
+export type { ImagePreview } from './ImagePreview';
 
 export {
   createSelectionState,
@@ -53,20 +61,41 @@ export {
   restoreDraftCommentForm,
   cancelCommentForm,
   submitInlineComment,
+  applyLineAction,
   toggleInlineComment,
   startInlineEdit,
   cancelInlineEdit,
   saveInlineEdit,
+  renderInlineCommentBox,
+  renderDetachedBadge,
+  renderOriginalCode,
+  renderAgentResponse,
+  startInlineReply,
+  cancelInlineReply,
+  submitInlineReply,
   registerInlineCommentHandlers,
 } from './InlineComments';
 export type { CommentDraft, InlineCommentHandlers } from './InlineComments';
 
-export { renderChunksToHtml, setupChunkToggleHandlers } from './ChunkRenderer';
+export {
+  renderChunksToHtml,
+  renderSplitChunksToHtml,
+  setupChunkToggleHandlers,
+  setupChunkActionHandlers,
+  setupMovedLineHandlers,
+  setupContextExpandHandlers,
+} from './ChunkRenderer';
 export type {
+  ChunkAction,
+  ContextExpansion,
+  ExpandableContext,
+  DiffSegment,
   DiffLine,
   ChunkStats,
   DiffChunk,
   ChunkState,
+  CommentStatus,
+  CommentReply,
   InlineComment,
 } from './ChunkRenderer';
 
@@ -92,6 +121,8 @@ export {
   renderEmptyState,
   getNextViewMode,
   registerViewModeToggle,
+  registerSplitViewToggle,
+  registerDiffOptionToggle,
   registerFeedToggle,
   renderDiffTableWrapper,
 } from './DiffViewer';
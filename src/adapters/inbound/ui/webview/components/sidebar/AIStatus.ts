@@ -1,13 +1,14 @@
 /**
  * AI Status Component
  *
- * Displays the current AI assistant status (Claude, Codex, Gemini, or Ready).
+ * Displays the current AI assistant status (agent display name or Ready).
  * Also handles agent header display for multi-agent mode.
  */
 
 export interface AIStatusData {
   active: boolean;
-  type?: 'claude' | 'codex' | 'gemini' | string;
+  type?: string;
+  displayName?: string;
 }
 
 export type AgentStatus = 'working' | 'idle' | 'waiting' | 'error';
@@ -28,15 +29,7 @@ export function renderAIStatus(aiStatus: AIStatusData): void {
   if (!badge || !typeEl) return;
 
   if (aiStatus.active && aiStatus.type) {
-    const label =
-      aiStatus.type === 'claude'
-        ? 'Claude'
-        : aiStatus.type === 'codex'
-          ? 'Codex'
-          : aiStatus.type === 'gemini'
-            ? 'Gemini'
-            : aiStatus.type;
-    typeEl.textContent = label;
+    typeEl.textContent = aiStatus.displayName ?? aiStatus.type;
     badge.classList.add('active');
   } else {
     typeEl.textContent = 'Ready';
@@ -2,9 +2,13 @@
  * Comments Component
  *
  * Sidebar comments list with edit, delete, and navigation.
+ * Sent comments stay as threads to reply to until they are resolved,
+ * with what the agent printed in response.
  */
 
 import { escapeHtml } from '../../utils/dom';
+import type { CommentStatus, CommentReply } from '../diff/ChunkRenderer';
+import { renderAgentResponse, renderDetachedBadge, renderOriginalCode } from '../diff/InlineComments';
 
 export interface Comment {
   id: string;
@@ -13,11 +17,16 @@ export interface Comment {
   endLine?: number;
   text: string;
   isSubmitted?: boolean;
+  status?: CommentStatus;
+  replies?: CommentReply[];
+  codeContext?: string;
 }
 
 export interface CommentHandlers {
   onEdit: (id: string, text: string) => void;
   onDelete: (id: string) => void;
+  onReply: (id: string, text: string) => void;
+  onSetResolved: (id: string, resolved: boolean) => void;
   onNavigate: (id: string) => void;
   onSaveScrollPosition: () => void;
 }
@@ -40,18 +49,17 @@ export function renderComments(comments: Comment[]): void {
     commentColorMap.set(comment.id, idx % 6);
   });
 
-  // Separate pending and submitted
-  const pending = comments.filter((c) => !c.isSubmitted);
-  const submitted = comments.filter((c) => c.isSubmitted);
+  // Unsent comments can still be edited; sent ones are conversations until resolved
+  const pending = comments.filter((c) => !c.isSubmitted && c.status !== 'resolved');
+  const threads = comments.filter((c) => c.isSubmitted && c.status !== 'resolved');
+  const resolved = comments.filter((c) => c.status === 'resolved');
 
   let html = '';
 
   // Pending comments with edit/delete (most recent first)
   const sortedPending = [...pending].reverse();
   sortedPending.forEach((comment) => {
-    const lineDisplay = comment.endLine
-      ? `${comment.line}-${comment.endLine}`
-      : comment.line;
+    const lineDisplay = formatLineDisplay(comment);
     const colorIndex = commentColorMap.get(comment.id);
 
     html += `
@@ -60,11 +68,13 @@ export function renderComments(comments: Comment[]): void {
           <span class="comment-location" onclick="navigateToComment('${comment.id}')" title="${comment.file}:${lineDisplay}">
             📝 ${comment.file}:${lineDisplay}
           </span>
+          ${renderDetachedBadge(comment.status)}
           <div class="comment-actions">
             <button class="btn-icon" onclick="startEditComment('${comment.id}')" title="Edit">✎</button>
             <button class="btn-icon btn-danger" onclick="deleteComment('${comment.id}')" title="Delete">🗑</button>
           </div>
         </div>
+        ${renderOriginalCode(comment.status, comment.codeContext)}
         <div class="comment-text" id="comment-text-${comment.id}">${escapeHtml(comment.text)}</div>
         <div class="comment-edit-form" id="comment-edit-${comment.id}" style="display: none;">
           <textarea class="comment-textarea">${escapeHtml(comment.text)}</textarea>
@@ -77,28 +87,61 @@ export function renderComments(comments: Comment[]): void {
     `;
   });
 
-  // Submitted history section (collapsed by default)
-  if (submitted.length > 0) {
+  // Sent threads with replies (most recent first)
+  const sortedThreads = [...threads].reverse();
+  sortedThreads.forEach((comment) => {
+    const lineDisplay = formatLineDisplay(comment);
+    const colorIndex = commentColorMap.get(comment.id);
+
     html += `
-      <div class="submitted-section">
-        <div class="submitted-header" onclick="toggleSubmittedHistory()">
-          <span class="submitted-toggle" id="submitted-toggle">▶</span>
-          <span>Submitted (${submitted.length})</span>
+      <div class="comment-item comment-thread color-${colorIndex}" data-id="${comment.id}">
+        <div class="comment-header">
+          <span class="comment-location" onclick="navigateToComment('${comment.id}')" title="${comment.file}:${lineDisplay}">
+            💬 ${comment.file}:${lineDisplay}
+          </span>
+          ${renderDetachedBadge(comment.status)}
+          <div class="comment-actions">
+            <button class="btn-icon" onclick="startReplyComment('${comment.id}')" title="Reply">↩</button>
+            <button class="btn-icon" onclick="resolveComment('${comment.id}')" title="Resolve">✓</button>
+          </div>
+        </div>
+        ${renderOriginalCode(comment.status, comment.codeContext)}
+        <div class="comment-text">${escapeHtml(comment.text)}</div>
+        ${renderReplies(comment)}
+        <div class="comment-edit-form" id="comment-reply-${comment.id}" style="display: none;">
+          <textarea class="comment-textarea" placeholder="Reply..."></textarea>
+          <div class="comment-form-actions">
+            <button class="btn-secondary" onclick="cancelReplyComment('${comment.id}')">Cancel</button>
+            <button onclick="saveReplyComment('${comment.id}')">Reply</button>
+          </div>
         </div>
-        <div class="submitted-list" id="submitted-list" style="display: none;">
+      </div>
     `;
-    const sortedSubmitted = [...submitted].reverse();
-    sortedSubmitted.forEach((comment) => {
-      const lineDisplay = comment.endLine
-        ? `${comment.line}-${comment.endLine}`
-        : comment.line;
+  });
+
+  // Resolved section (collapsed by default)
+  if (resolved.length > 0) {
+    html += `
+      <div class="resolved-section">
+        <div class="resolved-header" onclick="toggleResolvedComments()">
+          <span class="resolved-toggle" id="resolved-toggle">▶</span>
+          <span>Resolved (${resolved.length})</span>
+        </div>
+        <div class="resolved-list" id="resolved-list" style="display: none;">
+    `;
+    const sortedResolved = [...resolved].reverse();
+    sortedResolved.forEach((comment) => {
+      const lineDisplay = formatLineDisplay(comment);
       html += `
-        <div class="comment-item submitted" data-id="${comment.id}">
+        <div class="comment-item resolved" data-id="${comment.id}">
           <div class="comment-header">
             <span class="comment-location">✓ ${comment.file}:${lineDisplay}</span>
-            <span class="submitted-badge">submitted</span>
+            <div class="comment-actions">
+              <button class="btn-icon" onclick="reopenComment('${comment.id}')" title="Reopen">↺</button>
+            </div>
           </div>
           <div class="comment-text">${escapeHtml(comment.text)}</div>
+          ${renderReplies(comment)}
         </div>
       `;
     });
@@ -111,6 +154,20 @@ export function renderComments(comments: Comment[]): void {
   list.innerHTML = html;
 }
 
+function formatLineDisplay(comment: Comment): string {
+  return comment.endLine ? `${comment.line}-${comment.endLine}` : `${comment.line}`;
+}
+
+function renderReplies(comment: Comment): string {
+  return (comment.replies || [])
+    .map((reply) => reply.author === 'agent' ? renderAgentResponse(reply) : `
+      <div class="comment-reply${reply.isSubmitted ? '' : ' pending'}">
+        ${escapeHtml(reply.text)}${reply.isSubmitted ? '' : '<span class="unsent-label">not sent</span>'}
+      </div>
+    `)
+    .join('');
+}
+
 /**
  * Setup keyboard handler for comment textarea
  * Enter to save, Cmd/Ctrl+Enter for newline
@@ -207,11 +264,64 @@ export function navigateToComment(id: string, handlers: CommentHandlers): void {
 }
 
 /**
- * Toggle submitted history visibility
+ * Open the reply form of a sent comment
+ */
+export function startReplyComment(id: string, handlers?: CommentHandlers): void {
+  const replyEl = document.getElementById('comment-reply-' + id);
+  if (!replyEl) return;
+  replyEl.style.display = 'block';
+  const textarea = replyEl.querySelector('textarea') as HTMLTextAreaElement | null;
+  if (textarea) {
+    textarea.focus();
+    if (handlers && !textarea.dataset.keyboardSetup) {
+      textarea.dataset.keyboardSetup = 'true';
+      setupCommentTextareaKeyboard(textarea, () => {
+        saveReplyComment(id, handlers);
+      });
+    }
+  }
+}
+
+/**
+ * Close the reply form and drop what was typed
+ */
+export function cancelReplyComment(id: string): void {
+  const replyEl = document.getElementById('comment-reply-' + id);
+  if (!replyEl) return;
+  replyEl.style.display = 'none';
+  const textarea = replyEl.querySelector('textarea');
+  if (textarea) textarea.value = '';
+}
+
+/**
+ * Add the typed reply to the comment's thread
+ */
+export function saveReplyComment(id: string, handlers: CommentHandlers): void {
+  const textarea = document.getElementById('comment-reply-' + id)?.querySelector('textarea');
+  if (!textarea) return;
+
+  const text = textarea.value.trim();
+  if (text) {
+    handlers.onSaveScrollPosition();
+    handlers.onReply(id, text);
+  }
+  cancelReplyComment(id);
+}
+
+/**
+ * Resolve or reopen a comment thread
+ */
+export function setCommentResolved(id: string, resolved: boolean, handlers: CommentHandlers): void {
+  handlers.onSaveScrollPosition();
+  handlers.onSetResolved(id, resolved);
+}
+
+/**
+ * Toggle resolved comments visibility
  */
-export function toggleSubmittedHistory(): void {
-  const list = document.getElementById('submitted-list');
-  const toggle = document.getElementById('submitted-toggle');
+export function toggleResolvedComments(): void {
+  const list = document.getElementById('resolved-list');
+  const toggle = document.getElementById('resolved-toggle');
   if (!list || !toggle) return;
 
   if (list.style.display === 'none') {
@@ -233,5 +343,10 @@ export function registerCommentHandlers(handlers: CommentHandlers): void {
   win.saveEditComment = (id: string) => saveEditComment(id, handlers);
   win.deleteComment = (id: string) => deleteComment(id, handlers);
   win.navigateToComment = (id: string) => navigateToComment(id, handlers);
-  win.toggleSubmittedHistory = toggleSubmittedHistory;
+  win.startReplyComment = (id: string) => startReplyComment(id, handlers);
+  win.cancelReplyComment = cancelReplyComment;
+  win.saveReplyComment = (id: string) => saveReplyComment(id, handlers);
+  win.resolveComment = (id: string) => setCommentResolved(id, true, handlers);
+  win.reopenComment = (id: string) => setCommentResolved(id, false, handlers);
+  win.toggleResolvedComments = toggleResolvedComments;
 }
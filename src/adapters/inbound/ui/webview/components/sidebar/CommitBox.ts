@@ -0,0 +1,89 @@
+/**
+ * Commit Box Component
+ *
+ * Stages or commits the files checked in the file list. With nothing
+ * checked, Commit commits what is already staged. The message textarea is
+ * static markup so typing survives re-renders.
+ */
+
+export interface CommitBoxProps {
+  visible: boolean;
+  /** Files currently listed, for "check all" */
+  files: string[];
+  checkedFiles: string[];
+}
+
+export interface CommitBoxHandlers {
+  onCheckAll: (files: string[]) => void;
+  onStage: () => void;
+  onCommit: (message: string) => void;
+  onDraft: () => void;
+}
+
+/**
+ * Render commit box state and bind its buttons
+ */
+export function renderCommitBox(
+  props: CommitBoxProps,
+  handlers: CommitBoxHandlers
+): void {
+  const box = document.getElementById('commit-box');
+  if (!box) return;
+
+  const { visible, files, checkedFiles } = props;
+  if (!visible || files.length === 0) {
+    box.style.display = 'none';
+    return;
+  }
+  box.style.display = '';
+
+  const listed = new Set(files);
+  const checkedCount = checkedFiles.filter((f) => listed.has(f)).length;
+  const allChecked = checkedCount === files.length;
+
+  const count = document.getElementById('commit-checked-count');
+  if (count) {
+    count.textContent = checkedCount > 0
+      ? `${checkedCount} of ${files.length} checked`
+      : 'Staged changes';
+  }
+
+  const message = document.getElementById('commit-message') as HTMLTextAreaElement | null;
+  const checkAll = document.getElementById('commit-check-all') as HTMLButtonElement | null;
+  const stage = document.getElementById('commit-stage') as HTMLButtonElement | null;
+  const commit = document.getElementById('commit-submit') as HTMLButtonElement | null;
+  const draft = document.getElementById('commit-draft') as HTMLButtonElement | null;
+
+  if (checkAll) {
+    checkAll.textContent = allChecked ? 'None' : 'All';
+    checkAll.onclick = () => handlers.onCheckAll(allChecked ? [] : files);
+  }
+  if (stage) {
+    stage.disabled = checkedCount === 0;
+    stage.onclick = () => handlers.onStage();
+  }
+  if (commit && message) {
+    const submit = () => {
+      if (message.value.trim()) handlers.onCommit(message.value);
+    };
+    commit.onclick = submit;
+    // Cmd/Ctrl+Enter commits, like the SCM view
+    message.onkeydown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        submit();
+      }
+    };
+  }
+  if (draft) {
+    draft.onclick = () => handlers.onDraft();
+  }
+}
+
+/**
+ * Clear the message after a successful commit
+ */
+export function clearCommitMessage(): void {
+  const message = document.getElementById('commit-message') as HTMLTextAreaElement | null;
+  if (message) message.value = '';
+}
@@ -0,0 +1,122 @@
+/**
+ * Commit List Component
+ *
+ * Commit timeline of the session. Selecting a commit lists its files
+ * in the file list; the banner returns to working tree changes.
+ */
+
+import { escapeHtml } from '../../utils/dom';
+
+export interface CommitItem {
+  sha: string;
+  subject: string;
+  author: string;
+  timestamp: number;
+}
+
+export interface CommitListProps {
+  commits: CommitItem[];
+  selectedCommit: string | null;
+}
+
+export interface CommitListHandlers {
+  onCommitSelect: (sha: string) => void;
+  onCommitClear: () => void;
+}
+
+/**
+ * Render commit timeline and the selected-commit banner
+ */
+export function renderCommitList(
+  props: CommitListProps,
+  handlers: CommitListHandlers
+): void {
+  const { commits, selectedCommit } = props;
+
+  const section = document.getElementById('commits-section');
+  const list = document.getElementById('commits-list');
+  const count = document.getElementById('commits-count');
+  const banner = document.getElementById('commit-banner');
+
+  renderCommitBanner(banner, commits, selectedCommit, handlers);
+
+  if (!section || !list) return;
+
+  if (!commits || commits.length === 0) {
+    section.style.display = 'none';
+    return;
+  }
+
+  section.style.display = '';
+  if (count) {
+    count.textContent = `(${commits.length})`;
+  }
+
+  list.innerHTML = commits
+    .map((commit) => {
+      const isSelected = commit.sha === selectedCommit;
+      return `
+        <div class="commit-item ${isSelected ? 'selected' : ''}" data-sha="${commit.sha}" title="${escapeHtml(commit.subject)}">
+          <span class="commit-sha">${commit.sha.slice(0, 7)}</span>
+          <span class="commit-subject">${escapeHtml(commit.subject)}</span>
+          <span class="commit-time">${formatTimeAgo(commit.timestamp)}</span>
+        </div>
+      `;
+    })
+    .join('');
+
+  list.querySelectorAll('.commit-item').forEach((item) => {
+    (item as HTMLElement).onclick = () => {
+      const sha = (item as HTMLElement).dataset.sha || '';
+      if (sha === selectedCommit) {
+        handlers.onCommitClear();
+      } else {
+        handlers.onCommitSelect(sha);
+      }
+    };
+  });
+}
+
+function renderCommitBanner(
+  banner: HTMLElement | null,
+  commits: CommitItem[],
+  selectedCommit: string | null,
+  handlers: CommitListHandlers
+): void {
+  if (!banner) return;
+
+  const commit = selectedCommit
+    ? (commits || []).find((c) => c.sha === selectedCommit)
+    : undefined;
+  if (!commit) {
+    banner.style.display = 'none';
+    return;
+  }
+
+  banner.style.display = 'flex';
+  banner.innerHTML = `
+    <span class="commit-banner-label" title="${escapeHtml(commit.subject)}">
+      Commit <span class="commit-sha">${commit.sha.slice(0, 7)}</span> ${escapeHtml(commit.subject)}
+    </span>
+    <button class="toggle-btn" id="commit-banner-back">Back</button>
+  `;
+
+  const back = document.getElementById('commit-banner-back');
+  if (back) {
+    back.onclick = () => handlers.onCommitClear();
+  }
+}
+
+/**
+ * Format an epoch-ms timestamp as a short relative time
+ */
+export function formatTimeAgo(timestamp: number): string {
+  const seconds = Math.floor((Date.now() - timestamp) / 1000);
+  if (seconds < 60) return 'just now';
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days}d ago`;
+}
@@ -6,16 +6,22 @@
 
 import { escapeHtml } from '../../utils/dom';
 
+export type FileStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied';
+
 export interface FileItem {
   path: string;
   name: string;
-  status: 'added' | 'modified' | 'deleted';
+  status: FileStatus;
+  /** Source path of a renamed or copied file */
+  oldPath?: string;
   isUncommitted?: boolean;
   matchType?: 'path' | 'content';
   /** Agent name for aggregated view */
   agentName?: string;
   /** Color index for agent badge (0-5, -1 for multi-agent) */
   agentColorIndex?: number;
+  /** Other live threads that also modified this file */
+  conflictWith?: string[];
 }
 
 export interface DiffData {
@@ -32,8 +38,10 @@ export interface TreeNode {
   name: string;
   path: string;
   type: 'file' | 'folder';
-  status?: 'added' | 'modified' | 'deleted';
+  status?: FileStatus;
+  oldPath?: string;
   isUncommitted?: boolean;
+  conflictWith?: string[];
   children?: TreeNode[];
   isExpanded?: boolean;
 }
@@ -47,11 +55,16 @@ export interface FileListProps {
   showUncommitted: boolean;
   collapsedFolders: Set<string>;
   diff?: DiffData;
+  /** path -> names of other threads that modified the file */
+  fileConflicts?: Record<string, string[]>;
+  /** Files checked for committing; checkboxes are hidden when undefined */
+  checkedFiles?: string[];
 }
 
 export interface FileListHandlers {
   onFileSelect: (filePath: string) => void;
   onFolderToggle: (folderPath: string, isCollapsed: boolean) => void;
+  onFileCheck?: (filePath: string, checked: boolean) => void;
 }
 
 /**
@@ -70,7 +83,10 @@ export function renderFileList(
     showUncommitted,
     collapsedFolders,
     diff,
+    fileConflicts,
+    checkedFiles,
   } = props;
+  const checked = checkedFiles ? new Set(checkedFiles) : undefined;
 
   const list = document.getElementById('files-list');
   const toggleRow = document.getElementById('toggle-row');
@@ -100,6 +116,14 @@ export function renderFileList(
       ...uncommittedFiles.map((f) => ({ ...f, isUncommitted: true }))
     );
   }
+  if (fileConflicts) {
+    for (let i = 0; i < allFiles.length; i++) {
+      const conflictWith = fileConflicts[allFiles[i].path];
+      if (conflictWith) {
+        allFiles[i] = { ...allFiles[i], conflictWith };
+      }
+    }
+  }
 
   // Apply search filter
   let filteredFiles = allFiles;
@@ -160,13 +184,12 @@ export function renderFileList(
   if (isTreeView) {
     const tree = buildFileTree(filteredFiles, collapsedFolders);
     html += '<div class="file-tree">';
-    html += renderTreeNode(tree, selectedFile, 0);
+    html += renderTreeNode(tree, selectedFile, 0, checked);
     html += '</div>';
   } else {
     html += filteredFiles
       .map((file) => {
         const isSelected = file.path === selectedFile;
-        const { badgeText, badgeClass } = getStatusBadge(file.status);
         const uncommittedClass = file.isUncommitted ? 'uncommitted' : '';
         const contentMatchClass =
           file.matchType === 'content' ? 'content-match' : '';
@@ -182,10 +205,12 @@ export function renderFileList(
 
         return `
         <div class="file-item ${isSelected ? 'selected' : ''} ${uncommittedClass} ${contentMatchClass}" data-file="${file.path}">
+          ${renderFileCheck(file.path, checked)}
           <span class="file-icon">📄</span>
           <span class="file-name" title="${file.path}">${file.name}</span>
           ${agentBadgeHtml}
-          <span class="file-badge ${badgeClass}">${badgeText}</span>
+          ${renderConflictBadge(file.conflictWith)}
+          ${renderStatusBadge(file.status, file.oldPath)}
         </div>
       `;
       })
@@ -213,10 +238,43 @@ function getStatusBadge(status: string): {
     return { badgeText: 'A', badgeClass: 'added' };
   } else if (status === 'deleted') {
     return { badgeText: 'D', badgeClass: 'deleted' };
+  } else if (status === 'renamed') {
+    return { badgeText: 'R', badgeClass: 'renamed' };
+  } else if (status === 'copied') {
+    return { badgeText: 'C', badgeClass: 'copied' };
   }
   return { badgeText: 'M', badgeClass: 'modified' };
 }
 
+/**
+ * Status badge; renamed and copied files name their source on hover
+ */
+function renderStatusBadge(status: string, oldPath?: string): string {
+  const { badgeText, badgeClass } = getStatusBadge(status);
+  const title = oldPath
+    ? ` title="${escapeHtml(`${status === 'copied' ? 'Copied' : 'Renamed'} from ${oldPath}`)}"`
+    : '';
+  return `<span class="file-badge ${badgeClass}"${title}>${badgeText}</span>`;
+}
+
+/**
+ * Checkbox for selecting a file to commit
+ */
+function renderFileCheck(filePath: string, checked?: Set<string>): string {
+  if (!checked) return '';
+  const isChecked = checked.has(filePath);
+  return `<span class="toggle-checkbox file-check ${isChecked ? 'checked' : ''}" data-check="${filePath}">${isChecked ? '✓' : ''}</span>`;
+}
+
+/**
+ * Badge for files other live threads also modified
+ */
+function renderConflictBadge(conflictWith?: string[]): string {
+  if (!conflictWith || conflictWith.length === 0) return '';
+  const title = `Also modified by ${conflictWith.join(', ')}`;
+  return `<span class="conflict-badge" title="${escapeHtml(title)}">⚡ ${conflictWith.length}</span>`;
+}
+
 /**
  * Build tree structure from flat file list
  */
@@ -248,7 +306,9 @@ export function buildFileTree(
           path: file.path,
           type: 'file',
           status: file.status,
+          oldPath: file.oldPath,
           isUncommitted: file.isUncommitted,
+          conflictWith: file.conflictWith,
         });
       } else {
         current.children = current.children || [];
@@ -300,19 +360,21 @@ function sortTreeNode(node: TreeNode): void {
 function renderTreeNode(
   node: TreeNode,
   selectedFile: string | null,
-  depth: number
+  depth: number,
+  checked?: Set<string>
 ): string {
   if (node.type === 'file') {
     const isSelected = node.path === selectedFile;
-    const { badgeText, badgeClass } = getStatusBadge(node.status || 'modified');
     const uncommittedClass = node.isUncommitted ? 'uncommitted' : '';
 
     return `
       <div class="tree-file ${isSelected ? 'selected' : ''} ${uncommittedClass}"
            data-file="${node.path}">
+        ${renderFileCheck(node.path, checked)}
         <span class="file-icon">📄</span>
         <span class="file-name">${escapeHtml(node.name)}</span>
-        <span class="file-badge ${badgeClass}">${badgeText}</span>
+        ${renderConflictBadge(node.conflictWith)}
+        ${renderStatusBadge(node.status || 'modified', node.oldPath)}
       </div>
     `;
   }
@@ -322,7 +384,7 @@ function renderTreeNode(
   // Root level: render children directly
   if (depth === 0) {
     return node.children
-      .map((child) => renderTreeNode(child, selectedFile, depth + 1))
+      .map((child) => renderTreeNode(child, selectedFile, depth + 1, checked))
       .join('');
   }
 
@@ -340,7 +402,7 @@ function renderTreeNode(
         <span class="tree-folder-count">(${fileCount})</span>
       </div>
       <div class="tree-children ${childrenClass}">
-        ${node.children.map((child) => renderTreeNode(child, selectedFile, depth + 1)).join('')}
+        ${node.children.map((child) => renderTreeNode(child, selectedFile, depth + 1, checked)).join('')}
       </div>
     </div>
   `;
@@ -378,8 +440,9 @@ function setupTreeClickHandlers(
   });
 
   document.querySelectorAll('.tree-file').forEach((file) => {
-    (file as HTMLElement).onclick = () => {
+    (file as HTMLElement).onclick = (e) => {
       const filePath = (file as HTMLElement).dataset.file || '';
+      if (handleFileCheckClick(e, filePath, handlers)) return;
       handlers.onFileSelect(filePath);
     };
   });
@@ -390,9 +453,25 @@ function setupTreeClickHandlers(
  */
 function setupListClickHandlers(handlers: FileListHandlers): void {
   document.querySelectorAll('.file-item').forEach((item) => {
-    (item as HTMLElement).onclick = () => {
+    (item as HTMLElement).onclick = (e) => {
       const filePath = (item as HTMLElement).dataset.file || '';
+      if (handleFileCheckClick(e, filePath, handlers)) return;
       handlers.onFileSelect(filePath);
     };
   });
 }
+
+/**
+ * Toggle the file's checkbox if the click was on it.
+ * Returns true when handled, so the file isn't also opened.
+ */
+function handleFileCheckClick(
+  e: MouseEvent,
+  filePath: string,
+  handlers: FileListHandlers
+): boolean {
+  const check = (e.target as HTMLElement).closest('.file-check');
+  if (!check || !handlers.onFileCheck) return false;
+  handlers.onFileCheck(filePath, !check.classList.contains('checked'));
+  return true;
+}
@@ -0,0 +1,140 @@
+/**
+ * Turn List Component
+ *
+ * Checkpoints taken each time the agent finished a turn. Selecting a turn
+ * lists the files it changed (or changed since) in the file list; the banner
+ * switches between the two, reverts to the checkpoint or returns to
+ * working tree changes.
+ */
+
+import { formatTimeAgo } from './CommitList';
+
+export type TurnDiffScope = 'turn' | 'since';
+
+export interface TurnItem {
+  turn: number;
+  createdAt: number;
+  changedFileCount: number;
+}
+
+export interface TurnListProps {
+  checkpoints: TurnItem[];
+  selectedTurn: number | null;
+  turnDiffScope: TurnDiffScope;
+}
+
+export interface TurnListHandlers {
+  onTurnSelect: (turn: number, scope: TurnDiffScope) => void;
+  onTurnClear: () => void;
+  onRevert: (turn: number) => void;
+}
+
+/**
+ * Render turn timeline and the selected-turn banner
+ */
+export function renderTurnList(
+  props: TurnListProps,
+  handlers: TurnListHandlers
+): void {
+  const { checkpoints, selectedTurn } = props;
+
+  const section = document.getElementById('turns-section');
+  const list = document.getElementById('turns-list');
+  const count = document.getElementById('turns-count');
+  const banner = document.getElementById('turn-banner');
+
+  renderTurnBanner(banner, props, handlers);
+
+  if (!section || !list) return;
+
+  // Turn 0 alone means the agent hasn't finished a turn yet
+  const turns = (checkpoints || []).filter((c) => c.turn > 0);
+  if (turns.length === 0) {
+    section.style.display = 'none';
+    return;
+  }
+
+  section.style.display = '';
+  if (count) {
+    count.textContent = `(${turns.length})`;
+  }
+
+  // Newest first, like the commit timeline
+  list.innerHTML = [...checkpoints]
+    .reverse()
+    .map((checkpoint) => {
+      const isSelected = checkpoint.turn === selectedTurn;
+      const files = checkpoint.turn === 0
+        ? ''
+        : `${checkpoint.changedFileCount} file${checkpoint.changedFileCount === 1 ? '' : 's'}`;
+      return `
+        <div class="commit-item ${isSelected ? 'selected' : ''}" data-turn="${checkpoint.turn}">
+          <span class="turn-label">${getTurnLabel(checkpoint.turn)}</span>
+          <span class="commit-subject">${files}</span>
+          <span class="commit-time">${formatTimeAgo(checkpoint.createdAt)}</span>
+        </div>
+      `;
+    })
+    .join('');
+
+  list.querySelectorAll('.commit-item').forEach((item) => {
+    (item as HTMLElement).onclick = () => {
+      const turn = Number((item as HTMLElement).dataset.turn);
+      if (turn === selectedTurn) {
+        handlers.onTurnClear();
+      } else {
+        // The session start has no changes of its own
+        handlers.onTurnSelect(turn, turn === 0 ? 'since' : 'turn');
+      }
+    };
+  });
+}
+
+function renderTurnBanner(
+  banner: HTMLElement | null,
+  props: TurnListProps,
+  handlers: TurnListHandlers
+): void {
+  if (!banner) return;
+
+  const { selectedTurn, turnDiffScope } = props;
+  if (selectedTurn === null || selectedTurn === undefined) {
+    banner.style.display = 'none';
+    return;
+  }
+
+  const label = turnDiffScope === 'since'
+    ? `Changes since ${selectedTurn === 0 ? 'session start' : `turn ${selectedTurn}`}`
+    : `Changes in turn ${selectedTurn}`;
+  const revertTitle = selectedTurn === 0
+    ? 'Restore files to the session start'
+    : `Restore files to the end of turn ${selectedTurn}`;
+  const scopeToggle = selectedTurn === 0
+    ? ''
+    : `<button class="toggle-btn" id="turn-banner-scope">${turnDiffScope === 'since' ? 'In turn' : 'Since'}</button>`;
+
+  banner.style.display = 'flex';
+  banner.innerHTML = `
+    <span class="commit-banner-label">${label}</span>
+    ${scopeToggle}
+    <button class="toggle-btn" id="turn-banner-revert" title="${revertTitle}">Revert</button>
+    <button class="toggle-btn" id="turn-banner-back">Back</button>
+  `;
+
+  const scope = document.getElementById('turn-banner-scope');
+  if (scope) {
+    scope.onclick = () => handlers.onTurnSelect(selectedTurn, turnDiffScope === 'since' ? 'turn' : 'since');
+  }
+  const revert = document.getElementById('turn-banner-revert');
+  if (revert) {
+    revert.onclick = () => handlers.onRevert(selectedTurn);
+  }
+  const back = document.getElementById('turn-banner-back');
+  if (back) {
+    back.onclick = () => handlers.onTurnClear();
+  }
+}
+
+function getTurnLabel(turn: number): string {
+  return turn === 0 ? 'Start' : `Turn ${turn}`;
+}
@@ -24,7 +24,11 @@ export {
   saveEditComment,
   deleteComment,
   navigateToComment,
-  toggleSubmittedHistory,
+  startReplyComment,
+  cancelReplyComment,
+  saveReplyComment,
+  setCommentResolved,
+  toggleResolvedComments,
   registerCommentHandlers,
 } from './Comments';
 export type { Comment, CommentHandlers } from './Comments';
@@ -37,3 +41,21 @@ export type {
   FileListProps,
   FileListHandlers,
 } from './FileList';
+
+export { renderCommitList } from './CommitList';
+export type {
+  CommitItem,
+  CommitListProps,
+  CommitListHandlers,
+} from './CommitList';
+
+export { renderCommitBox, clearCommitMessage } from './CommitBox';
+export type { CommitBoxProps, CommitBoxHandlers } from './CommitBox';
+
+export { renderTurnList } from './TurnList';
+export type {
+  TurnItem,
+  TurnDiffScope,
+  TurnListProps,
+  TurnListHandlers,
+} from './TurnList';
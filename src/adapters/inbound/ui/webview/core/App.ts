@@ -15,6 +15,9 @@ import {
   collapseSidebar,
 } from '../components/sidebar/Sidebar';
 import { renderFileList } from '../components/sidebar/FileList';
+import { renderCommitList, type CommitItem } from '../components/sidebar/CommitList';
+import { renderTurnList, type TurnItem, type TurnDiffScope } from '../components/sidebar/TurnList';
+import { renderCommitBox, clearCommitMessage } from '../components/sidebar/CommitBox';
 import { renderComments, registerCommentHandlers, type CommentHandlers } from '../components/sidebar/Comments';
 import { renderAIStatus, renderAgentHeader, AgentDisplayInfo } from '../components/sidebar/AIStatus';
 import { setupFileSearchHandlers } from '../components/sidebar/FileSearch';
@@ -32,7 +35,19 @@ import {
   updateMatchCounter,
   updateNavButtons,
   renderChunksToHtml,
+  renderSplitChunksToHtml,
+  renderSplitToggle,
+  renderDiffOptions,
+  renderTooLargePlaceholder,
+  renderFileOrigin,
+  renderBinaryPlaceholder,
+  renderPlaceholder,
+  renderImagePreview,
+  setupImagePreviewHandlers,
   setupChunkToggleHandlers,
+  setupChunkActionHandlers,
+  setupMovedLineHandlers,
+  setupContextExpandHandlers,
   renderScopedDiffContent,
   collectScopeLines,
   setupScopeHandlers,
@@ -48,13 +63,25 @@ import {
 } from '../components/diff';
 import type {
   DiffChunk,
+  ChunkAction,
   ChunkState,
   InlineComment,
+  CommentStatus,
+  CommentReply,
   ScopedDiffData,
   SelectionState,
   CommentDraft,
+  ViewMode,
+  DiffOptions,
+  FileOrigin,
+  ImagePreview,
+} from '../components/diff';
+import {
+  registerViewModeToggle,
+  registerSplitViewToggle,
+  registerDiffOptionToggle,
+  registerFeedToggle,
 } from '../components/diff';
-import { registerViewModeToggle, registerFeedToggle } from '../components/diff';
 import {
   renderFullMarkdownWithHighlights,
   setupPreviewCommentHandlers,
@@ -83,6 +110,7 @@ declare global {
       preload: () => void;
     };
     toggleDiffViewMode?: () => void;
+    toggleSplitView?: () => void;
     toggleFeed?: () => void;
     toggleChunk?: (index: number) => void;
     openHNStory?: (url: string, title: string) => void;
@@ -182,13 +210,31 @@ interface RenderState {
   hnFeedError: string | null;
   hnHasMore: boolean;
   hnLoadingMore: boolean;
-  diffViewMode: string;
+  diffViewMode: ViewMode;
   showHNFeed: boolean;
   fileScrollPositions: Record<string, number>;
   draftComment: DraftComment | null;
   // Multi-agent fields
   agentInfo?: AgentDisplayInfo;
   isAggregatedView?: boolean;
+  // Diff base fields
+  diffBaseMode?: 'head' | 'base';
+  diffBaseLabel?: string;
+  diffOptions?: DiffOptions;
+  contextExpandStep?: number;
+  branchFiles?: FileItem[];
+  // Commit timeline fields
+  commits?: CommitItem[];
+  selectedCommit?: string | null;
+  commitFiles?: FileItem[];
+  // Turn checkpoint fields
+  checkpoints?: TurnItem[];
+  selectedTurn?: number | null;
+  turnDiffScope?: TurnDiffScope;
+  turnFiles?: FileItem[];
+  // Cross-thread conflicts: path -> other thread names
+  fileConflicts?: Record<string, string[]>;
+  checkedFiles?: string[];
 }
 
 interface DiffData {
@@ -198,6 +244,11 @@ interface DiffData {
   chunkStates?: ChunkState[];
   /** Full new file content for proper syntax highlighting context */
   newFileContent?: string;
+  /** Set instead of chunks when the file was too large to diff */
+  tooLarge?: { oldLineCount: number; newLineCount: number };
+  origin?: FileOrigin;
+  binary?: boolean;
+  imagePreview?: ImagePreview;
 }
 
 interface DiffChunk {
@@ -220,7 +271,8 @@ interface ChunkState {
 interface FileItem {
   path: string;
   name: string;
-  status: 'added' | 'modified' | 'deleted';
+  status: 'added' | 'modified' | 'deleted' | 'renamed' | 'copied';
+  oldPath?: string;
   isUncommitted?: boolean;
   matchType?: 'path' | 'content';
 }
@@ -232,6 +284,9 @@ interface Comment {
   endLine?: number;
   text: string;
   isSubmitted: boolean;
+  status: CommentStatus;
+  replies: CommentReply[];
+  codeContext: string;
 }
 
 interface AIStatus {
@@ -262,20 +317,48 @@ interface DraftComment {
 
 /**
  * Filter and transform comments for display in diff/file view.
- * Only returns pending (non-submitted) comments for the specified file.
+ * Only returns unresolved comment threads for the specified file.
  */
 function getVisibleFileComments(comments: Comment[] | undefined, file: string): InlineComment[] {
   return (comments || [])
-    .filter((c) => c.file === file && !c.isSubmitted)
+    .filter((c) => c.file === file && c.status !== 'resolved')
     .map((c) => ({
       id: c.id,
       line: c.line,
       endLine: c.endLine,
       text: c.text,
-      isSubmitted: false,
+      isSubmitted: c.isSubmitted,
+      status: c.status,
+      replies: c.replies,
+      codeContext: c.codeContext,
     }));
 }
 
+/**
+ * Files changed since the thread's base, plus session files git doesn't
+ * report (e.g. gitignored files tracked by snapshot).
+ */
+function getBranchFiles(state: RenderState): FileItem[] {
+  const branchFiles = state.branchFiles || [];
+  const paths = new Set(branchFiles.map((f) => f.path));
+  return [...branchFiles, ...state.sessionFiles.filter((f) => !paths.has(f.path))];
+}
+
+function renderDiffBaseToggle(label: string | undefined, isBaseMode: boolean): void {
+  const toggle = document.getElementById('diff-base-toggle');
+  if (!toggle) return;
+
+  if (!label) {
+    toggle.style.display = 'none';
+    return;
+  }
+  toggle.style.display = '';
+  toggle.classList.toggle('active', isBaseMode);
+  toggle.title = isBaseMode
+    ? `Showing all changes since ${label}. Click to show uncommitted changes only.`
+    : `Show all changes since ${label}, including commits`;
+}
+
 async function renderState(state: RenderState): Promise<void> {
   const vsCodeApi = getVSCode();
   const uiState = stateManager.getUI();
@@ -343,19 +426,62 @@ async function renderState(state: RenderState): Promise<void> {
 
   // Render sidebar components
   const viewState = stateManager.getView();
+  const isBaseMode = state.diffBaseMode === 'base';
+  const isTurnView = state.selectedTurn !== null && state.selectedTurn !== undefined;
+  // Commit and turn views both show history instead of the working tree
+  const isCommitView = !!state.selectedCommit || isTurnView;
+  // Only a single session's working tree can be committed
+  const canCommit = !isCommitView && !state.isAggregatedView;
+  let listedFiles = state.sessionFiles;
+  if (isTurnView) {
+    listedFiles = state.turnFiles || [];
+  } else if (isCommitView) {
+    listedFiles = state.commitFiles || [];
+  } else if (isBaseMode) {
+    listedFiles = getBranchFiles(state);
+  }
+  renderDiffBaseToggle(state.diffBaseLabel, isBaseMode);
+  renderCommitList(
+    {
+      commits: state.commits || [],
+      selectedCommit: state.selectedCommit ?? null,
+    },
+    {
+      onCommitSelect: (sha) => vsCodeApi.postMessage({ type: 'selectCommit', sha }),
+      onCommitClear: () => vsCodeApi.postMessage({ type: 'clearCommit' }),
+    }
+  );
+  renderTurnList(
+    {
+      checkpoints: state.checkpoints || [],
+      selectedTurn: state.selectedTurn ?? null,
+      turnDiffScope: state.turnDiffScope ?? 'turn',
+    },
+    {
+      onTurnSelect: (turn, scope) => vsCodeApi.postMessage({ type: 'selectTurn', turn, scope }),
+      onTurnClear: () => vsCodeApi.postMessage({ type: 'clearTurn' }),
+      onRevert: (turn) => vsCodeApi.postMessage({ type: 'revertToCheckpoint', turn }),
+    }
+  );
   renderFileList(
     {
-      sessionFiles: state.sessionFiles,
-      uncommittedFiles: state.uncommittedFiles,
+      sessionFiles: listedFiles,
+      // Base mode already includes uncommitted changes; commit view shows only the commit
+      uncommittedFiles: isBaseMode || isCommitView ? [] : state.uncommittedFiles,
       selectedFile: state.selectedFile,
       isTreeView: state.isTreeView,
       searchQuery: state.searchQuery,
       showUncommitted: state.showUncommitted,
       collapsedFolders: viewState.collapsedFolders,
       diff: state.diff || state.scopedDiff || undefined,
+      // Commits are history; conflicts concern the live working tree
+      fileConflicts: isCommitView ? undefined : state.fileConflicts,
+      checkedFiles: canCommit ? state.checkedFiles || [] : undefined,
     },
     {
       onFileSelect: (filePath) => vsCodeApi.postMessage({ type: 'selectFile', file: filePath }),
+      onFileCheck: (filePath, checked) =>
+        vsCodeApi.postMessage({ type: 'setFileChecked', file: filePath, checked }),
       onFolderToggle: (folderPath, isCollapsed) => {
         if (isCollapsed) {
           stateManager.addCollapsedFolder(folderPath);
@@ -366,6 +492,24 @@ async function renderState(state: RenderState): Promise<void> {
     }
   );
 
+  const committableFiles = [
+    ...listedFiles,
+    ...(state.showUncommitted && !isBaseMode ? state.uncommittedFiles : []),
+  ].map((f) => f.path);
+  renderCommitBox(
+    {
+      visible: canCommit,
+      files: committableFiles,
+      checkedFiles: state.checkedFiles || [],
+    },
+    {
+      onCheckAll: (files) => vsCodeApi.postMessage({ type: 'setCheckedFiles', files }),
+      onStage: () => vsCodeApi.postMessage({ type: 'stageFiles' }),
+      onCommit: (message) => vsCodeApi.postMessage({ type: 'commitFiles', message }),
+      onDraft: () => vsCodeApi.postMessage({ type: 'draftCommitMessage' }),
+    }
+  );
+
   // Transform comments to match the component's expected format
   const transformedComments = (state.comments || []).map((c) => ({
     id: c.id,
@@ -374,6 +518,9 @@ async function renderState(state: RenderState): Promise<void> {
     endLine: c.endLine,
     text: c.text,
     isSubmitted: c.isSubmitted,
+    status: c.status,
+    replies: c.replies,
+    codeContext: c.codeContext,
   }));
   renderComments(transformedComments);
 
@@ -389,7 +536,7 @@ async function renderState(state: RenderState): Promise<void> {
   // Check if waiting screen should be shown
   // Show waiting screen when AI is active and no file is selected (even if files exist in sidebar)
   const hasVisibleFiles =
-    state.sessionFiles.length > 0 ||
+    listedFiles.length > 0 ||
     (state.showUncommitted && state.uncommittedFiles.length > 0);
   const noFileSelected = !state.selectedFile;
   const shouldShowWaiting = state.aiStatus.active && (noFileSelected || !hasVisibleFiles || state.showHNFeed);
@@ -415,7 +562,13 @@ async function renderState(state: RenderState): Promise<void> {
       state.hnStories,
       state.hnFeedStatus,
       state.hnFeedError,
-      state.aiStatus
+      state.aiStatus,
+      // Branch diffs include committed changes, and whitespace-insensitive
+      // chunks can't be applied to the file as shown
+      !isCommitView && !isBaseMode && !state.diffOptions?.ignoreWhitespace,
+      isCommitView ? undefined : state.contextExpandStep,
+      // Commit and turn diffs are shown as recorded
+      isCommitView ? undefined : state.diffOptions || {}
     );
   }
 
@@ -519,13 +672,16 @@ async function renderScopedDiff(
 async function renderDiff(
   diff: DiffData | null,
   selectedFile: string | null,
-  viewMode: string,
+  viewMode: ViewMode,
   comments: Comment[],
   hasScopedDiff: boolean,
   hnStories: HNStory[],
   hnFeedStatus: string,
   hnFeedError: string | null,
-  aiStatus: AIStatus
+  aiStatus: AIStatus,
+  canApplyChanges: boolean,
+  contextExpandStep: number | undefined,
+  diffOptions?: DiffOptions
 ): Promise<void> {
   const vsCodeApi = getVSCode();
   ensureDefaultHeaderStructure();
@@ -538,6 +694,10 @@ async function renderDiff(
 
   if (!header || !stats || !viewer || !diffToolbar) return;
 
+  const diffOptionsHtml = diffOptions ? renderDiffOptions(diffOptions) : '';
+  const originHtml = diff?.origin ? renderFileOrigin(diff.origin) : '';
+  const imagePreviewHtml = diff?.imagePreview ? renderImagePreview(diff.imagePreview) : '';
+
   // No diff or empty diff
   if (!diff || !diff.chunks || diff.chunks.length === 0) {
     // Show HN feed when no file is selected
@@ -550,8 +710,19 @@ async function renderDiff(
     }
 
     header.textContent = selectedFile || 'Select a file to review';
-    stats.innerHTML = '';
+    // Keep the options reachable when they hide every change
+    stats.innerHTML = diff ? diffOptionsHtml : '';
     diffToolbar.style.display = 'none';
+    if (diff?.tooLarge) {
+      viewer.innerHTML = originHtml + renderTooLargePlaceholder(diff.tooLarge);
+      return;
+    }
+    // Binary files and pure renames have no chunks but still changed
+    if (diff && (diff.binary || diff.origin || diff.imagePreview)) {
+      viewer.innerHTML = originHtml + (imagePreviewHtml || (diff.binary ? renderBinaryPlaceholder() : renderPlaceholder(diff.file)));
+      setupImagePreviewHandlers();
+      return;
+    }
     viewer.innerHTML = `
       <div class="placeholder">
         <div class="placeholder-icon">${selectedFile ? '✓' : '📝'}</div>
@@ -578,8 +749,10 @@ async function renderDiff(
       <span class="stat-added">+${diff.stats.additions}</span>
       <span class="stat-removed">-${diff.stats.deletions}</span>
       <div class="view-mode-toggle">
+        ${renderSplitToggle(viewMode)}
         <button class="toggle-btn" onclick="toggleDiffViewMode()">${viewMode === 'preview' ? 'Diff' : 'Preview'}</button>
       </div>
+      ${viewMode === 'preview' ? '' : diffOptionsHtml}
       ${feedToggleHtml}
     `;
 
@@ -589,13 +762,15 @@ async function renderDiff(
       return;
     }
   } else {
-    const toggleHtml = hasScopedDiff
-      ? '<div class="view-mode-toggle"><button class="toggle-btn" onclick="toggleDiffViewMode()">Scope</button></div>'
+    const scopeToggleHtml = hasScopedDiff
+      ? '<button class="toggle-btn" onclick="toggleDiffViewMode()">Scope</button>'
       : '';
+    const toggleHtml = `<div class="view-mode-toggle">${renderSplitToggle(viewMode)}${scopeToggleHtml}</div>`;
     stats.innerHTML = `
       <span class="stat-added">+${diff.stats.additions}</span>
       <span class="stat-removed">-${diff.stats.deletions}</span>
       ${toggleHtml}
+      ${diffOptionsHtml}
       ${feedToggleHtml}
     `;
   }
@@ -627,16 +802,37 @@ async function renderDiff(
     }
   }
 
+  // Hidden lines can be revealed from the file as it is now
+  const expandableContext = contextExpandStep !== undefined && diff.newFileContent !== undefined
+    ? { fileLineCount: countFileLines(diff.newFileContent), step: contextExpandStep }
+    : undefined;
+
   // Render diff table
-  const chunksHtml = await renderChunksToHtml(
+  const isSplit = viewMode === 'split';
+  const chunksHtml = await (isSplit ? renderSplitChunksToHtml : renderChunksToHtml)(
     diff.chunks as DiffChunk[],
     chunkStates,
     fileComments,
     language,
-    highlightedLineMap
+    highlightedLineMap,
+    canApplyChanges,
+    expandableContext
   );
 
-  viewer.innerHTML = `
+  const tableHtml = isSplit
+    ? `
+    <table class="diff-table diff-split">
+      <colgroup>
+        <col class="col-line-num">
+        <col class="col-content">
+        <col class="col-gutter">
+        <col class="col-line-num">
+        <col class="col-content">
+      </colgroup>
+      ${chunksHtml}
+    </table>
+  `
+    : `
     <table class="diff-table">
       <colgroup>
         <col class="col-gutter">
@@ -646,17 +842,33 @@ async function renderDiff(
       ${chunksHtml}
     </table>
   `;
+  viewer.innerHTML = originHtml + imagePreviewHtml + tableHtml;
 
   // Setup handlers
+  setupImagePreviewHandlers();
   setupChunkToggleHandlers((index) =>
     vsCodeApi.postMessage({ type: 'toggleChunkCollapse', index })
   );
+  setupChunkActionHandlers((action, index) =>
+    vsCodeApi.postMessage({ type: action === 'discard' ? 'discardChunk' : 'stageChunk', index })
+  );
+  setupMovedLineHandlers();
+  setupContextExpandHandlers((gap, direction) =>
+    vsCodeApi.postMessage({ type: 'expandContext', gap, direction })
+  );
 
-  setupDiffViewerLineSelection(diff.file, vsCodeApi);
+  setupDiffViewerLineSelection(diff.file, vsCodeApi, canApplyChanges);
 
   onFileChange();
 }
 
+/** Lines of a file, not counting the empty one after a final newline */
+function countFileLines(content: string): number {
+  if (content === '') return 0;
+  const count = content.split('\n').length;
+  return content.endsWith('\n') ? count - 1 : count;
+}
+
 async function renderMarkdownPreview(
   diff: DiffData,
   viewer: HTMLElement,
@@ -746,7 +958,11 @@ function onFileChange(): void {
 let selectionState: SelectionState = createSelectionState();
 let previewSelectionState: PreviewSelectionState = createPreviewSelectionState();
 
-function setupDiffViewerLineSelection(currentFile: string, vsCodeApi: VSCodeAPI): void {
+function setupDiffViewerLineSelection(
+  currentFile: string,
+  vsCodeApi: VSCodeAPI,
+  canApplyChanges = false
+): void {
   const viewer = document.getElementById('diff-viewer');
   if (!viewer) return;
 
@@ -772,6 +988,14 @@ function setupDiffViewerLineSelection(currentFile: string, vsCodeApi: VSCodeAPI)
       vsCodeApi.postMessage({ type: 'editComment', id, text }),
     onDelete: (id: string) =>
       vsCodeApi.postMessage({ type: 'deleteComment', id }),
+    onReply: (id: string, text: string) =>
+      vsCodeApi.postMessage({ type: 'replyToComment', id, text }),
+    onSetResolved: (id: string, resolved: boolean) =>
+      vsCodeApi.postMessage({ type: resolved ? 'resolveComment' : 'reopenComment', id }),
+    onLineAction: canApplyChanges
+      ? (action: ChunkAction, startLine: number, endLine: number) =>
+        vsCodeApi.postMessage({ type: action === 'discard' ? 'discardLines' : 'stageLines', startLine, endLine })
+      : undefined,
     getSignal,
   };
 
@@ -970,6 +1194,8 @@ function setupMessageHandler(): void {
         renderState(message.state);
       } else if (message.type === 'scrollToLine') {
         scrollToLineInDiff(message.line, message.endLine, message.commentId);
+      } else if (message.type === 'commitCreated') {
+        clearCommitMessage();
       }
     },
     { signal: getSignal() }
@@ -1058,6 +1284,16 @@ function setupButtonHandlers(): void {
     );
   }
 
+  // Diff base toggle (uncommitted vs. since thread base)
+  const diffBaseToggle = document.getElementById('diff-base-toggle');
+  if (diffBaseToggle) {
+    diffBaseToggle.addEventListener(
+      'click',
+      () => vsCodeApi.postMessage({ type: 'toggleDiffBase' }),
+      { signal: getSignal() }
+    );
+  }
+
   // View mode toggle
   const viewModeToggle = document.getElementById('view-mode-toggle');
   if (viewModeToggle) {
@@ -1104,6 +1340,16 @@ function setupGlobalFunctions(): void {
     vsCodeApi.postMessage({ type: 'toggleDiffViewMode' });
   });
 
+  // Toggle unified/split layout
+  registerSplitViewToggle(() => {
+    vsCodeApi.postMessage({ type: 'toggleSplitView' });
+  });
+
+  // Toggle whitespace / blank line / moved code options
+  registerDiffOptionToggle((option) => {
+    vsCodeApi.postMessage({ type: 'toggleDiffOption', option });
+  });
+
   // Toggle feed
   registerFeedToggle(() => {
     vsCodeApi.postMessage({ type: 'toggleFeed' });
@@ -1134,6 +1380,9 @@ export function initialize(): void {
   registerCommentHandlers({
     onEdit: (id, text) => vsCodeApi.postMessage({ type: 'editComment', id, text }),
     onDelete: (id) => vsCodeApi.postMessage({ type: 'deleteComment', id }),
+    onReply: (id, text) => vsCodeApi.postMessage({ type: 'replyToComment', id, text }),
+    onSetResolved: (id, resolved) =>
+      vsCodeApi.postMessage({ type: resolved ? 'resolveComment' : 'reopenComment', id }),
     onNavigate: (id) => vsCodeApi.postMessage({ type: 'navigateToComment', id }),
     onSaveScrollPosition: () => {
       const scrollEl = getScrollableElement();
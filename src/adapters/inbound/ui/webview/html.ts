@@ -19,6 +19,7 @@ export const webviewHtml = `
       </div>
       <div class="files-toolbar">
         <button class="toggle-btn" id="view-mode-toggle">List</button>
+        <button class="toggle-btn" id="diff-base-toggle" style="display: none;">Since base</button>
         <div class="search-container">
           <input type="text"
                  id="file-search"
@@ -28,9 +29,31 @@ export const webviewHtml = `
           <button class="search-clear" id="search-clear" style="display: none;">×</button>
         </div>
       </div>
+      <div id="commit-banner" class="commit-banner" style="display: none;"></div>
+      <div id="turn-banner" class="commit-banner" style="display: none;"></div>
       <div id="search-results" class="search-results" style="display: none;"></div>
       <div id="files-list">
               </div>
+      <div id="commit-box" class="commit-box" style="display: none;">
+        <textarea id="commit-message" class="commit-message" rows="2" placeholder="Commit message (Ctrl+Enter to commit)"></textarea>
+        <div class="commit-box-actions">
+          <button class="toggle-btn" id="commit-check-all">All</button>
+          <span class="commit-box-count" id="commit-checked-count"></span>
+          <button class="toggle-btn" id="commit-draft" title="Ask the agent to draft a message">Draft</button>
+          <button class="toggle-btn" id="commit-stage" title="Stage checked files">Stage</button>
+          <button class="toggle-btn" id="commit-submit" title="Commit checked files, or staged changes if none are checked">Commit</button>
+        </div>
+      </div>
+    </div>
+
+    <div class="section" id="commits-section" style="display: none;">
+      <h3>Commits <span id="commits-count"></span></h3>
+      <div id="commits-list"></div>
+    </div>
+
+    <div class="section" id="turns-section" style="display: none;">
+      <h3>Turns <span id="turns-count"></span></h3>
+      <div id="turns-list"></div>
     </div>
 
     <div class="section">
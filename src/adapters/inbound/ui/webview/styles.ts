@@ -222,6 +222,12 @@ h3 {
   color: var(--vscode-editor-background, white);
 }
 
+.file-badge.renamed,
+.file-badge.copied {
+  background: var(--vscode-gitDecoration-renamedResourceForeground, #73c991);
+  color: var(--vscode-editor-background, black);
+}
+
 .file-tree {
   font-size: 12px;
 }
@@ -308,6 +314,23 @@ h3 {
 
 .view-mode-toggle {
   margin-left: auto;
+  display: flex;
+  gap: 4px;
+}
+
+.diff-options {
+  margin-left: auto;
+  display: flex;
+  gap: 4px;
+}
+
+.view-mode-toggle + .diff-options {
+  margin-left: 4px;
+}
+
+.diff-option-btn.active {
+  background: var(--vscode-button-background);
+  color: var(--vscode-button-foreground);
 }
 
 .markdown-preview {
@@ -756,13 +779,13 @@ h3 {
 .comment-item.color-4 { border-left-color: #ffa657; }
 .comment-item.color-5 { border-left-color: #ff7b72; }
 
-.comment-item.submitted {
+.comment-item.resolved {
   opacity: 0.7;
   border-left-color: var(--vscode-descriptionForeground, #888);
   background: var(--vscode-editor-inactiveSelectionBackground);
 }
 
-.comment-item.submitted .comment-status {
+.comment-item.resolved .comment-status {
   color: var(--vscode-testing-iconPassed, #238636);
   font-size: 10px;
   margin-left: auto;
@@ -846,14 +869,96 @@ h3 {
   border-color: var(--vscode-focusBorder);
 }
 
-/* Submitted section */
-.submitted-section {
+/* Comment thread replies */
+.comment-reply {
+  margin-top: 6px;
+  padding: 4px 0 0 8px;
+  border-left: 2px solid var(--vscode-panel-border);
+  word-wrap: break-word;
+}
+
+.comment-reply.pending,
+.inline-comment-reply.pending {
+  border-left-color: var(--vscode-textLink-foreground, #58a6ff);
+}
+
+.comment-agent-response {
+  margin-top: 6px;
+  font-size: 11px;
+}
+
+.comment-agent-response summary {
+  cursor: pointer;
+  color: var(--vscode-descriptionForeground);
+}
+
+.comment-agent-response pre {
+  margin: 4px 0 0;
+  padding: 6px 8px;
+  border-radius: 3px;
+  background: var(--vscode-textCodeBlock-background);
+  font-family: var(--vscode-editor-font-family, monospace);
+  font-size: 11px;
+  white-space: pre-wrap;
+  word-break: break-word;
+  max-height: 240px;
+  overflow: auto;
+}
+
+.inline-comment-box .comment-agent-response {
+  margin: 0 8px 8px;
+}
+
+.unsent-label {
+  margin-left: 6px;
+  font-size: 10px;
+  color: var(--vscode-descriptionForeground);
+}
+
+.comment-original-code {
+  margin: 4px 0 6px;
+}
+
+.comment-original-label {
+  font-size: 10px;
+  color: var(--vscode-descriptionForeground);
+  margin-bottom: 2px;
+}
+
+.comment-original-code pre {
+  margin: 0;
+  padding: 4px 6px;
+  border-radius: 3px;
+  background: var(--vscode-textCodeBlock-background);
+  font-family: var(--vscode-editor-font-family, monospace);
+  font-size: 11px;
+  white-space: pre-wrap;
+  word-break: break-all;
+  max-height: 120px;
+  overflow: auto;
+}
+
+.inline-comment-box .comment-original-code {
+  margin: 8px 8px 0;
+}
+
+.outdated-label {
+  font-size: 10px;
+  padding: 0 4px;
+  border-radius: 3px;
+  color: var(--vscode-editorWarning-foreground, #d29922);
+  border: 1px solid var(--vscode-editorWarning-foreground, #d29922);
+  flex-shrink: 0;
+}
+
+/* Resolved section */
+.resolved-section {
   margin-top: 16px;
   border-top: 1px solid var(--vscode-panel-border);
   padding-top: 8px;
 }
 
-.submitted-header {
+.resolved-header {
   display: flex;
   align-items: center;
   gap: 8px;
@@ -863,23 +968,18 @@ h3 {
   padding: 4px 0;
 }
 
-.submitted-header:hover {
+.resolved-header:hover {
   color: var(--vscode-foreground);
 }
 
-.submitted-toggle {
+.resolved-toggle {
   font-size: 10px;
 }
 
-.submitted-list {
+.resolved-list {
   margin-top: 8px;
 }
 
-.submitted-badge {
-  font-size: 10px;
-  color: var(--vscode-testing-iconPassed, #238636);
-}
-
 .comment-tooltip {
   display: none;
   position: absolute;
@@ -1027,6 +1127,36 @@ button:hover {
   flex-shrink: 0;
 }
 
+/* Hidden unchanged lines between chunks */
+.context-expander {
+  display: flex;
+  align-items: center;
+  gap: 4px;
+  padding: 2px 8px;
+  background: var(--vscode-diffEditor-unchangedRegionBackground, rgba(56, 139, 253, 0.08));
+  user-select: none;
+}
+
+.context-expand-btn {
+  padding: 0 8px;
+  border: none;
+  border-radius: 3px;
+  background: transparent;
+  color: var(--vscode-textLink-foreground);
+  cursor: pointer;
+  font-size: 12px;
+  line-height: 18px;
+}
+
+.context-expand-btn:hover {
+  background: var(--vscode-list-hoverBackground);
+}
+
+.context-expander-label {
+  font-size: 11px;
+  color: var(--vscode-descriptionForeground);
+}
+
 .chunk-scope {
   font-family: monospace;
   font-size: 12px;
@@ -1049,6 +1179,28 @@ button:hover {
   color: var(--vscode-gitDecoration-deletedResourceForeground, #f85149);
 }
 
+.chunk-actions {
+  display: none;
+  gap: 4px;
+  flex-shrink: 0;
+}
+
+.chunk-header:hover .chunk-actions {
+  display: flex;
+}
+
+.chunk-action-btn {
+  width: auto;
+  padding: 1px 6px;
+  font-size: 11px;
+  background: var(--vscode-button-secondaryBackground);
+  color: var(--vscode-button-secondaryForeground);
+}
+
+.chunk-action-btn:hover {
+  background: var(--vscode-button-secondaryHoverBackground);
+}
+
 .chunk-lines {
   display: table-row-group;
 }
@@ -1121,6 +1273,94 @@ button:hover {
   background: transparent;
 }
 
+/* Split view: both sides share a row, so colour cells rather than rows */
+.diff-split .diff-line.addition,
+.diff-split .diff-line.deletion {
+  background: transparent;
+}
+
+.diff-split .diff-line .diff-line-num {
+  background: transparent;
+  color: var(--vscode-editorLineNumber-foreground);
+}
+
+.diff-split .diff-line-content::before {
+  display: none;
+}
+
+.diff-split .diff-line-content.split-old {
+  border-right: 1px solid var(--vscode-panel-border);
+}
+
+.diff-split td.split-addition {
+  background: var(--vscode-diffEditor-insertedLineBackground, rgba(46, 160, 67, 0.15));
+}
+
+.diff-split .diff-line .diff-line-num.split-addition {
+  background: var(--vscode-diffEditorGutter-insertedLineBackground, rgba(46, 160, 67, 0.2));
+  color: var(--vscode-gitDecoration-addedResourceForeground, #3fb950);
+}
+
+.diff-split td.split-deletion {
+  background: var(--vscode-diffEditor-removedLineBackground, rgba(248, 81, 73, 0.15));
+}
+
+.diff-split .diff-line .diff-line-num.split-deletion {
+  background: var(--vscode-diffEditorGutter-removedLineBackground, rgba(248, 81, 73, 0.2));
+  color: var(--vscode-gitDecoration-deletedResourceForeground, #f85149);
+}
+
+.diff-split td.split-empty {
+  background: var(--vscode-diffEditor-diagonalFill, rgba(128, 128, 128, 0.08));
+}
+
+.diff-split .inline-comment-row td.split-empty,
+.diff-split .comment-form-row td.split-empty {
+  background: transparent;
+}
+
+/* Changed words within an edited line; split cells take the colour of their side */
+.diff-line.addition .intra-change,
+.diff-split .split-addition .intra-change {
+  background: var(--vscode-diffEditor-insertedTextBackground, rgba(46, 160, 67, 0.35));
+  border-radius: 2px;
+}
+
+.diff-line.deletion .intra-change,
+.diff-split .split-deletion .intra-change {
+  background: var(--vscode-diffEditor-removedTextBackground, rgba(248, 81, 73, 0.35));
+  border-radius: 2px;
+}
+
+/* Moved blocks: muted blue instead of red/green, with a link to the other end */
+.diff-line.moved .diff-line-content,
+.diff-split td.split-moved {
+  background: rgba(56, 139, 253, 0.12) !important;
+}
+
+.diff-line.moved .diff-line-num,
+.diff-split .diff-line .diff-line-num.split-moved {
+  background: rgba(56, 139, 253, 0.2) !important;
+  color: var(--vscode-textLink-foreground, #58a6ff);
+}
+
+.moved-link {
+  float: right;
+  margin-left: 8px;
+  color: var(--vscode-textLink-foreground, #58a6ff);
+  font-size: 0.85em;
+  cursor: pointer;
+  user-select: none;
+}
+
+.moved-link::after {
+  content: attr(data-label);
+}
+
+.moved-link:hover {
+  text-decoration: underline;
+}
+
 .diff-line.line-selected {
   background: var(--vscode-editor-selectionBackground, rgba(0, 122, 204, 0.2)) !important;
 }
@@ -1199,6 +1439,12 @@ button:hover {
   padding: 6px 12px;
 }
 
+.comment-form-actions .line-actions {
+  display: flex;
+  gap: 8px;
+  margin-right: auto;
+}
+
 .btn-secondary {
   background: var(--vscode-button-secondaryBackground);
   color: var(--vscode-button-secondaryForeground);
@@ -1227,6 +1473,75 @@ button:hover {
   font-size: 14px;
 }
 
+/* Source of a renamed or copied file */
+.file-origin {
+  padding: 6px 12px;
+  font-size: 12px;
+  color: var(--vscode-descriptionForeground);
+  border-bottom: 1px solid var(--vscode-panel-border);
+}
+
+.file-origin-path {
+  font-family: monospace;
+  color: var(--vscode-foreground);
+}
+
+.file-origin-similarity {
+  margin-left: 6px;
+  font-size: 11px;
+}
+
+/* Before/after panes for image files */
+.image-preview {
+  display: grid;
+  grid-template-columns: 1fr 1fr;
+  gap: 12px;
+  padding: 12px;
+}
+
+.image-preview-label {
+  margin-bottom: 6px;
+  font-size: 12px;
+  font-weight: 600;
+}
+
+.image-preview-pane.before .image-preview-label {
+  color: var(--vscode-gitDecoration-deletedResourceForeground, #f85149);
+}
+
+.image-preview-pane.after .image-preview-label {
+  color: var(--vscode-gitDecoration-addedResourceForeground, #3fb950);
+}
+
+.image-preview-size {
+  font-weight: normal;
+  color: var(--vscode-descriptionForeground);
+}
+
+.image-preview-frame {
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  min-height: 120px;
+  padding: 8px;
+  border: 1px solid var(--vscode-panel-border);
+  border-radius: 4px;
+  /* Checkerboard shows transparent areas */
+  background: repeating-conic-gradient(rgba(128, 128, 128, 0.2) 0% 25%, transparent 0% 50%) 0 0 / 16px 16px;
+}
+
+.image-preview-img {
+  max-width: 100%;
+  max-height: 480px;
+  object-fit: contain;
+}
+
+.image-preview-none {
+  font-size: 12px;
+  font-style: italic;
+  color: var(--vscode-descriptionForeground);
+}
+
 .empty-text {
   color: var(--vscode-descriptionForeground);
   font-style: italic;
@@ -1291,6 +1606,111 @@ button:hover {
   flex-shrink: 0;
 }
 
+.commit-box {
+  margin-top: 8px;
+}
+
+.commit-message {
+  width: 100%;
+  box-sizing: border-box;
+  padding: 6px 8px;
+  background: var(--vscode-input-background);
+  color: var(--vscode-input-foreground);
+  border: 1px solid var(--vscode-input-border, transparent);
+  border-radius: 4px;
+  resize: vertical;
+  font-family: inherit;
+  font-size: 12px;
+}
+
+.commit-message:focus {
+  outline: 1px solid var(--vscode-focusBorder);
+}
+
+.commit-box-actions {
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  margin-top: 4px;
+}
+
+.commit-box-count {
+  flex: 1;
+  font-size: 11px;
+  color: var(--vscode-descriptionForeground);
+}
+
+.file-check {
+  flex-shrink: 0;
+  cursor: pointer;
+}
+
+.commit-banner {
+  align-items: center;
+  gap: 8px;
+  padding: 4px 8px;
+  margin-bottom: 8px;
+  border-radius: 4px;
+  font-size: 11px;
+  background: var(--vscode-editor-inactiveSelectionBackground, rgba(255, 255, 255, 0.06));
+}
+
+.commit-banner-label {
+  flex: 1;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+}
+
+.commit-item {
+  padding: 4px 10px;
+  margin: 2px 0;
+  border-radius: 6px;
+  cursor: pointer;
+  font-size: 12px;
+  display: flex;
+  align-items: center;
+  gap: 8px;
+}
+
+.commit-item:hover {
+  background: var(--vscode-list-hoverBackground);
+}
+
+.commit-item.selected {
+  background: var(--vscode-list-activeSelectionBackground);
+  color: var(--vscode-list-activeSelectionForeground);
+}
+
+.commit-sha {
+  font-family: var(--vscode-editor-font-family);
+  color: var(--vscode-textLink-foreground);
+  flex-shrink: 0;
+}
+
+.turn-label {
+  color: var(--vscode-textLink-foreground);
+  flex-shrink: 0;
+}
+
+.commit-subject {
+  flex: 1;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+}
+
+.commit-time {
+  font-size: 10px;
+  color: var(--vscode-descriptionForeground);
+  flex-shrink: 0;
+}
+
+.files-toolbar .toggle-btn.active {
+  background: var(--vscode-button-background);
+  color: var(--vscode-button-foreground);
+}
+
 .search-container {
   position: relative;
   flex: 1;
@@ -1599,6 +2019,15 @@ button:hover {
   text-align: left;
 }
 
+.inline-comment-reply {
+  margin: 0 8px 8px;
+  padding: 4px 0 4px 8px;
+  border-left: 2px solid var(--vscode-panel-border);
+  font-size: 12px;
+  line-height: 1.4;
+  white-space: pre-wrap;
+  word-wrap: break-word;
+}
 
 /* Edit form */
 .inline-comment-edit {
@@ -1637,7 +2066,8 @@ button:hover {
 }
 
 /* Slightly dim syntax colors for deleted lines */
-.diff-line.deletion .diff-line-content span[style] {
+.diff-line.deletion .diff-line-content span[style],
+.diff-split .split-deletion span[style] {
   opacity: 0.85;
 }
 
@@ -2425,6 +2855,17 @@ button:hover {
   color: #26c6da;
 }
 
+/* Conflict badge: file also modified by another live thread */
+.conflict-badge {
+  font-size: 10px;
+  padding: 1px 4px;
+  border-radius: 3px;
+  white-space: nowrap;
+  flex-shrink: 0;
+  background: rgba(239, 83, 80, 0.2);
+  color: var(--vscode-errorForeground, #ef5350);
+}
+
 /* Thread Badge Styles (Multi-Thread Mode) */
 .thread-badge {
   margin-left: 8px;
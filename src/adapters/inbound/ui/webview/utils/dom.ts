@@ -13,6 +13,49 @@ export function escapeHtml(text: string): string {
   return div.innerHTML;
 }
 
+/**
+ * Wrap a range of the text in an HTML fragment in a span.
+ * Offsets count characters of the text, not the markup (an entity is one
+ * character), so markup such as syntax highlighting is kept. The span is
+ * closed and reopened around tags to keep the fragment well nested.
+ */
+export function wrapTextRange(
+  html: string,
+  start: number,
+  end: number,
+  className: string
+): string {
+  if (start >= end) return html;
+
+  const openTag = `<span class="${className}">`;
+  const tokens = html.match(/<[^>]*>|&[#\w]+;|[^<&]+|[<&]/g) || [];
+  let result = '';
+  let offset = 0;
+  let inside = false;
+
+  for (const token of tokens) {
+    if (token.length > 1 && token.startsWith('<')) {
+      result += inside ? `</span>${token}${openTag}` : token;
+      continue;
+    }
+
+    const chars = token.length > 1 && token.startsWith('&') ? [token] : token.split('');
+    for (const char of chars) {
+      if (offset === start) {
+        result += openTag;
+        inside = true;
+      } else if (offset === end) {
+        result += '</span>';
+        inside = false;
+      }
+      result += char;
+      offset++;
+    }
+  }
+
+  return inside ? `${result}</span>` : result;
+}
+
 /**
  * Get element by ID with type safety
  */
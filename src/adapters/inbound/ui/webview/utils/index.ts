@@ -4,6 +4,7 @@
 
 export {
   escapeHtml,
+  wrapTextRange,
   getElementById,
   querySelector,
   querySelectorAll,
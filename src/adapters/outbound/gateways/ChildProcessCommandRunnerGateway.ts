@@ -0,0 +1,63 @@
+import { spawn, ChildProcess } from 'child_process';
+import {
+    ICommandRunnerPort,
+    CommandRunOptions,
+    CommandRunResult,
+} from '../../../application/ports/outbound/ICommandRunnerPort';
+
+/** Time a timed-out command gets to exit on SIGTERM before it is killed */
+const KILL_GRACE_MS = 5 * 1000;
+
+export class ChildProcessCommandRunnerGateway implements ICommandRunnerPort {
+    run(command: string, options: CommandRunOptions): Promise<CommandRunResult> {
+        return new Promise((resolve, reject) => {
+            const isWindows = process.platform === 'win32';
+            // Own process group on POSIX so a timeout also kills the shell's children
+            const child = spawn(command, {
+                cwd: options.cwd,
+                shell: true,
+                detached: !isWindows,
+                stdio: ['ignore', 'pipe', 'pipe'],
+            });
+
+            let timedOut = false;
+            let killTimer: NodeJS.Timeout | undefined;
+            const timer = setTimeout(() => {
+                timedOut = true;
+                this.kill(child, isWindows, 'SIGTERM');
+                // A script that traps SIGTERM must not hold worktree creation open
+                killTimer = setTimeout(() => this.kill(child, isWindows, 'SIGKILL'), KILL_GRACE_MS);
+            }, options.timeoutMs);
+            const clearTimers = () => {
+                clearTimeout(timer);
+                clearTimeout(killTimer);
+            };
+
+            const forward = (chunk: Buffer) => options.onOutput?.(chunk.toString());
+            child.stdout?.on('data', forward);
+            child.stderr?.on('data', forward);
+
+            child.on('error', (error) => {
+                clearTimers();
+                reject(error);
+            });
+            child.on('close', (code) => {
+                clearTimers();
+                resolve({ exitCode: timedOut ? null : code, timedOut });
+            });
+        });
+    }
+
+    private kill(child: ChildProcess, isWindows: boolean, signal: NodeJS.Signals): void {
+        try {
+            if (!isWindows && child.pid !== undefined) {
+                process.kill(-child.pid, signal);
+            } else {
+                child.kill(signal);
+            }
+        } catch (error) {
+            // Process already exited
+            console.warn('[Code Squad] Failed to stop setup command:', error);
+        }
+    }
+}
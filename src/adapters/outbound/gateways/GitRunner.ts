@@ -0,0 +1,247 @@
+import { spawn, ChildProcess } from 'child_process';
+
+/** Commands are stopped after this long unless a call asks for more */
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+/** git processes running at once; later commands wait for a free slot */
+const DEFAULT_MAX_CONCURRENT = 4;
+
+/** Largest stdout, and largest stderr, kept from one command */
+const DEFAULT_MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+/** Time a stopped git gets to exit on SIGTERM before it is killed */
+const KILL_GRACE_MS = 2 * 1000;
+
+export interface GitRunOptions {
+    /** Directory git runs in */
+    cwd: string;
+    /** Written to git's stdin, which is closed right after */
+    input?: string;
+    /** Overrides the runner's timeout */
+    timeoutMs?: number;
+    /** Aborting stops the command, or drops it while it waits for a slot */
+    signal?: AbortSignal;
+    /** Overrides the largest stdout and stderr kept */
+    maxOutputBytes?: number;
+    /** Added to git's environment, e.g. GIT_INDEX_FILE */
+    env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Why a git command failed:
+ * - 'exit': git ran and exited with a non-zero code
+ * - 'timeout': git was stopped after running too long
+ * - 'cancelled': the command's signal was aborted
+ * - 'outputTooLarge': git was stopped for writing more than allowed
+ * - 'spawn': git could not be started (e.g. not installed, or cwd missing)
+ */
+export type GitErrorKind = 'exit' | 'timeout' | 'cancelled' | 'outputTooLarge' | 'spawn';
+
+export class GitCommandError extends Error {
+    constructor(
+        message: string,
+        public readonly kind: GitErrorKind,
+        public readonly args: string[],
+        public readonly cwd: string,
+        public readonly exitCode: number | null = null,
+        public readonly stdout = '',
+        public readonly stderr = ''
+    ) {
+        super(message);
+        this.name = 'GitCommandError';
+    }
+}
+
+export interface GitRunnerOptions {
+    timeoutMs?: number;
+    maxConcurrent?: number;
+}
+
+/**
+ * Runs git with argument arrays, never through a shell, so paths, refs and
+ * messages are passed as they are.
+ */
+export class GitRunner {
+    private readonly timeoutMs: number;
+    private readonly maxConcurrent: number;
+    private running = 0;
+    private readonly waiting: Array<() => void> = [];
+
+    constructor(options: GitRunnerOptions = {}) {
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        this.maxConcurrent = options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT;
+    }
+
+    /**
+     * Run git and return its stdout as text.
+     *
+     * @throws GitCommandError when git fails, times out or is cancelled
+     */
+    async run(args: string[], options: GitRunOptions): Promise<string> {
+        return (await this.runRaw(args, options)).toString('utf8');
+    }
+
+    /**
+     * Run git and return its stdout as bytes, for binary content.
+     *
+     * @throws GitCommandError when git fails, times out or is cancelled
+     */
+    async runRaw(args: string[], options: GitRunOptions): Promise<Buffer> {
+        await this.acquire(args, options);
+        try {
+            return await this.spawnGit(args, options);
+        } finally {
+            this.release();
+        }
+    }
+
+    private acquire(args: string[], options: GitRunOptions): Promise<void> {
+        const { signal } = options;
+        if (signal?.aborted) {
+            return Promise.reject(this.cancelledError(args, options.cwd));
+        }
+        if (this.running < this.maxConcurrent) {
+            this.running++;
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const start = () => {
+                signal?.removeEventListener('abort', onAbort);
+                this.running++;
+                resolve();
+            };
+            const onAbort = () => {
+                const index = this.waiting.indexOf(start);
+                if (index !== -1) this.waiting.splice(index, 1);
+                reject(this.cancelledError(args, options.cwd));
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.waiting.push(start);
+        });
+    }
+
+    private release(): void {
+        this.running--;
+        this.waiting.shift()?.();
+    }
+
+    private spawnGit(args: string[], options: GitRunOptions): Promise<Buffer> {
+        const { cwd, signal, env } = options;
+        const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+        const maxOutputBytes = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+
+        return new Promise((resolve, reject) => {
+            const isWindows = process.platform === 'win32';
+            let child: ChildProcess;
+            try {
+                // Own process group on POSIX so stopping git also stops hooks and aliases it started
+                child = spawn('git', args, {
+                    cwd,
+                    detached: !isWindows,
+                    // Fail instead of waiting for credentials nobody can type. Without optional
+                    // locks, reads like `git status` don't rewrite the index behind the user's back.
+                    env: { ...process.env, ...env, GIT_TERMINAL_PROMPT: '0', GIT_OPTIONAL_LOCKS: '0' },
+                    stdio: ['pipe', 'pipe', 'pipe'],
+                });
+            } catch (error) {
+                reject(new GitCommandError(`Failed to start git: ${(error as Error).message}`, 'spawn', args, cwd));
+                return;
+            }
+
+            const stdoutChunks: Buffer[] = [];
+            let stdoutBytes = 0;
+            let stderr = '';
+            let stderrBytes = 0;
+            let stopReason: GitErrorKind | null = null;
+            let killTimer: NodeJS.Timeout | undefined;
+
+            const stop = (reason: GitErrorKind) => {
+                if (stopReason) return;
+                stopReason = reason;
+                this.kill(child, isWindows, 'SIGTERM');
+                // Hooks may trap SIGTERM; don't let them hold the command open
+                killTimer = setTimeout(() => this.kill(child, isWindows, 'SIGKILL'), KILL_GRACE_MS);
+            };
+            const timer = setTimeout(() => stop('timeout'), timeoutMs);
+            const onAbort = () => stop('cancelled');
+            signal?.addEventListener('abort', onAbort, { once: true });
+            const cleanup = () => {
+                clearTimeout(timer);
+                clearTimeout(killTimer);
+                signal?.removeEventListener('abort', onAbort);
+            };
+
+            child.stdout?.on('data', (chunk: Buffer) => {
+                stdoutBytes += chunk.length;
+                if (stdoutBytes > maxOutputBytes) {
+                    stop('outputTooLarge');
+                    return;
+                }
+                stdoutChunks.push(chunk);
+            });
+            child.stderr?.on('data', (chunk: Buffer) => {
+                stderrBytes += chunk.length;
+                if (stderrBytes > maxOutputBytes) {
+                    stop('outputTooLarge');
+                    return;
+                }
+                stderr += chunk.toString('utf8');
+            });
+            // git may exit before reading all of its input
+            child.stdin?.on('error', () => undefined);
+            child.stdin?.end(options.input ?? '');
+
+            child.on('error', (error) => {
+                cleanup();
+                reject(new GitCommandError(`Failed to start git: ${error.message}`, 'spawn', args, cwd));
+            });
+            child.on('close', (code) => {
+                cleanup();
+                const stdout = Buffer.concat(stdoutChunks);
+                if (stopReason) {
+                    reject(this.stoppedError(stopReason, args, cwd, timeoutMs, stdout.toString('utf8'), stderr));
+                } else if (code !== 0) {
+                    const text = stdout.toString('utf8');
+                    const message = stderr.trim() || text.trim() || `git ${args[0]} exited with code ${code}`;
+                    reject(new GitCommandError(message, 'exit', args, cwd, code, text, stderr));
+                } else {
+                    resolve(stdout);
+                }
+            });
+        });
+    }
+
+    private stoppedError(
+        reason: GitErrorKind,
+        args: string[],
+        cwd: string,
+        timeoutMs: number,
+        stdout: string,
+        stderr: string
+    ): GitCommandError {
+        if (reason === 'cancelled') {
+            return this.cancelledError(args, cwd);
+        }
+        const message = reason === 'timeout'
+            ? `git ${args[0]} timed out after ${timeoutMs}ms`
+            : `git ${args[0]} wrote more output than allowed`;
+        return new GitCommandError(message, reason, args, cwd, null, stdout, stderr);
+    }
+
+    private cancelledError(args: string[], cwd: string): GitCommandError {
+        return new GitCommandError(`git ${args[0]} was cancelled`, 'cancelled', args, cwd);
+    }
+
+    private kill(child: ChildProcess, isWindows: boolean, signal: NodeJS.Signals): void {
+        try {
+            if (!isWindows && child.pid !== undefined) {
+                process.kill(-child.pid, signal);
+            } else {
+                child.kill(signal);
+            }
+        } catch {
+            // Process already exited
+        }
+    }
+}
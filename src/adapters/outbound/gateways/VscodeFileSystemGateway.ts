@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { IFileSystemPort } from '../../../application/ports/outbound/IFileSystemPort';
+import { FileStat, IFileSystemPort } from '../../../application/ports/outbound/IFileSystemPort';
 
 export class VscodeFileSystemGateway implements IFileSystemPort {
     private workspaceRoot: string | undefined;
@@ -35,6 +35,15 @@ export class VscodeFileSystemGateway implements IFileSystemPort {
         }
     }
 
+    async stat(absolutePath: string): Promise<FileStat | undefined> {
+        try {
+            const { size, mtimeMs } = await fs.promises.stat(absolutePath);
+            return { size, mtimeMs };
+        } catch {
+            return undefined;
+        }
+    }
+
     getWorkspaceRoot(): string | undefined {
         return this.workspaceRoot;
     }
@@ -49,14 +58,32 @@ export class VscodeFileSystemGateway implements IFileSystemPort {
         return path.relative(this.workspaceRoot, absolutePath);
     }
 
+    async writeFile(absolutePath: string, content: string): Promise<void> {
+        await fs.promises.writeFile(absolutePath, content, 'utf8');
+    }
+
+    async removeFile(absolutePath: string): Promise<void> {
+        await fs.promises.rm(absolutePath, { force: true });
+    }
+
     async copyFile(source: string, dest: string): Promise<void> {
         await fs.promises.copyFile(source, dest);
+        // Same size and time then mark an unchanged copy without reading it
+        const { atime, mtime } = await fs.promises.stat(source);
+        await fs.promises.utimes(dest, atime, mtime);
     }
 
     async ensureDir(dirPath: string): Promise<void> {
         await fs.promises.mkdir(dirPath, { recursive: true });
     }
 
+    async createSymlink(target: string, linkPath: string): Promise<void> {
+        // Junctions don't need elevated rights on Windows
+        const stat = await fs.promises.stat(target);
+        const type = stat.isDirectory() && process.platform === 'win32' ? 'junction' : undefined;
+        await fs.promises.symlink(target, linkPath, type);
+    }
+
     joinPath(...segments: string[]): string {
         return path.join(...segments);
     }
@@ -1,377 +1,826 @@
-import { exec } from 'child_process';
 import * as fs from 'fs';
-import { IGitPort, FileStatus, WorktreeInfo } from '../../../application/ports/outbound/IGitPort';
+import * as os from 'os';
+import * as path from 'path';
+import { IGitPort, FileStatus, ChangedFile, WorktreeInfo, MergeBranchOptions, GitCommit } from '../../../application/ports/outbound/IGitPort';
+import { DiffOptions } from '../../../domain/entities/Diff';
+import { unquoteGitPath } from '../../../domain/services/DiffService';
+import { GitRunner, GitCommandError } from './GitRunner';
+
+/** Commands that check out trees or run hooks get longer than the runner's default */
+const LONG_COMMAND_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Largest part of an untracked file read for its new-file diff, as git's own output limit */
+const MAX_WORKSPACE_FILE_BYTES = 10 * 1024 * 1024;
+
+/** Copy of a repository's index with its untracked files added as intent-to-add */
+interface UntrackedIndex {
+    /** State of the real index and the untracked files it was built from */
+    key: string;
+    dir: string;
+    /** Environment pointing git at the copy, undefined when it couldn't be made */
+    env: Promise<NodeJS.ProcessEnv | undefined>;
+}
 
 export class VscodeGitGateway implements IGitPort {
+    /** Aborted on dispose so commands still running don't outlive the extension */
+    private readonly disposal = new AbortController();
+    /** Reused by every query until the index or the untracked files change */
+    private readonly untrackedIndexes = new Map<string, UntrackedIndex>();
+
+    constructor(private readonly runner: GitRunner = new GitRunner()) {}
+
+    dispose(): void {
+        this.disposal.abort();
+        for (const { dir } of this.untrackedIndexes.values()) {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+        this.untrackedIndexes.clear();
+    }
+
     async isGitRepository(workspaceRoot: string): Promise<boolean> {
-        return new Promise((resolve) => {
-            exec(
-                `cd "${workspaceRoot}" && git rev-parse --git-dir`,
-                { maxBuffer: 1024 * 1024 },
-                (error) => {
-                    resolve(!error);
-                }
-            );
-        });
+        try {
+            await this.runGit(workspaceRoot, ['rev-parse', '--git-dir']);
+            return true;
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return false;
+        }
     }
 
-    async getDiff(workspaceRoot: string, relativePath: string): Promise<string> {
+    async getDiff(workspaceRoot: string, relativePath: string, options: DiffOptions = {}): Promise<string> {
         const isGit = await this.isGitRepository(workspaceRoot);
         if (!isGit) return '';
 
-        return new Promise((resolve) => {
-            exec(
-                `cd "${workspaceRoot}" && git diff HEAD -- "${relativePath}"`,
-                { maxBuffer: 1024 * 1024 * 10 },
-                (error, stdout) => {
-                    if (!error && stdout.trim()) {
-                        resolve(stdout);
-                        return;
-                    }
-
-                    exec(
-                        `cd "${workspaceRoot}" && git ls-files --others --exclude-standard -- "${relativePath}"`,
-                        { maxBuffer: 1024 * 1024 },
-                        (untrackedErr, untrackedOut) => {
-                            if (!untrackedErr && untrackedOut.trim()) {
-                                exec(
-                                    `cd "${workspaceRoot}" && cat "${relativePath}"`,
-                                    { maxBuffer: 1024 * 1024 * 10 },
-                                    (_catErr, fileContent) => {
-                                        if (fileContent) {
-                                            const lines = fileContent.split('\n');
-                                            const fakeDiff = lines.map((line) => `+${line}`).join('\n');
-                                            resolve(`@@ -0,0 +1,${lines.length} @@ New file\n${fakeDiff}`);
-                                        } else {
-                                            resolve('');
-                                        }
-                                    }
-                                );
-                            } else {
-                                // Final fallback: try reading file directly (for gitignored files)
-                                exec(
-                                    `cd "${workspaceRoot}" && cat "${relativePath}"`,
-                                    { maxBuffer: 1024 * 1024 * 10 },
-                                    (_catErr, fileContent) => {
-                                        if (fileContent && fileContent.trim()) {
-                                            const lines = fileContent.split('\n');
-                                            const fakeDiff = lines.map((line) => `+${line}`).join('\n');
-                                            resolve(`@@ -0,0 +1,${lines.length} @@ New file\n${fakeDiff}`);
-                                        } else {
-                                            resolve('');
-                                        }
-                                    }
-                                );
-                            }
-                        }
-                    );
-                }
-            );
+        const flags = this.getDiffFlags(options);
+        const renamed = await this.getRenameDiff(workspaceRoot, ['diff', 'HEAD'], relativePath, flags)
+            ?? await this.getUnstagedRenameDiff(workspaceRoot, 'HEAD', relativePath, flags);
+        if (renamed) return renamed;
+
+        if (flags.length > 0) {
+            try {
+                const filtered = await this.runGitDiffWithFlags(workspaceRoot, 'HEAD', relativePath, flags);
+                if (filtered !== null) return filtered;
+            } catch (error) {
+                this.rethrowUnlessExit(error);
+                // Fall back to the plain diff and its untracked-file handling
+            }
+        }
+
+        try {
+            const stdout = await this.runGit(workspaceRoot, ['diff', 'HEAD', '--', relativePath]);
+            if (stdout.trim()) return stdout;
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            // No HEAD yet, or the path is outside the repository
+        }
+
+        const untracked = await this.runGit(
+            workspaceRoot,
+            ['ls-files', '--others', '--exclude-standard', '--', relativePath]
+        ).catch((error) => {
+            this.rethrowUnlessExit(error);
+            return '';
         });
+        const fileContent = await this.readWorkspaceFile(workspaceRoot, relativePath);
+        if (untracked.trim()) {
+            return fileContent ? this.formatNewFileDiff(relativePath, fileContent) : '';
+        }
+
+        // Final fallback: the file read directly (for gitignored files)
+        return fileContent.trim() ? this.formatNewFileDiff(relativePath, fileContent) : '';
     }
 
     async getUncommittedFiles(workspaceRoot: string): Promise<string[]> {
         const isGit = await this.isGitRepository(workspaceRoot);
         if (!isGit) return [];
 
-        return new Promise((resolve) => {
-            exec(
-                `cd "${workspaceRoot}" && git status --porcelain`,
-                { maxBuffer: 1024 * 1024 },
-                (error, stdout) => {
-                    if (error) {
-                        resolve([]);
-                        return;
-                    }
-
-                    const files = stdout
-                        .split('\n')
-                        .filter((line) => line.trim())
-                        .map((line) => line.substring(3).trim())
-                        .filter((file) => file.length > 0);
-
-                    resolve(files);
-                }
-            );
-        });
+        try {
+            const stdout = await this.runGit(workspaceRoot, ['status', '--porcelain', '-z']);
+            return this.parsePorcelain(stdout).map((file) => file.path);
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return [];
+        }
     }
 
     async getFileStatus(workspaceRoot: string, relativePath: string): Promise<FileStatus> {
-        return new Promise((resolve) => {
-            exec(
-                `cd "${workspaceRoot}" && git status --porcelain -- "${relativePath}"`,
-                { maxBuffer: 1024 * 1024 },
-                (error, stdout) => {
-                    if (error || !stdout.trim()) {
-                        resolve('modified');
-                        return;
-                    }
-                    const statusCode = stdout.substring(0, 2);
-                    if (statusCode.includes('A') || statusCode === '??') {
-                        resolve('added');
-                    } else if (statusCode.includes('D')) {
-                        resolve('deleted');
-                    } else {
-                        resolve('modified');
-                    }
-                }
-            );
-        });
+        try {
+            const stdout = await this.runGit(workspaceRoot, ['status', '--porcelain', '-z', '--', relativePath]);
+            const [entry] = this.parsePorcelain(stdout);
+            if (!entry) return 'modified';
+            if (entry.status !== 'added') return entry.status;
+
+            // The pathspec hides the source of a rename, so it reads as added
+            const origin = stdout.startsWith('??')
+                ? await this.withUntrackedIndexed(workspaceRoot, 'HEAD', (env) => this.findOrigin(workspaceRoot, ['diff', 'HEAD'], relativePath, env))
+                : await this.findOrigin(workspaceRoot, ['diff', '--cached'], relativePath);
+            return origin?.status ?? entry.status;
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return 'modified';
+        }
     }
 
-    async getUncommittedFilesWithStatus(workspaceRoot: string): Promise<Array<{ path: string; status: FileStatus }>> {
+    async getUncommittedFilesWithStatus(workspaceRoot: string): Promise<ChangedFile[]> {
         const isGit = await this.isGitRepository(workspaceRoot);
         if (!isGit) return [];
 
-        return new Promise((resolve) => {
-            exec(
-                `cd "${workspaceRoot}" && git status --porcelain`,
-                { maxBuffer: 1024 * 1024 },
-                async (error, stdout) => {
-                    if (error) {
-                        resolve([]);
-                        return;
-                    }
-
-                    const entries = stdout
-                        .split('\n')
-                        .filter((line) => line.trim())
-                        .map((line) => {
-                            const statusCode = line.substring(0, 2);
-                            const filePath = line.substring(3).trim();
-                            let status: FileStatus = 'modified';
-                            if (statusCode.includes('A') || statusCode === '??') {
-                                status = 'added';
-                            } else if (statusCode.includes('D')) {
-                                status = 'deleted';
-                            }
-                            return { path: filePath, status };
-                        })
-                        .filter((f) => f.path.length > 0);
-
-                    // Expand directories to individual files
-                    const expandedFiles: Array<{ path: string; status: FileStatus }> = [];
-
-                    for (const entry of entries) {
-                        if (entry.path.endsWith('/')) {
-                            // It's a directory - list files inside
-                            const dirFiles = await this.listFilesInDirectory(workspaceRoot, entry.path);
-                            for (const file of dirFiles) {
-                                expandedFiles.push({ path: file, status: entry.status });
-                            }
-                        } else {
-                            expandedFiles.push(entry);
-                        }
-                    }
-
-                    resolve(expandedFiles);
-                }
+        try {
+            // -uall lists the files inside untracked directories instead of the directories
+            const stdout = await this.withUntrackedIndexed(
+                workspaceRoot,
+                'HEAD',
+                (env) => this.runGit(workspaceRoot, ['status', '--porcelain', '-z', '-uall'], { env })
             );
-        });
+            return this.parsePorcelain(stdout);
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return [];
+        }
     }
 
     async getCurrentBranch(workspaceRoot: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            exec(
-                `cd "${workspaceRoot}" && git rev-parse --abbrev-ref HEAD`,
-                { maxBuffer: 1024 * 1024 },
-                (error, stdout) => {
-                    if (error) {
-                        reject(error);
-                        return;
-                    }
-                    resolve(stdout.trim());
-                }
-            );
-        });
+        const stdout = await this.runGit(workspaceRoot, ['rev-parse', '--abbrev-ref', 'HEAD']);
+        return stdout.trim();
     }
 
     async createWorktree(worktreePath: string, branch: string, workspaceRoot: string): Promise<void> {
-        return new Promise((resolve, reject) => {
-            // Extract parent directory and create it if needed
-            const parentDir = worktreePath.substring(0, worktreePath.lastIndexOf('/'));
-            const mkdirCmd = parentDir ? `mkdir -p "${parentDir}" && ` : '';
-
-            exec(
-                `cd "${workspaceRoot}" && ${mkdirCmd}git worktree add "${worktreePath}" -b "${branch}"`,
-                { maxBuffer: 1024 * 1024 },
-                (error) => {
-                    if (error) {
-                        reject(error);
-                        return;
-                    }
-                    resolve();
-                }
-            );
-        });
+        await fs.promises.mkdir(path.dirname(path.resolve(workspaceRoot, worktreePath)), { recursive: true });
+        await this.runGit(
+            workspaceRoot,
+            ['worktree', 'add', '-b', branch, worktreePath],
+            { timeoutMs: LONG_COMMAND_TIMEOUT_MS }
+        );
     }
 
     async getWorktreeRoot(workspaceRoot: string): Promise<string | null> {
-        return new Promise((resolve) => {
-            exec(
-                `cd "${workspaceRoot}" && git rev-parse --show-toplevel`,
-                { maxBuffer: 1024 * 1024 },
-                (error, stdout) => {
-                    if (error) {
-                        resolve(null);
-                        return;
-                    }
-                    resolve(stdout.trim());
-                }
-            );
-        });
-    }
-
-    private listFilesInDirectory(workspaceRoot: string, dirPath: string): Promise<string[]> {
-        return new Promise((resolve) => {
-            exec(
-                `cd "${workspaceRoot}" && find "${dirPath}" -type f 2>/dev/null`,
-                { maxBuffer: 1024 * 1024 },
-                (error, stdout) => {
-                    if (error || !stdout.trim()) {
-                        resolve([]);
-                        return;
-                    }
-                    const files = stdout
-                        .split('\n')
-                        .filter((line) => line.trim())
-                        .map((line) => line.trim());
-                    resolve(files);
-                }
-            );
-        });
+        try {
+            const stdout = await this.runGit(workspaceRoot, ['rev-parse', '--show-toplevel']);
+            return stdout.trim();
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return null;
+        }
     }
 
     async listWorktrees(workspaceRoot: string): Promise<WorktreeInfo[]> {
-        return new Promise((resolve) => {
-            exec(
-                `cd "${workspaceRoot}" && git worktree list --porcelain`,
-                { maxBuffer: 1024 * 1024 },
-                (error, stdout) => {
-                    if (error) {
-                        resolve([]);
-                        return;
-                    }
-
-                    const worktrees: WorktreeInfo[] = [];
-                    const lines = stdout.split('\n').filter(line => line.trim());
-
-                    // Parse porcelain format: groups of 3 lines
-                    // worktree /path
-                    // HEAD sha
-                    // branch refs/heads/name
-                    let i = 0;
-                    while (i < lines.length) {
-                        const worktreeLine = lines[i];
-                        const headLine = lines[i + 1];
-                        const branchLine = lines[i + 2];
-
-                        if (!worktreeLine || !headLine) {
-                            i++;
-                            continue;
-                        }
-
-                        const pathMatch = worktreeLine.match(/^worktree (.+)$/);
-                        const headMatch = headLine.match(/^HEAD (.+)$/);
-                        const branchMatch = branchLine?.match(/^branch refs\/heads\/(.+)$/);
-
-                        if (pathMatch && headMatch) {
-                            const path = pathMatch[1];
-                            const head = headMatch[1];
-                            const branch = branchMatch ? branchMatch[1] : 'HEAD';
-
-                            // Skip main repository root (first entry)
-                            if (path !== workspaceRoot) {
-                                worktrees.push({ path, branch, head });
-                            }
-                        }
-
-                        // Move to next worktree entry
-                        i += 3;
-                    }
-
-                    resolve(worktrees);
+        let stdout: string;
+        try {
+            stdout = await this.runGit(workspaceRoot, ['worktree', 'list', '--porcelain']);
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return [];
+        }
+
+        const worktrees: WorktreeInfo[] = [];
+        const lines = stdout.split('\n').filter(line => line.trim());
+
+        // Parse porcelain format: groups of 3 lines
+        // worktree /path
+        // HEAD sha
+        // branch refs/heads/name
+        let i = 0;
+        while (i < lines.length) {
+            const worktreeLine = lines[i];
+            const headLine = lines[i + 1];
+            const branchLine = lines[i + 2];
+
+            if (!worktreeLine || !headLine) {
+                i++;
+                continue;
+            }
+
+            const pathMatch = worktreeLine.match(/^worktree (.+)$/);
+            const headMatch = headLine.match(/^HEAD (.+)$/);
+            const branchMatch = branchLine?.match(/^branch refs\/heads\/(.+)$/);
+
+            if (pathMatch && headMatch) {
+                const worktreePath = pathMatch[1];
+                const head = headMatch[1];
+                const branch = branchMatch ? branchMatch[1] : 'HEAD';
+
+                // Skip main repository root (first entry)
+                if (worktreePath !== workspaceRoot) {
+                    worktrees.push({ path: worktreePath, branch, head });
                 }
-            );
-        });
+            }
+
+            // Move to next worktree entry
+            i += 3;
+        }
+
+        return worktrees;
     }
 
-    async isValidWorktree(path: string, workspaceRoot: string): Promise<boolean> {
+    async isValidWorktree(worktreePath: string, workspaceRoot: string): Promise<boolean> {
         // Step 1: Check if path exists and is accessible
         try {
-            await fs.promises.access(path, fs.constants.R_OK);
+            await fs.promises.access(worktreePath, fs.constants.R_OK);
         } catch {
             return false;
         }
 
         // Step 2: Check if path is a valid git repository
-        const isGitRepo = await new Promise<boolean>((resolve) => {
-            exec(
-                `cd "${path}" && git rev-parse --git-dir`,
-                { maxBuffer: 1024 * 1024 },
-                (error) => {
-                    resolve(!error);
-                }
-            );
-        });
-
-        if (!isGitRepo) {
+        if (!(await this.isGitRepository(worktreePath))) {
             return false;
         }
 
         // Step 3: Verify path is listed in main repo's worktree list
         const worktrees = await this.listWorktrees(workspaceRoot);
-        return worktrees.some(wt => wt.path === path);
+        return worktrees.some(wt => wt.path === worktreePath);
     }
 
     async getWorktreeBranch(worktreePath: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            exec(
-                `cd "${worktreePath}" && git rev-parse --abbrev-ref HEAD`,
-                { maxBuffer: 1024 * 1024 },
-                (error, stdout) => {
-                    if (error) {
-                        reject(new Error(`Failed to get branch name: ${error.message}`));
-                        return;
-                    }
-                    const branch = stdout.trim();
-                    resolve(branch);
-                }
-            );
-        });
+        try {
+            const stdout = await this.runGit(worktreePath, ['rev-parse', '--abbrev-ref', 'HEAD']);
+            return stdout.trim();
+        } catch (error) {
+            throw new Error(`Failed to get branch name: ${(error as Error).message}`);
+        }
     }
 
     async removeWorktree(worktreePath: string, workspaceRoot: string, force = false): Promise<void> {
-        return new Promise((resolve, reject) => {
-            const forceFlag = force ? ' --force' : '';
-            exec(
-                `cd "${workspaceRoot}" && git worktree remove "${worktreePath}"${forceFlag}`,
-                { maxBuffer: 1024 * 1024 },
-                (error) => {
-                    if (error) {
-                        reject(new Error(`Failed to remove worktree: ${error.message}`));
-                        return;
-                    }
-                    resolve();
+        const args = ['worktree', 'remove', worktreePath];
+        if (force) args.push('--force');
+        try {
+            await this.runGit(workspaceRoot, args, { timeoutMs: LONG_COMMAND_TIMEOUT_MS });
+        } catch (error) {
+            throw new Error(`Failed to remove worktree: ${(error as Error).message}`);
+        }
+    }
+
+    async deleteBranch(branchName: string, workspaceRoot: string, force = false): Promise<void> {
+        try {
+            await this.runGit(workspaceRoot, ['branch', force ? '-D' : '-d', branchName]);
+        } catch (error) {
+            throw new Error(`Failed to delete branch: ${(error as Error).message}`);
+        }
+    }
+
+    async getMergeConflicts(baseBranch: string, branch: string, workspaceRoot: string): Promise<string[]> {
+        try {
+            await this.runGit(
+                workspaceRoot,
+                ['merge-tree', '--write-tree', '--name-only', '--no-messages', '-z', baseBranch, branch]
+            );
+            return [];
+        } catch (error) {
+            // Exit code 1 means conflicts; other exit errors (e.g. git < 2.38) are
+            // treated as "unknown" and left for the actual merge to report
+            this.rethrowUnlessExit(error);
+            if (!(error instanceof GitCommandError) || error.exitCode !== 1) {
+                return [];
+            }
+            // First entry is the resulting tree OID, followed by conflicted paths
+            return error.stdout.split('\0').slice(1).filter((file) => file.length > 0);
+        }
+    }
+
+    async mergeBranch(branch: string, workspaceRoot: string, options: MergeBranchOptions = {}): Promise<void> {
+        const message = options.message ? ['-m', options.message] : [];
+        const longCommand = { timeoutMs: LONG_COMMAND_TIMEOUT_MS };
+
+        if (options.squash) {
+            try {
+                await this.runGit(workspaceRoot, ['merge', '--squash', branch], longCommand);
+                await this.runGit(workspaceRoot, ['commit', '--no-edit', ...message], longCommand);
+            } catch (error) {
+                // Squash leaves changes staged without MERGE_HEAD, so reset instead of abort
+                await this.runGit(workspaceRoot, ['reset', '--merge']).catch(() => undefined);
+                throw new Error(`Failed to squash merge branch: ${(error as Error).message}`);
+            }
+            return;
+        }
+
+        const mode = options.fastForwardOnly ? '--ff-only' : '--no-ff';
+        try {
+            await this.runGit(workspaceRoot, ['merge', mode, '--no-edit', ...message, branch], longCommand);
+        } catch (error) {
+            await this.runGit(workspaceRoot, ['merge', '--abort']).catch(() => undefined);
+            throw new Error(`Failed to merge branch: ${(error as Error).message}`);
+        }
+    }
+
+    async rebaseBranch(worktreePath: string, ontoBranch: string): Promise<void> {
+        try {
+            await this.runGit(worktreePath, ['rebase', ontoBranch], { timeoutMs: LONG_COMMAND_TIMEOUT_MS });
+        } catch (error) {
+            await this.runGit(worktreePath, ['rebase', '--abort']).catch(() => undefined);
+            throw new Error(`Failed to rebase branch: ${(error as Error).message}`);
+        }
+    }
+
+    async resetHard(workspaceRoot: string, commit: string): Promise<void> {
+        await this.runGit(workspaceRoot, ['reset', '--hard', commit]);
+    }
+
+    async getHeadCommit(workspaceRoot: string): Promise<string> {
+        const stdout = await this.runGit(workspaceRoot, ['rev-parse', 'HEAD']);
+        return stdout.trim();
+    }
+
+    async getMergeBase(refA: string, refB: string, workspaceRoot: string): Promise<string | null> {
+        try {
+            const stdout = await this.runGit(workspaceRoot, ['merge-base', refA, refB]);
+            return stdout.trim() || null;
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return null;
+        }
+    }
+
+    async getDiffFromCommit(
+        workspaceRoot: string,
+        baseCommit: string,
+        relativePath: string,
+        options: DiffOptions = {}
+    ): Promise<string> {
+        try {
+            const flags = this.getDiffFlags(options);
+            const renamed = await this.getRenameDiff(workspaceRoot, ['diff', baseCommit], relativePath, flags)
+                ?? await this.getUnstagedRenameDiff(workspaceRoot, baseCommit, relativePath, flags);
+            if (renamed) return renamed;
+
+            if (flags.length > 0) {
+                const filtered = await this.runGitDiffWithFlags(workspaceRoot, baseCommit, relativePath, flags);
+                if (filtered !== null) return filtered;
+            }
+
+            const stdout = await this.runGit(workspaceRoot, ['diff', baseCommit, '--', relativePath]);
+            if (stdout.trim()) {
+                return stdout;
+            }
+
+            // Untracked files don't show up in git diff; reuse getDiff's new-file handling
+            const untracked = await this.runGit(
+                workspaceRoot,
+                ['ls-files', '--others', '--exclude-standard', '--', relativePath]
+            );
+            return untracked.trim() ? this.getDiff(workspaceRoot, relativePath, options) : '';
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return '';
+        }
+    }
+
+    async getChangedFilesFromCommit(
+        workspaceRoot: string,
+        baseCommit: string
+    ): Promise<ChangedFile[]> {
+        try {
+            const diffOut = await this.withUntrackedIndexed(
+                workspaceRoot,
+                baseCommit,
+                (env) => this.runGit(workspaceRoot, ['diff', '--name-status', '-z', '-M', '-C', baseCommit], { env })
+            );
+            const untrackedOut = await this.runGit(workspaceRoot, ['ls-files', '--others', '--exclude-standard', '-z']);
+
+            const files = new Map<string, ChangedFile>();
+            for (const file of this.parseNameStatus(diffOut)) {
+                files.set(file.path, file);
+            }
+            for (const filePath of untrackedOut.split('\0')) {
+                if (filePath && !files.has(filePath)) {
+                    files.set(filePath, { path: filePath, status: 'added' });
                 }
+            }
+
+            return Array.from(files.values());
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return [];
+        }
+    }
+
+    async getCommitLog(workspaceRoot: string, sinceCommit: string): Promise<GitCommit[]> {
+        try {
+            // Unit separator keeps subjects containing tabs or pipes intact
+            const stdout = await this.runGit(
+                workspaceRoot,
+                ['log', '--format=%H%x1f%an%x1f%at%x1f%s', `${sinceCommit}..HEAD`]
             );
-        });
+            return stdout
+                .split('\n')
+                .filter((line) => line.trim())
+                .map((line) => {
+                    const [sha, author, time, subject] = line.split('\x1f');
+                    return { sha, author, subject: subject ?? '', timestamp: Number(time) * 1000 };
+                });
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return [];
+        }
     }
 
-    async deleteBranch(branchName: string, workspaceRoot: string, force = false): Promise<void> {
-        return new Promise((resolve, reject) => {
-            const deleteFlag = force ? '-D' : '-d';
-            exec(
-                `cd "${workspaceRoot}" && git branch ${deleteFlag} "${branchName}"`,
-                { maxBuffer: 1024 * 1024 },
-                (error) => {
-                    if (error) {
-                        reject(new Error(`Failed to delete branch: ${error.message}`));
-                        return;
-                    }
-                    resolve();
+    async getCommitFiles(workspaceRoot: string, sha: string): Promise<ChangedFile[]> {
+        try {
+            const stdout = await this.runGit(
+                workspaceRoot,
+                ['diff-tree', '--no-commit-id', '--name-status', '-z', '-r', '-M', '-C', '--root', sha]
+            );
+            return this.parseNameStatus(stdout);
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return [];
+        }
+    }
+
+    async getCommitDiff(workspaceRoot: string, sha: string, relativePath: string): Promise<string> {
+        try {
+            const renamed = await this.getRenameDiff(workspaceRoot, ['show', '--format=', sha], relativePath, []);
+            if (renamed) return renamed;
+
+            return await this.runGit(workspaceRoot, ['show', '--format=', sha, '--', relativePath]);
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return '';
+        }
+    }
+
+    async getFileAtCommit(workspaceRoot: string, sha: string, relativePath: string): Promise<string | null> {
+        try {
+            // "./" makes the path relative to workspaceRoot instead of the repository root
+            return await this.runGit(workspaceRoot, ['show', `${sha}:./${relativePath}`]);
+        } catch (error) {
+            // Callers take null as "the file didn't exist", so any other failure is rethrown.
+            // The commit's tree is checked instead of git's (translated) error message.
+            this.rethrowUnlessExit(error);
+            if (await this.isMissingAtCommit(workspaceRoot, sha, relativePath)) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Whether the commit exists but has nothing at the path. An unknown commit
+     * makes `git ls-tree` fail, which is rethrown.
+     */
+    private async isMissingAtCommit(workspaceRoot: string, sha: string, relativePath: string): Promise<boolean> {
+        const stdout = await this.runGit(workspaceRoot, ['ls-tree', sha, '--', `:(literal)${relativePath}`]);
+        return stdout.trim() === '';
+    }
+
+    async getFileBytesAtCommit(workspaceRoot: string, sha: string, relativePath: string): Promise<Uint8Array | null> {
+        try {
+            return await this.runner.runRaw(['show', `${sha}:./${relativePath}`], {
+                cwd: workspaceRoot,
+                signal: this.disposal.signal,
+            });
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return null;
+        }
+    }
+
+    async applyReversePatch(workspaceRoot: string, patch: string): Promise<void> {
+        await this.applyPatch(workspaceRoot, '-R', patch);
+    }
+
+    async stagePatch(workspaceRoot: string, patch: string): Promise<void> {
+        await this.applyPatch(workspaceRoot, '--cached', patch);
+    }
+
+    async stageFiles(workspaceRoot: string, relativePaths: string[]): Promise<void> {
+        if (relativePaths.length === 0) return;
+        await this.runGit(workspaceRoot, ['add', '-A', '--', ...relativePaths]);
+    }
+
+    async commit(workspaceRoot: string, message: string, relativePaths: string[] = []): Promise<string> {
+        const pathspec = relativePaths.length > 0 ? ['--', ...relativePaths] : [];
+        // The message goes through stdin so it is committed exactly as written
+        await this.runGit(
+            workspaceRoot,
+            ['commit', '-F', '-', ...pathspec],
+            { input: message, timeoutMs: LONG_COMMAND_TIMEOUT_MS }
+        );
+        return (await this.runGit(workspaceRoot, ['rev-parse', 'HEAD'])).trim();
+    }
+
+    /**
+     * `git apply` reads patch paths from the repository root and silently skips
+     * the rest, so paths relative to a subdirectory workspace get its prefix.
+     */
+    private async applyPatch(workspaceRoot: string, flag: string, patch: string): Promise<void> {
+        const prefix = (await this.runGit(workspaceRoot, ['rev-parse', '--show-prefix'])).trim();
+        const directory = prefix ? [`--directory=${prefix.replace(/\/$/, '')}`] : [];
+        await this.runGit(
+            workspaceRoot,
+            ['apply', flag, ...directory, '--whitespace=nowarn', '-'],
+            { input: patch }
+        );
+    }
+
+    /**
+     * Parse `--name-status -z` output into file statuses.
+     * Renames and copies (`R097\0old\0new`) are listed under their new path.
+     */
+    private parseNameStatus(stdout: string): ChangedFile[] {
+        const files: ChangedFile[] = [];
+        const fields = stdout.split('\0');
+        let i = 0;
+        while (i < fields.length) {
+            const code = fields[i++];
+            if (!code) continue;
+
+            if (code.startsWith('R') || code.startsWith('C')) {
+                const oldPath = fields[i++];
+                const newPath = fields[i++];
+                if (oldPath && newPath) {
+                    files.push({ path: newPath, status: code.startsWith('R') ? 'renamed' : 'copied', oldPath });
                 }
+                continue;
+            }
+
+            const filePath = fields[i++];
+            if (!filePath) continue;
+            let status: FileStatus = 'modified';
+            if (code.startsWith('A')) {
+                status = 'added';
+            } else if (code.startsWith('D')) {
+                status = 'deleted';
+            }
+            files.push({ path: filePath, status });
+        }
+        return files;
+    }
+
+    /**
+     * Parse `git status --porcelain -z` output.
+     * Renames and copies read `R  new\0old` (` R new\0old` when not staged).
+     */
+    private parsePorcelain(stdout: string): ChangedFile[] {
+        const files: ChangedFile[] = [];
+        const entries = stdout.split('\0');
+        let i = 0;
+        while (i < entries.length) {
+            const entry = entries[i++];
+            if (entry.length < 4) continue;
+
+            const statusCode = entry.substring(0, 2);
+            const filePath = entry.substring(3);
+            if (statusCode.includes('R') || statusCode.includes('C')) {
+                const oldPath = entries[i++];
+                files.push({
+                    path: filePath,
+                    status: statusCode.includes('R') ? 'renamed' : 'copied',
+                    oldPath,
+                });
+                continue;
+            }
+
+            let status: FileStatus = 'modified';
+            if (statusCode.includes('A') || statusCode === '??') {
+                status = 'added';
+            } else if (statusCode.includes('D')) {
+                status = 'deleted';
+            }
+            files.push({ path: filePath, status });
+        }
+        return files;
+    }
+
+    /** Working tree file contents up to MAX_WORKSPACE_FILE_BYTES, or '' when it can't be read */
+    private async readWorkspaceFile(workspaceRoot: string, relativePath: string): Promise<string> {
+        let handle: fs.promises.FileHandle | undefined;
+        try {
+            handle = await fs.promises.open(path.join(workspaceRoot, relativePath), 'r');
+            const { size } = await handle.stat();
+            const buffer = Buffer.alloc(Math.min(size, MAX_WORKSPACE_FILE_BYTES));
+            const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+            return buffer.toString('utf8', 0, bytesRead);
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return '';
+        } finally {
+            await handle?.close();
+        }
+    }
+
+    /**
+     * Diff text for a file git doesn't track, read from the working tree.
+     * Binary content gets git's "Binary files ... differ" line instead of lines.
+     */
+    private formatNewFileDiff(relativePath: string, fileContent: string): string {
+        if (fileContent.slice(0, 8000).includes('\0')) {
+            return `Binary files /dev/null and b/${relativePath} differ\n`;
+        }
+        const lines = fileContent.split('\n');
+        const fakeDiff = lines.map((line) => `+${line}`).join('\n');
+        return `@@ -0,0 +1,${lines.length} @@ New file\n${fakeDiff}`;
+    }
+
+    /**
+     * Find where a file came from when git sees it as renamed or copied.
+     * Detection needs the whole diff, so it only runs for files the diff adds.
+     *
+     * @param diffArgs - Diff to search, e.g. `['diff', 'HEAD']` or `['show', '--format=', sha]`
+     * @param env - Environment for git, e.g. the index from withUntrackedIndexed
+     */
+    private async findOrigin(
+        cwd: string,
+        diffArgs: string[],
+        relativePath: string,
+        env?: NodeJS.ProcessEnv
+    ): Promise<ChangedFile | null> {
+        const added = await this.runGit(cwd, [...diffArgs, '--name-status', '--diff-filter=A', '--', relativePath], { env });
+        if (!added.trim()) return null;
+
+        const stdout = await this.runGit(
+            cwd,
+            [...diffArgs, '--name-status', '-z', '--relative', '-M', '-C', '--diff-filter=RC'],
+            { env }
+        );
+        return this.parseNameStatus(stdout).find((file) => file.path === relativePath) ?? null;
+    }
+
+    /**
+     * Diff of a renamed or copied file against its source, with git's rename
+     * headers. Returns null when the file has no source, so the regular diff applies.
+     */
+    private async getRenameDiff(
+        cwd: string,
+        diffArgs: string[],
+        relativePath: string,
+        flags: string[],
+        env?: NodeJS.ProcessEnv
+    ): Promise<string | null> {
+        try {
+            const origin = await this.findOrigin(cwd, diffArgs, relativePath, env);
+            if (!origin?.oldPath) return null;
+
+            const stdout = await this.runGit(
+                cwd,
+                [...diffArgs, '--relative', '-M', '-C', ...flags, '--', origin.oldPath, relativePath],
+                { env }
             );
-        });
+            // A copy's source can have changes of its own; keep only this file's section.
+            // Paths in the headers are C-quoted when they have non-ASCII or special characters.
+            const sections = stdout.split(/^(?=diff --git )/m);
+            return sections.find((section) => {
+                const target = section.match(/^(?:rename|copy) to (.+)$/m);
+                return !!target && unquoteGitPath(target[1]) === relativePath;
+            }) ?? null;
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return null;
+        }
+    }
+
+    /**
+     * getRenameDiff for an untracked file, which git only pairs with a deleted
+     * source once the file is in the index (e.g. moved with mv, not git mv).
+     */
+    private async getUnstagedRenameDiff(
+        cwd: string,
+        base: string,
+        relativePath: string,
+        flags: string[]
+    ): Promise<string | null> {
+        const untracked = await this.runGit(cwd, ['ls-files', '--others', '--exclude-standard', '--', relativePath])
+            .catch((error) => {
+                this.rethrowUnlessExit(error);
+                return '';
+            });
+        if (!untracked.trim()) return null;
+
+        return this.withUntrackedIndexed(cwd, base, (env) => this.getRenameDiff(cwd, ['diff', base], relativePath, flags, env));
+    }
+
+    /**
+     * Run a query against a copy of the index in which untracked files are
+     * marked intent-to-add, so git's rename detection sees them. The real index
+     * is left alone. The query gets no environment, and runs on the real index,
+     * when there is no untracked file or no deletion since `base` to pair it
+     * with, or the copy can't be made.
+     */
+    private async withUntrackedIndexed<T>(
+        cwd: string,
+        base: string,
+        query: (env?: NodeJS.ProcessEnv) => Promise<T>
+    ): Promise<T> {
+        const untracked = await this.runGit(cwd, ['ls-files', '--others', '--exclude-standard', '-z']);
+        if (!untracked || !(await this.hasDeletions(cwd, base))) return query();
+
+        return query(await this.getUntrackedIndex(cwd, untracked));
+    }
+
+    /** Whether files were deleted since `base` without git pairing them with a new path */
+    private async hasDeletions(cwd: string, base: string): Promise<boolean> {
+        try {
+            const stdout = await this.runGit(cwd, ['diff', '--name-only', '-z', '-M', '--diff-filter=D', base]);
+            return stdout.length > 0;
+        } catch (error) {
+            // No commits yet: nothing can have been deleted
+            this.rethrowUnlessExit(error);
+            return false;
+        }
+    }
+
+    /**
+     * The index copy for cwd, built again only when the real index or the
+     * untracked files (NUL-separated) changed since the last one.
+     */
+    private async getUntrackedIndex(cwd: string, untracked: string): Promise<NodeJS.ProcessEnv | undefined> {
+        let indexPath: string;
+        let key: string;
+        try {
+            indexPath = path.resolve(cwd, (await this.runGit(cwd, ['rev-parse', '--git-path', 'index'])).trim());
+            // A repository without commits may have no index yet
+            const stat = await fs.promises.stat(indexPath).catch(() => undefined);
+            key = `${stat?.mtimeMs}:${stat?.size}\0${untracked}`;
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return undefined;
+        }
+
+        const cached = this.untrackedIndexes.get(cwd);
+        if (cached?.key === key) return cached.env;
+
+        const dir = cached?.dir ?? fs.mkdtempSync(path.join(os.tmpdir(), 'code-squad-index-'));
+        // Rebuilds of one copy run one after another
+        const env = (cached?.env ?? Promise.resolve(undefined))
+            .catch(() => undefined)
+            .then(() => this.indexUntracked(cwd, untracked, indexPath, path.join(dir, 'index')));
+        this.untrackedIndexes.set(cwd, { key, dir, env });
+        return env;
+    }
+
+    /**
+     * Copy the index to indexFile and add the untracked files (NUL-separated)
+     * to it as intent-to-add. The copy is built next to indexFile and renamed
+     * over it, so queries still reading the previous one are unaffected.
+     * Returns the environment pointing git at the copy, or undefined when it
+     * can't be made.
+     */
+    private async indexUntracked(
+        cwd: string,
+        untracked: string,
+        indexPath: string,
+        indexFile: string
+    ): Promise<NodeJS.ProcessEnv | undefined> {
+        const nextFile = `${indexFile}.next`;
+        try {
+            await fs.promises.copyFile(indexPath, nextFile).catch((error) => {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+            });
+            await this.runGit(
+                cwd,
+                ['add', '--intent-to-add', '--pathspec-from-file=-', '--pathspec-file-nul'],
+                { input: untracked, env: { GIT_INDEX_FILE: nextFile } }
+            );
+            await fs.promises.rename(nextFile, indexFile);
+            return { GIT_INDEX_FILE: indexFile };
+        } catch (error) {
+            this.rethrowUnlessExit(error);
+            return undefined;
+        }
+    }
+
+    /** git diff flags for the options git can apply itself */
+    private getDiffFlags(options: DiffOptions): string[] {
+        const flags: string[] = [];
+        if (options.ignoreWhitespace) flags.push('--ignore-all-space');
+        if (options.ignoreBlankLines) flags.push('--ignore-blank-lines');
+        return flags;
+    }
+
+    /**
+     * Diff with whitespace/blank-line flags.
+     * Returns '' when git sees changes but the flags hide them all, and null
+     * when git has no diff for the file (e.g. untracked), so the caller's
+     * plain-diff handling applies.
+     */
+    private async runGitDiffWithFlags(
+        cwd: string,
+        base: string,
+        relativePath: string,
+        flags: string[]
+    ): Promise<string | null> {
+        const filtered = await this.runGit(cwd, ['diff', ...flags, base, '--', relativePath]);
+        if (filtered.trim()) return filtered;
+
+        const plain = await this.runGit(cwd, ['diff', base, '--', relativePath]);
+        return plain.trim() ? '' : null;
+    }
+
+    /**
+     * Failures git reports itself (missing ref or path, not a repository) mean
+     * "no result" to the methods above. A timeout, cancellation, oversized
+     * output or git that can't start is rethrown instead, so callers don't
+     * take it for an empty answer.
+     */
+    private rethrowUnlessExit(error: unknown): void {
+        if (error instanceof GitCommandError && error.kind !== 'exit') {
+            throw error;
+        }
+    }
+
+    private runGit(
+        cwd: string,
+        args: string[],
+        options: { input?: string; timeoutMs?: number; env?: NodeJS.ProcessEnv } = {}
+    ): Promise<string> {
+        return this.runner.run(args, { cwd, signal: this.disposal.signal, ...options });
     }
 }
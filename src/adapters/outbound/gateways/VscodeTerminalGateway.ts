@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { ITerminalPort, TerminalActivityCallback, TerminalOutputCallback, TerminalCommandCallback } from '../../../application/ports/outbound/ITerminalPort';
+import { ITerminalPort, TerminalActivityCallback, TerminalOutputCallback, TerminalCommandCallback, OpenTerminalInfo } from '../../../application/ports/outbound/ITerminalPort';
 
 export class VscodeTerminalGateway implements ITerminalPort {
     private terminals = new Map<string, vscode.Terminal>();
@@ -250,6 +250,28 @@ export class VscodeTerminalGateway implements ITerminalPort {
         return terminalId;
     }
 
+    async getOpenTerminals(): Promise<OpenTerminalInfo[]> {
+        const infos: OpenTerminalInfo[] = [];
+        for (const terminal of vscode.window.terminals) {
+            let terminalId = this.terminalToId.get(terminal);
+            if (!terminalId) {
+                // Same ID scheme as createTerminal, so a revived process keeps its ID
+                const processId = await terminal.processId;
+                terminalId = processId?.toString() ?? `terminal-${Date.now()}-${infos.length}`;
+                this.registerTerminal(terminalId, terminal);
+            }
+            infos.push({ terminalId, name: terminal.name, cwd: this.getTerminalCwd(terminal) });
+        }
+        return infos;
+    }
+
+    private getTerminalCwd(terminal: vscode.Terminal): string | undefined {
+        const shellCwd = terminal.shellIntegration?.cwd?.fsPath;
+        if (shellCwd) return shellCwd;
+        const { cwd } = terminal.creationOptions as vscode.TerminalOptions;
+        return typeof cwd === 'string' ? cwd : cwd?.fsPath;
+    }
+
     async closeTerminal(terminalId: string): Promise<void> {
         const terminal = this.terminals.get(terminalId);
         if (terminal) {
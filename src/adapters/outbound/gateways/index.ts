@@ -7,3 +7,5 @@ export { VscodeLspGateway } from './VscodeLspGateway';
 export { HNApiGateway } from './HNApiGateway';
 export { VscodeWorkspaceStateGateway } from './VscodeWorkspaceStateGateway';
 export { VscodeEditorGateway } from './VscodeEditorGateway';
+export { ChildProcessCommandRunnerGateway } from './ChildProcessCommandRunnerGateway';
+export { GitRunner, GitCommandError } from './GitRunner';
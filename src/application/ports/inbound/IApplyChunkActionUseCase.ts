@@ -0,0 +1,25 @@
+import { DiffChunk } from '../../../domain/entities/Diff';
+import { LineRange } from '../../../domain/services/DiffService';
+
+/**
+ * - 'discard': remove the change from the working tree
+ * - 'stage': add the change to the index
+ */
+export type ChunkAction = 'discard' | 'stage';
+
+export interface ApplyChunkActionInput {
+    workspaceRoot: string;
+    relativePath: string;
+    action: ChunkAction;
+    /** Chunks of the displayed diff to act on */
+    chunks: DiffChunk[];
+    /** Only act on changes at these new-file lines */
+    lineRange?: LineRange;
+}
+
+export interface IApplyChunkActionUseCase {
+    /**
+     * @throws Error if nothing is selected or git rejects the patch
+     */
+    execute(input: ApplyChunkActionInput): Promise<void>;
+}
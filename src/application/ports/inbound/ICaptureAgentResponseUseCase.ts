@@ -0,0 +1,28 @@
+import { Comment } from '../../../domain/entities/Comment';
+import { AgentStatus } from '../../../domain/entities/AISession';
+
+export interface AgentResponseCallback {
+    (terminalId: string, comments: Comment[]): void;
+}
+
+export interface ICaptureAgentResponseUseCase {
+    /**
+     * Start collecting the terminal's output for comments just sent to it.
+     * Comments sent while a capture runs join it.
+     * @param prompt - The text sent, left out of the response when the terminal echoes it
+     */
+    startCapture(terminalId: string, commentIds: string[], prompt: string): void;
+
+    processOutput(terminalId: string, output: string): void;
+
+    /**
+     * Attach the collected output to the comments as the agent's response once
+     * the agent goes idle.
+     */
+    handleStatusChange(terminalId: string, status: AgentStatus): Promise<void>;
+
+    onResponseCaptured(callback: AgentResponseCallback): void;
+
+    /** Drop a running capture, e.g. when the agent exits */
+    clear(terminalId: string): void;
+}
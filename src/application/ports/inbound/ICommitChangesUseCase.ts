@@ -0,0 +1,30 @@
+import { FileStatus } from '../outbound/IGitPort';
+
+export interface CommitChangesInput {
+    workspaceRoot: string;
+    message: string;
+    /** Files to commit as they are in the working tree; empty commits what is staged */
+    paths: string[];
+}
+
+export interface CommitChangesResult {
+    /** SHA of the new commit */
+    commit: string;
+    /** Files still uncommitted after the commit */
+    uncommittedFiles: Array<{ path: string; status: FileStatus }>;
+}
+
+export interface ICommitChangesUseCase {
+    stage(workspaceRoot: string, paths: string[]): Promise<void>;
+
+    /**
+     * @throws Error if the message is empty or git rejects the commit
+     */
+    commit(input: CommitChangesInput): Promise<CommitChangesResult>;
+
+    /**
+     * Ask the agent in a terminal to draft a commit message for the files
+     * (or for the staged changes when none are given).
+     */
+    requestDraftMessage(terminalId: string, paths: string[]): void;
+}
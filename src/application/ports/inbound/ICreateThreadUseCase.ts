@@ -1,4 +1,7 @@
 import { ThreadState } from '../../../domain/entities/ThreadState';
+import { SetupStep } from '../../../domain/entities/SetupStep';
+import { WorktreeCopyPatternConfig } from '../../../domain/entities/WorktreeCopyPattern';
+import { RunWorktreeSetupOutput, SetupProgress } from './IRunWorktreeSetupUseCase';
 
 export type IsolationMode = 'none' | 'worktree';
 
@@ -8,11 +11,26 @@ export interface CreateThreadInput {
     branchName?: string;
     worktreePath?: string;
     workspaceRoot: string;
-    worktreeCopyPatterns?: string[];
+    /** Gitignored files to copy or symlink into a new worktree */
+    worktreeCopyPatterns?: WorktreeCopyPatternConfig[];
+    /** Agent CLI to start in the new terminal (AgentRegistry id) */
+    agentId?: string;
+    /** Initial prompt passed to the agent CLI */
+    initialPrompt?: string;
+    /** Shell command run in the terminal before the agent starts */
+    setupCommand?: string;
+    /** Initial whitelist patterns for gitignored files to track */
+    whitelistPatterns?: string[];
+    /** Steps run in a new worktree before the setup command and agent start */
+    setupSteps?: SetupStep[];
+    onSetupProgress?: (progress: SetupProgress) => void;
+    onSetupOutput?: (text: string) => void;
 }
 
 export interface CreateThreadOutput {
     threadState: ThreadState;
+    /** Pending worktree setup; the agent starts only if it succeeds */
+    setup?: Promise<RunWorktreeSetupOutput>;
 }
 
 export interface ICreateThreadUseCase {
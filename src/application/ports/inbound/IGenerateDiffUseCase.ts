@@ -1,4 +1,12 @@
-import { DiffResult } from '../../../domain/entities/Diff';
+import { ContextExpansion, DiffChunk, DiffOptions, DiffResult } from '../../../domain/entities/Diff';
+import { ChangedFile } from '../outbound/IGitPort';
+
+/**
+ * What diffs are compared against.
+ * - 'head': uncommitted changes (working tree vs HEAD / session snapshot)
+ * - 'base': everything since the thread's base commit, including commits
+ */
+export type DiffBaseMode = 'head' | 'base';
 
 export interface IGenerateDiffUseCase {
     execute(relativePath: string): Promise<DiffResult | null>;
@@ -13,4 +21,61 @@ export interface IGenerateDiffUseCase {
      * Get current workspace root.
      */
     getWorkspaceRoot(): string | undefined;
+
+    /**
+     * Set the commit the thread started from.
+     * Required for 'base' mode; pass undefined when the thread has no base.
+     */
+    setBaseCommit(baseCommit: string | undefined): void;
+
+    getBaseCommit(): string | undefined;
+
+    /**
+     * Switch between uncommitted diffs and diffs against the base commit.
+     * 'base' falls back to 'head' behavior while no base commit is set.
+     */
+    setDiffBaseMode(mode: DiffBaseMode): void;
+
+    getDiffBaseMode(): DiffBaseMode;
+
+    /**
+     * Set how diffs compare lines (whitespace, blank lines, moves).
+     * Applies to git-backed and snapshot diffs alike.
+     */
+    setDiffOptions(options: DiffOptions): void;
+
+    getDiffOptions(): DiffOptions;
+
+    /**
+     * Reveal unchanged lines around the chunks of a working tree diff.
+     * Lines come from the file as it is now, the new side of both git and
+     * snapshot diffs. Returns null when the file can't be read.
+     */
+    expandContext(
+        relativePath: string,
+        chunks: DiffChunk[],
+        gap: number,
+        direction: ContextExpansion
+    ): Promise<DiffChunk[] | null>;
+
+    /**
+     * Reveal again context lines (new file line numbers) shown by earlier
+     * expandContext calls, after the diff was regenerated.
+     * Returns the chunks unchanged when the file can't be read.
+     */
+    revealContext(relativePath: string, chunks: DiffChunk[], lines: ReadonlySet<number>): Promise<DiffChunk[]>;
+
+    /**
+     * Bytes of the file the working tree is compared against (HEAD, or the
+     * base commit in 'base' mode), read from a rename's source when the diff
+     * has one. For previewing binary files such as images.
+     * Returns null when git has no such file.
+     */
+    getOriginalFileBytes(relativePath: string, diff: DiffResult): Promise<Uint8Array | null>;
+
+    /**
+     * List files changed since the base commit (committed or not).
+     * Returns an empty list when no base commit is set.
+     */
+    getChangedFilesSinceBase(): Promise<ChangedFile[]>;
 }
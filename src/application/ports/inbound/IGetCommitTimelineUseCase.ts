@@ -0,0 +1,32 @@
+import { DiffResult } from '../../../domain/entities/Diff';
+import { ChangedFile, GitCommit } from '../outbound/IGitPort';
+
+export interface IGetCommitTimelineUseCase {
+    /**
+     * List commits made since the session's starting commit, newest first.
+     * Returns an empty list when the starting commit is unknown.
+     */
+    execute(): Promise<GitCommit[]>;
+
+    /**
+     * List files changed by a commit in the timeline.
+     */
+    getCommitFiles(sha: string): Promise<ChangedFile[]>;
+
+    /**
+     * Generate the diff a commit made to a file.
+     * Returns null if the commit didn't change the file.
+     */
+    getCommitDiff(sha: string, relativePath: string): Promise<DiffResult | null>;
+
+    /**
+     * Bytes of a file before and after a commit, for previewing binary files
+     * such as images. `before` is read from a rename's source when the diff
+     * has one; either side is null when the file doesn't exist there.
+     */
+    getCommitFileBytes(
+        sha: string,
+        relativePath: string,
+        diff: DiffResult
+    ): Promise<{ before: Uint8Array | null; after: Uint8Array | null }>;
+}
@@ -0,0 +1,17 @@
+/**
+ * File modified by more than one thread.
+ */
+export interface FileConflict {
+    filePath: string;
+    /** Threads that modified the file, in order of last modification */
+    threadIds: string[];
+}
+
+export interface GetFileConflictsInput {
+    /** Only these threads are considered (e.g. live threads sharing a working directory) */
+    threadIds: string[];
+}
+
+export interface IGetFileConflictsUseCase {
+    execute(input: GetFileConflictsInput): Promise<FileConflict[]>;
+}
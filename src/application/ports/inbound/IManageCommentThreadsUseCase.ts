@@ -0,0 +1,42 @@
+import { Comment } from '../../../domain/entities/Comment';
+
+export interface ReplyToCommentInput {
+    id: string;
+    text: string;
+}
+
+export interface ReanchorCommentsInput {
+    file: string;
+    /** The file's current content; empty when it was deleted */
+    content: string;
+    /** Only this thread's comments (and comments without a thread) move */
+    threadId?: string;
+}
+
+export interface IManageCommentThreadsUseCase {
+    /**
+     * Add a reviewer reply; it is sent to the agent with the next submit.
+     * Returns null for empty text or an unknown comment.
+     */
+    reply(input: ReplyToCommentInput): Promise<Comment | null>;
+
+    /**
+     * Mark a comment resolved, or open it again.
+     * Returns null for an unknown comment.
+     */
+    setResolved(id: string, resolved: boolean): Promise<Comment | null>;
+
+    /**
+     * Remember the file as its comments were placed on it, so the next
+     * reanchor can follow their lines through the diff. Kept in memory only:
+     * until a file is tracked again, its comments are found by their code text.
+     */
+    trackFile(file: string, content: string): void;
+
+    /**
+     * Move a file's comments to where their code is now. Comments whose code
+     * was edited become outdated and comments whose code was removed become
+     * deleted. Returns the comments that changed.
+     */
+    reanchor(input: ReanchorCommentsInput): Promise<Comment[]>;
+}
@@ -0,0 +1,21 @@
+export type MergeStrategy = 'merge' | 'squash' | 'rebase';
+
+export interface MergeThreadInput {
+    threadId: string;
+    workspaceRoot: string;
+    strategy: MergeStrategy;
+    commitMessage?: string;     // default: generated from thread name and branch
+}
+
+export interface MergeThreadOutput {
+    success: boolean;
+    /** Branch the thread was merged into */
+    baseBranch?: string;
+    /** Files that conflict with the base branch (merge was not attempted) */
+    conflicts: string[];
+    error?: string;
+}
+
+export interface IMergeThreadUseCase {
+    execute(input: MergeThreadInput): Promise<MergeThreadOutput>;
+}
@@ -0,0 +1,13 @@
+import { ThreadState } from '../../../domain/entities/ThreadState';
+
+export interface ReopenThreadTerminalInput {
+    threadId: string;
+}
+
+export interface ReopenThreadTerminalOutput {
+    threadState: ThreadState;
+}
+
+export interface IReopenThreadTerminalUseCase {
+    execute(input: ReopenThreadTerminalInput): Promise<ReopenThreadTerminalOutput>;
+}
@@ -0,0 +1,20 @@
+import { ThreadState } from '../../../domain/entities/ThreadState';
+
+/** How a persisted thread was matched to an open terminal */
+export type TerminalMatch = 'terminalId' | 'name' | 'cwd';
+
+export interface RestoredThread {
+    threadState: ThreadState;
+    matchedBy: TerminalMatch;
+}
+
+export interface RestoreThreadSessionsOutput {
+    /** Threads matched to an open terminal; their terminalId is up to date */
+    restored: RestoredThread[];
+    /** Threads whose terminal is gone */
+    unmatched: ThreadState[];
+}
+
+export interface IRestoreThreadSessionsUseCase {
+    execute(): Promise<RestoreThreadSessionsOutput>;
+}
@@ -0,0 +1,28 @@
+import { SetupStep } from '../../../domain/entities/SetupStep';
+
+export interface SetupProgress {
+    step: SetupStep;
+    /** Zero-based index of the step about to run */
+    index: number;
+    total: number;
+}
+
+export interface RunWorktreeSetupInput {
+    /** Main checkout, source of symlinked paths */
+    workspaceRoot: string;
+    worktreePath: string;
+    steps: SetupStep[];
+    onProgress?: (progress: SetupProgress) => void;
+    /** Receives log lines and command output */
+    onOutput?: (text: string) => void;
+}
+
+export interface RunWorktreeSetupOutput {
+    success: boolean;
+    failedStep?: string;
+    error?: string;
+}
+
+export interface IRunWorktreeSetupUseCase {
+    execute(input: RunWorktreeSetupInput): Promise<RunWorktreeSetupOutput>;
+}
@@ -0,0 +1,21 @@
+import { WorktreeCopyPatternConfig } from '../../../domain/entities/WorktreeCopyPattern';
+
+export interface SyncWorktreeFilesInput {
+    /** Main checkout, source of copied and linked files */
+    workspaceRoot: string;
+    worktreePath: string;
+    patterns: WorktreeCopyPatternConfig[];
+    /** Only report stale files, don't write anything */
+    checkOnly?: boolean;
+}
+
+export interface SyncWorktreeFilesOutput {
+    /** Relative paths written to the worktree */
+    synced: string[];
+    /** Relative paths still missing or differing from the main checkout */
+    stale: string[];
+}
+
+export interface ISyncWorktreeFilesUseCase {
+    execute(input: SyncWorktreeFilesInput): Promise<SyncWorktreeFilesOutput>;
+}
@@ -3,6 +3,13 @@ export interface TrackFileOwnershipInput {
     threadId: string;
 }
 
+export interface TrackFileOwnershipOutput {
+    /** Other threads that modified the same file earlier */
+    otherThreadIds: string[];
+    /** True on the thread's first modification of the file */
+    isFirstEdit: boolean;
+}
+
 export interface ITrackFileOwnershipUseCase {
-    execute(input: TrackFileOwnershipInput): Promise<void>;
+    execute(input: TrackFileOwnershipInput): Promise<TrackFileOwnershipOutput>;
 }
@@ -0,0 +1,64 @@
+import { DiffResult } from '../../../domain/entities/Diff';
+import { FileStatus } from '../outbound/IGitPort';
+
+/**
+ * - 'turn': changes the agent made during the turn
+ * - 'since': changes made after the turn ended, up to the working tree
+ */
+export type TurnDiffScope = 'turn' | 'since';
+
+export interface CheckpointSummary {
+    turn: number;
+    createdAt: number;
+    /** Files changed during the turn */
+    changedFileCount: number;
+}
+
+export interface RevertCheckpointResult {
+    /** Files written back or deleted */
+    restored: string[];
+    /** Files that could not be restored */
+    failed: string[];
+}
+
+export interface ITurnCheckpointsUseCase {
+    /**
+     * Record turn 0: contents of files already changed when the session started.
+     */
+    captureStart(paths: string[]): Promise<void>;
+
+    /**
+     * Record a checkpoint of the session files after the agent finished a turn.
+     * Files tracked by earlier checkpoints are included too.
+     * Returns null (and records nothing) when nothing changed since the last checkpoint.
+     */
+    capture(sessionPaths: string[]): Promise<CheckpointSummary | null>;
+
+    /**
+     * List checkpoints, oldest first. Turn 0 is the session start.
+     */
+    list(): CheckpointSummary[];
+
+    /**
+     * List files changed in a turn, or since it ended.
+     * sessionPaths adds files changed by the turn in progress to the 'since' scope.
+     */
+    getChangedFiles(
+        turn: number,
+        scope: TurnDiffScope,
+        sessionPaths?: string[]
+    ): Promise<Array<{ path: string; status: FileStatus }>>;
+
+    /**
+     * Generate the diff of a file in a turn, or since it ended.
+     * Returns null if the file didn't change.
+     */
+    getDiff(turn: number, scope: TurnDiffScope, relativePath: string): Promise<DiffResult | null>;
+
+    /**
+     * Restore files to their content at a checkpoint.
+     * Files created after the checkpoint are deleted; files whose content
+     * at the checkpoint is unknown are left alone.
+     */
+    revert(turn: number, sessionPaths?: string[]): Promise<RevertCheckpointResult>;
+}
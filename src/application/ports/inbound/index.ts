@@ -5,6 +5,8 @@ export { IGenerateScopedDiffUseCase } from './IGenerateScopedDiffUseCase';
 export { ISubmitCommentsUseCase } from './ISubmitCommentsUseCase';
 export { IEditCommentUseCase, EditCommentInput } from './IEditCommentUseCase';
 export { IDeleteCommentUseCase, DeleteCommentInput } from './IDeleteCommentUseCase';
+export { IManageCommentThreadsUseCase, ReplyToCommentInput, ReanchorCommentsInput } from './IManageCommentThreadsUseCase';
 export { IFetchHNStoriesUseCase, FetchHNStoriesResult } from './IFetchHNStoriesUseCase';
 export { ITrackFileOwnershipUseCase, TrackFileOwnershipInput } from './ITrackFileOwnershipUseCase';
 export { IDetectThreadStatusUseCase, StatusChangeCallback } from './IDetectThreadStatusUseCase';
+export { ICaptureAgentResponseUseCase, AgentResponseCallback } from './ICaptureAgentResponseUseCase';
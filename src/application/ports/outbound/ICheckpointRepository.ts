@@ -0,0 +1,9 @@
+import { Checkpoint } from '../../../domain/entities/Checkpoint';
+
+export interface ICheckpointRepository {
+    save(checkpoint: Checkpoint): Promise<void>;
+    findByTurn(turn: number): Promise<Checkpoint | undefined>;
+    /** All checkpoints, oldest turn first */
+    findAll(): Checkpoint[];
+    clear(): void;
+}
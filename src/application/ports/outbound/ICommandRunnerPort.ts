@@ -0,0 +1,23 @@
+export interface CommandRunOptions {
+    cwd: string;
+    timeoutMs: number;
+    /** Receives stdout and stderr as they arrive */
+    onOutput?: (text: string) => void;
+}
+
+export interface CommandRunResult {
+    /** Null when the process was killed (e.g. on timeout) */
+    exitCode: number | null;
+    timedOut: boolean;
+}
+
+/**
+ * Port for running shell commands outside of terminals (e.g. worktree setup).
+ */
+export interface ICommandRunnerPort {
+    /**
+     * Run a command through the system shell.
+     * Resolves when the process exits or is killed on timeout; rejects if it can't be started.
+     */
+    run(command: string, options: CommandRunOptions): Promise<CommandRunResult>;
+}
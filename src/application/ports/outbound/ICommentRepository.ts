@@ -3,11 +3,18 @@ import { Comment } from '../../../domain/entities/Comment';
 export interface ICommentRepository {
     save(comment: Comment): Promise<void>;
     findAll(): Promise<Comment[]>;
+    /** Comments with something left to send: new comments and unsent replies */
     findActive(): Promise<Comment[]>;
     findByThreadId(threadId: string): Promise<Comment[]>;
     findActiveByThreadId(threadId: string): Promise<Comment[]>;
     markAsSubmitted(ids: string[]): Promise<void>;
     update(id: string, text: string): Promise<Comment | null>;
+    /**
+     * Store a changed comment (reply, status, anchor) in place of the one with its id.
+     *
+     * @returns false if no comment has that id
+     */
+    replace(comment: Comment): Promise<boolean>;
     delete(id: string): Promise<boolean>;
     /**
      * Delete all comments associated with a thread.
@@ -1,12 +1,27 @@
+/** What a quick comparison of two files needs */
+export interface FileStat {
+    size: number;
+    mtimeMs: number;
+}
+
 export interface IFileSystemPort {
     readFile(absolutePath: string): Promise<string>;
     fileExists(absolutePath: string): Promise<boolean>;
     isFile(absolutePath: string): Promise<boolean>;
+    /** Size and modification time, or undefined if nothing is there */
+    stat(absolutePath: string): Promise<FileStat | undefined>;
     getWorkspaceRoot(): string | undefined;
     toAbsolutePath(relativePath: string): string;
     toRelativePath(absolutePath: string): string;
+    /** Write a file, replacing its content */
+    writeFile(absolutePath: string, content: string): Promise<void>;
+    /** Delete a file; does nothing if it doesn't exist */
+    removeFile(absolutePath: string): Promise<void>;
+    /** Copy a file, keeping its modification time */
     copyFile(source: string, dest: string): Promise<void>;
     ensureDir(dirPath: string): Promise<void>;
+    /** Create a symbolic link at linkPath pointing to target */
+    createSymlink(target: string, linkPath: string): Promise<void>;
     /** Join path segments (platform-independent) */
     joinPath(...segments: string[]): string;
 }
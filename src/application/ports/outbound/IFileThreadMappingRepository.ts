@@ -2,9 +2,14 @@ import { FileThreadMapping } from '../../../domain/entities/FileThreadMapping';
 
 export interface IFileThreadMappingRepository {
     save(mapping: FileThreadMapping): Promise<void>;
+    /** Most recent thread that modified the file */
     findByFilePath(filePath: string): Promise<FileThreadMapping | null>;
+    /** Every thread that modified the file, oldest first */
+    findAllByFilePath(filePath: string): Promise<FileThreadMapping[]>;
     findByThreadId(threadId: string): Promise<FileThreadMapping[]>;
     findAll(): Promise<FileThreadMapping[]>;
     delete(filePath: string): Promise<boolean>;
+    /** Forget every file the thread modified; returns how many mappings were removed */
+    deleteByThreadId(threadId: string): Promise<number>;
     clear(): Promise<void>;
 }
@@ -1,4 +1,13 @@
-export type FileStatus = 'added' | 'modified' | 'deleted';
+import { DiffOptions } from '../../../domain/entities/Diff';
+
+export type FileStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied';
+
+export interface ChangedFile {
+    path: string;
+    status: FileStatus;
+    /** Source path of a renamed or copied file */
+    oldPath?: string;
+}
 
 export interface WorktreeInfo {
     path: string;        // Absolute path to worktree directory
@@ -6,12 +15,38 @@ export interface WorktreeInfo {
     head: string;        // Commit SHA
 }
 
+export interface GitCommit {
+    sha: string;         // Full commit SHA
+    subject: string;     // First line of the commit message
+    author: string;      // Author name
+    timestamp: number;   // Author date (epoch ms)
+}
+
+export interface MergeBranchOptions {
+    /** Squash all branch commits into a single commit (`git merge --squash`) */
+    squash?: boolean;
+    /** Only allow fast-forward merges (`git merge --ff-only`) */
+    fastForwardOnly?: boolean;
+    /** Commit message for the merge or squash commit */
+    message?: string;
+}
+
+/**
+ * Queries answer with an empty result ('', [] or null) when git reports an
+ * error, e.g. a missing ref. They reject when git could not answer at all:
+ * a timeout, cancellation, too much output, or git failing to start.
+ */
 export interface IGitPort {
-    getDiff(workspaceRoot: string, relativePath: string): Promise<string>;
+    /**
+     * Get the uncommitted diff of a file (`git diff HEAD`); untracked files are
+     * reported as new files. Whitespace and blank-line options are passed to git.
+     * A file git detects as renamed or copied is diffed against its source.
+     */
+    getDiff(workspaceRoot: string, relativePath: string, options?: DiffOptions): Promise<string>;
     isGitRepository(workspaceRoot: string): Promise<boolean>;
     getUncommittedFiles(workspaceRoot: string): Promise<string[]>;
     getFileStatus(workspaceRoot: string, relativePath: string): Promise<FileStatus>;
-    getUncommittedFilesWithStatus(workspaceRoot: string): Promise<Array<{ path: string; status: FileStatus }>>;
+    getUncommittedFilesWithStatus(workspaceRoot: string): Promise<ChangedFile[]>;
     getCurrentBranch(workspaceRoot: string): Promise<string>;
     createWorktree(path: string, branch: string, workspaceRoot: string): Promise<void>;
     getWorktreeRoot(workspaceRoot: string): Promise<string | null>;
@@ -69,4 +104,164 @@ export interface IGitPort {
      * @throws Error if branch doesn't exist or is currently checked out
      */
     deleteBranch(branchName: string, workspaceRoot: string, force?: boolean): Promise<void>;
+
+    /**
+     * Detect files that would conflict when merging a branch into a base branch.
+     * Executes `git merge-tree --write-tree` without touching the working tree.
+     *
+     * @param baseBranch - Branch the changes would be merged into
+     * @param branch - Branch containing the changes
+     * @param workspaceRoot - Root directory of repository
+     * @returns Conflicting file paths (empty if the merge is clean)
+     */
+    getMergeConflicts(baseBranch: string, branch: string, workspaceRoot: string): Promise<string[]>;
+
+    /**
+     * Merge a branch into the branch checked out at workspaceRoot.
+     * Executes `git merge` (or `git merge --squash` + `git commit`).
+     * The merge is aborted and the working tree restored if it fails.
+     *
+     * @param branch - Branch to merge
+     * @param workspaceRoot - Repository whose checked out branch receives the merge
+     * @param options - Squash / fast-forward / message options
+     * @throws Error if the merge fails or conflicts
+     */
+    mergeBranch(branch: string, workspaceRoot: string, options?: MergeBranchOptions): Promise<void>;
+
+    /**
+     * Rebase the branch checked out in a worktree onto another branch.
+     * Executes `git rebase <ontoBranch>` in the worktree directory.
+     * The rebase is aborted if it fails.
+     *
+     * @param worktreePath - Worktree whose branch is rebased
+     * @param ontoBranch - Branch to rebase onto
+     * @throws Error if the rebase fails or conflicts
+     */
+    rebaseBranch(worktreePath: string, ontoBranch: string): Promise<void>;
+
+    /**
+     * Move the branch checked out at workspaceRoot back to a commit, discarding
+     * working tree changes. Executes `git reset --hard <commit>`.
+     *
+     * @param workspaceRoot - Repository or worktree directory
+     * @param commit - Commit to reset to
+     * @throws Error if the reset fails
+     */
+    resetHard(workspaceRoot: string, commit: string): Promise<void>;
+
+    /**
+     * Get the commit SHA checked out at workspaceRoot.
+     * Executes `git rev-parse HEAD`.
+     *
+     * @param workspaceRoot - Repository or worktree directory
+     * @returns Full commit SHA
+     * @throws Error if not a git repository or there are no commits
+     */
+    getHeadCommit(workspaceRoot: string): Promise<string>;
+
+    /**
+     * Find the best common ancestor of two refs.
+     * Executes `git merge-base <refA> <refB>`.
+     *
+     * @returns Commit SHA, or null if the refs share no history or don't exist
+     */
+    getMergeBase(refA: string, refB: string, workspaceRoot: string): Promise<string | null>;
+
+    /**
+     * Get the diff of a file between a commit and the working tree.
+     * Executes `git diff <baseCommit> -- <path>`, so changes committed since the
+     * base are included along with uncommitted ones. Untracked files are
+     * reported as new files, and renames and copies are detected, like getDiff.
+     *
+     * @param workspaceRoot - Repository or worktree directory
+     * @param baseCommit - Commit (or ref) to diff against
+     * @param relativePath - File path relative to workspaceRoot
+     * @param options - Whitespace and blank-line options, passed to git
+     */
+    getDiffFromCommit(
+        workspaceRoot: string,
+        baseCommit: string,
+        relativePath: string,
+        options?: DiffOptions
+    ): Promise<string>;
+
+    /**
+     * List files that differ between a commit and the working tree,
+     * including untracked files.
+     * Executes `git diff --name-status -M -C <baseCommit>` and `git ls-files --others`.
+     *
+     * @param workspaceRoot - Repository or worktree directory
+     * @param baseCommit - Commit (or ref) to compare against
+     */
+    getChangedFilesFromCommit(workspaceRoot: string, baseCommit: string): Promise<ChangedFile[]>;
+
+    /**
+     * List commits reachable from HEAD but not from a starting commit, newest first.
+     * Executes `git log <sinceCommit>..HEAD`.
+     *
+     * @param workspaceRoot - Repository or worktree directory
+     * @param sinceCommit - Commit to start after (exclusive)
+     */
+    getCommitLog(workspaceRoot: string, sinceCommit: string): Promise<GitCommit[]>;
+
+    /**
+     * List files changed by a single commit, with renames and copies.
+     * Executes `git diff-tree --name-status -r -M -C <sha>`.
+     */
+    getCommitFiles(workspaceRoot: string, sha: string): Promise<ChangedFile[]>;
+
+    /**
+     * Get the diff a single commit made to a file.
+     * Executes `git show <sha> -- <path>`; a renamed or copied file is
+     * diffed against its source.
+     */
+    getCommitDiff(workspaceRoot: string, sha: string, relativePath: string): Promise<string>;
+
+    /**
+     * Get a file's content as of a commit.
+     * Executes `git show <sha>:<path>`.
+     *
+     * @returns File content, or null if the file doesn't exist in that commit
+     * @throws When git fails for any other reason, e.g. an unknown commit
+     */
+    getFileAtCommit(workspaceRoot: string, sha: string, relativePath: string): Promise<string | null>;
+
+    /**
+     * Get a file's raw bytes as of a commit, for binary files such as images.
+     * Executes `git show <sha>:<path>`.
+     *
+     * @returns File bytes, or null if the file doesn't exist in that commit
+     */
+    getFileBytesAtCommit(workspaceRoot: string, sha: string, relativePath: string): Promise<Uint8Array | null>;
+
+    /**
+     * Undo a patch in the working tree.
+     * Executes `git apply -R` with the patch on stdin.
+     *
+     * @throws Error with git's message if the patch no longer applies
+     */
+    applyReversePatch(workspaceRoot: string, patch: string): Promise<void>;
+
+    /**
+     * Stage a patch without touching the working tree.
+     * Executes `git apply --cached` with the patch on stdin.
+     *
+     * @throws Error with git's message if the patch doesn't apply to the index
+     */
+    stagePatch(workspaceRoot: string, patch: string): Promise<void>;
+
+    /**
+     * Stage files as they are in the working tree, including deletions.
+     * Executes `git add -A -- <paths>`.
+     */
+    stageFiles(workspaceRoot: string, relativePaths: string[]): Promise<void>;
+
+    /**
+     * Create a commit. With paths, commits only those files (`git commit -- <paths>`);
+     * without, commits what is staged.
+     *
+     * @returns SHA of the new commit
+     * @throws Error with git's message, e.g. when there is nothing to commit
+     */
+    commit(workspaceRoot: string, message: string, relativePaths?: string[]): Promise<string>;
 }
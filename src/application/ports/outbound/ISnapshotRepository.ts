@@ -5,11 +5,21 @@ export interface SnapshotStats {
     totalSize: number;
 }
 
+/** Limits for a session's snapshots, in files and bytes */
+export interface SnapshotQuota {
+    maxFiles: number;
+    maxFileSize: number;
+    maxTotalSize: number;
+}
+
 export interface ISnapshotRepository {
     save(snapshot: FileSnapshot): Promise<boolean>;
     findByPath(relativePath: string): Promise<FileSnapshot | undefined>;
     has(relativePath: string): boolean;
     clear(): void;
-    getAll(): Map<string, FileSnapshot>;
+    /** Paths with a snapshot; contents are read with findByPath */
+    getPaths(): string[];
     getStats(): SnapshotStats;
+    /** Resolves once saved snapshots are stored for good; saves may be written in batches */
+    flush(): Promise<void>;
 }
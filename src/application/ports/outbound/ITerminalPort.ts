@@ -2,6 +2,13 @@ export type TerminalActivityCallback = (terminalId: string, hasActivity: boolean
 export type TerminalOutputCallback = (terminalId: string, data: string) => void;
 export type TerminalCommandCallback = (terminalId: string, command: string) => void;
 
+export interface OpenTerminalInfo {
+    terminalId: string;
+    name: string;
+    /** Working directory, when the terminal reports one */
+    cwd?: string;
+}
+
 export interface ITerminalPort {
     initialize(): void;
     sendText(terminalId: string, text: string): void;
@@ -27,7 +34,7 @@ export interface ITerminalPort {
     /**
      * Register a callback to receive command completion notifications.
      * Called when a shell command finishes execution.
-     * Useful for detecting when AI CLI exits (claude, gemini, codex).
+     * Useful for detecting when an AI CLI exits.
      */
     onCommandEnded(callback: TerminalCommandCallback): void;
     /**
@@ -36,4 +43,10 @@ export interface ITerminalPort {
      * No-op if terminal doesn't exist.
      */
     closeTerminal(terminalId: string): Promise<void>;
+    /**
+     * List every open terminal, including ones VS Code restored after a reload.
+     * Terminals not created through this port are registered so they can be
+     * addressed by the returned ID.
+     */
+    getOpenTerminals(): Promise<OpenTerminalInfo[]>;
 }
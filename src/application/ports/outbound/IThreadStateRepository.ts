@@ -7,4 +7,15 @@ export interface IThreadStateRepository {
     findByTerminalId(terminalId: string): Promise<ThreadState | null>;
     delete(threadId: string): Promise<boolean>;
     updateWhitelist(threadId: string, patterns: string[]): Promise<void>;
+
+    /**
+     * Record the base commit (and branch) of a thread that has none yet.
+     * Used to backfill threads created before bases were tracked.
+     */
+    updateBase(threadId: string, baseCommit: string, baseBranch?: string): Promise<void>;
+
+    /**
+     * Point a thread at a new terminal, e.g. after a window reload.
+     */
+    updateTerminalId(threadId: string, terminalId: string): Promise<void>;
 }
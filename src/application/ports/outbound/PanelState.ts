@@ -1,9 +1,17 @@
-import { DiffResult, DiffChunk, DiffLine } from '../../../domain/entities/Diff';
+import { CONTEXT_EXPAND_STEP, DiffResult, DiffChunk, DiffLine, DiffOptions, FileOrigin } from '../../../domain/entities/Diff';
 import { ScopeLine } from '../../../domain/entities/ScopedDiff';
 import { ScopeInfo } from './ISymbolPort';
+import { FileStatus } from './IGitPort';
 import { AgentStatus } from '../../../domain/entities/AISession';
+import { Comment, CommentReply, CommentStatus } from '../../../domain/entities/Comment';
+import { DiffBaseMode } from '../inbound/IGenerateDiffUseCase';
+import { TurnDiffScope } from '../inbound/ITurnCheckpointsUseCase';
 
-export type DiffViewMode = 'diff' | 'preview' | 'scope';
+/** 'diff' is the unified layout, 'split' shows old and new side by side */
+export type DiffViewMode = 'diff' | 'split' | 'preview' | 'scope';
+
+/** The view modes that lay out the diff itself, as opposed to scope and preview */
+export type DiffLayout = Extract<DiffViewMode, 'diff' | 'split'>;
 
 export type HNFeedStatus = 'idle' | 'loading' | 'error' | 'success';
 
@@ -29,7 +37,9 @@ export interface HNStoryInfo {
 export interface FileInfo {
     path: string;
     name: string;
-    status: 'modified' | 'added' | 'deleted';
+    status: FileStatus;
+    /** Source path of a renamed or copied file */
+    oldPath?: string;
     /** Agent name attribution for aggregated view */
     agentName?: string;
     /** Color index for agent badge (0-5 for 6-color palette, -1 for multi-agent) */
@@ -40,6 +50,29 @@ export interface FileInfo {
     ownerThreadName?: string;
 }
 
+/**
+ * Commit made during the session, for the commit timeline
+ */
+export interface CommitInfo {
+    sha: string;
+    subject: string;
+    author: string;
+    /** Author date (epoch ms) */
+    timestamp: number;
+}
+
+/**
+ * Checkpoint taken when the agent finished a turn, for the turn timeline
+ */
+export interface CheckpointInfo {
+    /** 0 is the session start */
+    turn: number;
+    /** Epoch ms */
+    createdAt: number;
+    /** Files changed during the turn */
+    changedFileCount: number;
+}
+
 /**
  * Extended chunk info for UI rendering
  */
@@ -74,6 +107,22 @@ export interface DiffDisplayState {
     changedLineNumbers?: number[];
     /** Deleted content with position info */
     deletions?: DeletionInfo[];
+    /** Set when the file was renamed or copied */
+    origin?: FileOrigin;
+    /** Binary file: no chunks */
+    binary?: boolean;
+    /** File too large to diff: no chunks, only both sides' line counts */
+    tooLarge?: DiffResult['tooLarge'];
+    /** Image files: the picture before and after the change */
+    imagePreview?: ImagePreview;
+}
+
+/**
+ * Image versions as data URIs; a side is missing when the file doesn't exist there
+ */
+export interface ImagePreview {
+    before?: string;
+    after?: string;
 }
 
 /**
@@ -115,6 +164,24 @@ export interface CommentInfo {
     isSubmitted: boolean;
     codeContext: string;
     timestamp: number;
+    status: CommentStatus;
+    /** Reviewer follow-ups, oldest first */
+    replies: CommentReply[];
+}
+
+export function toCommentInfo(comment: Comment): CommentInfo {
+    return {
+        id: comment.id,
+        file: comment.file,
+        line: comment.line,
+        endLine: comment.endLine,
+        text: comment.text,
+        isSubmitted: comment.isSubmitted,
+        codeContext: comment.codeContext,
+        timestamp: comment.timestamp,
+        status: comment.status,
+        replies: comment.replies,
+    };
 }
 
 /**
@@ -122,7 +189,9 @@ export interface CommentInfo {
  */
 export interface AIStatus {
     active: boolean;
-    type?: 'claude' | 'codex' | 'gemini' | string;
+    /** Agent id from the AgentRegistry */
+    type?: string;
+    displayName?: string;
 }
 
 /**
@@ -194,6 +263,34 @@ export interface PanelState {
     threadId?: string;
     /** Total number of active threads (for showing thread badges) */
     threadCount: number;
+    /** Whether diffs show uncommitted changes or everything since the thread's base */
+    diffBaseMode: DiffBaseMode;
+    /** Label of the thread's base (e.g. "main @ 1a2b3c4"), undefined when no base is known */
+    diffBaseLabel?: string;
+    /** Whitespace, blank line and moved code handling for working tree diffs */
+    diffOptions: DiffOptions;
+    /** Lines one expand up / expand down reveals between working tree diff chunks */
+    contextExpandStep: number;
+    /** Files changed since the thread's base, shown in 'base' mode */
+    branchFiles: FileInfo[];
+    /** Commits made since the session started, newest first */
+    commits: CommitInfo[];
+    /** SHA of the commit being reviewed, null when reviewing the working tree */
+    selectedCommit: string | null;
+    /** Files changed by the selected commit */
+    commitFiles: FileInfo[];
+    /** Checkpoints taken at the end of each agent turn, oldest first */
+    checkpoints: CheckpointInfo[];
+    /** Turn being reviewed, null when reviewing the working tree */
+    selectedTurn: number | null;
+    /** Whether the selected turn shows its own changes or everything after it */
+    turnDiffScope: TurnDiffScope;
+    /** Files changed in (or since) the selected turn */
+    turnFiles: FileInfo[];
+    /** Files other live threads also modified: path -> names of those threads */
+    fileConflicts: Record<string, string[]>;
+    /** Files checked in the file list for staging or committing */
+    checkedFiles: string[];
 }
 
 /**
@@ -225,5 +322,19 @@ export function createInitialPanelState(): PanelState {
         agentInfo: undefined,
         isAggregatedView: false,
         threadCount: 0,
+        diffBaseMode: 'head',
+        diffBaseLabel: undefined,
+        diffOptions: {},
+        contextExpandStep: CONTEXT_EXPAND_STEP,
+        branchFiles: [],
+        commits: [],
+        selectedCommit: null,
+        commitFiles: [],
+        checkpoints: [],
+        selectedTurn: null,
+        turnDiffScope: 'turn',
+        turnFiles: [],
+        fileConflicts: {},
+        checkedFiles: [],
     };
 }
@@ -4,9 +4,14 @@ import { ISnapshotRepository } from './ISnapshotRepository';
 import { IPanelStateManager } from '../../services/IPanelStateManager';
 import { IGenerateDiffUseCase } from '../inbound/IGenerateDiffUseCase';
 import { IGenerateScopedDiffUseCase } from '../inbound/IGenerateScopedDiffUseCase';
+import { IGetCommitTimelineUseCase } from '../inbound/IGetCommitTimelineUseCase';
+import { ITurnCheckpointsUseCase } from '../inbound/ITurnCheckpointsUseCase';
+import { IApplyChunkActionUseCase } from '../inbound/IApplyChunkActionUseCase';
+import { ICommitChangesUseCase } from '../inbound/ICommitChangesUseCase';
 import { IAddCommentUseCase } from '../inbound/IAddCommentUseCase';
 import { IEditCommentUseCase } from '../inbound/IEditCommentUseCase';
 import { IDeleteCommentUseCase } from '../inbound/IDeleteCommentUseCase';
+import { IManageCommentThreadsUseCase } from '../inbound/IManageCommentThreadsUseCase';
 import { IFetchHNStoriesUseCase } from '../inbound/IFetchHNStoriesUseCase';
 import { ICaptureSnapshotsUseCase } from '../inbound/ICaptureSnapshotsUseCase';
 
@@ -42,9 +47,24 @@ export interface SessionContext {
     /** 이 세션의 Delete Comment UseCase */
     deleteCommentUseCase: IDeleteCommentUseCase;
 
+    /** 이 세션의 Comment Thread UseCase (reply, resolve, re-anchor) */
+    manageCommentThreadsUseCase: IManageCommentThreadsUseCase;
+
     /** 이 세션의 Scoped Diff UseCase */
     generateScopedDiffUseCase: IGenerateScopedDiffUseCase;
 
+    /** 이 세션의 Commit Timeline UseCase */
+    getCommitTimelineUseCase: IGetCommitTimelineUseCase;
+
+    /** 이 세션의 Turn Checkpoint UseCase */
+    turnCheckpointsUseCase: ITurnCheckpointsUseCase;
+
+    /** 이 세션의 Discard/Stage Chunk UseCase */
+    applyChunkActionUseCase: IApplyChunkActionUseCase;
+
+    /** 이 세션의 Stage/Commit UseCase */
+    commitChangesUseCase: ICommitChangesUseCase;
+
     /** HN Stories UseCase (공유) */
     fetchHNStoriesUseCase?: IFetchHNStoriesUseCase;
 
@@ -1,4 +1,7 @@
-import { PanelState, FileInfo, CommentInfo, AIStatus, DiffDisplayState, DiffViewMode, DraftComment, ScopedDiffDisplayState, HNStoryInfo, AgentDisplayInfo } from '../ports/outbound/PanelState';
+import { DiffChunk, DiffOptions } from '../../domain/entities/Diff';
+import { DiffBaseMode } from '../ports/inbound/IGenerateDiffUseCase';
+import { TurnDiffScope } from '../ports/inbound/ITurnCheckpointsUseCase';
+import { PanelState, FileInfo, CommentInfo, CommitInfo, CheckpointInfo, AIStatus, DiffDisplayState, DiffViewMode, DiffLayout, DraftComment, ScopedDiffDisplayState, HNStoryInfo, AgentDisplayInfo } from '../ports/outbound/PanelState';
 
 /**
  * Panel state manager - manages UI state and triggers rendering
@@ -34,6 +37,17 @@ export interface IPanelStateManager {
     // Diff operations
     showDiff(diff: DiffDisplayState, scopedDiff?: ScopedDiffDisplayState): void;
     clearDiff(): void;
+    /**
+     * Replace the shown diff's chunks, e.g. after revealing context lines.
+     * Chunk states (collapsed, scope label) are kept, and lines the new chunks
+     * add are remembered until another file is shown.
+     */
+    setDiffChunks(chunks: DiffChunk[]): void;
+    /**
+     * Lines (new file line numbers) revealed in the file's diff, for showing
+     * them again when the diff is regenerated
+     */
+    getRevealedLines(file: string): ReadonlySet<number>;
 
     // Chunk collapse operations
     toggleChunkCollapse(chunkIndex: number): void;
@@ -66,6 +80,8 @@ export interface IPanelStateManager {
     // View mode
     setTreeView(isTree: boolean): void;
     setDiffViewMode(mode: DiffViewMode): void;
+    /** The unified or split layout to return to from scope or preview */
+    getDiffLayout(): DiffLayout;
 
     // Search operations
     setSearchQuery(query: string): void;
@@ -135,4 +151,79 @@ export interface IPanelStateManager {
      * Used to determine whether to show thread badges on files.
      */
     setThreadCount(count: number): void;
+
+    // Diff base operations
+    /**
+     * Set the label of the thread's base.
+     * Pass undefined when the thread has no known base (hides the toggle).
+     */
+    setDiffBaseLabel(label: string | undefined): void;
+
+    /**
+     * Switch between uncommitted changes and changes since the thread's base.
+     */
+    setDiffBaseMode(mode: DiffBaseMode): void;
+
+    /**
+     * Set the whitespace, blank line and moved code options shown in the diff header.
+     */
+    setDiffOptions(options: DiffOptions): void;
+
+    /**
+     * Set files changed since the thread's base (committed or not).
+     */
+    setBranchFiles(files: FileInfo[]): void;
+
+    // Commit timeline operations
+    /**
+     * Set commits made since the session started (newest first).
+     * Clears the selected commit if it is no longer in the timeline.
+     */
+    setCommits(commits: CommitInfo[]): void;
+
+    /**
+     * Review a commit: show its files instead of working tree changes.
+     * Clears the current file selection and diff, and any selected turn.
+     */
+    selectCommit(sha: string, files: FileInfo[]): void;
+
+    /**
+     * Return to reviewing working tree changes.
+     */
+    clearSelectedCommit(): void;
+
+    // Turn checkpoint operations
+    /**
+     * Set checkpoints taken at the end of each agent turn (oldest first).
+     * Clears the selected turn if its checkpoint is gone.
+     */
+    setCheckpoints(checkpoints: CheckpointInfo[]): void;
+
+    /**
+     * Review a turn: show the files changed in it (or since it) instead of working tree changes.
+     * Clears the current file selection and diff, and any selected commit.
+     */
+    selectTurn(turn: number, scope: TurnDiffScope, files: FileInfo[]): void;
+
+    /**
+     * Return to reviewing working tree changes.
+     */
+    clearSelectedTurn(): void;
+
+    // Conflict operations
+    /**
+     * Set files that other live threads also modified (path -> thread names).
+     */
+    setFileConflicts(conflicts: Record<string, string[]>): void;
+
+    // Commit selection operations
+    /**
+     * Check or uncheck a file for staging or committing.
+     */
+    setFileChecked(path: string, checked: boolean): void;
+
+    /**
+     * Replace the checked files (empty to uncheck all).
+     */
+    setCheckedFiles(paths: string[]): void;
 }
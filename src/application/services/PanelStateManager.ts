@@ -5,13 +5,19 @@ import {
     AIStatus,
     DiffDisplayState,
     DiffViewMode,
+    DiffLayout,
     DraftComment,
     HNStoryInfo,
     ScopedDiffDisplayState,
     ScopedChunkDisplay,
     AgentDisplayInfo,
+    CommitInfo,
+    CheckpointInfo,
     createInitialPanelState,
 } from '../ports/outbound/PanelState';
+import { DiffChunk, DiffOptions } from '../../domain/entities/Diff';
+import { DiffBaseMode } from '../ports/inbound/IGenerateDiffUseCase';
+import { TurnDiffScope } from '../ports/inbound/ITurnCheckpointsUseCase';
 import { IPanelStateManager } from './IPanelStateManager';
 
 /**
@@ -29,6 +35,10 @@ export class PanelStateManager implements IPanelStateManager {
     private state: PanelState;
     private renderCallback: RenderCallback | null = null;
     private baselineSet: Set<string> = new Set();
+    /** Context lines revealed in the shown file's diff, by new file line number */
+    private revealedLines: { file: string; lines: Set<number> } | null = null;
+    /** Last diff layout chosen, restored when leaving scope or preview */
+    private diffLayout: DiffLayout = 'diff';
 
     constructor() {
         this.state = createInitialPanelState();
@@ -73,6 +83,7 @@ export class PanelStateManager implements IPanelStateManager {
                 sessionFiles: newFiles,
                 selectedFile: this.state.selectedFile === path ? null : this.state.selectedFile,
                 diff: this.state.diff?.file === path ? null : this.state.diff,
+                checkedFiles: this.state.checkedFiles.filter((p) => p !== path),
             };
             this.render();
         }
@@ -187,12 +198,17 @@ export class PanelStateManager implements IPanelStateManager {
             diff.file.endsWith('.mdx');
 
         // Determine view mode: markdown -> preview, else diff
-        // (scope view available via toggle but not default)
-        let viewMode: DiffViewMode = 'diff';
+        // (scope view available via toggle but not default).
+        // The split layout is a reviewer preference, so it sticks across files.
+        let viewMode: DiffViewMode = this.diffLayout;
         if (isMarkdown) {
             viewMode = 'preview';
         }
 
+        if (this.revealedLines?.file !== diff.file) {
+            this.revealedLines = null;
+        }
+
         this.state = {
             ...this.state,
             diff,
@@ -210,6 +226,36 @@ export class PanelStateManager implements IPanelStateManager {
         this.render();
     }
 
+    setDiffChunks(chunks: DiffChunk[]): void {
+        if (!this.state.diff) return;
+
+        const { file } = this.state.diff;
+        const shown = new Set(this.getNewLineNumbers(this.state.diff.chunks));
+        const revealed = this.getNewLineNumbers(chunks).filter((n) => !shown.has(n));
+        if (revealed.length > 0) {
+            const lines = this.revealedLines?.file === file ? this.revealedLines.lines : new Set<number>();
+            revealed.forEach((n) => lines.add(n));
+            this.revealedLines = { file, lines };
+        }
+
+        this.state = {
+            ...this.state,
+            diff: {
+                ...this.state.diff,
+                chunks,
+            },
+        };
+        this.render();
+    }
+
+    getRevealedLines(file: string): ReadonlySet<number> {
+        return this.revealedLines?.file === file ? this.revealedLines.lines : new Set();
+    }
+
+    private getNewLineNumbers(chunks: DiffChunk[]): number[] {
+        return chunks.flatMap((c) => c.lines.map((l) => l.newLineNumber)).filter((n): n is number => n !== undefined);
+    }
+
     // ===== Chunk collapse operations =====
 
     toggleChunkCollapse(chunkIndex: number): void {
@@ -431,6 +477,7 @@ export class PanelStateManager implements IPanelStateManager {
         for (const comment of this.state.comments) {
             if (idSet.has(comment.id)) {
                 comment.isSubmitted = true;
+                comment.replies = comment.replies.map(reply => ({ ...reply, isSubmitted: true }));
             }
         }
         this.render();
@@ -465,12 +512,19 @@ export class PanelStateManager implements IPanelStateManager {
     }
 
     setDiffViewMode(mode: DiffViewMode): void {
+        if (mode === 'diff' || mode === 'split') {
+            this.diffLayout = mode;
+        }
         if (this.state.diffViewMode !== mode) {
             this.state.diffViewMode = mode;
             this.render();
         }
     }
 
+    getDiffLayout(): DiffLayout {
+        return this.diffLayout;
+    }
+
     // ===== Search operations =====
 
     setSearchQuery(query: string): void {
@@ -513,6 +567,7 @@ export class PanelStateManager implements IPanelStateManager {
 
     reset(): void {
         this.baselineSet.clear();
+        this.revealedLines = null;
         this.state = createInitialPanelState();
         this.render();
     }
@@ -630,6 +685,156 @@ export class PanelStateManager implements IPanelStateManager {
         }
     }
 
+    // ===== Diff base operations =====
+
+    setDiffBaseLabel(label: string | undefined): void {
+        if (this.state.diffBaseLabel !== label) {
+            this.state = {
+                ...this.state,
+                diffBaseLabel: label,
+            };
+            this.render();
+        }
+    }
+
+    setDiffBaseMode(mode: DiffBaseMode): void {
+        if (this.state.diffBaseMode !== mode) {
+            this.state = {
+                ...this.state,
+                diffBaseMode: mode,
+            };
+            this.render();
+        }
+    }
+
+    setDiffOptions(options: DiffOptions): void {
+        this.state = {
+            ...this.state,
+            diffOptions: { ...options },
+        };
+        this.render();
+    }
+
+    setBranchFiles(files: FileInfo[]): void {
+        this.state = {
+            ...this.state,
+            branchFiles: files,
+        };
+        this.render();
+    }
+
+    // ===== Commit timeline operations =====
+
+    setCommits(commits: CommitInfo[]): void {
+        const selectedStillExists = commits.some(c => c.sha === this.state.selectedCommit);
+        this.state = {
+            ...this.state,
+            commits,
+            ...(selectedStillExists ? {} : { selectedCommit: null, commitFiles: [] }),
+        };
+        this.render();
+    }
+
+    selectCommit(sha: string, files: FileInfo[]): void {
+        this.state = {
+            ...this.state,
+            selectedCommit: sha,
+            commitFiles: files,
+            selectedTurn: null,
+            turnFiles: [],
+            selectedFile: null,
+            diff: null,
+            scopedDiff: null,
+            contentView: null,
+        };
+        this.render();
+    }
+
+    clearSelectedCommit(): void {
+        if (this.state.selectedCommit === null) return;
+
+        this.state = {
+            ...this.state,
+            selectedCommit: null,
+            commitFiles: [],
+            selectedFile: null,
+            diff: null,
+            scopedDiff: null,
+        };
+        this.render();
+    }
+
+    // ===== Turn checkpoint operations =====
+
+    setCheckpoints(checkpoints: CheckpointInfo[]): void {
+        const selectedStillExists = checkpoints.some(c => c.turn === this.state.selectedTurn);
+        this.state = {
+            ...this.state,
+            checkpoints,
+            ...(selectedStillExists ? {} : { selectedTurn: null, turnFiles: [] }),
+        };
+        this.render();
+    }
+
+    selectTurn(turn: number, scope: TurnDiffScope, files: FileInfo[]): void {
+        this.state = {
+            ...this.state,
+            selectedTurn: turn,
+            turnDiffScope: scope,
+            turnFiles: files,
+            selectedCommit: null,
+            commitFiles: [],
+            selectedFile: null,
+            diff: null,
+            scopedDiff: null,
+            contentView: null,
+        };
+        this.render();
+    }
+
+    clearSelectedTurn(): void {
+        if (this.state.selectedTurn === null) return;
+
+        this.state = {
+            ...this.state,
+            selectedTurn: null,
+            turnFiles: [],
+            selectedFile: null,
+            diff: null,
+            scopedDiff: null,
+        };
+        this.render();
+    }
+
+    // ===== Conflict operations =====
+
+    setFileConflicts(conflicts: Record<string, string[]>): void {
+        this.state = {
+            ...this.state,
+            fileConflicts: conflicts,
+        };
+        this.render();
+    }
+
+    // ===== Commit selection operations =====
+
+    setFileChecked(path: string, checked: boolean): void {
+        const others = this.state.checkedFiles.filter((p) => p !== path);
+        this.state = {
+            ...this.state,
+            checkedFiles: checked ? [...others, path] : others,
+        };
+        this.render();
+    }
+
+    setCheckedFiles(paths: string[]): void {
+        this.state = {
+            ...this.state,
+            checkedFiles: [...new Set(paths)],
+        };
+        this.render();
+    }
+
     // ===== Private =====
 
     private render(): void {
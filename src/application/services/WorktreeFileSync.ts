@@ -0,0 +1,122 @@
+import * as path from 'path';
+import { IFileSystemPort } from '../ports/outbound/IFileSystemPort';
+import { IFileGlobber } from '../ports/outbound/IFileGlobber';
+import { WorktreeCopyPattern, isLiteralCopyPattern } from '../../domain/entities/WorktreeCopyPattern';
+
+export interface WorktreeFileSyncOptions {
+    /** Only write files that are missing or differ from the main checkout */
+    onlyStale?: boolean;
+}
+
+/**
+ * Brings gitignored files from the main checkout into a worktree,
+ * by copy or symlink per pattern. Shared by thread creation and re-sync.
+ *
+ * Failures are logged per file so one bad file doesn't block the rest.
+ */
+export class WorktreeFileSync {
+    constructor(
+        private readonly fileSystemPort: IFileSystemPort,
+        private readonly fileGlobber: IFileGlobber
+    ) {}
+
+    /**
+     * Copy or link matching files into the worktree.
+     * Returns the relative paths that were written.
+     */
+    async apply(
+        sourceRoot: string,
+        destRoot: string,
+        patterns: WorktreeCopyPattern[],
+        options: WorktreeFileSyncOptions = {}
+    ): Promise<string[]> {
+        const written: string[] = [];
+
+        for (const pattern of patterns) {
+            for (const sourcePath of await this.resolveSources(sourceRoot, pattern)) {
+                const relativePath = path.relative(sourceRoot, sourcePath);
+                const destPath = path.join(destRoot, relativePath);
+                try {
+                    if (options.onlyStale && !(await this.isStale(sourcePath, destPath, pattern))) {
+                        continue;
+                    }
+                    await this.fileSystemPort.ensureDir(path.dirname(destPath));
+                    if (pattern.mode === 'symlink') {
+                        await this.fileSystemPort.createSymlink(sourcePath, destPath);
+                    } else {
+                        await this.fileSystemPort.copyFile(sourcePath, destPath);
+                    }
+                    written.push(relativePath);
+                } catch (error) {
+                    console.warn(`[Code Squad] Failed to ${pattern.mode} "${sourcePath}":`, error);
+                }
+            }
+        }
+
+        return written;
+    }
+
+    /**
+     * Relative paths whose worktree copy is missing or differs from the main checkout.
+     * Symlinks only go stale when missing, since they always follow the source.
+     */
+    async findStale(sourceRoot: string, destRoot: string, patterns: WorktreeCopyPattern[]): Promise<string[]> {
+        const stale: string[] = [];
+
+        for (const pattern of patterns) {
+            for (const sourcePath of await this.resolveSources(sourceRoot, pattern)) {
+                const relativePath = path.relative(sourceRoot, sourcePath);
+                try {
+                    if (await this.isStale(sourcePath, path.join(destRoot, relativePath), pattern)) {
+                        stale.push(relativePath);
+                    }
+                } catch (error) {
+                    console.warn(`[Code Squad] Failed to compare "${sourcePath}":`, error);
+                }
+            }
+        }
+
+        return stale;
+    }
+
+    /**
+     * Copies are compared by size and modification time first (copyFile keeps
+     * the source's); contents are only read when the sizes match but the times don't.
+     */
+    private async isStale(sourcePath: string, destPath: string, pattern: WorktreeCopyPattern): Promise<boolean> {
+        if (pattern.mode === 'symlink') {
+            return !(await this.fileSystemPort.fileExists(destPath));
+        }
+
+        const [sourceStat, destStat] = await Promise.all([
+            this.fileSystemPort.stat(sourcePath),
+            this.fileSystemPort.stat(destPath),
+        ]);
+        if (!destStat) return true;
+        if (sourceStat && sourceStat.size !== destStat.size) return true;
+        if (sourceStat && sourceStat.mtimeMs === destStat.mtimeMs) return false;
+
+        const [source, dest] = await Promise.all([
+            this.fileSystemPort.readFile(sourcePath),
+            this.fileSystemPort.readFile(destPath),
+        ]);
+        return source !== dest;
+    }
+
+    /**
+     * Absolute source paths for a pattern. Literal symlink patterns resolve to
+     * the path itself so whole directories can be linked.
+     */
+    private async resolveSources(sourceRoot: string, pattern: WorktreeCopyPattern): Promise<string[]> {
+        try {
+            if (pattern.mode === 'symlink' && isLiteralCopyPattern(pattern.pattern)) {
+                const sourcePath = path.join(sourceRoot, pattern.pattern);
+                return await this.fileSystemPort.fileExists(sourcePath) ? [sourcePath] : [];
+            }
+            return await this.fileGlobber.glob(pattern.pattern, sourceRoot);
+        } catch (error) {
+            console.warn(`[Code Squad] Failed to glob pattern "${pattern.pattern}":`, error);
+            return [];
+        }
+    }
+}
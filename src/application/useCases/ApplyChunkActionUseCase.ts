@@ -0,0 +1,32 @@
+import { DiffService } from '../../domain/services/DiffService';
+import { IGitPort } from '../ports/outbound/IGitPort';
+import { IApplyChunkActionUseCase, ApplyChunkActionInput } from '../ports/inbound/IApplyChunkActionUseCase';
+
+/**
+ * Discard or stage parts of a diff by applying a patch built from its chunks.
+ * The caller refreshes the diff afterwards.
+ */
+export class ApplyChunkActionUseCase implements IApplyChunkActionUseCase {
+    constructor(
+        private readonly gitPort: IGitPort,
+        private readonly diffService: DiffService
+    ) {}
+
+    async execute(input: ApplyChunkActionInput): Promise<void> {
+        const { workspaceRoot, relativePath, action, chunks, lineRange } = input;
+
+        const patch = this.diffService.createPatch(relativePath, chunks, {
+            lineRange,
+            reverse: action === 'discard',
+        });
+        if (!patch) {
+            throw new Error('No changes selected');
+        }
+
+        if (action === 'discard') {
+            await this.gitPort.applyReversePatch(workspaceRoot, patch);
+        } else {
+            await this.gitPort.stagePatch(workspaceRoot, patch);
+        }
+    }
+}
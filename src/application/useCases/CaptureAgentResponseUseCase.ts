@@ -0,0 +1,104 @@
+import { Comment } from '../../domain/entities/Comment';
+import { AgentStatus } from '../../domain/entities/AISession';
+import { ICommentRepository } from '../ports/outbound/ICommentRepository';
+import { ICaptureAgentResponseUseCase, AgentResponseCallback } from '../ports/inbound/ICaptureAgentResponseUseCase';
+
+interface Capture {
+    commentIds: Set<string>;
+    /** Trimmed lines of the prompts sent, echoed back by the terminal */
+    promptLines: Set<string>;
+    output: string;
+}
+
+// OSC (window title, hyperlinks), CSI (colors, cursor movement) and other two-character escapes
+// eslint-disable-next-line no-control-regex
+const ESCAPE_REGEX = /\x1B\][^\x07\x1B]*(?:\x07|\x1B\\)|\x1B\[[0-?]*[ -/]*[@-~]|\x1B[@-Z\\-_]/g;
+// eslint-disable-next-line no-control-regex
+const CONTROL_CHAR_REGEX = /[\x00-\x08\x0B-\x1F\x7F]/g;
+
+/**
+ * Terminal output as plain text: escape codes removed, and lines redrawn
+ * with a carriage return reduced to what was drawn last.
+ */
+function toPlainText(output: string): string {
+    return output
+        .replace(ESCAPE_REGEX, '')
+        .replace(/\r\n/g, '\n')
+        .split('\n')
+        .map(line => line.slice(line.lastIndexOf('\r') + 1).replace(CONTROL_CHAR_REGEX, '').trimEnd())
+        .join('\n');
+}
+
+export class CaptureAgentResponseUseCase implements ICaptureAgentResponseUseCase {
+    private captures = new Map<string, Capture>();
+    private callbacks: AgentResponseCallback[] = [];
+
+    // Raw output kept per capture; a long turn keeps its end, where the agent sums up
+    private static MAX_OUTPUT_SIZE = 200000;
+    // Longest response attached to a comment
+    private static MAX_RESPONSE_LENGTH = 20000;
+
+    constructor(private readonly commentRepository: ICommentRepository) {}
+
+    startCapture(terminalId: string, commentIds: string[], prompt: string): void {
+        const capture = this.captures.get(terminalId) ?? { commentIds: new Set(), promptLines: new Set(), output: '' };
+        commentIds.forEach(id => capture.commentIds.add(id));
+        prompt.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => capture.promptLines.add(line));
+        this.captures.set(terminalId, capture);
+    }
+
+    processOutput(terminalId: string, output: string): void {
+        const capture = this.captures.get(terminalId);
+        if (!capture) return;
+
+        capture.output += output;
+        if (capture.output.length > CaptureAgentResponseUseCase.MAX_OUTPUT_SIZE) {
+            capture.output = capture.output.slice(-CaptureAgentResponseUseCase.MAX_OUTPUT_SIZE);
+        }
+    }
+
+    async handleStatusChange(terminalId: string, status: AgentStatus): Promise<void> {
+        const capture = this.captures.get(terminalId);
+        if (!capture || status !== 'idle') return;
+        this.captures.delete(terminalId);
+
+        const response = this.formatResponse(capture);
+        if (!response) return;
+
+        const comments: Comment[] = [];
+        for (const comment of await this.commentRepository.findAll()) {
+            if (!capture.commentIds.has(comment.id)) continue;
+            const updated = comment.withAgentResponse(response);
+            if (await this.commentRepository.replace(updated)) {
+                comments.push(updated);
+            }
+        }
+
+        if (comments.length > 0) {
+            this.callbacks.forEach(cb => cb(terminalId, comments));
+        }
+    }
+
+    onResponseCaptured(callback: AgentResponseCallback): void {
+        this.callbacks.push(callback);
+    }
+
+    clear(terminalId: string): void {
+        this.captures.delete(terminalId);
+    }
+
+    /**
+     * Captured output without the echoed prompt and runs of blank lines
+     */
+    private formatResponse(capture: Capture): string {
+        const text = toPlainText(capture.output)
+            .split('\n')
+            .filter(line => !capture.promptLines.has(line.trim()))
+            .join('\n')
+            .replace(/\n{3,}/g, '\n\n')
+            .trim();
+
+        const max = CaptureAgentResponseUseCase.MAX_RESPONSE_LENGTH;
+        return text.length > max ? '…\n' + text.slice(-max).trimStart() : text;
+    }
+}
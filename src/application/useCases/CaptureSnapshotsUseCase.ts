@@ -32,6 +32,7 @@ export class CaptureSnapshotsUseCase implements ICaptureSnapshotsUseCase {
             }
         }
 
+        await this.snapshotRepository.flush();
         return count;
     }
 
@@ -0,0 +1,49 @@
+import { IGitPort } from '../ports/outbound/IGitPort';
+import { ITerminalPort } from '../ports/outbound/ITerminalPort';
+import {
+    ICommitChangesUseCase,
+    CommitChangesInput,
+    CommitChangesResult,
+} from '../ports/inbound/ICommitChangesUseCase';
+
+/**
+ * Stage and commit reviewed files from the panel.
+ */
+export class CommitChangesUseCase implements ICommitChangesUseCase {
+    constructor(
+        private readonly gitPort: IGitPort,
+        private readonly terminalPort: ITerminalPort
+    ) {}
+
+    async stage(workspaceRoot: string, paths: string[]): Promise<void> {
+        await this.gitPort.stageFiles(workspaceRoot, paths);
+    }
+
+    async commit(input: CommitChangesInput): Promise<CommitChangesResult> {
+        const { workspaceRoot, paths } = input;
+        const message = input.message.trim();
+        if (!message) {
+            throw new Error('Commit message is empty');
+        }
+
+        // New files must be known to git before `git commit -- <paths>` can include them
+        await this.gitPort.stageFiles(workspaceRoot, paths);
+        const commit = await this.gitPort.commit(workspaceRoot, message, paths);
+        const uncommittedFiles = await this.gitPort.getUncommittedFilesWithStatus(workspaceRoot);
+
+        return { commit, uncommittedFiles };
+    }
+
+    requestDraftMessage(terminalId: string, paths: string[]): void {
+        const target = paths.length > 0
+            ? `my changes to these files (see \`git diff HEAD -- <file>\`):\n${paths.map(p => `- ${p}`).join('\n')}`
+            : 'my staged changes (see `git diff --cached`).';
+        const prompt = [
+            `Draft a commit message for ${target}`,
+            'Reply with only the message: a short summary line, then a body if needed. Do not commit.',
+        ].join('\n');
+
+        this.terminalPort.showTerminal(terminalId);
+        this.terminalPort.sendText(terminalId, prompt + '\n');
+    }
+}
@@ -5,20 +5,30 @@ import { ITerminalPort } from '../ports/outbound/ITerminalPort';
 import { IGitPort } from '../ports/outbound/IGitPort';
 import { IFileSystemPort } from '../ports/outbound/IFileSystemPort';
 import { IFileGlobber } from '../ports/outbound/IFileGlobber';
+import { AgentRegistry } from '../../domain/services/AgentRegistry';
+import { normalizeWorktreeCopyPatterns } from '../../domain/entities/WorktreeCopyPattern';
+import { WorktreeFileSync } from '../services/WorktreeFileSync';
 import {
     ICreateThreadUseCase,
     CreateThreadInput,
     CreateThreadOutput,
 } from '../ports/inbound/ICreateThreadUseCase';
+import { IRunWorktreeSetupUseCase, RunWorktreeSetupOutput } from '../ports/inbound/IRunWorktreeSetupUseCase';
 
 export class CreateThreadUseCase implements ICreateThreadUseCase {
+    private readonly worktreeFileSync: WorktreeFileSync;
+
     constructor(
         private readonly threadStateRepository: IThreadStateRepository,
         private readonly terminalPort: ITerminalPort,
         private readonly gitPort: IGitPort,
-        private readonly fileSystemPort: IFileSystemPort,
-        private readonly fileGlobber: IFileGlobber
-    ) {}
+        fileSystemPort: IFileSystemPort,
+        fileGlobber: IFileGlobber,
+        private readonly agentRegistry?: AgentRegistry,
+        private readonly runWorktreeSetupUseCase?: IRunWorktreeSetupUseCase
+    ) {
+        this.worktreeFileSync = new WorktreeFileSync(fileSystemPort, fileGlobber);
+    }
 
     async execute(input: CreateThreadInput): Promise<CreateThreadOutput> {
         const { name, isolationMode, branchName, worktreePath: customWorktreePath, workspaceRoot } = input;
@@ -27,6 +37,10 @@ export class CreateThreadUseCase implements ICreateThreadUseCase {
         let workingDir = workspaceRoot;
         let branch: string | undefined;
         let worktreePath: string | undefined;
+        let baseBranch: string | undefined;
+
+        // Commit the thread starts from; used to diff everything the agent commits
+        const baseCommit = await this.resolveBaseCommit(workspaceRoot);
 
         if (isolationMode === 'worktree') {
             if (customWorktreePath) {
@@ -37,19 +51,25 @@ export class CreateThreadUseCase implements ICreateThreadUseCase {
                 const worktreeBaseDir = path.join(path.dirname(workspaceRoot), `${workspaceName}.worktree`);
                 worktreePath = path.join(worktreeBaseDir, effectiveBranchName);
             }
+            // Remember what the new branch forks from so it can be merged back later
+            baseBranch = await this.resolveBaseBranch(workspaceRoot);
             await this.gitPort.createWorktree(worktreePath, effectiveBranchName, workspaceRoot);
             workingDir = worktreePath;
             branch = effectiveBranchName;
 
-            // Copy gitignored files to worktree
-            await this.copyWorktreeFiles(
+            // Copy or link gitignored files into the worktree
+            await this.worktreeFileSync.apply(
                 workspaceRoot,
                 worktreePath,
-                input.worktreeCopyPatterns ?? []
+                normalizeWorktreeCopyPatterns(input.worktreeCopyPatterns ?? [])
             );
         }
 
         const terminalId = await this.terminalPort.createTerminal(name, workingDir);
+        const agentCommand = this.resolveAgentCommand(input, branch);
+        const agentId = agentCommand ? input.agentId : undefined;
+        const setupSteps = input.setupSteps ?? [];
+        const waitsForSetup = !!worktreePath && setupSteps.length > 0 && !!this.runWorktreeSetupUseCase;
 
         const threadState = ThreadState.create({
             name,
@@ -57,47 +77,91 @@ export class CreateThreadUseCase implements ICreateThreadUseCase {
             workingDir,
             branch,
             worktreePath,
-            whitelistPatterns: [],
+            // Stale-copy checks and re-syncs use the patterns the worktree was made with
+            worktreeCopyPatterns: worktreePath ? [...(input.worktreeCopyPatterns ?? [])] : undefined,
+            baseBranch,
+            baseCommit,
+            // Recorded once setup succeeds, since the agent isn't started otherwise
+            agentId: waitsForSetup ? undefined : agentId,
+            whitelistPatterns: [...(input.whitelistPatterns ?? [])],
         });
 
         await this.threadStateRepository.save(threadState);
 
+        if (waitsForSetup && worktreePath && this.runWorktreeSetupUseCase) {
+            // Agent waits for the worktree to be ready; the caller tracks progress
+            const setup = this.runWorktreeSetupUseCase.execute({
+                workspaceRoot,
+                worktreePath,
+                steps: setupSteps,
+                onProgress: input.onSetupProgress,
+                onOutput: input.onSetupOutput,
+            }).then(async (result): Promise<RunWorktreeSetupOutput> => {
+                if (result.success) {
+                    this.startTerminalCommands(terminalId, input.setupCommand, agentCommand);
+                    if (agentId) {
+                        threadState.recordAgent(agentId);
+                        await this.threadStateRepository.save(threadState);
+                    }
+                }
+                return result;
+            });
+            return { threadState, setup };
+        }
+
+        this.startTerminalCommands(terminalId, input.setupCommand, agentCommand);
+
         return { threadState };
     }
 
-    private async copyWorktreeFiles(
-        sourceRoot: string,
-        destRoot: string,
-        patterns: string[]
-    ): Promise<void> {
-        if (patterns.length === 0) return;
-
-        for (const pattern of patterns) {
-            try {
-                const files = await this.fileGlobber.glob(pattern, sourceRoot);
-                for (const absolutePath of files) {
-                    await this.copySingleFile(absolutePath, sourceRoot, destRoot);
-                }
-            } catch (error) {
-                console.warn(`[Code Squad] Failed to glob pattern "${pattern}":`, error);
-            }
+    private startTerminalCommands(terminalId: string, setupCommand?: string, agentCommand?: string): void {
+        if (setupCommand) {
+            // Typed before the agent command, so the shell runs it first
+            this.terminalPort.sendText(terminalId, setupCommand);
+        }
+        if (agentCommand) {
+            this.terminalPort.sendText(terminalId, agentCommand);
         }
     }
 
-    private async copySingleFile(
-        absolutePath: string,
-        sourceRoot: string,
-        destRoot: string
-    ): Promise<void> {
+    /**
+     * Build the command that starts the selected agent CLI.
+     * Returns undefined if no agent was selected or it can't be launched.
+     */
+    private resolveAgentCommand(input: CreateThreadInput, branch: string | undefined): string | undefined {
+        if (!input.agentId || !this.agentRegistry) return undefined;
+
+        const command = this.agentRegistry.buildLaunchCommand(input.agentId, {
+            name: input.name,
+            branch,
+            prompt: input.initialPrompt,
+            isolated: input.isolationMode === 'worktree',
+        });
+        if (!command) {
+            console.warn(`[Code Squad] Agent "${input.agentId}" has no launch command`);
+            return undefined;
+        }
+        return command;
+    }
+
+    private async resolveBaseBranch(workspaceRoot: string): Promise<string | undefined> {
         try {
-            const relativePath = path.relative(sourceRoot, absolutePath);
-            const destPath = path.join(destRoot, relativePath);
-            const destDir = path.dirname(destPath);
+            const branch = await this.gitPort.getCurrentBranch(workspaceRoot);
+            // Detached HEAD has no branch to merge back into
+            return branch && branch !== 'HEAD' ? branch : undefined;
+        } catch (error) {
+            console.warn('[Code Squad] Failed to resolve base branch:', error);
+            return undefined;
+        }
+    }
 
-            await this.fileSystemPort.ensureDir(destDir);
-            await this.fileSystemPort.copyFile(absolutePath, destPath);
+    private async resolveBaseCommit(workspaceRoot: string): Promise<string | undefined> {
+        try {
+            return await this.gitPort.getHeadCommit(workspaceRoot);
         } catch (error) {
-            console.warn(`[Code Squad] Failed to copy "${absolutePath}":`, error);
+            // Not a git repository or no commits yet
+            console.warn('[Code Squad] Failed to resolve base commit:', error);
+            return undefined;
         }
     }
 }
@@ -3,6 +3,7 @@ import { IThreadStateRepository } from '../ports/outbound/IThreadStateRepository
 import { ITerminalPort } from '../ports/outbound/ITerminalPort';
 import { IGitPort } from '../ports/outbound/IGitPort';
 import { ICommentRepository } from '../ports/outbound/ICommentRepository';
+import { IFileThreadMappingRepository } from '../ports/outbound/IFileThreadMappingRepository';
 import { IDetectThreadStatusUseCase } from '../ports/inbound/IDetectThreadStatusUseCase';
 
 export class DeleteThreadUseCase implements IDeleteThreadUseCase {
@@ -11,7 +12,8 @@ export class DeleteThreadUseCase implements IDeleteThreadUseCase {
         private readonly terminalPort: ITerminalPort,
         private readonly gitPort: IGitPort,
         private readonly commentRepository: ICommentRepository,
-        private readonly detectStatusUseCase: IDetectThreadStatusUseCase
+        private readonly detectStatusUseCase: IDetectThreadStatusUseCase,
+        private readonly fileThreadMappingRepository: IFileThreadMappingRepository
     ) {}
 
     async execute(input: DeleteThreadInput): Promise<DeleteThreadOutput> {
@@ -45,6 +47,9 @@ export class DeleteThreadUseCase implements IDeleteThreadUseCase {
         // 4. Delete thread-scoped comments
         deletedCommentsCount = await this.commentRepository.deleteByThreadId(threadId);
 
+        // 4.1. Forget which files the thread modified
+        await this.fileThreadMappingRepository.deleteByThreadId(threadId);
+
         // 5. Remove worktree if applicable and requested
         if (removeWorktree && threadState.worktreePath) {
             try {
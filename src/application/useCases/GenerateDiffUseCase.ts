@@ -1,12 +1,15 @@
 import { DiffService } from '../../domain/services/DiffService';
-import { DiffResult } from '../../domain/entities/Diff';
+import { ContextExpansion, DiffChunk, DiffOptions, DiffResult } from '../../domain/entities/Diff';
 import { ISnapshotRepository } from '../ports/outbound/ISnapshotRepository';
 import { IFileSystemPort } from '../ports/outbound/IFileSystemPort';
-import { IGitPort } from '../ports/outbound/IGitPort';
-import { IGenerateDiffUseCase } from '../ports/inbound/IGenerateDiffUseCase';
+import { IGitPort, ChangedFile } from '../ports/outbound/IGitPort';
+import { IGenerateDiffUseCase, DiffBaseMode } from '../ports/inbound/IGenerateDiffUseCase';
 
 export class GenerateDiffUseCase implements IGenerateDiffUseCase {
     private workspaceRootOverride?: string;
+    private baseCommit?: string;
+    private diffBaseMode: DiffBaseMode = 'head';
+    private diffOptions: DiffOptions = {};
 
     constructor(
         private readonly snapshotRepository: ISnapshotRepository,
@@ -33,28 +36,135 @@ export class GenerateDiffUseCase implements IGenerateDiffUseCase {
         return this.workspaceRootOverride || this.fileSystemPort.getWorkspaceRoot();
     }
 
+    setBaseCommit(baseCommit: string | undefined): void {
+        this.baseCommit = baseCommit;
+    }
+
+    getBaseCommit(): string | undefined {
+        return this.baseCommit;
+    }
+
+    setDiffBaseMode(mode: DiffBaseMode): void {
+        this.diffBaseMode = mode;
+    }
+
+    getDiffBaseMode(): DiffBaseMode {
+        return this.diffBaseMode;
+    }
+
+    setDiffOptions(options: DiffOptions): void {
+        this.diffOptions = { ...options };
+    }
+
+    getDiffOptions(): DiffOptions {
+        return { ...this.diffOptions };
+    }
+
+    async getChangedFilesSinceBase(): Promise<ChangedFile[]> {
+        const workspaceRoot = this.getWorkspaceRoot();
+        if (!workspaceRoot || !this.baseCommit) return [];
+
+        return this.gitPort.getChangedFilesFromCommit(workspaceRoot, this.baseCommit);
+    }
+
     async execute(relativePath: string): Promise<DiffResult | null> {
         // 세션별 workspaceRoot 우선 사용 (worktree 지원)
         const workspaceRoot = this.workspaceRootOverride || this.fileSystemPort.getWorkspaceRoot();
         if (!workspaceRoot) return null;
 
-        let diffResult: DiffResult;
+        const diffResult = await this.generateDiff(workspaceRoot, relativePath, this.diffOptions);
+        if (this.diffService.hasChanges(diffResult)) {
+            return diffResult;
+        }
 
-        if (this.snapshotRepository.has(relativePath)) {
-            diffResult = await this.generateSnapshotDiff(relativePath);
-        } else {
-            const rawDiff = await this.gitPort.getDiff(workspaceRoot, relativePath);
-            diffResult = this.diffService.parseUnifiedDiff(relativePath, rawDiff);
+        // Changes hidden by the diff options still count: the file stays listed with an empty diff
+        const { ignoreWhitespace, ignoreBlankLines } = this.diffOptions;
+        if (ignoreWhitespace || ignoreBlankLines) {
+            const plainResult = await this.generateDiff(workspaceRoot, relativePath, {});
+            if (this.diffService.hasChanges(plainResult)) return diffResult;
         }
 
-        if (diffResult.chunks.length === 0) {
+        return null;
+    }
+
+    async expandContext(
+        relativePath: string,
+        chunks: DiffChunk[],
+        gap: number,
+        direction: ContextExpansion
+    ): Promise<DiffChunk[] | null> {
+        const workspaceRoot = this.getWorkspaceRoot();
+        if (!workspaceRoot) return null;
+
+        let content: string;
+        try {
+            content = await this.fileSystemPort.readFile(this.fileSystemPort.joinPath(workspaceRoot, relativePath));
+        } catch {
             return null;
         }
 
-        return diffResult;
+        return this.diffService.expandContext(chunks, gap, direction, this.toFileLines(content));
+    }
+
+    async revealContext(relativePath: string, chunks: DiffChunk[], lines: ReadonlySet<number>): Promise<DiffChunk[]> {
+        const workspaceRoot = this.getWorkspaceRoot();
+        if (lines.size === 0 || !workspaceRoot) return chunks;
+
+        try {
+            const content = await this.fileSystemPort.readFile(this.fileSystemPort.joinPath(workspaceRoot, relativePath));
+            return this.diffService.revealContext(chunks, lines, this.toFileLines(content));
+        } catch {
+            return chunks;
+        }
+    }
+
+    /** Lines of a file, without the empty one after a final newline */
+    private toFileLines(content: string): string[] {
+        const fileLines = content.split('\n');
+        if (content.endsWith('\n')) fileLines.pop();
+        return fileLines;
+    }
+
+    async getOriginalFileBytes(relativePath: string, diff: DiffResult): Promise<Uint8Array | null> {
+        const workspaceRoot = this.getWorkspaceRoot();
+        if (!workspaceRoot) return null;
+
+        const baseCommit = this.diffBaseMode === 'base' && this.baseCommit ? this.baseCommit : 'HEAD';
+        return this.gitPort.getFileBytesAtCommit(workspaceRoot, baseCommit, diff.origin?.oldPath ?? relativePath);
+    }
+
+    private async generateDiff(workspaceRoot: string, relativePath: string, options: DiffOptions): Promise<DiffResult> {
+        const baseDiff = await this.generateBaseDiff(workspaceRoot, relativePath, options);
+        if (baseDiff) {
+            return baseDiff;
+        }
+        if (this.snapshotRepository.has(relativePath)) {
+            return this.generateSnapshotDiff(relativePath, options);
+        }
+
+        const rawDiff = await this.gitPort.getDiff(workspaceRoot, relativePath, options);
+        return this.diffService.parseUnifiedDiff(relativePath, rawDiff, options);
+    }
+
+    /**
+     * Branch diff: committed + uncommitted changes since the thread started.
+     * Returns null outside 'base' mode or when git has nothing for the file
+     * (e.g. gitignored files), so the regular diff path is used instead.
+     */
+    private async generateBaseDiff(
+        workspaceRoot: string,
+        relativePath: string,
+        options: DiffOptions
+    ): Promise<DiffResult | null> {
+        if (this.diffBaseMode !== 'base' || !this.baseCommit) return null;
+
+        const rawDiff = await this.gitPort.getDiffFromCommit(workspaceRoot, this.baseCommit, relativePath, options);
+        if (!rawDiff.trim()) return null;
+
+        return this.diffService.parseUnifiedDiff(relativePath, rawDiff, options);
     }
 
-    private async generateSnapshotDiff(relativePath: string): Promise<DiffResult> {
+    private async generateSnapshotDiff(relativePath: string, options: DiffOptions): Promise<DiffResult> {
         const snapshot = await this.snapshotRepository.findByPath(relativePath);
         // Use workspaceRootOverride for worktree support
         const workspaceRoot = this.getWorkspaceRoot();
@@ -87,6 +197,11 @@ export class GenerateDiffUseCase implements IGenerateDiffUseCase {
         }
 
         // Case 3: Both snapshot and current content exist - compare them
-        return this.diffService.generateStructuredDiff(relativePath, snapshot.content, currentContent);
+        return this.diffService.generateStructuredDiff(
+            relativePath,
+            snapshot.content,
+            currentContent,
+            options
+        );
     }
 }
@@ -0,0 +1,52 @@
+import { DiffService } from '../../domain/services/DiffService';
+import { DiffResult } from '../../domain/entities/Diff';
+import { IGitPort, ChangedFile, GitCommit } from '../ports/outbound/IGitPort';
+import { IGetCommitTimelineUseCase } from '../ports/inbound/IGetCommitTimelineUseCase';
+
+/**
+ * Commits made inside a session (e.g. an agent running `git commit`).
+ * Committed work leaves the uncommitted file list, so the timeline keeps it reviewable.
+ */
+export class GetCommitTimelineUseCase implements IGetCommitTimelineUseCase {
+    constructor(
+        private readonly gitPort: IGitPort,
+        private readonly diffService: DiffService,
+        private readonly workspaceRoot: string | undefined,
+        private readonly sinceCommit: string | undefined
+    ) {}
+
+    async execute(): Promise<GitCommit[]> {
+        if (!this.workspaceRoot || !this.sinceCommit) return [];
+
+        return this.gitPort.getCommitLog(this.workspaceRoot, this.sinceCommit);
+    }
+
+    async getCommitFiles(sha: string): Promise<ChangedFile[]> {
+        if (!this.workspaceRoot) return [];
+
+        return this.gitPort.getCommitFiles(this.workspaceRoot, sha);
+    }
+
+    async getCommitDiff(sha: string, relativePath: string): Promise<DiffResult | null> {
+        if (!this.workspaceRoot) return null;
+
+        const rawDiff = await this.gitPort.getCommitDiff(this.workspaceRoot, sha, relativePath);
+        const diffResult = this.diffService.parseUnifiedDiff(relativePath, rawDiff);
+
+        return this.diffService.hasChanges(diffResult) ? diffResult : null;
+    }
+
+    async getCommitFileBytes(
+        sha: string,
+        relativePath: string,
+        diff: DiffResult
+    ): Promise<{ before: Uint8Array | null; after: Uint8Array | null }> {
+        if (!this.workspaceRoot) return { before: null, after: null };
+
+        const [before, after] = await Promise.all([
+            this.gitPort.getFileBytesAtCommit(this.workspaceRoot, `${sha}^`, diff.origin?.oldPath ?? relativePath),
+            this.gitPort.getFileBytesAtCommit(this.workspaceRoot, sha, relativePath),
+        ]);
+        return { before, after };
+    }
+}
@@ -0,0 +1,36 @@
+import { IFileThreadMappingRepository } from '../ports/outbound/IFileThreadMappingRepository';
+import {
+    IGetFileConflictsUseCase,
+    GetFileConflictsInput,
+    FileConflict,
+} from '../ports/inbound/IGetFileConflictsUseCase';
+
+/**
+ * Finds files that several of the given threads modified.
+ */
+export class GetFileConflictsUseCase implements IGetFileConflictsUseCase {
+    constructor(
+        private readonly mappingRepository: IFileThreadMappingRepository
+    ) {}
+
+    async execute(input: GetFileConflictsInput): Promise<FileConflict[]> {
+        if (input.threadIds.length < 2) return [];
+
+        const threadIds = new Set(input.threadIds);
+        const byFile = new Map<string, string[]>();
+        for (const mapping of await this.mappingRepository.findAll()) {
+            if (!threadIds.has(mapping.threadId)) continue;
+            const owners = byFile.get(mapping.filePath) ?? [];
+            owners.push(mapping.threadId);
+            byFile.set(mapping.filePath, owners);
+        }
+
+        const conflicts: FileConflict[] = [];
+        for (const [filePath, owners] of byFile) {
+            if (owners.length > 1) {
+                conflicts.push({ filePath, threadIds: owners });
+            }
+        }
+        return conflicts;
+    }
+}
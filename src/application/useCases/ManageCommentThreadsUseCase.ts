@@ -0,0 +1,118 @@
+import { Comment, CommentAnchor } from '../../domain/entities/Comment';
+import { DiffService } from '../../domain/services/DiffService';
+import { ICommentRepository } from '../ports/outbound/ICommentRepository';
+import {
+    IManageCommentThreadsUseCase,
+    ReanchorCommentsInput,
+    ReplyToCommentInput,
+} from '../ports/inbound/IManageCommentThreadsUseCase';
+
+/**
+ * Replies, resolve state and re-anchoring of review comments.
+ *
+ * The content each file's comments were last anchored on is kept in memory
+ * only. After a reload the first change to a file has nothing to diff
+ * against, so its comments are found by their code text once; later changes
+ * follow their lines through the diff again.
+ */
+export class ManageCommentThreadsUseCase implements IManageCommentThreadsUseCase {
+    /** Each file's content as its comments' lines refer to it */
+    private readonly anchoredContents = new Map<string, string>();
+
+    constructor(
+        private readonly commentRepository: ICommentRepository,
+        private readonly diffService: DiffService
+    ) {}
+
+    async reply(input: ReplyToCommentInput): Promise<Comment | null> {
+        const text = input.text.trim();
+        if (!text) {
+            return null;
+        }
+        return this.change(input.id, comment => comment.withReply(text));
+    }
+
+    async setResolved(id: string, resolved: boolean): Promise<Comment | null> {
+        return this.change(id, comment => resolved ? comment.resolve() : comment.reopen());
+    }
+
+    trackFile(file: string, content: string): void {
+        this.anchoredContents.set(file, content);
+    }
+
+    async reanchor(input: ReanchorCommentsInput): Promise<Comment[]> {
+        const { file, content, threadId } = input;
+        const previousContent = this.anchoredContents.get(file);
+        this.anchoredContents.set(file, content);
+
+        const comments = (await this.commentRepository.findAll()).filter(c =>
+            c.file === file &&
+            c.status !== 'resolved' &&
+            (!c.threadId || c.threadId === threadId) &&
+            c.codeContext.trim()
+        );
+
+        const changed: Comment[] = [];
+        for (const comment of comments) {
+            const updated = this.follow(comment, content, previousContent);
+            if (updated) {
+                await this.commentRepository.replace(updated);
+                changed.push(updated);
+            }
+        }
+        return changed;
+    }
+
+    /**
+     * The comment moved to its code in the new content, or null when nothing changed.
+     * The lines are followed through the diff from the content the comment was
+     * placed on, so a copy of the code elsewhere (a lone `}`) doesn't pull it away.
+     * Without that content the code is searched for as it was written.
+     */
+    private follow(comment: Comment, content: string, previousContent: string | undefined): Comment | null {
+        const range = { startLine: comment.line, endLine: comment.endLine ?? comment.line };
+        // Lines past the end of the previous content don't refer to it
+        const mapped = previousContent === undefined || range.endLine > previousContent.split('\n').length
+            ? null
+            : this.diffService.mapLineRange(previousContent, content, range);
+        if (!mapped) {
+            const found = comment.findAnchor(content);
+            if (found) {
+                return this.isAt(comment, found) && !comment.isDetached ? null : comment.withAnchor(found);
+            }
+            // Nothing to follow the lines through; leave them where they are
+            return comment.isDetached ? null : comment.markOutdated();
+        }
+
+        const anchor: CommentAnchor = {
+            line: mapped.startLine,
+            endLine: mapped.endLine > mapped.startLine ? mapped.endLine : undefined,
+        };
+        if (!mapped.deleted && comment.showsCodeAt(content, anchor)) {
+            // The commented code is back as it was, e.g. an edit was undone
+            return this.isAt(comment, anchor) && !comment.isDetached ? null : comment.withAnchor(anchor);
+        }
+        if (mapped.deleted || comment.status === 'deleted') {
+            return comment.status === 'deleted' && this.isAt(comment, anchor) ? null : comment.markDeleted(anchor);
+        }
+        if (mapped.changed || comment.status === 'outdated') {
+            return comment.status === 'outdated' && this.isAt(comment, anchor) ? null : comment.markOutdated(anchor);
+        }
+        return this.isAt(comment, anchor) ? null : comment.withAnchor(anchor);
+    }
+
+    private isAt(comment: Comment, anchor: CommentAnchor): boolean {
+        return comment.line === anchor.line && comment.endLine === anchor.endLine;
+    }
+
+    private async change(id: string, apply: (comment: Comment) => Comment): Promise<Comment | null> {
+        const comment = (await this.commentRepository.findAll()).find(c => c.id === id);
+        if (!comment) {
+            return null;
+        }
+
+        const updated = apply(comment);
+        await this.commentRepository.replace(updated);
+        return updated;
+    }
+}
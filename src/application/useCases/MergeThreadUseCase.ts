@@ -0,0 +1,125 @@
+import { IMergeThreadUseCase, MergeThreadInput, MergeThreadOutput } from '../ports/inbound/IMergeThreadUseCase';
+import { IThreadStateRepository } from '../ports/outbound/IThreadStateRepository';
+import { IGitPort } from '../ports/outbound/IGitPort';
+
+/**
+ * Merges a worktree thread's branch back into the branch it was forked from.
+ *
+ * Only performs the merge. Cleanup (closing the terminal, removing the
+ * worktree and deleting the branch) is left to the caller so it can be
+ * skipped whenever the merge did not succeed.
+ */
+export class MergeThreadUseCase implements IMergeThreadUseCase {
+    constructor(
+        private readonly threadStateRepository: IThreadStateRepository,
+        private readonly gitPort: IGitPort
+    ) {}
+
+    async execute(input: MergeThreadInput): Promise<MergeThreadOutput> {
+        const { threadId, workspaceRoot, strategy } = input;
+
+        // 1. Find thread state
+        const threadState = await this.threadStateRepository.findById(threadId);
+        if (!threadState) {
+            return { success: false, conflicts: [], error: 'Thread not found' };
+        }
+
+        const { branch, worktreePath } = threadState;
+        if (!branch || !worktreePath) {
+            return { success: false, conflicts: [], error: 'Thread does not have a worktree branch' };
+        }
+
+        // 2. Resolve base branch (threads created before it was recorded fall back to the current branch)
+        let currentBranch: string;
+        try {
+            currentBranch = await this.gitPort.getCurrentBranch(workspaceRoot);
+        } catch (error) {
+            return { success: false, conflicts: [], error: this.toMessage(error) };
+        }
+        const baseBranch = threadState.baseBranch ?? currentBranch;
+
+        if (currentBranch !== baseBranch) {
+            return {
+                success: false,
+                baseBranch,
+                conflicts: [],
+                error: `Base branch "${baseBranch}" must be checked out in the main workspace (currently "${currentBranch}")`,
+            };
+        }
+        if (baseBranch === branch) {
+            return { success: false, baseBranch, conflicts: [], error: 'Thread branch is the same as its base branch' };
+        }
+
+        // 3. Refuse to merge with uncommitted work left in the worktree or the main workspace
+        // (staged changes there would end up in the merge commit, and the cleanup after a
+        // failed merge could discard them)
+        const uncommitted = await this.gitPort.getUncommittedFiles(worktreePath);
+        if (uncommitted.length > 0) {
+            return {
+                success: false,
+                baseBranch,
+                conflicts: [],
+                error: `Worktree has ${uncommitted.length} uncommitted file(s). Commit or discard them first.`,
+            };
+        }
+        const uncommittedInWorkspace = await this.gitPort.getUncommittedFiles(workspaceRoot);
+        if (uncommittedInWorkspace.length > 0) {
+            return {
+                success: false,
+                baseBranch,
+                conflicts: [],
+                error: `Main workspace has ${uncommittedInWorkspace.length} uncommitted file(s). Commit or stash them first.`,
+            };
+        }
+
+        // 4. Detect conflicts before touching any working tree
+        const conflicts = await this.gitPort.getMergeConflicts(baseBranch, branch, workspaceRoot);
+        if (conflicts.length > 0) {
+            return { success: false, baseBranch, conflicts, error: 'Merge would conflict' };
+        }
+
+        // 5. Merge
+        const message = input.commitMessage?.trim() || `Merge thread "${threadState.name}" (${branch})`;
+        try {
+            switch (strategy) {
+                case 'merge':
+                    await this.gitPort.mergeBranch(branch, workspaceRoot, { message });
+                    break;
+                case 'squash':
+                    await this.gitPort.mergeBranch(branch, workspaceRoot, { squash: true, message });
+                    break;
+                case 'rebase':
+                    await this.rebaseAndFastForward(branch, baseBranch, worktreePath, workspaceRoot);
+                    break;
+            }
+        } catch (error) {
+            return { success: false, baseBranch, conflicts: [], error: this.toMessage(error) };
+        }
+
+        return { success: true, baseBranch, conflicts: [] };
+    }
+
+    /**
+     * Rebase the thread branch onto its base and fast-forward the base to it.
+     * If the fast-forward fails, the thread branch is put back where it was.
+     */
+    private async rebaseAndFastForward(
+        branch: string,
+        baseBranch: string,
+        worktreePath: string,
+        workspaceRoot: string
+    ): Promise<void> {
+        const originalHead = await this.gitPort.getHeadCommit(worktreePath);
+        await this.gitPort.rebaseBranch(worktreePath, baseBranch);
+        try {
+            await this.gitPort.mergeBranch(branch, workspaceRoot, { fastForwardOnly: true });
+        } catch (error) {
+            await this.gitPort.resetHard(worktreePath, originalHead).catch(() => undefined);
+            throw error;
+        }
+    }
+
+    private toMessage(error: unknown): string {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
@@ -0,0 +1,37 @@
+import { IThreadStateRepository } from '../ports/outbound/IThreadStateRepository';
+import { ITerminalPort } from '../ports/outbound/ITerminalPort';
+import { IFileSystemPort } from '../ports/outbound/IFileSystemPort';
+import {
+    IReopenThreadTerminalUseCase,
+    ReopenThreadTerminalInput,
+    ReopenThreadTerminalOutput,
+} from '../ports/inbound/IReopenThreadTerminalUseCase';
+
+/**
+ * Give a thread whose terminal is gone a new one in its worktree (or working dir).
+ */
+export class ReopenThreadTerminalUseCase implements IReopenThreadTerminalUseCase {
+    constructor(
+        private readonly threadStateRepository: IThreadStateRepository,
+        private readonly terminalPort: ITerminalPort,
+        private readonly fileSystemPort: IFileSystemPort
+    ) {}
+
+    async execute(input: ReopenThreadTerminalInput): Promise<ReopenThreadTerminalOutput> {
+        const threadState = await this.threadStateRepository.findById(input.threadId);
+        if (!threadState) {
+            throw new Error(`Thread ${input.threadId} not found`);
+        }
+
+        const workingDir = threadState.worktreePath ?? threadState.workingDir;
+        if (!(await this.fileSystemPort.fileExists(workingDir))) {
+            throw new Error(`Working directory no longer exists: ${workingDir}`);
+        }
+
+        const terminalId = await this.terminalPort.createTerminal(threadState.name, workingDir);
+        threadState.reassignTerminal(terminalId);
+        await this.threadStateRepository.updateTerminalId(threadState.threadId, terminalId);
+
+        return { threadState };
+    }
+}
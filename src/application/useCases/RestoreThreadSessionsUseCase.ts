@@ -0,0 +1,92 @@
+import * as path from 'path';
+import { ThreadState } from '../../domain/entities/ThreadState';
+import { AgentRegistry } from '../../domain/services/AgentRegistry';
+import { IThreadStateRepository } from '../ports/outbound/IThreadStateRepository';
+import { ITerminalPort, OpenTerminalInfo } from '../ports/outbound/ITerminalPort';
+import {
+    IRestoreThreadSessionsUseCase,
+    RestoreThreadSessionsOutput,
+    RestoredThread,
+    TerminalMatch,
+} from '../ports/inbound/IRestoreThreadSessionsUseCase';
+
+/**
+ * Reconcile persisted threads with the terminals VS Code restored after a reload.
+ *
+ * Matching runs in passes so stronger evidence wins: the recorded terminal ID,
+ * then the terminal name (threads name their terminal), then the working directory.
+ * Any shell can be open in the workspace root, so a thread without a worktree
+ * is only matched by directory to a terminal named after an agent.
+ * Each terminal is claimed by at most one thread.
+ */
+export class RestoreThreadSessionsUseCase implements IRestoreThreadSessionsUseCase {
+    constructor(
+        private readonly threadStateRepository: IThreadStateRepository,
+        private readonly terminalPort: ITerminalPort,
+        private readonly agentRegistry?: AgentRegistry
+    ) {}
+
+    async execute(): Promise<RestoreThreadSessionsOutput> {
+        const threads = await this.threadStateRepository.findAll();
+        if (threads.length === 0) {
+            return { restored: [], unmatched: [] };
+        }
+
+        const unclaimed = await this.terminalPort.getOpenTerminals();
+        const restored: RestoredThread[] = [];
+        let pending = threads;
+
+        const claim = (
+            matchedBy: TerminalMatch,
+            find: (thread: ThreadState) => OpenTerminalInfo | undefined
+        ) => {
+            const stillPending: ThreadState[] = [];
+            for (const thread of pending) {
+                const terminal = find(thread);
+                if (terminal) {
+                    unclaimed.splice(unclaimed.indexOf(terminal), 1);
+                    restored.push({ threadState: thread, matchedBy });
+                    if (terminal.terminalId !== thread.terminalId) {
+                        thread.reassignTerminal(terminal.terminalId);
+                    }
+                } else {
+                    stillPending.push(thread);
+                }
+            }
+            pending = stillPending;
+        };
+
+        // A detached thread's terminal closed; a terminal with its old ID is another one
+        claim('terminalId', (thread) =>
+            thread.isDetached ? undefined : unclaimed.find(t => t.terminalId === thread.terminalId)
+        );
+        // Prefer the same-named terminal that is also in the thread's directory
+        claim('name', (thread) => {
+            const named = unclaimed.filter(t => t.name === thread.name);
+            return named.find(t => isSameDir(t.cwd, threadDir(thread))) ?? named[0];
+        });
+        claim('cwd', (thread) => unclaimed.find(t =>
+            isSameDir(t.cwd, threadDir(thread)) && (!!thread.worktreePath || this.isAgentTerminal(t))
+        ));
+
+        for (const { threadState, matchedBy } of restored) {
+            if (matchedBy !== 'terminalId') {
+                await this.threadStateRepository.updateTerminalId(threadState.threadId, threadState.terminalId);
+            }
+        }
+
+        return { restored, unmatched: pending };
+    }
+
+    private isAgentTerminal(terminal: OpenTerminalInfo): boolean {
+        return !!this.agentRegistry?.detectFromName(terminal.name);
+    }
+}
+
+function threadDir(thread: ThreadState): string {
+    return thread.worktreePath ?? thread.workingDir;
+}
+
+function isSameDir(a: string | undefined, b: string): boolean {
+    return !!a && path.resolve(a) === path.resolve(b);
+}
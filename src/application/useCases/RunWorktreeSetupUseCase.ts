@@ -0,0 +1,92 @@
+import {
+    IRunWorktreeSetupUseCase,
+    RunWorktreeSetupInput,
+    RunWorktreeSetupOutput,
+} from '../ports/inbound/IRunWorktreeSetupUseCase';
+import { ICommandRunnerPort } from '../ports/outbound/ICommandRunnerPort';
+import { IFileSystemPort } from '../ports/outbound/IFileSystemPort';
+import { RunSetupStep, SymlinkSetupStep } from '../../domain/entities/SetupStep';
+
+/**
+ * Runs the configured setup steps in a freshly created worktree.
+ *
+ * Steps run in order and stop at the first failure, so later steps
+ * (and the agent) never run against a half-prepared worktree.
+ */
+export class RunWorktreeSetupUseCase implements IRunWorktreeSetupUseCase {
+    constructor(
+        private readonly commandRunner: ICommandRunnerPort,
+        private readonly fileSystemPort: IFileSystemPort
+    ) {}
+
+    async execute(input: RunWorktreeSetupInput): Promise<RunWorktreeSetupOutput> {
+        const { steps, onProgress } = input;
+        const log = (text: string) => input.onOutput?.(text);
+
+        for (let index = 0; index < steps.length; index++) {
+            const step = steps[index];
+            onProgress?.({ step, index, total: steps.length });
+            log(`\n[${index + 1}/${steps.length}] ${step.name}\n`);
+
+            try {
+                const error = step.kind === 'run'
+                    ? await this.runCommand(step, input)
+                    : await this.createSymlink(step, input);
+                if (error) {
+                    log(`✗ ${error}\n`);
+                    return { success: false, failedStep: step.name, error };
+                }
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                log(`✗ ${message}\n`);
+                return { success: false, failedStep: step.name, error: message };
+            }
+        }
+
+        log(`\n✓ Setup finished (${steps.length} step${steps.length === 1 ? '' : 's'})\n`);
+        return { success: true };
+    }
+
+    /**
+     * Returns an error message if the command failed.
+     */
+    private async runCommand(step: RunSetupStep, input: RunWorktreeSetupInput): Promise<string | undefined> {
+        input.onOutput?.(`$ ${step.command}\n`);
+        const result = await this.commandRunner.run(step.command, {
+            cwd: input.worktreePath,
+            timeoutMs: step.timeoutMs,
+            onOutput: input.onOutput,
+        });
+
+        if (result.timedOut) {
+            return `Timed out after ${Math.round(step.timeoutMs / 1000)}s`;
+        }
+        if (result.exitCode !== 0) {
+            return `Exited with code ${result.exitCode}`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Link a path from the main checkout into the worktree.
+     * Missing sources and existing targets are skipped, not failures.
+     */
+    private async createSymlink(step: SymlinkSetupStep, input: RunWorktreeSetupInput): Promise<string | undefined> {
+        const source = this.fileSystemPort.joinPath(input.workspaceRoot, step.path);
+        const target = this.fileSystemPort.joinPath(input.worktreePath, step.path);
+
+        if (!(await this.fileSystemPort.fileExists(source))) {
+            input.onOutput?.(`Skipped: ${step.path} does not exist in the main checkout\n`);
+            return undefined;
+        }
+        if (await this.fileSystemPort.fileExists(target)) {
+            input.onOutput?.(`Skipped: ${step.path} already exists in the worktree\n`);
+            return undefined;
+        }
+
+        await this.fileSystemPort.ensureDir(this.fileSystemPort.joinPath(target, '..'));
+        await this.fileSystemPort.createSymlink(source, target);
+        input.onOutput?.(`${target} -> ${source}\n`);
+        return undefined;
+    }
+}
@@ -6,6 +6,7 @@ import { INotificationPort } from '../ports/outbound/INotificationPort';
 import { IFileThreadMappingRepository } from '../ports/outbound/IFileThreadMappingRepository';
 import { IThreadStateRepository } from '../ports/outbound/IThreadStateRepository';
 import { ISubmitCommentsUseCase, SubmitCommentsResult } from '../ports/inbound/ISubmitCommentsUseCase';
+import { ICaptureAgentResponseUseCase } from '../ports/inbound/ICaptureAgentResponseUseCase';
 
 export class SubmitCommentsUseCase implements ISubmitCommentsUseCase {
     constructor(
@@ -13,12 +14,13 @@ export class SubmitCommentsUseCase implements ISubmitCommentsUseCase {
         private readonly terminalPort: ITerminalPort,
         private readonly notificationPort: INotificationPort,
         private readonly mappingRepository?: IFileThreadMappingRepository,
-        private readonly threadStateRepository?: IThreadStateRepository
+        private readonly threadStateRepository?: IThreadStateRepository,
+        private readonly agentResponseCapture?: ICaptureAgentResponseUseCase
     ) {}
 
     async execute(session: AISession | undefined): Promise<SubmitCommentsResult | null> {
         if (!session) {
-            this.notificationPort.showWarning('No active AI session detected (Claude Code, Codex, or Gemini)');
+            this.notificationPort.showWarning('No active AI session detected');
             return null;
         }
 
@@ -34,6 +36,7 @@ export class SubmitCommentsUseCase implements ISubmitCommentsUseCase {
         this.terminalPort.sendText(session.terminalId, prompt + '\n');
 
         const ids = comments.map(c => c.id);
+        this.agentResponseCapture?.startCapture(session.terminalId, ids, prompt);
         await this.commentRepository.markAsSubmitted(ids);
 
         this.notificationPort.showInfo(
@@ -60,7 +63,13 @@ export class SubmitCommentsUseCase implements ISubmitCommentsUseCase {
         for (const [file, fileComments] of Object.entries(grouped)) {
             parts.push(`\nFile: ${file}`);
             for (const c of fileComments) {
-                parts.push(`Line ${c.lineRange}: ${c.text}`);
+                // A sent comment is only here for its new replies; quote it for context
+                parts.push(c.isSubmitted
+                    ? `Line ${c.lineRange} (my earlier comment: ${c.text})`
+                    : `Line ${c.lineRange}: ${c.text}`);
+                for (const reply of c.pendingReplies) {
+                    parts.push(`  Follow-up: ${reply.text}`);
+                }
             }
         }
 
@@ -94,6 +103,7 @@ export class SubmitCommentsUseCase implements ISubmitCommentsUseCase {
             const prompt = this.formatCommentsAsPrompt(threadComments);
             this.terminalPort.showTerminal(terminalId);
             this.terminalPort.sendText(terminalId, prompt + '\n');
+            this.agentResponseCapture?.startCapture(terminalId, threadComments.map(c => c.id), prompt);
 
             // Get thread name for notification
             const threadId = await this.getThreadIdForTerminal(terminalId, threadComments);
@@ -0,0 +1,38 @@
+import { IFileSystemPort } from '../ports/outbound/IFileSystemPort';
+import { IFileGlobber } from '../ports/outbound/IFileGlobber';
+import {
+    ISyncWorktreeFilesUseCase,
+    SyncWorktreeFilesInput,
+    SyncWorktreeFilesOutput,
+} from '../ports/inbound/ISyncWorktreeFilesUseCase';
+import { normalizeWorktreeCopyPatterns } from '../../domain/entities/WorktreeCopyPattern';
+import { WorktreeFileSync } from '../services/WorktreeFileSync';
+
+/**
+ * Re-applies worktree copy patterns to an existing worktree.
+ *
+ * Copied files drift when the main checkout changes (e.g. a rotated .env);
+ * this finds them and refreshes only what is missing or different.
+ */
+export class SyncWorktreeFilesUseCase implements ISyncWorktreeFilesUseCase {
+    private readonly worktreeFileSync: WorktreeFileSync;
+
+    constructor(fileSystemPort: IFileSystemPort, fileGlobber: IFileGlobber) {
+        this.worktreeFileSync = new WorktreeFileSync(fileSystemPort, fileGlobber);
+    }
+
+    async execute(input: SyncWorktreeFilesInput): Promise<SyncWorktreeFilesOutput> {
+        const { workspaceRoot, worktreePath } = input;
+        const patterns = normalizeWorktreeCopyPatterns(input.patterns);
+
+        if (input.checkOnly) {
+            const stale = await this.worktreeFileSync.findStale(workspaceRoot, worktreePath, patterns);
+            return { synced: [], stale };
+        }
+
+        const synced = await this.worktreeFileSync.apply(workspaceRoot, worktreePath, patterns, { onlyStale: true });
+        // Whatever is still stale failed to sync
+        const stale = await this.worktreeFileSync.findStale(workspaceRoot, worktreePath, patterns);
+        return { synced, stale };
+    }
+}
@@ -1,18 +1,29 @@
 import { FileThreadMapping } from '../../domain/entities/FileThreadMapping';
 import { IFileThreadMappingRepository } from '../ports/outbound/IFileThreadMappingRepository';
-import { ITrackFileOwnershipUseCase, TrackFileOwnershipInput } from '../ports/inbound/ITrackFileOwnershipUseCase';
+import {
+    ITrackFileOwnershipUseCase,
+    TrackFileOwnershipInput,
+    TrackFileOwnershipOutput,
+} from '../ports/inbound/ITrackFileOwnershipUseCase';
 
 export class TrackFileOwnershipUseCase implements ITrackFileOwnershipUseCase {
     constructor(
         private readonly mappingRepository: IFileThreadMappingRepository
     ) {}
 
-    async execute(input: TrackFileOwnershipInput): Promise<void> {
+    async execute(input: TrackFileOwnershipInput): Promise<TrackFileOwnershipOutput> {
         if (!input.threadId) {
-            return;
+            return { otherThreadIds: [], isFirstEdit: false };
         }
 
+        // Earlier modifiers, so callers can warn about overlapping edits
+        const previous = await this.mappingRepository.findAllByFilePath(input.filePath);
+        const otherThreadIds = previous.map(m => m.threadId).filter(id => id !== input.threadId);
+        const isFirstEdit = !previous.some(m => m.threadId === input.threadId);
+
         const mapping = FileThreadMapping.create(input.filePath, input.threadId);
         await this.mappingRepository.save(mapping);
+
+        return { otherThreadIds, isFirstEdit };
     }
 }
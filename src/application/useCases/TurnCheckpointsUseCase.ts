@@ -0,0 +1,248 @@
+import * as path from 'path';
+import { DiffService } from '../../domain/services/DiffService';
+import { DiffResult } from '../../domain/entities/Diff';
+import { Checkpoint } from '../../domain/entities/Checkpoint';
+import { ICheckpointRepository } from '../ports/outbound/ICheckpointRepository';
+import { ISnapshotRepository } from '../ports/outbound/ISnapshotRepository';
+import { IFileSystemPort } from '../ports/outbound/IFileSystemPort';
+import { IGitPort, FileStatus } from '../ports/outbound/IGitPort';
+import {
+    ITurnCheckpointsUseCase,
+    TurnDiffScope,
+    CheckpointSummary,
+    RevertCheckpointResult,
+} from '../ports/inbound/ITurnCheckpointsUseCase';
+
+/** Content of a file at some point: null if it didn't exist, undefined if unknown */
+type KnownContent = string | null | undefined;
+
+/**
+ * Per-turn checkpoints of the files an agent touches, so a single turn
+ * can be reviewed or undone.
+ *
+ * Each checkpoint records every file tracked so far. A file missing from a
+ * checkpoint still had its session-start content: the snapshot taken when the
+ * session began, or its content at the starting commit.
+ */
+export class TurnCheckpointsUseCase implements ITurnCheckpointsUseCase {
+    constructor(
+        private readonly checkpointRepository: ICheckpointRepository,
+        private readonly snapshotRepository: ISnapshotRepository,
+        private readonly fileSystemPort: IFileSystemPort,
+        private readonly gitPort: IGitPort,
+        private readonly diffService: DiffService,
+        private readonly workspaceRoot: string | undefined,
+        private readonly startCommit: string | undefined
+    ) {}
+
+    async captureStart(paths: string[]): Promise<void> {
+        if (!this.workspaceRoot) return;
+
+        const files = new Map<string, string | null>();
+        for (const relativePath of paths) {
+            const content = await this.readTrackable(relativePath);
+            if (content !== undefined) {
+                files.set(relativePath, content);
+            }
+        }
+        await this.checkpointRepository.save(Checkpoint.create(0, files, []));
+    }
+
+    async capture(sessionPaths: string[]): Promise<CheckpointSummary | null> {
+        if (!this.workspaceRoot) return null;
+
+        const latest = this.findNearest(Number.MAX_SAFE_INTEGER);
+        const latestTurn = latest?.turn ?? 0;
+        const paths = new Set([...(latest?.paths ?? []), ...sessionPaths]);
+
+        const files = new Map<string, string | null>();
+        const changedPaths: string[] = [];
+        for (const relativePath of paths) {
+            const current = await this.readTrackable(relativePath);
+            if (current === undefined) continue;
+
+            const previous = await this.getContentAt(latestTurn, relativePath);
+            if (current === previous) {
+                // Share the stored string instead of keeping another copy
+                files.set(relativePath, previous);
+            } else {
+                files.set(relativePath, current);
+                changedPaths.push(relativePath);
+            }
+        }
+
+        if (changedPaths.length === 0) return null;
+
+        const checkpoint = Checkpoint.create(latestTurn + 1, files, changedPaths);
+        await this.checkpointRepository.save(checkpoint);
+        return toSummary(checkpoint);
+    }
+
+    list(): CheckpointSummary[] {
+        return this.checkpointRepository.findAll().map(toSummary);
+    }
+
+    async getChangedFiles(
+        turn: number,
+        scope: TurnDiffScope,
+        sessionPaths: string[] = []
+    ): Promise<Array<{ path: string; status: FileStatus }>> {
+        if (!this.workspaceRoot) return [];
+
+        const paths = new Set([
+            ...(this.findNearest(turn)?.paths ?? []),
+            ...(scope === 'turn'
+                ? this.findNearest(turn - 1)?.paths ?? []
+                : [...(this.findNearest(Number.MAX_SAFE_INTEGER)?.paths ?? []), ...sessionPaths]),
+        ]);
+
+        const files: Array<{ path: string; status: FileStatus }> = [];
+        for (const relativePath of paths) {
+            const [before, after] = await this.getRange(turn, scope, relativePath);
+            if (before === after) continue;
+
+            let status: FileStatus = 'modified';
+            if (before === null) {
+                status = 'added';
+            } else if (after === null) {
+                status = 'deleted';
+            }
+            files.push({ path: relativePath, status });
+        }
+        return files.sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    async getDiff(turn: number, scope: TurnDiffScope, relativePath: string): Promise<DiffResult | null> {
+        if (!this.workspaceRoot) return null;
+
+        const [before, after] = await this.getRange(turn, scope, relativePath);
+        const oldContent = before ?? null;
+        const newContent = after ?? null;
+        if (oldContent === newContent) return null;
+
+        let diffResult: DiffResult;
+        if (oldContent === null) {
+            diffResult = this.diffService.generateNewFileStructuredDiff(relativePath, newContent!);
+        } else if (newContent === null) {
+            diffResult = this.diffService.generateDeletedFileStructuredDiff(relativePath, oldContent);
+        } else {
+            diffResult = this.diffService.generateStructuredDiff(relativePath, oldContent, newContent);
+        }
+
+        return this.diffService.hasChanges(diffResult) ? diffResult : null;
+    }
+
+    async revert(turn: number, sessionPaths: string[] = []): Promise<RevertCheckpointResult> {
+        const result: RevertCheckpointResult = { restored: [], failed: [] };
+        if (!this.workspaceRoot) return result;
+
+        const paths = new Set(sessionPaths);
+        for (const checkpoint of this.checkpointRepository.findAll()) {
+            checkpoint.paths.forEach(p => paths.add(p));
+        }
+
+        for (const relativePath of paths) {
+            try {
+                const target = await this.getContentAt(turn, relativePath);
+                if (target === undefined) continue;
+                if (target === await this.readCurrent(relativePath)) continue;
+
+                const absolutePath = this.fileSystemPort.joinPath(this.workspaceRoot, relativePath);
+                if (target === null) {
+                    await this.fileSystemPort.removeFile(absolutePath);
+                } else {
+                    await this.fileSystemPort.ensureDir(path.dirname(absolutePath));
+                    await this.fileSystemPort.writeFile(absolutePath, target);
+                }
+                result.restored.push(relativePath);
+            } catch (error) {
+                console.warn(`[Code Squad] Failed to restore "${relativePath}":`, error);
+                result.failed.push(relativePath);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Contents before and after a turn ('turn'), or at the end of the turn
+     * and in the working tree ('since').
+     */
+    private async getRange(
+        turn: number,
+        scope: TurnDiffScope,
+        relativePath: string
+    ): Promise<[KnownContent, KnownContent]> {
+        if (scope === 'turn') {
+            return Promise.all([
+                this.getContentAt(turn - 1, relativePath),
+                this.getContentAt(turn, relativePath),
+            ]);
+        }
+        return Promise.all([
+            this.getContentAt(turn, relativePath),
+            this.readCurrent(relativePath).catch(() => undefined),
+        ]);
+    }
+
+    /**
+     * Content of a file at the end of a turn.
+     * Falls back to the session-start content when no checkpoint tracks it.
+     */
+    private async getContentAt(turn: number, relativePath: string): Promise<KnownContent> {
+        const checkpoint = this.findNearest(turn);
+        if (checkpoint?.has(relativePath)) {
+            return checkpoint.getContent(relativePath);
+        }
+        return this.getStartContent(relativePath);
+    }
+
+    private async getStartContent(relativePath: string): Promise<KnownContent> {
+        const snapshot = await this.snapshotRepository.findByPath(relativePath);
+        if (snapshot) return snapshot.content;
+
+        if (!this.workspaceRoot || !this.startCommit) return undefined;
+        return this.gitPort.getFileAtCommit(this.workspaceRoot, this.startCommit, relativePath);
+    }
+
+    /**
+     * The latest stored checkpoint at or before a turn.
+     * Old checkpoints may have been evicted, so the exact turn can be missing.
+     */
+    private findNearest(turn: number): Checkpoint | undefined {
+        const checkpoints = this.checkpointRepository.findAll();
+        for (let i = checkpoints.length - 1; i >= 0; i--) {
+            if (checkpoints[i].turn <= turn) return checkpoints[i];
+        }
+        return undefined;
+    }
+
+    private async readCurrent(relativePath: string): Promise<string | null> {
+        const absolutePath = this.fileSystemPort.joinPath(this.workspaceRoot!, relativePath);
+        if (!(await this.fileSystemPort.fileExists(absolutePath))) return null;
+        return this.fileSystemPort.readFile(absolutePath);
+    }
+
+    /**
+     * Current content for a checkpoint, or undefined if the file can't be
+     * checkpointed: unreadable, or binary (it would not survive a text round trip).
+     */
+    private async readTrackable(relativePath: string): Promise<string | null | undefined> {
+        try {
+            const content = await this.readCurrent(relativePath);
+            if (content !== null && content.includes('\u0000')) return undefined;
+            return content;
+        } catch (error) {
+            console.warn(`[Code Squad] Failed to checkpoint "${relativePath}":`, error);
+            return undefined;
+        }
+    }
+}
+
+function toSummary(checkpoint: Checkpoint): CheckpointSummary {
+    return {
+        turn: checkpoint.turn,
+        createdAt: checkpoint.createdAt,
+        changedFileCount: checkpoint.changedPaths.length,
+    };
+}
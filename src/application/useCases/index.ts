@@ -5,9 +5,11 @@ export { GenerateScopedDiffUseCase } from './GenerateScopedDiffUseCase';
 export { CaptureSnapshotsUseCase } from './CaptureSnapshotsUseCase';
 export { EditCommentUseCase } from './EditCommentUseCase';
 export { DeleteCommentUseCase } from './DeleteCommentUseCase';
+export { ManageCommentThreadsUseCase } from './ManageCommentThreadsUseCase';
 export { FetchHNStoriesUseCase } from './FetchHNStoriesUseCase';
 export { TrackFileOwnershipUseCase } from './TrackFileOwnershipUseCase';
 export { DetectThreadStatusUseCase } from './DetectThreadStatusUseCase';
+export { CaptureAgentResponseUseCase } from './CaptureAgentResponseUseCase';
 
 // Re-export from ports for backward compatibility
 export { AddCommentInput } from '../ports/inbound/IAddCommentUseCase';
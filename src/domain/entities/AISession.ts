@@ -1,4 +1,5 @@
-export type AIType = 'claude' | 'codex' | 'gemini';
+/** Agent id from the AgentRegistry (e.g. 'claude', 'aider') */
+export type AIType = string;
 
 export type AgentStatus = 'inactive' | 'idle' | 'working' | 'waiting';
 
@@ -13,16 +14,19 @@ export interface AISessionData {
     type: AIType;
     terminalId: string;
     startTime: number;
+    displayName?: string;
 }
 
 export class AISession {
     private _type: AIType;
+    private _displayName: string;
     readonly terminalId: string;
     readonly startTime: number;
     private _agentMetadata?: AgentMetadata;
 
     constructor(data: AISessionData) {
         this._type = data.type;
+        this._displayName = data.displayName ?? data.type;
         this.terminalId = data.terminalId;
         this.startTime = data.startTime;
     }
@@ -35,14 +39,13 @@ export class AISession {
      * Update the AI type for this session.
      * Used when AI type is detected from command execution or output patterns.
      */
-    updateType(newType: AIType): void {
+    updateType(newType: AIType, displayName?: string): void {
         this._type = newType;
+        this._displayName = displayName ?? newType;
     }
 
     get displayName(): string {
-        if (this.type === 'claude') return 'Claude';
-        if (this.type === 'codex') return 'Codex';
-        return 'Gemini';
+        return this._displayName;
     }
 
     get agentMetadata(): AgentMetadata | undefined {
@@ -61,17 +64,12 @@ export class AISession {
         return this._agentMetadata?.status ?? 'inactive';
     }
 
-    static create(type: AIType, terminalId: string): AISession {
+    static create(type: AIType, terminalId: string, displayName?: string): AISession {
         return new AISession({
             type,
             terminalId,
             startTime: Date.now(),
+            displayName,
         });
     }
-
-    static getDisplayName(type: AIType): string {
-        if (type === 'claude') return 'Claude';
-        if (type === 'codex') return 'Codex';
-        return 'Gemini';
-    }
 }
@@ -0,0 +1,70 @@
+import { AgentStatus } from './AISession';
+
+export interface AgentStatusPattern {
+    status: AgentStatus;
+    patterns: RegExp[];
+    priority: number;
+}
+
+/**
+ * How to start an agent CLI in a new thread.
+ * Arguments are templates: {prompt}, {name} and {branch} are substituted before quoting.
+ */
+export interface AgentLaunchTemplate {
+    command: string;
+    args: string[];
+    /** Extra arguments for threads isolated in a worktree (e.g. --dangerously-skip-permissions) */
+    worktreeArgs: string[];
+    /** Arguments that pass the initial prompt; omitted when the CLI can't take one */
+    promptArgs?: string[];
+}
+
+/** User-configured arguments appended to an agent's launch template */
+export interface AgentLaunchArgs {
+    args?: string[];
+    worktreeArgs?: string[];
+}
+
+export interface AgentLaunchContext {
+    name: string;
+    branch?: string;
+    prompt?: string;
+    isolated: boolean;
+}
+
+/**
+ * Describes an AI CLI agent that Code Squad can detect and track.
+ */
+export interface AgentDefinition {
+    /** Stable identifier stored as the session's AIType (e.g. 'claude') */
+    id: string;
+    displayName: string;
+    /** Matched against the normalized command line to detect agent launch/exit */
+    commandPatterns: RegExp[];
+    /** Startup banners and unique UI elements used to identify the agent from output */
+    bannerPatterns: RegExp[];
+    /** Empty means the generic status patterns are used */
+    statusPatterns: AgentStatusPattern[];
+    /** Omitted for agents that can only be detected, not launched */
+    launch?: AgentLaunchTemplate;
+}
+
+/**
+ * Agent definition as written in the `codeSquad.agents` setting.
+ * Patterns are regular expression sources, matched case-insensitively.
+ */
+export interface AgentDefinitionConfig {
+    id: string;
+    displayName?: string;
+    /** Executable names (e.g. 'aider'), also matched behind npx/bunx/pnpx */
+    commands?: string[];
+    commandPatterns?: string[];
+    bannerPatterns?: string[];
+    statusPatterns?: {
+        waiting?: string[];
+        working?: string[];
+        idle?: string[];
+    };
+    /** Defaults to the first entry of `commands` */
+    launch?: Partial<AgentLaunchTemplate>;
+}
@@ -0,0 +1,51 @@
+export interface CheckpointData {
+    turn: number;
+    createdAt: number;
+    /** relativePath -> content, null when the file didn't exist */
+    files: Map<string, string | null>;
+    /** Paths whose content differs from the previous checkpoint */
+    changedPaths: string[];
+}
+
+/**
+ * Contents of a session's files when the agent finished a turn.
+ * Turn 0 is the session start: files that were already changed before the agent began.
+ */
+export class Checkpoint {
+    readonly turn: number;
+    readonly createdAt: number;
+    readonly changedPaths: string[];
+    private readonly files: Map<string, string | null>;
+
+    constructor(data: CheckpointData) {
+        this.turn = data.turn;
+        this.createdAt = data.createdAt;
+        this.files = data.files;
+        this.changedPaths = data.changedPaths;
+    }
+
+    get paths(): string[] {
+        return Array.from(this.files.keys());
+    }
+
+    has(relativePath: string): boolean {
+        return this.files.has(relativePath);
+    }
+
+    /**
+     * Content recorded for a path: null if the file didn't exist,
+     * undefined if the checkpoint doesn't track the path.
+     */
+    getContent(relativePath: string): string | null | undefined {
+        return this.files.get(relativePath);
+    }
+
+    static create(turn: number, files: Map<string, string | null>, changedPaths: string[]): Checkpoint {
+        return new Checkpoint({
+            turn,
+            createdAt: Date.now(),
+            files,
+            changedPaths,
+        });
+    }
+}
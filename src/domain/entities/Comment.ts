@@ -1,3 +1,28 @@
+/**
+ * - 'open': waiting for the agent or the reviewer
+ * - 'resolved': the reviewer is satisfied with how it was addressed
+ * - 'outdated': the commented code was edited since the comment was written
+ * - 'deleted': the commented code was removed from the file
+ *
+ * Outdated and deleted comments keep `codeContext` as the code they were written on.
+ */
+export type CommentStatus = 'open' | 'resolved' | 'outdated' | 'deleted';
+
+export interface CommentReply {
+    id: string;
+    text: string;
+    timestamp: number;
+    /** Whether the reply has been sent to the agent */
+    isSubmitted: boolean;
+    /** Defaults to 'reviewer'; 'agent' replies hold the agent's terminal output */
+    author?: 'reviewer' | 'agent';
+}
+
+export interface CommentAnchor {
+    line: number;
+    endLine?: number;
+}
+
 export interface CommentData {
     id: string;
     file: string;
@@ -8,6 +33,9 @@ export interface CommentData {
     isSubmitted: boolean;
     timestamp: number;
     threadId?: string;
+    /** Defaults to 'open' for comments saved before threads existed */
+    status?: CommentStatus;
+    replies?: CommentReply[];
 }
 
 export class Comment {
@@ -20,6 +48,8 @@ export class Comment {
     private _isSubmitted: boolean;
     readonly timestamp: number;
     readonly threadId?: string;
+    readonly status: CommentStatus;
+    private readonly _replies: CommentReply[];
 
     constructor(data: CommentData) {
         this.id = data.id;
@@ -31,28 +61,130 @@ export class Comment {
         this._isSubmitted = data.isSubmitted;
         this.timestamp = data.timestamp;
         this.threadId = data.threadId;
+        this.status = data.status ?? 'open';
+        this._replies = (data.replies ?? []).map(reply => ({ ...reply }));
     }
 
     get isSubmitted(): boolean {
         return this._isSubmitted;
     }
 
+    get replies(): CommentReply[] {
+        return this._replies.map(reply => ({ ...reply }));
+    }
+
+    /** Replies written after the comment was last sent to the agent */
+    get pendingReplies(): CommentReply[] {
+        return this.replies.filter(reply => !reply.isSubmitted);
+    }
+
+    /** Whether the next submit has something to send for this comment */
+    get isPending(): boolean {
+        if (this.status === 'resolved') return false;
+        return !this._isSubmitted || this._replies.some(reply => !reply.isSubmitted);
+    }
+
+    /** Marks the comment and all of its replies as sent */
     markAsSubmitted(): void {
         this._isSubmitted = true;
+        this._replies.forEach(reply => {
+            reply.isSubmitted = true;
+        });
     }
 
     withText(newText: string): Comment {
-        return new Comment({
-            id: this.id,
-            file: this.file,
-            line: this.line,
-            endLine: this.endLine,
-            text: newText,
-            codeContext: this.codeContext,
-            isSubmitted: this._isSubmitted,
-            timestamp: this.timestamp,
-            threadId: this.threadId,
-        });
+        return this.copy({ text: newText });
+    }
+
+    withReply(text: string): Comment {
+        const reply: CommentReply = {
+            id: `${this.id}-${this._replies.length + 1}`,
+            text,
+            timestamp: Date.now(),
+            isSubmitted: false,
+        };
+        // Replying picks the conversation back up
+        const status = this.status === 'resolved' ? 'open' : this.status;
+        return this.copy({ replies: [...this._replies, reply], status });
+    }
+
+    /** Attach what the agent answered after the comment was sent */
+    withAgentResponse(text: string): Comment {
+        const reply: CommentReply = {
+            id: `${this.id}-${this._replies.length + 1}`,
+            text,
+            timestamp: Date.now(),
+            isSubmitted: true,
+            author: 'agent',
+        };
+        return this.copy({ replies: [...this._replies, reply] });
+    }
+
+    resolve(): Comment {
+        return this.copy({ status: 'resolved' });
+    }
+
+    reopen(): Comment {
+        return this.copy({ status: 'open' });
+    }
+
+    /** Move the comment to where its code is now, unchanged */
+    withAnchor(anchor: CommentAnchor): Comment {
+        const status = this.isDetached ? 'open' : this.status;
+        return this.copy({ line: anchor.line, endLine: anchor.endLine, status });
+    }
+
+    /** The commented code was edited; the anchor is where the edited code is, when known */
+    markOutdated(anchor?: CommentAnchor): Comment {
+        return this.copy({ status: 'outdated', ...(anchor && { line: anchor.line, endLine: anchor.endLine }) });
+    }
+
+    /** The commented code was removed; the anchor is the line that now follows it */
+    markDeleted(anchor: CommentAnchor): Comment {
+        return this.copy({ status: 'deleted', line: anchor.line, endLine: anchor.endLine });
+    }
+
+    /** Whether the comment no longer sits on the code it was written on */
+    get isDetached(): boolean {
+        return this.status === 'outdated' || this.status === 'deleted';
+    }
+
+    /**
+     * Find the commented code in the file's current content.
+     * When it appears more than once, the occurrence nearest the current line wins.
+     *
+     * @returns null when the code is gone or no code was captured
+     */
+    findAnchor(content: string): CommentAnchor | null {
+        const contextLines = this.codeContext.split('\n').map(line => line.trimEnd());
+        if (contextLines.every(line => !line.trim())) return null;
+
+        const fileLines = content.split('\n').map(line => line.trimEnd());
+        let best: number | null = null;
+        for (let start = 0; start + contextLines.length <= fileLines.length; start++) {
+            if (!matchesAt(fileLines, contextLines, start)) continue;
+            if (best === null || Math.abs(start + 1 - this.line) < Math.abs(best + 1 - this.line)) {
+                best = start;
+            }
+        }
+
+        if (best === null) return null;
+        return {
+            line: best + 1,
+            endLine: contextLines.length > 1 ? best + contextLines.length : undefined,
+        };
+    }
+
+    /**
+     * Whether the lines at an anchor read as the commented code.
+     */
+    showsCodeAt(content: string, anchor: CommentAnchor): boolean {
+        const contextLines = this.codeContext.split('\n').map(line => line.trimEnd());
+        if (contextLines.every(line => !line.trim())) return false;
+        if ((anchor.endLine ?? anchor.line) - anchor.line + 1 !== contextLines.length) return false;
+
+        const fileLines = content.split('\n').map(line => line.trimEnd());
+        return matchesAt(fileLines, contextLines, anchor.line - 1);
     }
 
     get lineRange(): string {
@@ -70,9 +202,15 @@ export class Comment {
             isSubmitted: this._isSubmitted,
             timestamp: this.timestamp,
             threadId: this.threadId,
+            status: this.status,
+            replies: this.replies,
         };
     }
 
+    private copy(changes: Partial<CommentData>): Comment {
+        return new Comment({ ...this.toData(), ...changes });
+    }
+
     static create(params: {
         file: string;
         line: number;
@@ -91,6 +229,15 @@ export class Comment {
             isSubmitted: false,
             timestamp: Date.now(),
             threadId: params.threadId,
+            status: 'open',
+            replies: [],
         });
     }
 }
+
+/** Whether the file's lines starting at `start` are the commented lines (both trimmed at the end) */
+function matchesAt(fileLines: string[], contextLines: string[], start: number): boolean {
+    return start >= 0 &&
+        start + contextLines.length <= fileLines.length &&
+        contextLines.every((line, offset) => fileLines[start + offset] === line);
+}
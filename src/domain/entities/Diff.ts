@@ -1,3 +1,11 @@
+/**
+ * Character range of a line's content, end exclusive
+ */
+export interface DiffSegment {
+    start: number;
+    end: number;
+}
+
 /**
  * Represents a single line in a diff
  */
@@ -6,8 +14,39 @@ export interface DiffLine {
     content: string;
     oldLineNumber?: number;
     newLineNumber?: number;
+    /** Parts that differ from the paired deletion/addition, when the pair is an edit of one line */
+    segments?: DiffSegment[];
+    /** Removed line that reappears elsewhere: its line in the new file */
+    movedTo?: number;
+    /** Added line moved from elsewhere: its line in the old file */
+    movedFrom?: number;
+    /** Last line of its file with no newline after it (`\ No newline at end of file`) */
+    noNewlineAtEnd?: boolean;
 }
 
+/**
+ * How lines are compared, and what is left out or marked
+ */
+export interface DiffOptions {
+    /** Lines that differ only in whitespace are unchanged */
+    ignoreWhitespace?: boolean;
+    /** Leave out hunks whose changes are all blank lines */
+    ignoreBlankLines?: boolean;
+    /** Mark removed blocks that reappear elsewhere in the file as moved */
+    detectMoves?: boolean;
+}
+
+/**
+ * Which unchanged lines of a gap between chunks to reveal:
+ * - 'up': the lines right above the chunk after the gap
+ * - 'down': the lines right below the chunk before the gap
+ * - 'all': the whole gap
+ */
+export type ContextExpansion = 'up' | 'down' | 'all';
+
+/** Lines revealed by one expand up / expand down */
+export const CONTEXT_EXPAND_STEP = 20;
+
 /**
  * Represents a chunk of changes in a diff
  */
@@ -22,6 +61,16 @@ export interface DiffChunk {
     };
 }
 
+/**
+ * Where a file came from, when git detected it as a rename or copy
+ */
+export interface FileOrigin {
+    kind: 'renamed' | 'copied';
+    oldPath: string;
+    /** Percentage of content kept from oldPath */
+    similarity: number;
+}
+
 /**
  * Structured diff result for UI rendering
  */
@@ -32,4 +81,13 @@ export interface DiffResult {
         additions: number;
         deletions: number;
     };
+    /** Set instead of chunks when the files were too large to diff */
+    tooLarge?: {
+        oldLineCount: number;
+        newLineCount: number;
+    };
+    /** Set when the file was renamed or copied; chunks are relative to oldPath */
+    origin?: FileOrigin;
+    /** Binary content: no chunks, only that the file changed */
+    binary?: boolean;
 }
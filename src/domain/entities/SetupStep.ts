@@ -0,0 +1,64 @@
+/**
+ * Step run after a worktree is created, before the agent starts.
+ */
+export type SetupStep = RunSetupStep | SymlinkSetupStep;
+
+/** Run a shell command in the worktree (e.g. 'npm ci') */
+export interface RunSetupStep {
+    kind: 'run';
+    name: string;
+    command: string;
+    timeoutMs: number;
+}
+
+/** Symlink a path from the main checkout into the worktree (e.g. 'node_modules') */
+export interface SymlinkSetupStep {
+    kind: 'symlink';
+    name: string;
+    path: string;
+}
+
+export const DEFAULT_SETUP_STEP_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Setup step as written in settings:
+ * `{ "run": "npm ci", "timeoutSeconds": 300 }` or `{ "symlink": "node_modules" }`.
+ */
+export interface SetupStepConfig {
+    name?: string;
+    run?: string;
+    symlink?: string;
+    timeoutSeconds?: number;
+}
+
+/**
+ * Keep well-formed steps from the raw setting value.
+ */
+export function parseSetupSteps(raw: unknown): SetupStep[] {
+    if (!Array.isArray(raw)) return [];
+
+    const steps: SetupStep[] = [];
+    for (const entry of raw as SetupStepConfig[]) {
+        if (!entry) continue;
+        const name = typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : undefined;
+
+        if (typeof entry.run === 'string' && entry.run.trim()) {
+            const timeoutSeconds = typeof entry.timeoutSeconds === 'number' && entry.timeoutSeconds > 0
+                ? entry.timeoutSeconds
+                : undefined;
+            steps.push({
+                kind: 'run',
+                name: name ?? entry.run.trim(),
+                command: entry.run.trim(),
+                timeoutMs: timeoutSeconds ? timeoutSeconds * 1000 : DEFAULT_SETUP_STEP_TIMEOUT_MS,
+            });
+        } else if (typeof entry.symlink === 'string' && entry.symlink.trim()) {
+            steps.push({
+                kind: 'symlink',
+                name: name ?? `Link ${entry.symlink.trim()}`,
+                path: entry.symlink.trim(),
+            });
+        }
+    }
+    return steps;
+}
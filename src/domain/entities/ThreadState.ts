@@ -1,3 +1,5 @@
+import { WorktreeCopyPatternConfig } from './WorktreeCopyPattern';
+
 export interface ThreadStateData {
     threadId: string;
     name: string;
@@ -5,6 +7,19 @@ export interface ThreadStateData {
     workingDir: string;
     branch?: string;
     worktreePath?: string;
+    /** Branch that was checked out when the thread's branch was forked */
+    baseBranch?: string;
+    /** Commit SHA the thread started from (HEAD at creation time) */
+    baseCommit?: string;
+    /** Agent launched when the thread was created (AgentRegistry id) */
+    agentId?: string;
+    /**
+     * Files brought into the worktree when it was created (the template's or the
+     * configured patterns). Unset for threads created before they were recorded.
+     */
+    worktreeCopyPatterns?: WorktreeCopyPatternConfig[];
+    /** Set when the thread's terminal closed; it waits for a new or reattached terminal */
+    detached?: boolean;
     whitelistPatterns: string[];
     createdAt: number;
 }
@@ -12,20 +27,30 @@ export interface ThreadStateData {
 export class ThreadState {
     readonly threadId: string;
     readonly name: string;
-    readonly terminalId: string;
+    private _terminalId: string;
     readonly workingDir: string;
     readonly branch?: string;
     readonly worktreePath?: string;
+    readonly worktreeCopyPatterns?: WorktreeCopyPatternConfig[];
+    private _agentId?: string;
+    private _detached: boolean;
+    private _baseBranch?: string;
+    private _baseCommit?: string;
     private _whitelistPatterns: string[];
     readonly createdAt: number;
 
     private constructor(data: ThreadStateData) {
         this.threadId = data.threadId;
         this.name = data.name;
-        this.terminalId = data.terminalId;
+        this._terminalId = data.terminalId;
         this.workingDir = data.workingDir;
         this.branch = data.branch;
         this.worktreePath = data.worktreePath;
+        this.worktreeCopyPatterns = data.worktreeCopyPatterns && [...data.worktreeCopyPatterns];
+        this._agentId = data.agentId;
+        this._detached = data.detached ?? false;
+        this._baseBranch = data.baseBranch;
+        this._baseCommit = data.baseCommit;
         this._whitelistPatterns = [...data.whitelistPatterns];
         this.createdAt = data.createdAt;
     }
@@ -42,6 +67,59 @@ export class ThreadState {
         return new ThreadState(data);
     }
 
+    get terminalId(): string {
+        return this._terminalId;
+    }
+
+    /**
+     * Point the thread at a different terminal.
+     * Terminal IDs change when VS Code reloads or the terminal is reopened.
+     */
+    reassignTerminal(terminalId: string): void {
+        this._terminalId = terminalId;
+        this._detached = false;
+    }
+
+    get isDetached(): boolean {
+        return this._detached;
+    }
+
+    /**
+     * Record that the thread's terminal closed. Its ID is kept but no longer
+     * identifies the thread's terminal, since VS Code may hand it out again.
+     */
+    detachTerminal(): void {
+        this._detached = true;
+    }
+
+    get agentId(): string | undefined {
+        return this._agentId;
+    }
+
+    /**
+     * Record the agent once it has been started in the thread's terminal.
+     */
+    recordAgent(agentId: string): void {
+        this._agentId = agentId;
+    }
+
+    get baseBranch(): string | undefined {
+        return this._baseBranch;
+    }
+
+    get baseCommit(): string | undefined {
+        return this._baseCommit;
+    }
+
+    /**
+     * Record the base of a thread created before bases were tracked.
+     * An already recorded base is never overwritten.
+     */
+    recordBase(baseCommit: string, baseBranch?: string): void {
+        this._baseCommit = this._baseCommit ?? baseCommit;
+        this._baseBranch = this._baseBranch ?? baseBranch;
+    }
+
     get whitelistPatterns(): string[] {
         return [...this._whitelistPatterns];
     }
@@ -67,10 +145,15 @@ export class ThreadState {
         return {
             threadId: this.threadId,
             name: this.name,
-            terminalId: this.terminalId,
+            terminalId: this._terminalId,
             workingDir: this.workingDir,
             branch: this.branch,
             worktreePath: this.worktreePath,
+            worktreeCopyPatterns: this.worktreeCopyPatterns && [...this.worktreeCopyPatterns],
+            baseBranch: this._baseBranch,
+            baseCommit: this._baseCommit,
+            agentId: this._agentId,
+            detached: this._detached || undefined,
             whitelistPatterns: [...this._whitelistPatterns],
             createdAt: this.createdAt,
         };
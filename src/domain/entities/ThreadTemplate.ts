@@ -0,0 +1,67 @@
+import { SetupStep, parseSetupSteps } from './SetupStep';
+import { WorktreeCopyPatternConfig, parseWorktreeCopyPatternConfigs } from './WorktreeCopyPattern';
+
+/**
+ * Reusable preset for creating threads, stored in the `codeSquad.threadTemplates` setting.
+ */
+export interface ThreadTemplate {
+    name: string;
+    description?: string;
+    isolationMode?: 'local' | 'worktree';
+    /** Branch name with {name} placeholder for the thread name (e.g. 'feat/{name}') */
+    branchPattern?: string;
+    /** Overrides `codeSquad.worktreeCopyPatterns` */
+    worktreeCopyPatterns?: WorktreeCopyPatternConfig[];
+    /** Shell command run in the new terminal before the agent starts (e.g. 'npm ci') */
+    setupCommand?: string;
+    /** Overrides `codeSquad.worktreeSetupSteps` */
+    setupSteps?: SetupStep[];
+    /** AgentRegistry id of the agent to start; empty string for none */
+    agent?: string;
+    whitelistPatterns?: string[];
+}
+
+/**
+ * Keep well-formed templates from the raw setting value; the first of duplicate names wins.
+ */
+export function parseThreadTemplates(raw: unknown): ThreadTemplate[] {
+    if (!Array.isArray(raw)) return [];
+
+    const templates: ThreadTemplate[] = [];
+    for (const entry of raw) {
+        if (!entry || typeof entry.name !== 'string' || !entry.name.trim()) continue;
+        if (templates.some(t => t.name === entry.name.trim())) continue;
+
+        templates.push({
+            name: entry.name.trim(),
+            description: typeof entry.description === 'string' ? entry.description : undefined,
+            isolationMode: entry.isolationMode === 'local' || entry.isolationMode === 'worktree'
+                ? entry.isolationMode
+                : undefined,
+            branchPattern: typeof entry.branchPattern === 'string' ? entry.branchPattern : undefined,
+            worktreeCopyPatterns: Array.isArray(entry.worktreeCopyPatterns)
+                ? parseWorktreeCopyPatternConfigs(entry.worktreeCopyPatterns)
+                : undefined,
+            setupCommand: typeof entry.setupCommand === 'string' && entry.setupCommand.trim()
+                ? entry.setupCommand.trim()
+                : undefined,
+            setupSteps: Array.isArray(entry.setupSteps) ? parseSetupSteps(entry.setupSteps) : undefined,
+            agent: typeof entry.agent === 'string' ? entry.agent : undefined,
+            whitelistPatterns: stringArray(entry.whitelistPatterns),
+        });
+    }
+    return templates;
+}
+
+/**
+ * Branch name for a thread created from a template.
+ */
+export function resolveTemplateBranchName(template: ThreadTemplate | undefined, threadName: string): string {
+    const name = threadName.trim();
+    if (!template?.branchPattern) return name;
+    return template.branchPattern.replace(/\{name\}/g, name.replace(/\s+/g, '-'));
+}
+
+function stringArray(value: unknown): string[] | undefined {
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : undefined;
+}
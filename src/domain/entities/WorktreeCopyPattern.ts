@@ -0,0 +1,46 @@
+export type WorktreeCopyMode = 'copy' | 'symlink';
+
+/**
+ * Gitignored files brought from the main checkout into a new worktree.
+ * Copies are independent snapshots; symlinks always follow the main checkout.
+ */
+export interface WorktreeCopyPattern {
+    pattern: string;
+    mode: WorktreeCopyMode;
+}
+
+/**
+ * Copy pattern as written in settings: a glob string (copied)
+ * or `{ "pattern": "node_modules", "mode": "symlink" }`.
+ */
+export type WorktreeCopyPatternConfig = string | { pattern: string; mode?: WorktreeCopyMode };
+
+/**
+ * Keep well-formed entries from the raw setting value, in their settings form.
+ */
+export function parseWorktreeCopyPatternConfigs(raw: unknown): WorktreeCopyPatternConfig[] {
+    if (!Array.isArray(raw)) return [];
+    return raw.filter((entry): entry is WorktreeCopyPatternConfig =>
+        typeof entry === 'string'
+        || (!!entry && typeof entry === 'object' && typeof entry.pattern === 'string')
+    );
+}
+
+export function normalizeWorktreeCopyPatterns(configs: WorktreeCopyPatternConfig[]): WorktreeCopyPattern[] {
+    const patterns: WorktreeCopyPattern[] = [];
+    for (const config of configs) {
+        const pattern = (typeof config === 'string' ? config : config.pattern).trim();
+        if (!pattern) continue;
+        const mode = typeof config === 'object' && config.mode === 'symlink' ? 'symlink' : 'copy';
+        patterns.push({ pattern, mode });
+    }
+    return patterns;
+}
+
+/**
+ * Whether the pattern names a single path rather than a glob.
+ * Literal symlink patterns link the path itself, so directories like node_modules work.
+ */
+export function isLiteralCopyPattern(pattern: string): boolean {
+    return !/[*?[\]{}!]/.test(pattern);
+}
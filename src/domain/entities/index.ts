@@ -1,8 +1,34 @@
-export { Comment, CommentData } from './Comment';
+export { Comment, CommentData, CommentStatus, CommentReply, CommentAnchor } from './Comment';
 export { AISession, AISessionData, AIType } from './AISession';
+export {
+    AgentDefinition,
+    AgentDefinitionConfig,
+    AgentStatusPattern,
+    AgentLaunchTemplate,
+    AgentLaunchArgs,
+    AgentLaunchContext,
+} from './AgentDefinition';
+export { Checkpoint, CheckpointData } from './Checkpoint';
 export { FileSnapshot, FileSnapshotData } from './FileSnapshot';
 export { FileThreadMapping, FileThreadMappingData } from './FileThreadMapping';
 export { HNStory, HNStoryData } from './HNStory';
 export { Scope, ScopeData } from './Scope';
 export { ScopedChunk, ScopedDiffResult } from './ScopedDiff';
 export { ThreadState, ThreadStateData } from './ThreadState';
+export {
+    SetupStep,
+    RunSetupStep,
+    SymlinkSetupStep,
+    SetupStepConfig,
+    DEFAULT_SETUP_STEP_TIMEOUT_MS,
+    parseSetupSteps,
+} from './SetupStep';
+export {
+    WorktreeCopyMode,
+    WorktreeCopyPattern,
+    WorktreeCopyPatternConfig,
+    parseWorktreeCopyPatternConfigs,
+    normalizeWorktreeCopyPatterns,
+    isLiteralCopyPattern,
+} from './WorktreeCopyPattern';
+export { ThreadTemplate, parseThreadTemplates, resolveTemplateBranchName } from './ThreadTemplate';
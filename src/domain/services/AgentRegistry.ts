@@ -0,0 +1,447 @@
+import { AIType } from '../entities/AISession';
+import {
+    AgentDefinition,
+    AgentDefinitionConfig,
+    AgentStatusPattern,
+    AgentLaunchArgs,
+    AgentLaunchContext,
+    AgentLaunchTemplate,
+} from '../entities/AgentDefinition';
+
+/** Agent assumed when nothing else identifies the terminal */
+export const DEFAULT_AGENT_ID = 'claude';
+
+/**
+ * Match an executable at the start of the command line,
+ * optionally launched through a package runner (npx claude, bunx claude, ...).
+ */
+function commandMatcher(executable: string): RegExp {
+    const escaped = executable.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`^(npx\\s+|bunx\\s+|pnpx\\s+)?${escaped}(\\s|$)`, 'i');
+}
+
+function compilePatterns(sources: string[] | undefined, field: string): RegExp[] {
+    return (sources ?? []).map((source) => {
+        try {
+            return new RegExp(source, 'im');
+        } catch {
+            throw new Error(`Invalid ${field} pattern "${source}"`);
+        }
+    });
+}
+
+// Status detection rules:
+// - waiting: user input required (highest priority) - "Esc to cancel" in Claude
+// - working: "Esc to interrupt" visible (AI processing)
+// - idle: prompt ready for input
+
+const CLAUDE_STATUS_PATTERNS: AgentStatusPattern[] = [
+    {
+        status: 'waiting',
+        priority: 2,
+        patterns: [
+            /Esc to cancel/i,               // Permission dialog
+            />\s*1\.\s*Yes/i,                // Permission menu option "> 1. Yes"
+            /1\.\s*Yes,\s*allow/i,           // Confirmation menu with allow
+            /Enter to select/,
+            /\(y\/n\)/i,
+            /\[Y\/n\]/i,
+            /\[y\/N\]/i,
+            /Tab\/Arrow keys/,
+            /Press Enter to continue/,
+            /Do you want to proceed\?/i,
+            /Do you want to/i,
+        ],
+    },
+    {
+        status: 'working',
+        priority: 1,
+        patterns: [
+            /Esc to interrupt/i,
+        ],
+    },
+    {
+        status: 'idle',
+        priority: 0,
+        patterns: [
+            /^>\s*$/m,                        // Empty prompt (> ) - multiline mode
+        ],
+    },
+];
+
+// Codex: Only idle detection - output arrives in large batches, making
+// real-time working/waiting detection unreliable
+const CODEX_STATUS_PATTERNS: AgentStatusPattern[] = [
+    {
+        status: 'idle',
+        priority: 0,
+        patterns: [
+            /To get started,?\s*describe/i,   // Welcome message
+            />_\s*OpenAI\s*Codex/i,           // Header banner
+        ],
+    },
+];
+
+const GEMINI_STATUS_PATTERNS: AgentStatusPattern[] = [
+    {
+        status: 'waiting',
+        priority: 2,
+        patterns: [
+            /\(y\/n\)/i,
+            /\[Y\/n\]/i,
+            /1\.\s*Yes,\s*allow once/i,      // Gemini confirmation menu
+            /Waiting for user/i,
+            /Allow execution/i,
+            /Yes, allow/i,
+            /suggest changes/i,
+            /Enter to select/i,
+            /Press Enter/i,
+            /Do you want to/i,
+        ],
+    },
+    {
+        status: 'working',
+        priority: 1,
+        patterns: [
+            /esc to cancel/i,                 // "(esc to cancel, 1s)"
+        ],
+    },
+    {
+        status: 'idle',
+        priority: 0,
+        patterns: [
+            />\s*Type your message/i,         // Input prompt
+            /Tips for getting started/i,      // Welcome tips
+        ],
+    },
+];
+
+const AIDER_STATUS_PATTERNS: AgentStatusPattern[] = [
+    {
+        status: 'waiting',
+        priority: 2,
+        patterns: [
+            /\(Y\)es\/\(N\)o/i,               // "Add file to the chat? (Y)es/(N)o [Yes]:"
+        ],
+    },
+    {
+        status: 'idle',
+        priority: 0,
+        patterns: [
+            /^>\s*$/m,                        // Empty prompt
+        ],
+    },
+];
+
+const OPENCODE_STATUS_PATTERNS: AgentStatusPattern[] = [
+    {
+        status: 'working',
+        priority: 1,
+        patterns: [
+            /esc interrupt/i,
+        ],
+    },
+];
+
+export const GENERIC_STATUS_PATTERNS: AgentStatusPattern[] = [
+    {
+        status: 'waiting',
+        priority: 2,
+        patterns: [
+            /1\.\s*Yes,\s*allow/i,           // Confirmation menu
+            /\(y\/n\)/i,
+            /\[Y\/n\]/i,
+        ],
+    },
+    {
+        status: 'working',
+        priority: 1,
+        patterns: [
+            /Esc to interrupt/i,
+        ],
+    },
+];
+
+export const BUILTIN_AGENT_DEFINITIONS: AgentDefinition[] = [
+    {
+        id: 'claude',
+        displayName: 'Claude',
+        commandPatterns: [commandMatcher('claude'), commandMatcher('claude-code')],
+        bannerPatterns: [
+            /Claude Code/i,                   // Claude Code banner
+            /claude\.ai/i,                    // Claude domain reference
+            /Anthropic/i,                     // Anthropic reference
+            /\bclaude\b.*\bsonnet\b/i,        // Model name (claude sonnet)
+            /\bclaude\b.*\bopus\b/i,          // Model name (claude opus)
+            /\bclaude\b.*\bhaiku\b/i,         // Model name (claude haiku)
+        ],
+        statusPatterns: CLAUDE_STATUS_PATTERNS,
+        launch: { command: 'claude', args: [], worktreeArgs: [], promptArgs: ['{prompt}'] },
+    },
+    {
+        id: 'codex',
+        displayName: 'Codex',
+        commandPatterns: [commandMatcher('codex')],
+        bannerPatterns: [
+            /OpenAI\s*Codex/i,                // Codex banner
+            />_\s*OpenAI/i,                   // Codex header
+            /To get started,?\s*describe/i,   // Codex welcome
+        ],
+        statusPatterns: CODEX_STATUS_PATTERNS,
+        launch: { command: 'codex', args: [], worktreeArgs: [], promptArgs: ['{prompt}'] },
+    },
+    {
+        id: 'gemini',
+        displayName: 'Gemini',
+        commandPatterns: [
+            commandMatcher('gemini'),
+            /^npx\s+@google\/generative-ai-cli(\s|$)/i,
+            /^gcloud\s+ai\s+gemini(\s|$)/i,
+        ],
+        bannerPatterns: [
+            /Gemini CLI/i,                    // Gemini banner
+            /Tips for getting started/i,      // Gemini welcome message
+            />\s*Type your message/i,         // Gemini input prompt
+            /Gemini \d+\.\d+/i,               // Gemini version (e.g., "Gemini 2.5")
+        ],
+        statusPatterns: GEMINI_STATUS_PATTERNS,
+        launch: { command: 'gemini', args: [], worktreeArgs: [], promptArgs: ['-i', '{prompt}'] },
+    },
+    {
+        id: 'aider',
+        displayName: 'Aider',
+        commandPatterns: [commandMatcher('aider'), /^(uvx|pipx\s+run)\s+aider(-chat)?(\s|$)/i],
+        bannerPatterns: [
+            /^Aider v\d+\.\d+/m,              // "Aider v0.86.1"
+        ],
+        statusPatterns: AIDER_STATUS_PATTERNS,
+        // aider has no interactive initial prompt (--message exits after one reply)
+        launch: { command: 'aider', args: [], worktreeArgs: [] },
+    },
+    {
+        id: 'opencode',
+        displayName: 'opencode',
+        commandPatterns: [commandMatcher('opencode')],
+        bannerPatterns: [],
+        statusPatterns: OPENCODE_STATUS_PATTERNS,
+        launch: { command: 'opencode', args: [], worktreeArgs: [], promptArgs: ['--prompt', '{prompt}'] },
+    },
+    {
+        id: 'cursor-agent',
+        displayName: 'Cursor Agent',
+        commandPatterns: [commandMatcher('cursor-agent')],
+        bannerPatterns: [
+            /Cursor Agent/i,
+        ],
+        statusPatterns: [],
+        launch: { command: 'cursor-agent', args: [], worktreeArgs: [], promptArgs: ['{prompt}'] },
+    },
+];
+
+/**
+ * Build an agent definition from its settings representation.
+ * Throws if the id is missing or a pattern is not a valid regular expression.
+ */
+export function parseAgentDefinition(config: AgentDefinitionConfig): AgentDefinition {
+    const id = typeof config.id === 'string' ? config.id.trim() : '';
+    if (!id) {
+        throw new Error('Agent definition requires an id');
+    }
+
+    const statusPatterns: AgentStatusPattern[] = [];
+    const { waiting, working, idle } = config.statusPatterns ?? {};
+    if (waiting?.length) {
+        statusPatterns.push({ status: 'waiting', priority: 2, patterns: compilePatterns(waiting, 'waiting') });
+    }
+    if (working?.length) {
+        statusPatterns.push({ status: 'working', priority: 1, patterns: compilePatterns(working, 'working') });
+    }
+    if (idle?.length) {
+        statusPatterns.push({ status: 'idle', priority: 0, patterns: compilePatterns(idle, 'idle') });
+    }
+
+    const launchCommand = config.launch?.command?.trim() || config.commands?.[0];
+    const launch: AgentLaunchTemplate | undefined = launchCommand
+        ? {
+            command: launchCommand,
+            args: config.launch?.args ?? [],
+            worktreeArgs: config.launch?.worktreeArgs ?? [],
+            promptArgs: config.launch?.promptArgs,
+        }
+        : undefined;
+
+    return {
+        id,
+        displayName: config.displayName?.trim() || id,
+        commandPatterns: [
+            ...(config.commands ?? []).map(commandMatcher),
+            ...compilePatterns(config.commandPatterns, 'command'),
+        ],
+        bannerPatterns: compilePatterns(config.bannerPatterns, 'banner'),
+        statusPatterns,
+        launch,
+    };
+}
+
+/**
+ * Quote a single shell argument for POSIX shells (bash, zsh, fish).
+ * PowerShell and cmd.exe quote differently, so on Windows only arguments that
+ * need no quoting (plain words, paths, flags) reach the agent as written.
+ */
+function quoteShellArg(arg: string): string {
+    if (/^[\w@%+=:,./-]+$/.test(arg)) {
+        return arg;
+    }
+    return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+function expandArgs(templates: string[], context: AgentLaunchContext): string[] {
+    // The prompt is typed into the terminal, so it must stay on one line
+    const prompt = (context.prompt ?? '').replace(/\s*\n\s*/g, ' ').trim();
+    const values: Record<string, string> = { prompt, name: context.name, branch: context.branch ?? '' };
+    // One pass with a function, so placeholders or `$&` typed in the values stay as they are
+    return templates
+        .map(template => template.replace(/\{(prompt|name|branch)\}/g, (_, key: string) => values[key]))
+        .filter(arg => arg.length > 0);
+}
+
+/**
+ * Build the shell command line that starts an agent.
+ * The initial prompt is dropped if the agent has no prompt arguments.
+ */
+export function buildLaunchCommand(
+    launch: AgentLaunchTemplate,
+    context: AgentLaunchContext,
+    extraArgs: AgentLaunchArgs = {}
+): string {
+    const templates = [
+        ...launch.args,
+        ...(extraArgs.args ?? []),
+        ...(context.isolated ? [...launch.worktreeArgs, ...(extraArgs.worktreeArgs ?? [])] : []),
+        ...(context.prompt?.trim() && launch.promptArgs ? launch.promptArgs : []),
+    ];
+    return [launch.command, ...expandArgs(templates, context).map(quoteShellArg)].join(' ');
+}
+
+/**
+ * Reduce a command line to what command patterns are matched against:
+ * trimmed, with the directory stripped from the executable (/usr/local/bin/claude -> claude).
+ */
+function normalizeCommandLine(commandLine: string): string {
+    return commandLine.trim().replace(/^\S*\//, '');
+}
+
+/**
+ * Registry of known AI CLI agents.
+ *
+ * Definitions registered later take precedence when several match,
+ * so user-defined agents win over the built-ins.
+ */
+export class AgentRegistry {
+    private definitions: AgentDefinition[];
+    private launchArgs: Record<string, AgentLaunchArgs> = {};
+
+    constructor(private readonly builtins: AgentDefinition[] = BUILTIN_AGENT_DEFINITIONS) {
+        this.definitions = [...builtins];
+    }
+
+    /**
+     * Add a definition, replacing any existing definition with the same id.
+     */
+    register(definition: AgentDefinition): void {
+        this.definitions = this.definitions.filter(d => d.id !== definition.id);
+        this.definitions.push(definition);
+    }
+
+    /**
+     * Reset to the built-in definitions plus the given custom ones.
+     * Used when the `codeSquad.agents` setting changes.
+     */
+    setCustomDefinitions(definitions: AgentDefinition[]): void {
+        this.definitions = [...this.builtins];
+        for (const definition of definitions) {
+            this.register(definition);
+        }
+    }
+
+    /**
+     * Set user-configured launch arguments, keyed by agent id.
+     * Used when the `codeSquad.agentLaunchArgs` setting changes.
+     */
+    setLaunchArgs(launchArgs: Record<string, AgentLaunchArgs>): void {
+        this.launchArgs = { ...launchArgs };
+    }
+
+    get(id: AIType): AgentDefinition | undefined {
+        return this.definitions.find(d => d.id === id);
+    }
+
+    getAll(): AgentDefinition[] {
+        return [...this.definitions];
+    }
+
+    /**
+     * Agents that can be started from the create-thread flow.
+     */
+    getLaunchable(): AgentDefinition[] {
+        return this.definitions.filter(d => d.launch);
+    }
+
+    /**
+     * Command line that starts the agent, or null if it can't be launched.
+     */
+    buildLaunchCommand(id: AIType, context: AgentLaunchContext): string | null {
+        const launch = this.get(id)?.launch;
+        return launch ? buildLaunchCommand(launch, context, this.launchArgs[id]) : null;
+    }
+
+    getDisplayName(id: AIType): string {
+        return this.get(id)?.displayName ?? id;
+    }
+
+    getStatusPatterns(id: AIType): AgentStatusPattern[] {
+        const definition = this.get(id);
+        return definition && definition.statusPatterns.length > 0
+            ? definition.statusPatterns
+            : GENERIC_STATUS_PATTERNS;
+    }
+
+    /**
+     * Find the agent launched by a command line.
+     * Returns null if the command does not start a known agent.
+     */
+    matchCommand(commandLine: string): AIType | null {
+        const normalized = normalizeCommandLine(commandLine);
+        const match = this.byPrecedence().find(d =>
+            d.commandPatterns.some(pattern => pattern.test(normalized))
+        );
+        return match?.id ?? null;
+    }
+
+    /**
+     * Identify the agent from (ANSI-stripped) terminal output.
+     * Returns null if no banner pattern is matched.
+     */
+    detectFromOutput(output: string): AIType | null {
+        const match = this.byPrecedence().find(d =>
+            d.bannerPatterns.some(pattern => pattern.test(output))
+        );
+        return match?.id ?? null;
+    }
+
+    /**
+     * Guess the agent from a terminal or thread name by its id or display name.
+     */
+    detectFromName(name: string): AIType | null {
+        const lowerName = name.toLowerCase();
+        const match = this.byPrecedence().find(d =>
+            lowerName.includes(d.id.toLowerCase()) ||
+            lowerName.includes(d.displayName.toLowerCase())
+        );
+        return match?.id ?? null;
+    }
+
+    private byPrecedence(): AgentDefinition[] {
+        return [...this.definitions].reverse();
+    }
+}
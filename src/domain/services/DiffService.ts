@@ -1,20 +1,123 @@
-import { DiffChunk, DiffLine, DiffResult } from '../entities/Diff';
+import { CONTEXT_EXPAND_STEP, ContextExpansion, DiffChunk, DiffLine, DiffOptions, DiffResult, DiffSegment, FileOrigin } from '../entities/Diff';
 
 export interface DiffEntry {
     type: 'equal' | 'delete' | 'insert';
     line: string;
 }
 
+/** Lines of the new file, inclusive */
+export interface LineRange {
+    startLine: number;
+    endLine: number;
+}
+
+/** Where a range of old lines is in the new file */
+export interface MappedLineRange extends LineRange {
+    /** Lines of the range were edited or removed, or lines were added inside it */
+    changed: boolean;
+    /** Every line of the range was removed; the range is the line that now follows them */
+    deleted: boolean;
+}
+
+export interface PatchOptions {
+    /** Keep only changes at these lines; removed lines belong to the line that follows them */
+    lineRange?: LineRange;
+    /**
+     * Build the patch for `git apply -R` on the working tree (discard) instead of
+     * `git apply` on the original (stage). Decides which side unselected changes keep.
+     */
+    reverse?: boolean;
+}
+
+/** Below this share of unchanged text, a line pair reads as rewritten rather than edited */
+const MIN_UNCHANGED_RATIO = 0.5;
+
+/** Diff steps allowed per line pair; costlier pairs get no segments */
+const MAX_WORD_DIFF_COST = 100000;
+
+/** Files with more lines than this (old and new together) are not diffed */
+const MAX_DIFF_LINES = 200000;
+
+/**
+ * Diff steps allowed per file, so two large, mostly different files can't
+ * stall the extension host. Enough for tens of thousands of changed lines;
+ * past it, what is left of the file is diffed as replaced blocks.
+ */
+const MAX_DIFF_COST = 20000000;
+
+/** Fewest non-blank lines a block needs to be marked as moved */
+const MIN_MOVED_LINES = 3;
+
+/** Places a removed line is looked for when detecting moves; common lines like `}` recur a lot */
+const MAX_MOVE_CANDIDATES = 50;
+
+/** Leading characters checked for a NUL byte, as git does to tell binary files apart */
+const BINARY_CHECK_LENGTH = 8000;
+
+/** Common subsequence of two sequences, as index pairs in increasing order */
+type Matches = Array<[number, number]>;
+
+/** A removed or added line, and the run of changes it belongs to */
+/** Characters git writes as `\x` in a C-quoted path */
+const QUOTED_PATH_ESCAPES: Record<string, number> = {
+    a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92,
+};
+
+/**
+ * Path as git wrote it in a diff header, without the C-style quoting it uses
+ * for names with non-ASCII or special characters (e.g. `"\303\244.txt"`).
+ * Unquoted paths are returned as they are.
+ */
+export function unquoteGitPath(value: string): string {
+    if (value.length < 2 || !value.startsWith('"') || !value.endsWith('"')) {
+        return value;
+    }
+
+    // Octal escapes are single bytes of the UTF-8 name
+    const encoder = new TextEncoder();
+    const inner = value.slice(1, -1);
+    const bytes: number[] = [];
+    let i = 0;
+    while (i < inner.length) {
+        const escape = inner.indexOf('\\', i);
+        bytes.push(...encoder.encode(inner.slice(i, escape === -1 ? inner.length : escape)));
+        if (escape === -1 || escape === inner.length - 1) break;
+
+        const octal = inner.slice(escape + 1, escape + 4);
+        if (/^[0-7]{3}$/.test(octal)) {
+            bytes.push(parseInt(octal, 8));
+            i = escape + 4;
+        } else {
+            const next = inner[escape + 1];
+            bytes.push(QUOTED_PATH_ESCAPES[next] ?? next.charCodeAt(0));
+            i = escape + 2;
+        }
+    }
+    return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+interface MoveCandidate {
+    line: DiffLine;
+    run: number;
+}
+
 export class DiffService {
     /**
-     * Parse unified diff string (from git) into structured format
+     * Parse unified diff string (from git) into structured format.
+     * Whitespace is compared by whoever produced the diff; blank-line hunks
+     * and moves are handled here. Rename, copy and binary headers are kept
+     * as `origin` and `binary`.
      */
-    parseUnifiedDiff(file: string, diffText: string): DiffResult {
+    parseUnifiedDiff(file: string, diffText: string, options: DiffOptions = {}): DiffResult {
         if (!diffText || diffText.trim() === '') {
             return { file, chunks: [], stats: { additions: 0, deletions: 0 } };
         }
 
         const lines = diffText.split('\n');
+        // A diff ending in a newline leaves an empty string that is not a line
+        if (lines[lines.length - 1] === '') {
+            lines.pop();
+        }
         const chunks: DiffChunk[] = [];
         let currentChunk: DiffChunk | null = null;
         let oldLineNum = 0;
@@ -23,19 +126,48 @@ export class DiffService {
         let deletions = 0;
         let chunkAdditions = 0;
         let chunkDeletions = 0;
+        let origin: FileOrigin | undefined;
+        let similarity = 0;
+        let binary = false;
+        // Between a `diff --git` line and the next hunk. Only there are `---`/`+++`
+        // file headers; inside a hunk they are lines like a removed `-- note`.
+        let inHeader = false;
 
         for (const line of lines) {
-            // Skip git diff metadata
-            if (line.startsWith('diff --git') ||
-                line.startsWith('index ') ||
-                line.startsWith('---') ||
-                line.startsWith('+++') ||
-                line.startsWith('\\')) {
+            if (line.startsWith('diff --git')) {
+                inHeader = true;
+                continue;
+            }
+            // `\ No newline at end of file` belongs to the line before it
+            if (line.startsWith('\\')) {
+                const previous = currentChunk?.lines[currentChunk.lines.length - 1];
+                if (previous && !inHeader) {
+                    previous.noNewlineAtEnd = true;
+                }
+                continue;
+            }
+
+            // Git diff metadata and extended header lines before the first hunk
+            if ((inHeader || !currentChunk) && !line.startsWith('@@')) {
+                const similarityMatch = line.match(/^similarity index (\d+)%/);
+                const sourceMatch = line.match(/^(rename|copy) from (.+)/);
+                if (similarityMatch) {
+                    similarity = parseInt(similarityMatch[1], 10);
+                } else if (sourceMatch) {
+                    origin = {
+                        kind: sourceMatch[1] === 'rename' ? 'renamed' : 'copied',
+                        oldPath: unquoteGitPath(sourceMatch[2]),
+                        similarity: 0,
+                    };
+                } else if (/^Binary files .* differ$/.test(line) || line === 'GIT binary patch') {
+                    binary = true;
+                }
                 continue;
             }
 
             // Chunk header
             if (line.startsWith('@@')) {
+                inHeader = false;
                 if (currentChunk) {
                     currentChunk.stats = {
                         additions: chunkAdditions,
@@ -100,37 +232,87 @@ export class DiffService {
             chunks.push(currentChunk);
         }
 
-        return { file, chunks, stats: { additions, deletions } };
+        let keptChunks = chunks;
+        if (options.ignoreBlankLines) {
+            keptChunks = chunks.filter(chunk =>
+                chunk.lines.some(line => line.type !== 'context' && line.content.trim() !== '')
+            );
+            additions = keptChunks.reduce((sum, chunk) => sum + chunk.stats.additions, 0);
+            deletions = keptChunks.reduce((sum, chunk) => sum + chunk.stats.deletions, 0);
+        }
+
+        keptChunks.forEach(chunk => this.addWordSegments(chunk));
+        if (options.detectMoves) {
+            this.markMovedLines(keptChunks);
+        }
+
+        const result: DiffResult = { file, chunks: keptChunks, stats: { additions, deletions } };
+        if (origin) {
+            result.origin = { ...origin, similarity };
+        }
+        if (binary) {
+            result.binary = true;
+        }
+        return result;
+    }
+
+    /**
+     * Whether a diff has anything to show: chunks, or a file that is too
+     * large, binary, renamed or copied.
+     */
+    hasChanges(diff: DiffResult): boolean {
+        return diff.chunks.length > 0 || !!diff.tooLarge || !!diff.binary || !!diff.origin;
     }
 
     /**
-     * Generate structured diff from content comparison
+     * Generate structured diff from content comparison.
+     * Files too large to diff get no chunks and a `tooLarge` summary instead;
+     * binary files are only marked as `binary`.
      */
-    generateStructuredDiff(file: string, oldContent: string, newContent: string): DiffResult {
-        const unifiedDiff = this.generateUnifiedDiff(oldContent, newContent);
-        return this.parseUnifiedDiff(file, unifiedDiff);
+    generateStructuredDiff(
+        file: string,
+        oldContent: string,
+        newContent: string,
+        options: DiffOptions = {}
+    ): DiffResult {
+        if (this.isBinaryContent(oldContent) || this.isBinaryContent(newContent)) {
+            return oldContent === newContent
+                ? { file, chunks: [], stats: { additions: 0, deletions: 0 } }
+                : this.createBinaryDiff(file);
+        }
+
+        const unifiedDiff = this.computeUnifiedDiff(oldContent, newContent, options);
+        if (unifiedDiff === null) {
+            return {
+                file,
+                chunks: [],
+                stats: { additions: 0, deletions: 0 },
+                tooLarge: {
+                    oldLineCount: oldContent.split('\n').length,
+                    newLineCount: newContent.split('\n').length,
+                },
+            };
+        }
+        return this.parseUnifiedDiff(file, unifiedDiff, options);
     }
 
     /**
      * Generate structured diff for a new file
      */
     generateNewFileStructuredDiff(file: string, content: string): DiffResult {
+        if (this.isBinaryContent(content)) {
+            return this.createBinaryDiff(file);
+        }
         const unifiedDiff = this.generateNewFileDiff(content);
         return this.parseUnifiedDiff(file, unifiedDiff);
     }
 
-    generateUnifiedDiff(oldContent: string, newContent: string): string {
-        if (oldContent === newContent) {
-            return '';
-        }
-
-        const oldLines = oldContent.split('\n');
-        const newLines = newContent.split('\n');
-
-        const diff = this.computeDiff(oldLines, newLines);
-        if (diff.length === 0) return '';
-
-        return this.formatAsUnifiedDiff(diff);
+    /**
+     * Unified diff of two contents.
+     * Returns '' when they are equal, or too large to diff (see generateStructuredDiff).
+     */
+    generateUnifiedDiff(oldContent: string, newContent: string, options: DiffOptions = {}): string {
+        return this.computeUnifiedDiff(oldContent, newContent, options) ?? '';
     }
 
     generateNewFileDiff(content: string): string {
@@ -158,10 +340,458 @@ export class DiffService {
     }
 
     generateDeletedFileStructuredDiff(file: string, content: string): DiffResult {
+        if (this.isBinaryContent(content)) {
+            return this.createBinaryDiff(file);
+        }
         const unifiedDiff = this.generateDeletedFileDiff(content);
         return this.parseUnifiedDiff(file, unifiedDiff);
     }
 
+    /**
+     * Build a patch for `git apply` from chunks of a parsed diff.
+     * Unselected changes become context on the side the patch is applied to
+     * and are dropped from the other, so the patch still applies.
+     * Returns '' when no change is selected.
+     */
+    createPatch(file: string, chunks: DiffChunk[], options: PatchOptions = {}): string {
+        const hunks: string[] = [];
+        // Lines added minus removed by the hunks emitted so far
+        let offset = 0;
+
+        for (const chunk of chunks) {
+            const body: string[] = [];
+            let oldCount = 0;
+            let newCount = 0;
+            let hasChange = false;
+
+            for (const { line, position } of this.getPatchLines(chunk)) {
+                const selected = line.type !== 'context' && this.isInRange(position, options.lineRange);
+                if (selected) {
+                    hasChange = true;
+                    body.push(`${line.type === 'addition' ? '+' : '-'}${line.content}`);
+                    if (line.type === 'addition') newCount++; else oldCount++;
+                } else {
+                    // Unselected lines stay only if they exist on the side being patched
+                    const kept = line.type === 'context'
+                        || (line.type === 'addition' && options.reverse)
+                        || (line.type === 'deletion' && !options.reverse);
+                    if (!kept) continue;
+                    body.push(` ${line.content}`);
+                    oldCount++;
+                    newCount++;
+                }
+                if (line.noNewlineAtEnd) {
+                    body.push('\\ No newline at end of file');
+                }
+            }
+
+            if (!hasChange) continue;
+
+            const oldStart = options.reverse ? chunk.newStart - offset : chunk.oldStart;
+            const newStart = options.reverse ? chunk.newStart : chunk.oldStart + offset;
+            hunks.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n${body.join('\n')}\n`);
+            offset += newCount - oldCount;
+        }
+
+        if (hunks.length === 0) return '';
+        return `diff --git a/${file} b/${file}\n--- a/${file}\n+++ b/${file}\n${hunks.join('')}`;
+    }
+
+    /**
+     * Reveal unchanged lines of a gap between chunks as context.
+     * Gap `gap` lies before chunks[gap]; gap chunks.length follows the last chunk.
+     * Lines are taken from the new file, so the chunks keep applying as patches.
+     * Returns the chunks unchanged when the gap is empty.
+     */
+    expandContext(
+        chunks: DiffChunk[],
+        gap: number,
+        direction: ContextExpansion,
+        fileLines: string[]
+    ): DiffChunk[] {
+        const bounds = this.getGapBounds(chunks, gap, fileLines.length);
+        if (!bounds) return chunks;
+        const { start, end } = bounds;
+
+        if (chunks[gap] && direction !== 'down') {
+            const from = direction === 'all' ? start : Math.max(start, end - CONTEXT_EXPAND_STEP + 1);
+            return this.withContext(chunks, gap, 'after', from, end, fileLines);
+        }
+        if (gap > 0 && direction !== 'up') {
+            const to = direction === 'all' ? end : Math.min(end, start + CONTEXT_EXPAND_STEP - 1);
+            return this.withContext(chunks, gap, 'before', start, to, fileLines);
+        }
+        return chunks;
+    }
+
+    /**
+     * Reveal again the lines expandContext showed before the chunks were
+     * regenerated. Lines are new file line numbers; in each gap, the ones
+     * running on from the chunk before or up to the chunk after are shown.
+     */
+    revealContext(chunks: DiffChunk[], lines: ReadonlySet<number>, fileLines: string[]): DiffChunk[] {
+        let result = chunks;
+        for (let gap = 0; gap <= chunks.length; gap++) {
+            const bounds = this.getGapBounds(chunks, gap, fileLines.length);
+            if (!bounds) continue;
+            const { start, end } = bounds;
+
+            let to = start - 1;
+            while (to < end && lines.has(to + 1)) to++;
+            if (to === end) {
+                result = this.withContext(result, gap, chunks[gap] ? 'after' : 'before', start, end, fileLines);
+                continue;
+            }
+            let from = end + 1;
+            while (from > start && lines.has(from - 1)) from--;
+            if (chunks[gap]) result = this.withContext(result, gap, 'after', from, end, fileLines);
+            if (gap > 0) result = this.withContext(result, gap, 'before', start, to, fileLines);
+        }
+        return result;
+    }
+
+    /**
+     * Follow lines of the old content to the new content through their diff.
+     * Edited lines map to the lines that replaced them.
+     * Returns null when the contents are too large to diff.
+     */
+    mapLineRange(oldContent: string, newContent: string, range: LineRange): MappedLineRange | null {
+        const oldLines = oldContent.split('\n');
+        const newLines = newContent.split('\n');
+        if (oldLines.length + newLines.length > MAX_DIFF_LINES) return null;
+
+        const matches = this.findMatches(oldLines, newLines, MAX_DIFF_COST);
+
+        const start = range.startLine - 1;
+        const end = range.endLine - 1;
+        const mapped: number[] = [];
+        let changed = false;
+        let followingLine: number | null = null;
+        let oldIdx = 0;
+        let newIdx = 0;
+
+        for (const [oldMatch, newMatch] of [...matches, [oldLines.length, newLines.length]]) {
+            // Old lines oldIdx..oldMatch were replaced by new lines newIdx..newMatch
+            const removesFromRange = oldIdx < oldMatch && oldIdx <= end && oldMatch > start;
+            const addsInsideRange = oldIdx > start && oldIdx <= end && newIdx < newMatch;
+            if (removesFromRange || addsInsideRange) {
+                changed = true;
+                for (let n = newIdx; n < newMatch; n++) {
+                    mapped.push(n);
+                }
+                followingLine ??= newMatch;
+            }
+            if (oldMatch >= start && oldMatch <= end && oldMatch < oldLines.length) {
+                mapped.push(newMatch);
+            }
+            oldIdx = oldMatch + 1;
+            newIdx = newMatch + 1;
+        }
+
+        if (mapped.length === 0) {
+            const line = Math.min((followingLine ?? 0) + 1, newLines.length);
+            return { startLine: line, endLine: line, changed: true, deleted: true };
+        }
+        // Pushed in order, since the diff walks both contents forward
+        return {
+            startLine: mapped[0] + 1,
+            endLine: mapped[mapped.length - 1] + 1,
+            changed,
+            deleted: false,
+        };
+    }
+
+    /**
+     * A NUL among the first characters marks content as binary
+     */
+    private isBinaryContent(content: string): boolean {
+        return content.slice(0, BINARY_CHECK_LENGTH).includes('\0');
+    }
+
+    private createBinaryDiff(file: string): DiffResult {
+        return { file, chunks: [], stats: { additions: 0, deletions: 0 }, binary: true };
+    }
+
+    /**
+     * First line and the line after the chunk, in both files.
+     * A side without lines starts right after the line its header points at.
+     */
+    private getLineBounds(chunk: DiffChunk): { firstOld: number; nextOld: number; firstNew: number; nextNew: number } {
+        const lines = this.getHunkLines(chunk);
+        const oldCount = lines.filter(l => l.type !== 'addition').length;
+        const newCount = lines.filter(l => l.type !== 'deletion').length;
+        const firstOld = oldCount > 0 ? chunk.oldStart : chunk.oldStart + 1;
+        const firstNew = newCount > 0 ? chunk.newStart : chunk.newStart + 1;
+        return { firstOld, nextOld: firstOld + oldCount, firstNew, nextNew: firstNew + newCount };
+    }
+
+    /**
+     * New file lines hidden in a gap between chunks (inclusive), null when none are
+     */
+    private getGapBounds(chunks: DiffChunk[], gap: number, lineCount: number): { start: number; end: number } | null {
+        const before = gap > 0 ? chunks[gap - 1] : undefined;
+        const after = chunks[gap];
+        if (!before && !after) return null;
+
+        const start = before ? this.getLineBounds(before).nextNew : 1;
+        const end = after ? this.getLineBounds(after).firstNew - 1 : lineCount;
+        return start <= end ? { start, end } : null;
+    }
+
+    /**
+     * Copy of the chunks with new file lines from..to of a gap added as context
+     * to the chunk before it or after it. Returns the chunks unchanged when the
+     * range is empty.
+     */
+    private withContext(
+        chunks: DiffChunk[],
+        gap: number,
+        side: 'before' | 'after',
+        from: number,
+        to: number,
+        fileLines: string[]
+    ): DiffChunk[] {
+        const index = side === 'after' ? gap : gap - 1;
+        const chunk = chunks[index];
+        if (!chunk || from > to) return chunks;
+
+        // Unchanged lines are as far apart in both files all across the gap
+        const bounds = this.getLineBounds(chunk);
+        const delta = side === 'after' ? bounds.firstNew - bounds.firstOld : bounds.nextNew - bounds.nextOld;
+        const context: DiffLine[] = [];
+        for (let n = from; n <= to; n++) {
+            context.push({ type: 'context', content: fileLines[n - 1], oldLineNumber: n - delta, newLineNumber: n });
+        }
+
+        const result = [...chunks];
+        const hunkLines = this.getHunkLines(chunk);
+        result[index] = this.withLines(chunk, side === 'after' ? [...context, ...hunkLines] : [...hunkLines, ...context]);
+        return result;
+    }
+
+    private getHunkLines(chunk: DiffChunk): DiffLine[] {
+        return this.getPatchLines(chunk).map(({ line }) => line);
+    }
+
+    /**
+     * Copy of a chunk with new lines; starts and header counts follow them.
+     */
+    private withLines(chunk: DiffChunk, lines: DiffLine[]): DiffChunk {
+        const oldStart = lines.find(l => l.oldLineNumber !== undefined)?.oldLineNumber ?? chunk.oldStart;
+        const newStart = lines.find(l => l.newLineNumber !== undefined)?.newLineNumber ?? chunk.newStart;
+        const oldCount = lines.filter(l => l.type !== 'addition').length;
+        const newCount = lines.filter(l => l.type !== 'deletion').length;
+        // Keep the section heading git appends after the counts
+        const heading = chunk.header.replace(/^@@ [^@]* @@/, '');
+        return {
+            ...chunk,
+            oldStart,
+            newStart,
+            lines,
+            header: `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@${heading}`,
+        };
+    }
+
+    /**
+     * Chunk lines paired with their position in the new file.
+     * Lines past the counts in the chunk header (e.g. the empty line left by a
+     * trailing newline) are not part of the hunk and are skipped.
+     */
+    private getPatchLines(chunk: DiffChunk): Array<{ line: DiffLine; position: number }> {
+        const counts = chunk.header.match(/^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+        let oldLeft = counts ? parseInt(counts[1] ?? '1', 10) : Infinity;
+        let newLeft = counts ? parseInt(counts[2] ?? '1', 10) : Infinity;
+
+        const result: Array<{ line: DiffLine; position: number }> = [];
+        let nextNewLine = chunk.newStart;
+        for (const line of chunk.lines) {
+            if (oldLeft <= 0 && newLeft <= 0) break;
+            if (line.type !== 'addition') oldLeft--;
+            if (line.type !== 'deletion') newLeft--;
+
+            // A removed line sits right before the next line of the new file
+            result.push({ line, position: line.newLineNumber ?? nextNewLine });
+            if (line.newLineNumber !== undefined) {
+                nextNewLine = line.newLineNumber + 1;
+            }
+        }
+        return result;
+    }
+
+    private isInRange(position: number, range?: LineRange): boolean {
+        return !range || (position >= range.startLine && position <= range.endLine);
+    }
+
+    /**
+     * Mark what changed within edited lines.
+     * In each run of changes, the n-th removed line is paired with the n-th
+     * added line, the way a split view lines them up.
+     */
+    private addWordSegments(chunk: DiffChunk): void {
+        let deletions: DiffLine[] = [];
+        let additions: DiffLine[] = [];
+
+        const pairRun = () => {
+            const count = Math.min(deletions.length, additions.length);
+            for (let i = 0; i < count; i++) {
+                this.setWordSegments(deletions[i], additions[i]);
+            }
+            deletions = [];
+            additions = [];
+        };
+
+        for (const line of chunk.lines) {
+            if (line.type === 'deletion') {
+                deletions.push(line);
+            } else if (line.type === 'addition') {
+                additions.push(line);
+            } else {
+                pairRun();
+            }
+        }
+        pairRun();
+    }
+
+    /**
+     * Diff a line pair word by word and set the changed ranges on both lines.
+     * Pairs that share too little are left without segments.
+     */
+    private setWordSegments(oldLine: DiffLine, newLine: DiffLine): void {
+        const oldTokens = this.tokenizeWords(oldLine.content);
+        const newTokens = this.tokenizeWords(newLine.content);
+
+        const matches = this.findMatches(oldTokens, newTokens, MAX_WORD_DIFF_COST);
+        if (!matches) return;
+
+        const unchangedLength = matches.reduce((sum, [i]) => sum + oldTokens[i].length, 0);
+        const totalLength = oldLine.content.length + newLine.content.length;
+        if (totalLength === 0 || (2 * unchangedLength) / totalLength < MIN_UNCHANGED_RATIO) return;
+
+        const oldSegments = this.getChangedSegments(oldTokens, new Set(matches.map(([i]) => i)));
+        const newSegments = this.getChangedSegments(newTokens, new Set(matches.map(([, j]) => j)));
+        if (oldSegments.length === 0 && newSegments.length === 0) return;
+
+        oldLine.segments = oldSegments;
+        newLine.segments = newSegments;
+    }
+
+    /**
+     * Mark blocks of removed lines that were added back elsewhere in the file.
+     * Lines are compared without surrounding whitespace so re-indented moves
+     * count; lines replaced in place are an edit, not a move.
+     */
+    private markMovedLines(chunks: DiffChunk[]): void {
+        // A run is a stretch of changes between context lines
+        const deletions: MoveCandidate[] = [];
+        const additions: MoveCandidate[] = [];
+        let run = 0;
+        for (const chunk of chunks) {
+            run++;
+            for (const line of chunk.lines) {
+                if (line.type === 'context') {
+                    run++;
+                } else {
+                    (line.type === 'deletion' ? deletions : additions).push({ line, run });
+                }
+            }
+        }
+
+        const additionsByKey = new Map<string, number[]>();
+        additions.forEach(({ line }, index) => {
+            const key = line.content.trim();
+            const indices = additionsByKey.get(key) ?? [];
+            if (key && indices.length < MAX_MOVE_CANDIDATES) {
+                indices.push(index);
+                additionsByKey.set(key, indices);
+            }
+        });
+
+        const claimed = new Set<number>();
+        let i = 0;
+        while (i < deletions.length) {
+            let bestStart = -1;
+            let bestLength = 0;
+            for (const start of additionsByKey.get(deletions[i].line.content.trim()) ?? []) {
+                let length = 0;
+                while (this.continuesMove(deletions, additions, i, start, length, claimed)) {
+                    length++;
+                }
+                if (length > bestLength) {
+                    bestStart = start;
+                    bestLength = length;
+                }
+            }
+
+            const block = deletions.slice(i, i + bestLength);
+            if (block.filter(d => d.line.content.trim() !== '').length < MIN_MOVED_LINES) {
+                i++;
+                continue;
+            }
+
+            block.forEach((deletion, k) => {
+                const addition = additions[bestStart + k].line;
+                deletion.line.movedTo = addition.newLineNumber;
+                addition.movedFrom = deletion.line.oldLineNumber;
+                claimed.add(bestStart + k);
+            });
+            i += bestLength;
+        }
+    }
+
+    /**
+     * Whether a move starting at deletions[i] / additions[start] extends to
+     * its next line: both blocks stay contiguous and the lines still match.
+     */
+    private continuesMove(
+        deletions: MoveCandidate[],
+        additions: MoveCandidate[],
+        i: number,
+        start: number,
+        length: number,
+        claimed: Set<number>
+    ): boolean {
+        const deletion = deletions[i + length];
+        const addition = additions[start + length];
+        if (!deletion || !addition || claimed.has(start + length) || deletion.run === addition.run) {
+            return false;
+        }
+        if (
+            deletion.line.oldLineNumber !== deletions[i].line.oldLineNumber! + length ||
+            addition.line.newLineNumber !== additions[start].line.newLineNumber! + length
+        ) {
+            return false;
+        }
+        return deletion.line.content.trim() === addition.line.content.trim();
+    }
+
+    /** Words, runs of whitespace and single punctuation characters */
+    private tokenizeWords(content: string): string[] {
+        return content.match(/\w+|\s+|[^\w\s]/g) || [];
+    }
+
+    /**
+     * Ranges of the unmatched tokens, adjacent ones merged
+     */
+    private getChangedSegments(tokens: string[], matched: Set<number>): DiffSegment[] {
+        const segments: DiffSegment[] = [];
+        let offset = 0;
+
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i];
+            if (!matched.has(i)) {
+                const last = segments[segments.length - 1];
+                if (last && last.end === offset) {
+                    last.end += token.length;
+                } else {
+                    segments.push({ start: offset, end: offset + token.length });
+                }
+            }
+            offset += token.length;
+        }
+
+        return segments;
+    }
+
     private formatAsUnifiedDiff(diff: DiffEntry[]): string {
         let result = '';
         let hunkOldStart = -1;
@@ -281,69 +911,170 @@ export class DiffService {
         return result;
     }
 
-    private computeDiff(oldLines: string[], newLines: string[]): DiffEntry[] {
-        const result: DiffEntry[] = [];
-        const lcs = this.longestCommonSubsequence(oldLines, newLines);
+    /**
+     * Unified diff text, or null when the contents are too large to diff
+     */
+    private computeUnifiedDiff(oldContent: string, newContent: string, options: DiffOptions): string | null {
+        if (oldContent === newContent) {
+            return '';
+        }
+
+        const oldLines = oldContent.split('\n');
+        const newLines = newContent.split('\n');
+        if (oldLines.length + newLines.length > MAX_DIFF_LINES) return null;
+
+        const diff = this.computeDiff(oldLines, newLines, !!options.ignoreWhitespace);
+        if (diff.length === 0) return '';
+
+        return this.formatAsUnifiedDiff(diff);
+    }
 
+    /**
+     * Line entries between matched lines: deletions first, then insertions.
+     * Unchanged lines keep their new content, which may differ in whitespace.
+     */
+    private computeDiff(oldLines: string[], newLines: string[], ignoreWhitespace: boolean): DiffEntry[] {
+        const toKey = (line: string) => line.replace(/\s+/g, '');
+        const matches = ignoreWhitespace
+            ? this.findMatches(oldLines.map(toKey), newLines.map(toKey), MAX_DIFF_COST)
+            : this.findMatches(oldLines, newLines, MAX_DIFF_COST);
+
+        const result: DiffEntry[] = [];
         let oldIdx = 0;
         let newIdx = 0;
-        let lcsIdx = 0;
 
-        while (oldIdx < oldLines.length || newIdx < newLines.length) {
-            // First, output all deletions (lines in old but not in LCS at this position)
-            while (oldIdx < oldLines.length && (lcsIdx >= lcs.length || oldLines[oldIdx] !== lcs[lcsIdx])) {
+        for (const [oldMatch, newMatch] of [...matches, [oldLines.length, newLines.length]]) {
+            for (; oldIdx < oldMatch; oldIdx++) {
                 result.push({ type: 'delete', line: oldLines[oldIdx] });
-                oldIdx++;
             }
-
-            // Then, output all insertions (lines in new but not in LCS at this position)
-            while (newIdx < newLines.length && (lcsIdx >= lcs.length || newLines[newIdx] !== lcs[lcsIdx])) {
+            for (; newIdx < newMatch; newIdx++) {
                 result.push({ type: 'insert', line: newLines[newIdx] });
-                newIdx++;
             }
-
-            // Finally, if we have a match in LCS, output it as equal
-            if (lcsIdx < lcs.length && oldIdx < oldLines.length && newIdx < newLines.length &&
-                oldLines[oldIdx] === lcs[lcsIdx] && newLines[newIdx] === lcs[lcsIdx]) {
-                result.push({ type: 'equal', line: oldLines[oldIdx] });
+            if (oldIdx < oldLines.length && newIdx < newLines.length) {
+                result.push({ type: 'equal', line: newLines[newIdx] });
                 oldIdx++;
                 newIdx++;
-                lcsIdx++;
             }
         }
 
         return result;
     }
 
-    private longestCommonSubsequence(a: string[], b: string[]): string[] {
-        const m = a.length;
-        const n = b.length;
-        const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
+    /**
+     * Longest common subsequence of two sequences, with Myers' O((N+M)D)
+     * algorithm in linear space: find the middle snake of the shortest edit
+     * script, then solve the halves before and after it.
+     * Once more than `maxCost` steps were spent, the parts still unsolved are
+     * left unmatched (only their common prefix and suffix are kept), so the
+     * result is no longer minimal but still a valid diff.
+     */
+    private findMatches(a: string[], b: string[], maxCost: number): Matches {
+        const matches: Matches = [];
+        const budget = { left: maxCost };
+
+        const solve = (aLo: number, aHi: number, bLo: number, bHi: number): void => {
+            // Common prefix and suffix need no search
+            while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+                matches.push([aLo++, bLo++]);
+            }
+            let suffix = 0;
+            while (aLo < aHi - suffix && bLo < bHi - suffix && a[aHi - 1 - suffix] === b[bHi - 1 - suffix]) {
+                suffix++;
+            }
+            aHi -= suffix;
+            bHi -= suffix;
 
-        for (let i = 1; i <= m; i++) {
-            for (let j = 1; j <= n; j++) {
-                if (a[i - 1] === b[j - 1]) {
-                    dp[i][j] = dp[i - 1][j - 1] + 1;
-                } else {
-                    dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
+            // Over budget, the rest of the range is replaced as a block
+            const snake = aLo < aHi && bLo < bHi
+                ? this.findMiddleSnake(a, b, aLo, aHi, bLo, bHi, budget)
+                : null;
+            if (snake) {
+                const [x, y, u, v] = snake;
+                solve(aLo, x, bLo, y);
+                for (let k = 0; k < u - x; k++) {
+                    matches.push([x + k, y + k]);
                 }
+                solve(u, aHi, v, bHi);
             }
-        }
 
-        const result: string[] = [];
-        let i = m, j = n;
-        while (i > 0 && j > 0) {
-            if (a[i - 1] === b[j - 1]) {
-                result.unshift(a[i - 1]);
-                i--;
-                j--;
-            } else if (dp[i - 1][j] > dp[i][j - 1]) {
-                i--;
-            } else {
-                j--;
+            for (let k = 0; k < suffix; k++) {
+                matches.push([aHi + k, bHi + k]);
+            }
+        };
+
+        solve(0, a.length, 0, b.length);
+        return matches;
+    }
+
+    /**
+     * Middle snake of the shortest edit script between a[aLo..aHi) and
+     * b[bLo..bHi), searched from both ends at once.
+     * Returns its start and end as [x, y, u, v], or null when over budget.
+     */
+    private findMiddleSnake(
+        a: string[],
+        b: string[],
+        aLo: number,
+        aHi: number,
+        bLo: number,
+        bHi: number,
+        budget: { left: number }
+    ): [number, number, number, number] | null {
+        const n = aHi - aLo;
+        const m = bHi - bLo;
+        const delta = n - m;
+        const odd = (delta & 1) === 1;
+        const maxD = Math.ceil((n + m) / 2);
+        const offset = maxD + 1;
+        // Furthest x reached on each diagonal k = x - y; backward x counts from the end
+        const forward = new Int32Array(2 * maxD + 3);
+        const backward = new Int32Array(2 * maxD + 3);
+
+        for (let d = 0; d <= maxD; d++) {
+            for (let k = -d; k <= d; k += 2) {
+                let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+                    ? forward[offset + k + 1]
+                    : forward[offset + k - 1] + 1;
+                let y = x - k;
+                const startX = x;
+                const startY = y;
+                while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+                    x++;
+                    y++;
+                }
+                forward[offset + k] = x;
+                budget.left -= x - startX + 1;
+
+                const backwardK = delta - k;
+                if (odd && backwardK >= -(d - 1) && backwardK <= d - 1 && x + backward[offset + backwardK] >= n) {
+                    return [aLo + startX, bLo + startY, aLo + x, bLo + y];
+                }
+            }
+
+            for (let k = -d; k <= d; k += 2) {
+                let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+                    ? backward[offset + k + 1]
+                    : backward[offset + k - 1] + 1;
+                let y = x - k;
+                const startX = x;
+                const startY = y;
+                while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+                    x++;
+                    y++;
+                }
+                backward[offset + k] = x;
+                budget.left -= x - startX + 1;
+
+                const forwardK = delta - k;
+                if (!odd && forwardK >= -d && forwardK <= d && forward[offset + forwardK] + x >= n) {
+                    return [aLo + n - x, bLo + m - y, aLo + n - startX, bLo + m - startY];
+                }
             }
+
+            if (budget.left < 0) return null;
         }
 
-        return result;
+        // Unreachable: the searches meet by d = ceil((n + m) / 2)
+        return null;
     }
 }
@@ -1,3 +1,10 @@
-export { DiffService, DiffEntry } from './DiffService';
+export { DiffService, DiffEntry, unquoteGitPath } from './DiffService';
 export { ScopeMappingService, ScopeInfo } from './ScopeMappingService';
 export { TerminalStatusDetector, ITerminalStatusDetector } from './TerminalStatusDetector';
+export {
+    AgentRegistry,
+    BUILTIN_AGENT_DEFINITIONS,
+    DEFAULT_AGENT_ID,
+    parseAgentDefinition,
+    buildLaunchCommand,
+} from './AgentRegistry';
@@ -3,7 +3,8 @@ import * as vscode from 'vscode';
 // Domain
 import { DiffService } from './domain/services/DiffService';
 import { TerminalStatusDetector } from './domain/services/TerminalStatusDetector';
-import { AIType } from './domain/entities/AISession';
+import { AgentRegistry, parseAgentDefinition } from './domain/services/AgentRegistry';
+import { AgentDefinition, AgentDefinitionConfig, AgentLaunchArgs } from './domain/entities/AgentDefinition';
 
 // Application - Use Cases
 import { SubmitCommentsUseCase } from './application/useCases/SubmitCommentsUseCase';
@@ -11,9 +12,16 @@ import { CreateThreadUseCase } from './application/useCases/CreateThreadUseCase'
 import { AttachToWorktreeUseCase } from './application/useCases/AttachToWorktreeUseCase';
 import { ManageWhitelistUseCase } from './application/useCases/ManageWhitelistUseCase';
 import { TrackFileOwnershipUseCase } from './application/useCases/TrackFileOwnershipUseCase';
+import { GetFileConflictsUseCase } from './application/useCases/GetFileConflictsUseCase';
 import { DetectThreadStatusUseCase } from './application/useCases/DetectThreadStatusUseCase';
+import { CaptureAgentResponseUseCase } from './application/useCases/CaptureAgentResponseUseCase';
 import { DeleteThreadUseCase } from './application/useCases/DeleteThreadUseCase';
 import { OpenInEditorUseCase } from './application/useCases/OpenInEditorUseCase';
+import { MergeThreadUseCase } from './application/useCases/MergeThreadUseCase';
+import { RunWorktreeSetupUseCase } from './application/useCases/RunWorktreeSetupUseCase';
+import { SyncWorktreeFilesUseCase } from './application/useCases/SyncWorktreeFilesUseCase';
+import { RestoreThreadSessionsUseCase } from './application/useCases/RestoreThreadSessionsUseCase';
+import { ReopenThreadTerminalUseCase } from './application/useCases/ReopenThreadTerminalUseCase';
 
 // Adapters - Inbound (Controllers)
 import { AIDetectionController } from './adapters/inbound/controllers/AIDetectionController';
@@ -32,6 +40,7 @@ import {
     HNApiGateway,
     VscodeWorkspaceStateGateway,
     VscodeEditorGateway,
+    ChildProcessCommandRunnerGateway,
 } from './adapters/outbound/gateways';
 import { FetchHNStoriesUseCase } from './application/useCases/FetchHNStoriesUseCase';
 import { WORKSPACE_STATE_KEYS } from './application/ports/outbound/IWorkspaceStatePort';
@@ -39,7 +48,15 @@ import { WORKSPACE_STATE_KEYS } from './application/ports/outbound/IWorkspaceSta
 // Infrastructure - Repositories
 import { JsonCommentRepository } from './infrastructure/repositories/JsonCommentRepository';
 import { JsonThreadStateRepository } from './infrastructure/repositories/JsonThreadStateRepository';
-import { InMemoryFileThreadMappingRepository } from './infrastructure/repositories/InMemoryFileThreadMappingRepository';
+import { JsonFileThreadMappingRepository } from './infrastructure/repositories/JsonFileThreadMappingRepository';
+import { InMemorySnapshotRepository } from './infrastructure/repositories/InMemorySnapshotRepository';
+import {
+    DiskSnapshotRepository,
+    DEFAULT_DISK_SNAPSHOT_QUOTA,
+    pruneSnapshotStore,
+} from './infrastructure/repositories/DiskSnapshotRepository';
+import { ISnapshotRepository } from './application/ports/outbound/ISnapshotRepository';
+import { toCommentInfo } from './application/ports/outbound/PanelState';
 
 let extensionContext: vscode.ExtensionContext;
 
@@ -51,11 +68,17 @@ export function activate(context: vscode.ExtensionContext) {
     const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
     const commentRepository = new JsonCommentRepository(workspaceRoot);
     const threadStateRepository = new JsonThreadStateRepository(workspaceRoot);
-    const fileThreadMappingRepository = new InMemoryFileThreadMappingRepository();
+    const fileThreadMappingRepository = new JsonFileThreadMappingRepository(workspaceRoot);
+    const snapshotStorageDir = context.storageUri
+        ? vscode.Uri.joinPath(context.storageUri, 'snapshots').fsPath
+        : undefined;
 
     // ===== Domain Layer =====
     const diffService = new DiffService();
-    const terminalStatusDetector = new TerminalStatusDetector();
+    const agentRegistry = new AgentRegistry();
+    agentRegistry.setCustomDefinitions(loadCustomAgentDefinitions());
+    agentRegistry.setLaunchArgs(loadAgentLaunchArgs());
+    const terminalStatusDetector = new TerminalStatusDetector(agentRegistry);
 
     // ===== Adapters Layer - Gateways =====
     const terminalGateway = new VscodeTerminalGateway();
@@ -68,25 +91,41 @@ export function activate(context: vscode.ExtensionContext) {
     const hnApiGateway = new HNApiGateway();
     const workspaceStateGateway = new VscodeWorkspaceStateGateway(context.workspaceState);
     const editorGateway = new VscodeEditorGateway();
+    const commandRunnerGateway = new ChildProcessCommandRunnerGateway();
 
     // ===== Application Layer - Shared Use Cases =====
     const fetchHNStoriesUseCase = new FetchHNStoriesUseCase(hnApiGateway);
+    const captureAgentResponseUseCase = new CaptureAgentResponseUseCase(commentRepository);
     const submitCommentsUseCase = new SubmitCommentsUseCase(
         commentRepository,
         terminalGateway,
         notificationGateway,
         fileThreadMappingRepository,
-        threadStateRepository
+        threadStateRepository,
+        captureAgentResponseUseCase
     );
     const trackFileOwnershipUseCase = new TrackFileOwnershipUseCase(
         fileThreadMappingRepository
     );
+    const getFileConflictsUseCase = new GetFileConflictsUseCase(
+        fileThreadMappingRepository
+    );
+    const runWorktreeSetupUseCase = new RunWorktreeSetupUseCase(
+        commandRunnerGateway,
+        fileSystemGateway
+    );
+    const syncWorktreeFilesUseCase = new SyncWorktreeFilesUseCase(
+        fileSystemGateway,
+        fileGlobber
+    );
     const createThreadUseCase = new CreateThreadUseCase(
         threadStateRepository,
         terminalGateway,
         gitGateway,
         fileSystemGateway,
-        fileGlobber
+        fileGlobber,
+        agentRegistry,
+        runWorktreeSetupUseCase
     );
     const attachToWorktreeUseCase = new AttachToWorktreeUseCase(
         threadStateRepository,
@@ -101,12 +140,27 @@ export function activate(context: vscode.ExtensionContext) {
         terminalGateway,
         gitGateway,
         commentRepository,
-        detectThreadStatusUseCase
+        detectThreadStatusUseCase,
+        fileThreadMappingRepository
     );
     const openInEditorUseCase = new OpenInEditorUseCase(
         threadStateRepository,
         editorGateway
     );
+    const mergeThreadUseCase = new MergeThreadUseCase(
+        threadStateRepository,
+        gitGateway
+    );
+    const restoreThreadSessionsUseCase = new RestoreThreadSessionsUseCase(
+        threadStateRepository,
+        terminalGateway,
+        agentRegistry
+    );
+    const reopenThreadTerminalUseCase = new ReopenThreadTerminalUseCase(
+        threadStateRepository,
+        terminalGateway,
+        fileSystemGateway
+    );
 
     // ===== Adapters Layer - Controllers =====
     const aiDetectionController = new AIDetectionController(
@@ -119,6 +173,7 @@ export function activate(context: vscode.ExtensionContext) {
         submitCommentsUseCase,
         diffService,
         lspGateway,
+        agentRegistry,
         fetchHNStoriesUseCase,
         workspaceStateGateway
     );
@@ -133,6 +188,10 @@ export function activate(context: vscode.ExtensionContext) {
     aiDetectionController.setFileWatchController(fileWatchController);
     aiDetectionController.setThreadStateRepository(threadStateRepository);
     aiDetectionController.setDeleteThreadUseCase(deleteThreadUseCase);
+    aiDetectionController.setThreadRestoreUseCases(restoreThreadSessionsUseCase, reopenThreadTerminalUseCase);
+    aiDetectionController.setSnapshotRepositoryFactory(
+        (sessionKey) => createSnapshotRepository(snapshotStorageDir, sessionKey)
+    );
 
     // Thread List Controller (after AIDetectionController)
     const threadListController = new ThreadListController(
@@ -147,12 +206,20 @@ export function activate(context: vscode.ExtensionContext) {
         deleteThreadUseCase,
         threadStateRepository,
         openInEditorUseCase,
-        (terminalId) => aiDetectionController.removeSession(terminalId)
+        (terminalId) => aiDetectionController.removeSession(terminalId),
+        mergeThreadUseCase,
+        agentRegistry,
+        syncWorktreeFilesUseCase
     );
 
+    // Conflict badges show in both the panel and the thread list
+    fileWatchController.setGetFileConflictsUseCase(getFileConflictsUseCase, () => threadListController.refresh());
+
     // Connect AIDetectionController to notify ThreadListController on session changes
     aiDetectionController.setOnSessionChange(() => {
         threadListController.refresh();
+        // Threads that ended no longer conflict
+        void fileWatchController.refreshFileConflicts();
     });
 
     // Connect terminal focus to thread list selection
@@ -167,6 +234,7 @@ export function activate(context: vscode.ExtensionContext) {
         if (session) {
             const aiType = session.session.type;
             detectThreadStatusUseCase.processOutput(terminalId, aiType, data);
+            captureAgentResponseUseCase.processOutput(terminalId, data);
         }
     });
 
@@ -184,6 +252,23 @@ export function activate(context: vscode.ExtensionContext) {
             });
             detectThreadStatusUseCase.setThreadName(terminalId, threadName);
             threadListController.refresh();
+
+            // The agent finished a turn - checkpoint what it changed
+            if (currentMetadata?.status === 'working' && status === 'idle') {
+                void aiDetectionController.captureTurnCheckpoint(terminalId);
+            }
+        }
+        void captureAgentResponseUseCase.handleStatusChange(terminalId, status);
+    });
+
+    // Show the agent's response under the comments it answered, in every session that lists them
+    captureAgentResponseUseCase.onResponseCaptured((_terminalId, comments) => {
+        for (const context of aiDetectionController.getSessions().values()) {
+            for (const comment of comments) {
+                if (context.stateManager.findCommentById(comment.id)) {
+                    context.stateManager.updateComment(toCommentInfo(comment));
+                }
+            }
         }
     });
 
@@ -192,7 +277,7 @@ export function activate(context: vscode.ExtensionContext) {
         const sessions = aiDetectionController.getSessions();
         const session = sessions.get(terminalId);
         if (session && session.session.type !== detectedAIType) {
-            session.session.updateType(detectedAIType);
+            session.session.updateType(detectedAIType, agentRegistry.getDisplayName(detectedAIType));
             threadListController.refresh();
         }
     });
@@ -203,39 +288,23 @@ export function activate(context: vscode.ExtensionContext) {
         const session = sessions.get(terminalId);
         if (!session) return;
 
-        // Extract the base command (first word, ignoring paths)
-        const baseCommand = command.trim().split(/[\s/]/).pop()?.toLowerCase() ?? '';
-
-        let detectedType: AIType | null = null;
-        if (baseCommand === 'claude' || baseCommand.startsWith('claude-')) {
-            detectedType = 'claude';
-        } else if (baseCommand === 'gemini') {
-            detectedType = 'gemini';
-        } else if (baseCommand === 'codex') {
-            detectedType = 'codex';
-        }
-
+        const detectedType = agentRegistry.matchCommand(command);
         if (detectedType && session.session.type !== detectedType) {
-            session.session.updateType(detectedType);
+            session.session.updateType(detectedType, agentRegistry.getDisplayName(detectedType));
             threadListController.refresh();
         }
     });
 
-    // Detect AI CLI exit (claude, gemini, codex ended) - reset to inactive
+    // Detect AI CLI exit - reset to inactive
     terminalGateway.onCommandEnded((terminalId, command) => {
         const sessions = aiDetectionController.getSessions();
         const session = sessions.get(terminalId);
         if (!session) return;
 
-        const baseCommand = command.trim().split(/[\s/]/).pop()?.toLowerCase() ?? '';
-
-        const isAICLI = baseCommand === 'claude' || baseCommand.startsWith('claude-') ||
-                        baseCommand === 'gemini' ||
-                        baseCommand === 'codex';
-
-        if (isAICLI) {
+        if (agentRegistry.matchCommand(command)) {
             // Clear status detection state
             detectThreadStatusUseCase.clear(terminalId);
+            captureAgentResponseUseCase.clear(terminalId);
             // Reset session status to inactive
             const currentMetadata = session.session.agentMetadata;
             session.session.setAgentMetadata({
@@ -287,6 +356,16 @@ export function activate(context: vscode.ExtensionContext) {
     fileWatchController.activate(context);
     threadListController.activate(context);
 
+    // Reconnect threads to the terminals VS Code restored after a reload
+    void aiDetectionController.restoreSessions();
+
+    // Drop persisted snapshots of sessions that can no longer be restored
+    if (snapshotStorageDir) {
+        void threadStateRepository.findAll().then(threads =>
+            pruneSnapshotStore(snapshotStorageDir, threads.map(t => t.threadId))
+        );
+    }
+
     // Register createAgent command
     context.subscriptions.push(
         vscode.commands.registerCommand('codeSquad.createAgent', () => {
@@ -301,6 +380,27 @@ export function activate(context: vscode.ExtensionContext) {
     // Register controller dispose for cleanup
     context.subscriptions.push({ dispose: () => fileWatchController.dispose() });
     context.subscriptions.push({ dispose: () => threadListController.dispose() });
+    context.subscriptions.push({ dispose: () => gitGateway.dispose() });
+
+    // Reload agents, launch arguments, thread templates and copy patterns when settings change
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('codeSquad.agents')) {
+                agentRegistry.setCustomDefinitions(loadCustomAgentDefinitions());
+                threadListController.refreshCreateOptions();
+                console.log('[Code Squad] Agent definitions reloaded');
+            }
+            if (e.affectsConfiguration('codeSquad.agentLaunchArgs')) {
+                agentRegistry.setLaunchArgs(loadAgentLaunchArgs());
+            }
+            if (e.affectsConfiguration('codeSquad.threadTemplates')) {
+                threadListController.refreshCreateOptions();
+            }
+            if (e.affectsConfiguration('codeSquad.worktreeCopyPatterns')) {
+                threadListController.watchCopyPatterns();
+            }
+        })
+    );
 
     // ===== Commands =====
 
@@ -329,4 +429,53 @@ export function activate(context: vscode.ExtensionContext) {
     );
 }
 
+/**
+ * Read agent definitions from the `codeSquad.agents` setting.
+ * Invalid entries are skipped with a warning so one typo doesn't disable detection.
+ */
+function loadCustomAgentDefinitions(): AgentDefinition[] {
+    const configs = vscode.workspace
+        .getConfiguration('codeSquad')
+        .get<AgentDefinitionConfig[]>('agents', []);
+
+    const definitions: AgentDefinition[] = [];
+    for (const config of configs) {
+        try {
+            definitions.push(parseAgentDefinition(config));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.warn(`[Code Squad] Skipping agent definition "${config?.id ?? '?'}": ${message}`);
+            vscode.window.showWarningMessage(`Code Squad: invalid agent definition in codeSquad.agents (${message})`);
+        }
+    }
+    return definitions;
+}
+
+/**
+ * Read per-agent launch arguments from the `codeSquad.agentLaunchArgs` setting.
+ */
+function loadAgentLaunchArgs(): Record<string, AgentLaunchArgs> {
+    return vscode.workspace
+        .getConfiguration('codeSquad')
+        .get<Record<string, AgentLaunchArgs>>('agentLaunchArgs', {});
+}
+
+/**
+ * Create a session's snapshot store as chosen by the `codeSquad.snapshotStore` setting.
+ * The disk store lives in workspace storage, so it falls back to memory without a workspace.
+ */
+function createSnapshotRepository(storageDir: string | undefined, sessionKey: string): ISnapshotRepository {
+    const config = vscode.workspace.getConfiguration('codeSquad');
+    if (config.get<string>('snapshotStore', 'memory') !== 'disk' || !storageDir) {
+        return new InMemorySnapshotRepository();
+    }
+
+    const defaults = DEFAULT_DISK_SNAPSHOT_QUOTA;
+    return new DiskSnapshotRepository(storageDir, sessionKey, {
+        maxFiles: config.get<number>('snapshotMaxFiles', defaults.maxFiles),
+        maxFileSize: config.get<number>('snapshotMaxFileSizeKB', defaults.maxFileSize / 1024) * 1024,
+        maxTotalSize: config.get<number>('snapshotMaxTotalSizeMB', defaults.maxTotalSize / 1024 / 1024) * 1024 * 1024,
+    });
+}
+
 export function deactivate() {}
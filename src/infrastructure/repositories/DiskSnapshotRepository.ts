@@ -0,0 +1,333 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileSnapshot } from '../../domain/entities/FileSnapshot';
+import { ISnapshotRepository, SnapshotQuota, SnapshotStats } from '../../application/ports/outbound/ISnapshotRepository';
+
+export const DEFAULT_DISK_SNAPSHOT_QUOTA: SnapshotQuota = {
+    maxFiles: 1000,
+    maxFileSize: 5 * 1024 * 1024, // 5MB
+    maxTotalSize: 256 * 1024 * 1024, // 256MB
+};
+
+/**
+ * Version of the per-session index format.
+ * - v1: { version, entries }, entries in least-recently-used order
+ */
+const INDEX_FILE_VERSION = 1;
+
+/** Blobs younger than this are never collected, so a save in flight keeps its blob */
+const GC_GRACE_MS = 60 * 1000;
+
+/** Index changes wait this long for more, so a burst of saves is written once */
+const INDEX_WRITE_DELAY_MS = 500;
+
+interface SnapshotEntry {
+    relativePath: string;
+    hash: string;
+    size: number;
+    capturedAt: number;
+}
+
+interface IndexFileV1 {
+    version: number;
+    entries: SnapshotEntry[];
+}
+
+/**
+ * Snapshot store on disk, so large gitignored files and long sessions
+ * survive window reloads.
+ *
+ * Layout under the storage folder:
+ * - objects/<ab>/<sha256>: file contents, shared by every session
+ * - sessions/<key>.json: which path maps to which blob, per session
+ *
+ * Quotas apply per session; the least recently used snapshots are evicted first.
+ * Blobs no session references are removed by garbage collection.
+ * The index is written in batches (see flush); blobs are only read by findByPath.
+ */
+export class DiskSnapshotRepository implements ISnapshotRepository {
+    /** relativePath -> entry, in least-recently-used order */
+    private entries = new Map<string, SnapshotEntry>();
+    private totalSize = 0;
+    private readonly indexPath: string;
+    private indexWriteTimer: ReturnType<typeof setTimeout> | undefined;
+    /** Index writes and removals, run one after another */
+    private indexWrites: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly storageDir: string,
+        sessionKey: string,
+        private readonly quota: SnapshotQuota = DEFAULT_DISK_SNAPSHOT_QUOTA
+    ) {
+        this.indexPath = path.join(storageDir, 'sessions', `${toFileName(sessionKey)}.json`);
+        this.loadIndex();
+    }
+
+    async save(snapshot: FileSnapshot): Promise<boolean> {
+        const size = Buffer.byteLength(snapshot.content, 'utf8');
+        if (size > this.quota.maxFileSize) {
+            console.warn(
+                `[Snapshot] Skipping ${snapshot.relativePath}: size ${size} exceeds limit ${this.quota.maxFileSize}`
+            );
+            return false;
+        }
+
+        const hash = crypto.createHash('sha256').update(snapshot.content, 'utf8').digest('hex');
+        try {
+            await this.writeBlob(hash, snapshot.content);
+        } catch (error) {
+            console.error(`[Code Squad] Failed to store snapshot of ${snapshot.relativePath}`, error);
+            return false;
+        }
+
+        this.removeEntry(snapshot.relativePath);
+        const evicted = this.evictFor(size);
+        this.entries.set(snapshot.relativePath, {
+            relativePath: snapshot.relativePath,
+            hash,
+            size,
+            capturedAt: snapshot.capturedAt,
+        });
+        this.totalSize += size;
+        this.persistIndex();
+
+        if (evicted) {
+            void collectSnapshotGarbage(this.storageDir);
+        }
+        return true;
+    }
+
+    async findByPath(relativePath: string): Promise<FileSnapshot | undefined> {
+        const entry = this.entries.get(relativePath);
+        if (!entry) return undefined;
+
+        try {
+            const content = await fs.promises.readFile(this.blobPath(entry.hash), 'utf8');
+            this.touch(entry);
+            return new FileSnapshot({ relativePath, content, capturedAt: entry.capturedAt });
+        } catch (error) {
+            // Blob removed outside the extension - forget the snapshot
+            console.warn(`[Code Squad] Snapshot of ${relativePath} is missing on disk`, error);
+            this.removeEntry(relativePath);
+            this.persistIndex();
+            return undefined;
+        }
+    }
+
+    has(relativePath: string): boolean {
+        return this.entries.has(relativePath);
+    }
+
+    clear(): void {
+        if (this.entries.size === 0) return;
+
+        this.entries.clear();
+        this.totalSize = 0;
+        this.cancelIndexWrite();
+        this.queueIndexWrite(async () => {
+            try {
+                await fs.promises.rm(this.indexPath, { force: true });
+            } catch (error) {
+                console.error('[Code Squad] Failed to remove snapshot index', error);
+            }
+            await collectSnapshotGarbage(this.storageDir);
+        });
+    }
+
+    getPaths(): string[] {
+        return Array.from(this.entries.keys());
+    }
+
+    getStats(): SnapshotStats {
+        return {
+            count: this.entries.size,
+            totalSize: this.totalSize,
+        };
+    }
+
+    async flush(): Promise<void> {
+        if (this.indexWriteTimer) {
+            this.cancelIndexWrite();
+            this.queueIndexWrite(() => this.writeIndex());
+        }
+        await this.indexWrites;
+    }
+
+    /**
+     * Evict least recently used snapshots until a new one of `size` bytes fits.
+     * Returns whether anything was evicted.
+     */
+    private evictFor(size: number): boolean {
+        let evicted = false;
+        for (const entry of this.entries.values()) {
+            const fits = this.entries.size < this.quota.maxFiles
+                && this.totalSize + size <= this.quota.maxTotalSize;
+            if (fits) break;
+            this.removeEntry(entry.relativePath);
+            evicted = true;
+        }
+        return evicted;
+    }
+
+    private removeEntry(relativePath: string): void {
+        const entry = this.entries.get(relativePath);
+        if (entry) {
+            this.entries.delete(relativePath);
+            this.totalSize -= entry.size;
+        }
+    }
+
+    private touch(entry: SnapshotEntry): void {
+        // Re-insert so the most recently used entry is last
+        this.entries.delete(entry.relativePath);
+        this.entries.set(entry.relativePath, entry);
+    }
+
+    private blobPath(hash: string): string {
+        return path.join(this.storageDir, 'objects', hash.slice(0, 2), hash);
+    }
+
+    private async writeBlob(hash: string, content: string): Promise<void> {
+        const blobPath = this.blobPath(hash);
+        try {
+            // Content-addressed: an existing blob already has this content
+            const now = new Date();
+            await fs.promises.utimes(blobPath, now, now);
+            return;
+        } catch {
+            // Not stored yet
+        }
+
+        await fs.promises.mkdir(path.dirname(blobPath), { recursive: true });
+        const tempPath = `${blobPath}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+        await fs.promises.writeFile(tempPath, content, 'utf8');
+        await fs.promises.rename(tempPath, blobPath);
+    }
+
+    /** Read once when the session opens; has() and getStats() answer from it right away */
+    private loadIndex(): void {
+        if (!fs.existsSync(this.indexPath)) {
+            return;
+        }
+
+        try {
+            const file = JSON.parse(fs.readFileSync(this.indexPath, 'utf8')) as Partial<IndexFileV1>;
+            if (!Array.isArray(file.entries) || (file.version ?? 0) > INDEX_FILE_VERSION) {
+                throw new Error('Unrecognized snapshot index format');
+            }
+            for (const entry of file.entries) {
+                this.entries.set(entry.relativePath, entry);
+                this.totalSize += entry.size;
+            }
+        } catch (e) {
+            console.error('[Code Squad] Failed to load snapshot index', e);
+        }
+    }
+
+    /** Write the index after INDEX_WRITE_DELAY_MS, or on flush */
+    private persistIndex(): void {
+        if (this.indexWriteTimer) return;
+        this.indexWriteTimer = setTimeout(() => {
+            this.indexWriteTimer = undefined;
+            this.queueIndexWrite(() => this.writeIndex());
+        }, INDEX_WRITE_DELAY_MS);
+    }
+
+    private cancelIndexWrite(): void {
+        clearTimeout(this.indexWriteTimer);
+        this.indexWriteTimer = undefined;
+    }
+
+    private queueIndexWrite(write: () => Promise<void>): void {
+        this.indexWrites = this.indexWrites.then(write);
+    }
+
+    /** Entries as they are when the write runs; renamed into place so readers never see half a file */
+    private async writeIndex(): Promise<void> {
+        try {
+            await fs.promises.mkdir(path.dirname(this.indexPath), { recursive: true });
+            const data: IndexFileV1 = {
+                version: INDEX_FILE_VERSION,
+                entries: Array.from(this.entries.values()),
+            };
+            const tempPath = `${this.indexPath}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+            await fs.promises.writeFile(tempPath, JSON.stringify(data));
+            await fs.promises.rename(tempPath, this.indexPath);
+        } catch (e) {
+            console.error('[Code Squad] Failed to save snapshot index', e);
+        }
+    }
+}
+
+/**
+ * Drop the indexes of sessions that no longer exist, then remove unreferenced blobs.
+ * Run on activation with the keys of sessions that may still be restored.
+ */
+export async function pruneSnapshotStore(storageDir: string, keepSessionKeys: string[]): Promise<void> {
+    const sessionsDir = path.join(storageDir, 'sessions');
+    const keep = new Set(keepSessionKeys.map(key => `${toFileName(key)}.json`));
+
+    try {
+        for (const name of await readDirOrEmpty(sessionsDir)) {
+            if (!keep.has(name)) {
+                await fs.promises.rm(path.join(sessionsDir, name), { force: true });
+            }
+        }
+        await collectSnapshotGarbage(storageDir);
+    } catch (error) {
+        console.error('[Code Squad] Failed to prune snapshot store', error);
+    }
+}
+
+/**
+ * Remove blobs that no session index references.
+ * Safe to run while other sessions are saving thanks to the grace period.
+ */
+async function collectSnapshotGarbage(storageDir: string): Promise<number> {
+    const referenced = new Set<string>();
+    const sessionsDir = path.join(storageDir, 'sessions');
+    for (const name of await readDirOrEmpty(sessionsDir)) {
+        // Skip indexes still being written
+        if (!name.endsWith('.json')) continue;
+        try {
+            const file = JSON.parse(await fs.promises.readFile(path.join(sessionsDir, name), 'utf8')) as IndexFileV1;
+            file.entries?.forEach(entry => referenced.add(entry.hash));
+        } catch {
+            // Can't tell which blobs are in use - skip this pass
+            return 0;
+        }
+    }
+
+    let removed = 0;
+    const objectsDir = path.join(storageDir, 'objects');
+    const cutoff = Date.now() - GC_GRACE_MS;
+    for (const prefix of await readDirOrEmpty(objectsDir)) {
+        for (const hash of await readDirOrEmpty(path.join(objectsDir, prefix))) {
+            if (referenced.has(hash)) continue;
+            const blobPath = path.join(objectsDir, prefix, hash);
+            try {
+                const stat = await fs.promises.stat(blobPath);
+                if (stat.mtimeMs < cutoff) {
+                    await fs.promises.rm(blobPath, { force: true });
+                    removed++;
+                }
+            } catch {
+                // Removed concurrently
+            }
+        }
+    }
+    return removed;
+}
+
+async function readDirOrEmpty(dirPath: string): Promise<string[]> {
+    try {
+        return await fs.promises.readdir(dirPath);
+    } catch {
+        return [];
+    }
+}
+
+function toFileName(sessionKey: string): string {
+    return sessionKey.replace(/[^A-Za-z0-9._-]/g, '_');
+}
@@ -0,0 +1,37 @@
+import { Checkpoint } from '../../domain/entities/Checkpoint';
+import { ICheckpointRepository } from '../../application/ports/outbound/ICheckpointRepository';
+
+const MAX_CHECKPOINT_COUNT = 50;
+
+/**
+ * Per-session checkpoints, kept in memory.
+ * When full, the oldest turn is dropped; turn 0 (the session start) is always kept
+ * because later checkpoints fall back to it for files they don't track.
+ */
+export class InMemoryCheckpointRepository implements ICheckpointRepository {
+    private checkpoints = new Map<number, Checkpoint>();
+
+    constructor(private readonly maxCount: number = MAX_CHECKPOINT_COUNT) {}
+
+    async save(checkpoint: Checkpoint): Promise<void> {
+        this.checkpoints.set(checkpoint.turn, checkpoint);
+
+        while (this.checkpoints.size > this.maxCount) {
+            const oldest = this.findAll().find(c => c.turn !== 0);
+            if (!oldest) break;
+            this.checkpoints.delete(oldest.turn);
+        }
+    }
+
+    async findByTurn(turn: number): Promise<Checkpoint | undefined> {
+        return this.checkpoints.get(turn);
+    }
+
+    findAll(): Checkpoint[] {
+        return Array.from(this.checkpoints.values()).sort((a, b) => a.turn - b.turn);
+    }
+
+    clear(): void {
+        this.checkpoints.clear();
+    }
+}
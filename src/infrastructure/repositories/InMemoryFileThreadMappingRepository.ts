@@ -2,20 +2,35 @@ import { FileThreadMapping } from '../../domain/entities/FileThreadMapping';
 import { IFileThreadMappingRepository } from '../../application/ports/outbound/IFileThreadMappingRepository';
 
 export class InMemoryFileThreadMappingRepository implements IFileThreadMappingRepository {
-    private mappings = new Map<string, FileThreadMapping>();
+    /** filePath -> threadId -> mapping, in order of last modification */
+    private mappings = new Map<string, Map<string, FileThreadMapping>>();
 
     async save(mapping: FileThreadMapping): Promise<void> {
-        this.mappings.set(mapping.filePath, mapping);
+        let byThread = this.mappings.get(mapping.filePath);
+        if (!byThread) {
+            byThread = new Map();
+            this.mappings.set(mapping.filePath, byThread);
+        }
+        // Re-insert so the latest modifier is last
+        byThread.delete(mapping.threadId);
+        byThread.set(mapping.threadId, mapping);
     }
 
     async findByFilePath(filePath: string): Promise<FileThreadMapping | null> {
-        return this.mappings.get(filePath) ?? null;
+        const byThread = this.mappings.get(filePath);
+        if (!byThread) return null;
+        return Array.from(byThread.values()).pop() ?? null;
+    }
+
+    async findAllByFilePath(filePath: string): Promise<FileThreadMapping[]> {
+        return Array.from(this.mappings.get(filePath)?.values() ?? []);
     }
 
     async findByThreadId(threadId: string): Promise<FileThreadMapping[]> {
         const results: FileThreadMapping[] = [];
-        for (const mapping of this.mappings.values()) {
-            if (mapping.threadId === threadId) {
+        for (const byThread of this.mappings.values()) {
+            const mapping = byThread.get(threadId);
+            if (mapping) {
                 results.push(mapping);
             }
         }
@@ -23,13 +38,30 @@ export class InMemoryFileThreadMappingRepository implements IFileThreadMappingRe
     }
 
     async findAll(): Promise<FileThreadMapping[]> {
-        return Array.from(this.mappings.values());
+        const results: FileThreadMapping[] = [];
+        for (const byThread of this.mappings.values()) {
+            results.push(...byThread.values());
+        }
+        return results;
     }
 
     async delete(filePath: string): Promise<boolean> {
         return this.mappings.delete(filePath);
     }
 
+    async deleteByThreadId(threadId: string): Promise<number> {
+        let count = 0;
+        for (const [filePath, byThread] of this.mappings) {
+            if (byThread.delete(threadId)) {
+                count++;
+                if (byThread.size === 0) {
+                    this.mappings.delete(filePath);
+                }
+            }
+        }
+        return count;
+    }
+
     async clear(): Promise<void> {
         this.mappings.clear();
     }
@@ -60,8 +60,8 @@ export class InMemorySnapshotRepository implements ISnapshotRepository {
         this.accessOrder = [];
     }
 
-    getAll(): Map<string, FileSnapshot> {
-        return new Map(this.snapshots);
+    getPaths(): string[] {
+        return Array.from(this.snapshots.keys());
     }
 
     getStats(): SnapshotStats {
@@ -74,4 +74,8 @@ export class InMemorySnapshotRepository implements ISnapshotRepository {
             totalSize,
         };
     }
+
+    async flush(): Promise<void> {
+        // Nothing is written anywhere
+    }
 }
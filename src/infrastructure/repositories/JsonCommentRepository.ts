@@ -3,9 +3,58 @@ import * as path from 'path';
 import { Comment, CommentData } from '../../domain/entities/Comment';
 import { ICommentRepository } from '../../application/ports/outbound/ICommentRepository';
 
+/**
+ * Version of the code-squad-comments.json format.
+ * - v1: bare array of single comments
+ * - v2: { version, comments }, comments carry a status and replies
+ */
+const COMMENT_FILE_VERSION = 2;
+
+interface CommentFileV2 {
+    version: number;
+    comments: CommentData[];
+}
+
+/**
+ * Upgrade a parsed comments file of any known version to the current data.
+ * Comments from before threads existed become open threads without replies.
+ */
+export function migrateCommentFile(raw: unknown): { comments: CommentData[]; migrated: boolean } {
+    if (Array.isArray(raw)) {
+        return { comments: raw.map(normalizeCommentData), migrated: true };
+    }
+
+    const file = raw as Partial<CommentFileV2> | null;
+    if (!file || !Array.isArray(file.comments)) {
+        throw new Error('Unrecognized comments file format');
+    }
+    if ((file.version ?? 0) > COMMENT_FILE_VERSION) {
+        throw new Error(`Comments file version ${file.version} is newer than supported (${COMMENT_FILE_VERSION})`);
+    }
+
+    return {
+        comments: file.comments.map(normalizeCommentData),
+        migrated: file.version !== COMMENT_FILE_VERSION,
+    };
+}
+
+function normalizeCommentData(data: CommentData): CommentData {
+    return {
+        ...data,
+        codeContext: typeof data.codeContext === 'string' ? data.codeContext : '',
+        status: data.status ?? 'open',
+        replies: Array.isArray(data.replies) ? data.replies : [],
+    };
+}
+
 export class JsonCommentRepository implements ICommentRepository {
     private comments: Comment[] = [];
     private storagePath: string | undefined;
+    /**
+     * Set when the file exists but can't be loaded, e.g. one written by a newer
+     * version. It is then left alone instead of overwritten with this session's comments.
+     */
+    private readOnly = false;
 
     constructor(workspaceRoot: string | undefined) {
         if (workspaceRoot) {
@@ -38,7 +87,7 @@ export class JsonCommentRepository implements ICommentRepository {
     }
 
     async findActive(): Promise<Comment[]> {
-        return this.comments.filter(c => !c.isSubmitted);
+        return this.comments.filter(c => c.isPending);
     }
 
     async findByThreadId(threadId: string): Promise<Comment[]> {
@@ -46,7 +95,7 @@ export class JsonCommentRepository implements ICommentRepository {
     }
 
     async findActiveByThreadId(threadId: string): Promise<Comment[]> {
-        return this.comments.filter(c => c.threadId === threadId && !c.isSubmitted);
+        return this.comments.filter(c => c.threadId === threadId && c.isPending);
     }
 
     async markAsSubmitted(ids: string[]): Promise<void> {
@@ -72,6 +121,17 @@ export class JsonCommentRepository implements ICommentRepository {
         return updated;
     }
 
+    async replace(comment: Comment): Promise<boolean> {
+        const index = this.comments.findIndex(c => c.id === comment.id);
+        if (index === -1) {
+            return false;
+        }
+
+        this.comments[index] = comment;
+        this.persistComments();
+        return true;
+    }
+
     async delete(id: string): Promise<boolean> {
         const index = this.comments.findIndex(c => c.id === id);
         if (index === -1) {
@@ -102,17 +162,26 @@ export class JsonCommentRepository implements ICommentRepository {
 
         try {
             const data = fs.readFileSync(filePath, 'utf8');
-            const parsed: CommentData[] = JSON.parse(data);
-            this.comments = parsed.map(d => new Comment(d));
+            const { comments, migrated } = migrateCommentFile(JSON.parse(data));
+            this.comments = comments.map(d => new Comment(d));
+
+            // Rewrite older formats so the file is upgraded once
+            if (migrated) {
+                this.persistComments();
+            }
         } catch (e) {
-            console.error('[Code Squad] Failed to load comments', e);
+            this.readOnly = true;
+            console.error('[Code Squad] Failed to load comments; changes will not be saved', e);
         }
     }
 
     private persistComments(): void {
-        if (this.storagePath) {
+        if (this.storagePath && !this.readOnly) {
             try {
-                const data = this.comments.map(c => c.toData());
+                const data: CommentFileV2 = {
+                    version: COMMENT_FILE_VERSION,
+                    comments: this.comments.map(c => c.toData()),
+                };
                 fs.writeFileSync(this.storagePath, JSON.stringify(data, null, 2));
             } catch (e) {
                 console.error('[Code Squad] Failed to save comments', e);
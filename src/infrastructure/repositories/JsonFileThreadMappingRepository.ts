@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileThreadMapping, FileThreadMappingData } from '../../domain/entities/FileThreadMapping';
+import { IFileThreadMappingRepository } from '../../application/ports/outbound/IFileThreadMappingRepository';
+
+/**
+ * Version of the code-squad-file-owners.json format.
+ * - v1: { version, mappings }, mappings ordered by last modification
+ */
+const MAPPING_FILE_VERSION = 1;
+
+interface MappingFileV1 {
+    version: number;
+    mappings: FileThreadMappingData[];
+}
+
+/**
+ * Validate a parsed mappings file and return its well-formed entries.
+ */
+export function migrateFileThreadMappingFile(raw: unknown): FileThreadMappingData[] {
+    const file = raw as Partial<MappingFileV1> | null;
+    if (!file || !Array.isArray(file.mappings)) {
+        throw new Error('Unrecognized file owners format');
+    }
+    if ((file.version ?? 0) > MAPPING_FILE_VERSION) {
+        throw new Error(`File owners version ${file.version} is newer than supported (${MAPPING_FILE_VERSION})`);
+    }
+
+    return file.mappings.filter(m =>
+        !!m && typeof m.filePath === 'string' && typeof m.threadId === 'string'
+    ).map(m => ({
+        filePath: m.filePath,
+        threadId: m.threadId,
+        lastModifiedAt: typeof m.lastModifiedAt === 'number' ? m.lastModifiedAt : 0,
+    }));
+}
+
+/**
+ * File ownership that survives window reloads.
+ * Without a workspace it keeps mappings in memory only.
+ */
+export class JsonFileThreadMappingRepository implements IFileThreadMappingRepository {
+    /** filePath -> threadId -> mapping, in order of last modification */
+    private mappings = new Map<string, Map<string, FileThreadMapping>>();
+    private storagePath: string | undefined;
+    /**
+     * Set when the file exists but can't be loaded, e.g. one written by a newer
+     * version. It is then left alone instead of overwritten with this session's mappings.
+     */
+    private readOnly = false;
+    /** Last write started or waiting; writes run one at a time off the extension host thread */
+    private writing: Promise<void> = Promise.resolve();
+    /** A write is waiting for the running one, and will pick up later changes too */
+    private writeQueued = false;
+
+    constructor(workspaceRoot: string | undefined) {
+        if (workspaceRoot) {
+            const vscodeDir = path.join(workspaceRoot, '.vscode');
+            if (!fs.existsSync(vscodeDir)) {
+                fs.mkdirSync(vscodeDir);
+            }
+            this.storagePath = path.join(vscodeDir, 'code-squad-file-owners.json');
+            this.loadMappings();
+        }
+    }
+
+    async save(mapping: FileThreadMapping): Promise<void> {
+        this.insert(mapping);
+        await this.persistMappings();
+    }
+
+    async findByFilePath(filePath: string): Promise<FileThreadMapping | null> {
+        const byThread = this.mappings.get(filePath);
+        if (!byThread) return null;
+        return Array.from(byThread.values()).pop() ?? null;
+    }
+
+    async findAllByFilePath(filePath: string): Promise<FileThreadMapping[]> {
+        return Array.from(this.mappings.get(filePath)?.values() ?? []);
+    }
+
+    async findByThreadId(threadId: string): Promise<FileThreadMapping[]> {
+        const results: FileThreadMapping[] = [];
+        for (const byThread of this.mappings.values()) {
+            const mapping = byThread.get(threadId);
+            if (mapping) {
+                results.push(mapping);
+            }
+        }
+        return results;
+    }
+
+    async findAll(): Promise<FileThreadMapping[]> {
+        return this.allMappings();
+    }
+
+    async delete(filePath: string): Promise<boolean> {
+        const deleted = this.mappings.delete(filePath);
+        if (deleted) {
+            await this.persistMappings();
+        }
+        return deleted;
+    }
+
+    async deleteByThreadId(threadId: string): Promise<number> {
+        let count = 0;
+        for (const [filePath, byThread] of this.mappings) {
+            if (byThread.delete(threadId)) {
+                count++;
+                if (byThread.size === 0) {
+                    this.mappings.delete(filePath);
+                }
+            }
+        }
+        if (count > 0) {
+            await this.persistMappings();
+        }
+        return count;
+    }
+
+    async clear(): Promise<void> {
+        this.mappings.clear();
+        await this.persistMappings();
+    }
+
+    private insert(mapping: FileThreadMapping): void {
+        let byThread = this.mappings.get(mapping.filePath);
+        if (!byThread) {
+            byThread = new Map();
+            this.mappings.set(mapping.filePath, byThread);
+        }
+        // Re-insert so the latest modifier is last
+        byThread.delete(mapping.threadId);
+        byThread.set(mapping.threadId, mapping);
+    }
+
+    private loadMappings(): void {
+        if (!this.storagePath || !fs.existsSync(this.storagePath)) {
+            return;
+        }
+
+        try {
+            const data = fs.readFileSync(this.storagePath, 'utf8');
+            const mappings = migrateFileThreadMappingFile(JSON.parse(data));
+            mappings.forEach(d => this.insert(FileThreadMapping.fromData(d)));
+        } catch (e) {
+            this.readOnly = true;
+            console.error('[Code Squad] Failed to load file owners; changes will not be saved', e);
+        }
+    }
+
+    /**
+     * Ownership changes on every file save, so writes are asynchronous and
+     * changes made while one runs are saved together by the next.
+     */
+    private persistMappings(): Promise<void> {
+        const storagePath = this.storagePath;
+        if (!storagePath || this.readOnly) return Promise.resolve();
+        if (this.writeQueued) return this.writing;
+
+        this.writeQueued = true;
+        this.writing = this.writing.then(async () => {
+            this.writeQueued = false;
+            try {
+                const data: MappingFileV1 = {
+                    version: MAPPING_FILE_VERSION,
+                    mappings: this.allMappings().map(m => m.toData()),
+                };
+                await fs.promises.writeFile(storagePath, JSON.stringify(data, null, 2));
+            } catch (e) {
+                console.error('[Code Squad] Failed to save file owners', e);
+            }
+        });
+        return this.writing;
+    }
+
+    /** Each file's modifiers stay in modification order, so a reload restores it */
+    private allMappings(): FileThreadMapping[] {
+        const results: FileThreadMapping[] = [];
+        for (const byThread of this.mappings.values()) {
+            results.push(...byThread.values());
+        }
+        return results;
+    }
+}
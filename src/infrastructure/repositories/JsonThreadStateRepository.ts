@@ -3,9 +3,57 @@ import * as path from 'path';
 import { ThreadState, ThreadStateData } from '../../domain/entities/ThreadState';
 import { IThreadStateRepository } from '../../application/ports/outbound/IThreadStateRepository';
 
+/**
+ * Version of the code-squad-threads.json format.
+ * - v1: bare array of ThreadStateData
+ * - v2: { version, threads }, threads may record baseBranch / baseCommit
+ */
+const THREAD_FILE_VERSION = 2;
+
+interface ThreadFileV2 {
+    version: number;
+    threads: ThreadStateData[];
+}
+
+/**
+ * Upgrade a parsed threads file of any known version to the current data.
+ * Older entries are normalized so missing fields get their defaults.
+ */
+export function migrateThreadFile(raw: unknown): { threads: ThreadStateData[]; migrated: boolean } {
+    if (Array.isArray(raw)) {
+        return { threads: raw.map(normalizeThreadData), migrated: true };
+    }
+
+    const file = raw as Partial<ThreadFileV2> | null;
+    if (!file || !Array.isArray(file.threads)) {
+        throw new Error('Unrecognized threads file format');
+    }
+    if ((file.version ?? 0) > THREAD_FILE_VERSION) {
+        throw new Error(`Threads file version ${file.version} is newer than supported (${THREAD_FILE_VERSION})`);
+    }
+
+    return {
+        threads: file.threads.map(normalizeThreadData),
+        migrated: file.version !== THREAD_FILE_VERSION,
+    };
+}
+
+function normalizeThreadData(data: ThreadStateData): ThreadStateData {
+    return {
+        ...data,
+        whitelistPatterns: Array.isArray(data.whitelistPatterns) ? data.whitelistPatterns : [],
+        createdAt: typeof data.createdAt === 'number' ? data.createdAt : 0,
+    };
+}
+
 export class JsonThreadStateRepository implements IThreadStateRepository {
     private threads: ThreadState[] = [];
     private storagePath: string | undefined;
+    /**
+     * Set when the file exists but can't be loaded, e.g. one written by a newer
+     * version. It is then left alone instead of overwritten with this session's threads.
+     */
+    private readOnly = false;
 
     constructor(workspaceRoot: string | undefined) {
         if (workspaceRoot) {
@@ -69,6 +117,26 @@ export class JsonThreadStateRepository implements IThreadStateRepository {
         this.persistThreads();
     }
 
+    async updateBase(threadId: string, baseCommit: string, baseBranch?: string): Promise<void> {
+        const thread = this.threads.find(t => t.threadId === threadId);
+        if (!thread) {
+            return;
+        }
+
+        thread.recordBase(baseCommit, baseBranch);
+        this.persistThreads();
+    }
+
+    async updateTerminalId(threadId: string, terminalId: string): Promise<void> {
+        const thread = this.threads.find(t => t.threadId === threadId);
+        if (!thread) {
+            return;
+        }
+
+        thread.reassignTerminal(terminalId);
+        this.persistThreads();
+    }
+
     private loadThreads(): void {
         if (!this.storagePath || !fs.existsSync(this.storagePath)) {
             return;
@@ -76,17 +144,26 @@ export class JsonThreadStateRepository implements IThreadStateRepository {
 
         try {
             const data = fs.readFileSync(this.storagePath, 'utf8');
-            const parsed: ThreadStateData[] = JSON.parse(data);
-            this.threads = parsed.map(d => ThreadState.fromData(d));
+            const { threads, migrated } = migrateThreadFile(JSON.parse(data));
+            this.threads = threads.map(d => ThreadState.fromData(d));
+
+            // Rewrite older formats so the file is upgraded once
+            if (migrated) {
+                this.persistThreads();
+            }
         } catch (e) {
-            console.error('[Code Squad] Failed to load threads', e);
+            this.readOnly = true;
+            console.error('[Code Squad] Failed to load threads; changes will not be saved', e);
         }
     }
 
     private persistThreads(): void {
-        if (this.storagePath) {
+        if (this.storagePath && !this.readOnly) {
             try {
-                const data = this.threads.map(t => t.toData());
+                const data: ThreadFileV2 = {
+                    version: THREAD_FILE_VERSION,
+                    threads: this.threads.map(t => t.toData()),
+                };
                 fs.writeFileSync(this.storagePath, JSON.stringify(data, null, 2));
             } catch (e) {
                 console.error('[Code Squad] Failed to save threads', e);
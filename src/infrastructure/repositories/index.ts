@@ -1,4 +1,7 @@
 export { JsonCommentRepository } from './JsonCommentRepository';
 export { InMemorySnapshotRepository } from './InMemorySnapshotRepository';
+export { InMemoryCheckpointRepository } from './InMemoryCheckpointRepository';
 export { InMemoryFileThreadMappingRepository } from './InMemoryFileThreadMappingRepository';
 export { JsonThreadStateRepository } from './JsonThreadStateRepository';
+export { JsonFileThreadMappingRepository } from './JsonFileThreadMappingRepository';
+export { DiskSnapshotRepository } from './DiskSnapshotRepository';
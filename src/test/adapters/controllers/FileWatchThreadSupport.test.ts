@@ -126,6 +126,14 @@ class MockThreadStateRepository implements IThreadStateRepository {
         }
     }
 
+    async updateBase(_threadId: string, _baseCommit: string, _baseBranch?: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async updateTerminalId(_threadId: string, _terminalId: string): Promise<void> {
+        // Not needed for tests
+    }
+
     // Test helper
     clear(): void {
         this.states.clear();
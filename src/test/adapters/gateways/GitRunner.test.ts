@@ -0,0 +1,149 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitRunner, GitCommandError } from '../../../adapters/outbound/gateways/GitRunner';
+
+suite('GitRunner', () => {
+    let repoDir: string;
+    let runner: GitRunner;
+
+    /** Alias that keeps git running until it is stopped */
+    const SLOW = ['-c', 'alias.wait=!sleep 5', 'wait'];
+
+    async function assertRejectsWith(promise: Promise<unknown>, kind: string): Promise<GitCommandError> {
+        try {
+            await promise;
+        } catch (error) {
+            assert.ok(error instanceof GitCommandError, `expected GitCommandError, got ${error}`);
+            assert.strictEqual(error.kind, kind);
+            return error;
+        }
+        assert.fail(`expected the command to fail with '${kind}'`);
+    }
+
+    setup(async () => {
+        repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'code-squad-git-runner-'));
+        runner = new GitRunner();
+        await runner.run(['init', '-q'], { cwd: repoDir });
+    });
+
+    teardown(() => {
+        fs.rmSync(repoDir, { recursive: true, force: true });
+    });
+
+    test('passes arguments through without a shell', async () => {
+        const value = 'it\'s "quoted" $HOME `whoami` ; rm -rf /';
+        await runner.run(['config', 'codesquad.value', value], { cwd: repoDir });
+
+        const stdout = await runner.run(['config', '--get', 'codesquad.value'], { cwd: repoDir });
+
+        assert.strictEqual(stdout, `${value}\n`);
+    });
+
+    test('writes input to stdin', async () => {
+        const stdout = await runner.run(['hash-object', '--stdin'], { cwd: repoDir, input: 'hello\n' });
+
+        assert.strictEqual(stdout.trim(), 'ce013625030ba8dba906f756967f9e9ca394464a');
+    });
+
+    test('returns raw bytes', async () => {
+        const sha = (await runner.run(['hash-object', '-w', '--stdin'], { cwd: repoDir, input: 'a\0b' })).trim();
+
+        const bytes = await runner.runRaw(['cat-file', 'blob', sha], { cwd: repoDir });
+
+        assert.deepStrictEqual([...bytes], [0x61, 0x00, 0x62]);
+    });
+
+    test('reports a failed command with its exit code and stderr', async () => {
+        const error = await assertRejectsWith(
+            runner.run(['rev-parse', '--verify', 'no-such-ref'], { cwd: repoDir }),
+            'exit'
+        );
+
+        assert.strictEqual(error.exitCode, 128);
+        assert.deepStrictEqual(error.args, ['rev-parse', '--verify', 'no-such-ref']);
+        assert.strictEqual(error.cwd, repoDir);
+        assert.ok(error.stderr.includes('fatal'));
+        assert.strictEqual(error.message, error.stderr.trim());
+    });
+
+    test('reports a missing working directory as a spawn failure', async () => {
+        await assertRejectsWith(
+            runner.run(['status'], { cwd: path.join(repoDir, 'missing') }),
+            'spawn'
+        );
+    });
+
+    test('stops a command that runs past its timeout', async () => {
+        const started = Date.now();
+
+        await assertRejectsWith(runner.run(SLOW, { cwd: repoDir, timeoutMs: 100 }), 'timeout');
+
+        assert.ok(Date.now() - started < 4000, 'the process group should be stopped early');
+    });
+
+    test('kills a command that ignores SIGTERM', async function () {
+        this.timeout(6000);
+        const stubborn = ['-c', 'alias.stubborn=!trap "" TERM; sleep 5', 'stubborn'];
+        const started = Date.now();
+
+        await assertRejectsWith(runner.run(stubborn, { cwd: repoDir, timeoutMs: 100 }), 'timeout');
+
+        assert.ok(Date.now() - started < 4500, 'the process group should be killed after the grace period');
+    });
+
+    test('stops a command that writes too much to stderr', async () => {
+        await assertRejectsWith(
+            runner.run(['rev-parse', '--verify', 'no-such-ref'], { cwd: repoDir, maxOutputBytes: 4 }),
+            'outputTooLarge'
+        );
+    });
+
+    test('stops a running command when its signal is aborted', async () => {
+        const controller = new AbortController();
+        const running = runner.run(SLOW, { cwd: repoDir, signal: controller.signal });
+        setTimeout(() => controller.abort(), 50);
+
+        await assertRejectsWith(running, 'cancelled');
+    });
+
+    test('rejects a command whose signal is already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        await assertRejectsWith(runner.run(['status'], { cwd: repoDir, signal: controller.signal }), 'cancelled');
+    });
+
+    test('queues commands beyond the concurrency limit', async () => {
+        const serial = new GitRunner({ maxConcurrent: 1 });
+        const finished: string[] = [];
+        const controller = new AbortController();
+
+        const slow = serial.run(SLOW, { cwd: repoDir, signal: controller.signal })
+            .catch(() => finished.push('slow'));
+        const quick = serial.run(['rev-parse', '--git-dir'], { cwd: repoDir })
+            .then(() => finished.push('quick'));
+
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        assert.deepStrictEqual(finished, [], 'the second command should wait for a free slot');
+
+        controller.abort();
+        await Promise.all([slow, quick]);
+        assert.deepStrictEqual(finished, ['slow', 'quick']);
+    });
+
+    test('drops a queued command when its signal is aborted', async () => {
+        const serial = new GitRunner({ maxConcurrent: 1 });
+        const blocker = new AbortController();
+        const queued = new AbortController();
+
+        const slow = serial.run(SLOW, { cwd: repoDir, signal: blocker.signal }).catch(() => undefined);
+        const waiting = serial.run(['status'], { cwd: repoDir, signal: queued.signal });
+        queued.abort();
+
+        await assertRejectsWith(waiting, 'cancelled');
+        blocker.abort();
+        await slow;
+    });
+});
@@ -0,0 +1,218 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { VscodeGitGateway } from '../../../adapters/outbound/gateways/VscodeGitGateway';
+import { GitCommandError, GitRunner } from '../../../adapters/outbound/gateways/GitRunner';
+
+/**
+ * Runs the gateway against real temporary repositories.
+ */
+suite('VscodeGitGateway', () => {
+    /** Names that broke the old shell-string commands */
+    const WEIRD_PATH = 'src/it\'s "$HOME" `x`.ts';
+
+    let repoDir: string;
+    let gateway: VscodeGitGateway;
+
+    function git(...args: string[]): string {
+        return execFileSync('git', args, { cwd: repoDir, encoding: 'utf8' });
+    }
+
+    function write(relativePath: string, content: string | Buffer): void {
+        const filePath = path.join(repoDir, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+    }
+
+    function commitAll(message: string): void {
+        git('add', '-A');
+        git('commit', '-q', '-m', message);
+    }
+
+    setup(() => {
+        repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'code-squad-git-gateway-'));
+        git('init', '-q');
+        git('config', 'user.email', 'test@example.com');
+        git('config', 'user.name', 'Test');
+        git('config', 'commit.gpgsign', 'false');
+        write('README.md', '# test\n');
+        commitAll('initial');
+        gateway = new VscodeGitGateway();
+    });
+
+    teardown(() => {
+        gateway.dispose();
+        fs.rmSync(repoDir, { recursive: true, force: true });
+    });
+
+    test('diffs a file whose name contains quotes and shell characters', async () => {
+        write(WEIRD_PATH, 'one\n');
+        commitAll('add weird file');
+        write(WEIRD_PATH, 'two\n');
+
+        const diff = await gateway.getDiff(repoDir, WEIRD_PATH);
+
+        assert.ok(diff.includes('-one'));
+        assert.ok(diff.includes('+two'));
+        assert.deepStrictEqual(await gateway.getUncommittedFiles(repoDir), [WEIRD_PATH]);
+    });
+
+    test('shows untracked text and binary files as new', async () => {
+        write('notes.txt', 'hello\nworld');
+        write('image.png', Buffer.from([0x89, 0x50, 0x00, 0x01]));
+
+        assert.strictEqual(await gateway.getDiff(repoDir, 'notes.txt'), '@@ -0,0 +1,2 @@ New file\n+hello\n+world');
+        assert.strictEqual(
+            await gateway.getDiff(repoDir, 'image.png'),
+            'Binary files /dev/null and b/image.png differ\n'
+        );
+    });
+
+    test('lists files inside untracked directories', async () => {
+        write('new/dir/a.ts', 'a');
+        write('new/b.ts', 'b');
+
+        const files = await gateway.getUncommittedFilesWithStatus(repoDir);
+
+        assert.deepStrictEqual(
+            files.map((f) => `${f.status} ${f.path}`).sort(),
+            ['added new/b.ts', 'added new/dir/a.ts']
+        );
+    });
+
+    test('reports staged renames with their source', async () => {
+        write('old name.ts', 'export const value = 1;\n');
+        commitAll('add file');
+        git('mv', 'old name.ts', 'new name.ts');
+
+        const files = await gateway.getUncommittedFilesWithStatus(repoDir);
+
+        assert.deepStrictEqual(files, [{ path: 'new name.ts', status: 'renamed', oldPath: 'old name.ts' }]);
+        assert.strictEqual(await gateway.getFileStatus(repoDir, 'new name.ts'), 'renamed');
+    });
+
+    test('reports a file moved without git as renamed from its source', async () => {
+        write('old.txt', Array.from({ length: 50 }, (_, i) => `line ${i + 1}`).join('\n') + '\n');
+        commitAll('add file');
+        fs.renameSync(path.join(repoDir, 'old.txt'), path.join(repoDir, 'new.txt'));
+        fs.appendFileSync(path.join(repoDir, 'new.txt'), 'line 51\n');
+        const status = git('status', '--porcelain');
+
+        const files = await gateway.getUncommittedFilesWithStatus(repoDir);
+        const diff = await gateway.getDiff(repoDir, 'new.txt');
+
+        assert.deepStrictEqual(files, [{ path: 'new.txt', status: 'renamed', oldPath: 'old.txt' }]);
+        assert.strictEqual(await gateway.getFileStatus(repoDir, 'new.txt'), 'renamed');
+        assert.ok(diff.includes('rename from old.txt\nrename to new.txt'));
+        assert.ok(diff.includes('+line 51'));
+        assert.strictEqual(git('status', '--porcelain'), status);
+    });
+
+    test('shows a file with a non-ASCII name moved without git against its source', async () => {
+        write('메모.txt', Array.from({ length: 50 }, (_, i) => `line ${i + 1}`).join('\n') + '\n');
+        commitAll('add file');
+        fs.renameSync(path.join(repoDir, '메모.txt'), path.join(repoDir, '노트.txt'));
+
+        const diff = await gateway.getDiff(repoDir, '노트.txt');
+
+        assert.ok(diff.includes('rename from'));
+        assert.strictEqual(await gateway.getFileStatus(repoDir, '노트.txt'), 'renamed');
+    });
+
+    test('builds the index copy only for untracked files with a deletion, and reuses it', async () => {
+        const indexAdds: string[][] = [];
+        const runner = new GitRunner();
+        const run = runner.run.bind(runner);
+        runner.run = (args, options) => {
+            if (args.includes('--intent-to-add')) indexAdds.push(args);
+            return run(args, options);
+        };
+        gateway.dispose();
+        gateway = new VscodeGitGateway(runner);
+        write('old.txt', Array.from({ length: 50 }, (_, i) => `line ${i + 1}`).join('\n') + '\n');
+        commitAll('add file');
+        write('untracked.txt', 'new\n');
+
+        await gateway.getUncommittedFilesWithStatus(repoDir);
+        assert.strictEqual(indexAdds.length, 0);
+
+        fs.renameSync(path.join(repoDir, 'old.txt'), path.join(repoDir, 'new.txt'));
+        await gateway.getUncommittedFilesWithStatus(repoDir);
+        await gateway.getDiff(repoDir, 'new.txt');
+        await gateway.getFileStatus(repoDir, 'new.txt');
+        assert.strictEqual(indexAdds.length, 1);
+    });
+
+    test('commits a message with quotes and backticks exactly as written', async () => {
+        const message = 'Fix "quoted" `code` and $VAR\n\nBody line';
+        write(WEIRD_PATH, 'content\n');
+        await gateway.stageFiles(repoDir, [WEIRD_PATH]);
+
+        const sha = await gateway.commit(repoDir, message, [WEIRD_PATH]);
+
+        assert.strictEqual(git('log', '-1', '--format=%B', sha).trim(), message);
+        assert.deepStrictEqual(await gateway.getCommitFiles(repoDir, sha), [{ path: WEIRD_PATH, status: 'added' }]);
+        assert.strictEqual(await gateway.getFileAtCommit(repoDir, sha, WEIRD_PATH), 'content\n');
+    });
+
+    test('reads a file at a commit only as missing when git says so', async () => {
+        write('untracked.ts', 'new\n');
+
+        assert.strictEqual(await gateway.getFileAtCommit(repoDir, 'HEAD', 'README.md'), '# test\n');
+        assert.strictEqual(await gateway.getFileAtCommit(repoDir, 'HEAD', 'untracked.ts'), null);
+        assert.strictEqual(await gateway.getFileAtCommit(repoDir, 'HEAD', 'nowhere.ts'), null);
+        await assert.rejects(gateway.getFileAtCommit(repoDir, 'no-such-commit', 'README.md'));
+    });
+
+    test('shows a committed rename against its source', async () => {
+        write('a.ts', 'line 1\nline 2\nline 3\nline 4\n');
+        commitAll('add a');
+        git('mv', 'a.ts', 'b.ts');
+        commitAll('rename a');
+        const sha = git('rev-parse', 'HEAD').trim();
+
+        const files = await gateway.getCommitFiles(repoDir, sha);
+        const diff = await gateway.getCommitDiff(repoDir, sha, 'b.ts');
+
+        assert.deepStrictEqual(files, [{ path: 'b.ts', status: 'renamed', oldPath: 'a.ts' }]);
+        assert.ok(diff.includes('rename from a.ts'));
+        assert.ok(diff.includes('rename to b.ts'));
+    });
+
+    test('reports the files a merge would conflict on', async () => {
+        const base = await gateway.getCurrentBranch(repoDir);
+        write('shared.ts', 'base\n');
+        commitAll('add shared');
+        git('checkout', '-q', '-b', 'feature');
+        write('shared.ts', 'feature\n');
+        commitAll('feature change');
+        git('checkout', '-q', '-');
+        write('shared.ts', 'main\n');
+        commitAll('main change');
+
+        const conflicts = await gateway.getMergeConflicts(base, 'feature', repoDir);
+
+        assert.deepStrictEqual(conflicts, ['shared.ts']);
+    });
+
+    test('treats a directory outside git as not a repository', async () => {
+        const plainDir = fs.mkdtempSync(path.join(os.tmpdir(), 'code-squad-not-git-'));
+        try {
+            assert.strictEqual(await gateway.isGitRepository(plainDir), false);
+        } finally {
+            fs.rmSync(plainDir, { recursive: true, force: true });
+        }
+    });
+
+    test('rejects queries git could not answer instead of returning nothing', async () => {
+        write('README.md', '# changed\n');
+        gateway.dispose();
+
+        const isCancelled = (error: unknown) => error instanceof GitCommandError && error.kind === 'cancelled';
+        await assert.rejects(gateway.getUncommittedFilesWithStatus(repoDir), isCancelled);
+        await assert.rejects(gateway.getDiff(repoDir, 'README.md'), isCancelled);
+        await assert.rejects(gateway.getFileAtCommit(repoDir, 'HEAD', 'README.md'), isCancelled);
+    });
+});
@@ -16,6 +16,8 @@ function createTestComment(overrides: Partial<CommentInfo> & { id: string; text:
         isSubmitted: false,
         codeContext: 'test code',
         timestamp: Date.now(),
+        status: 'open',
+        replies: [],
         ...overrides
     };
 }
@@ -104,7 +106,9 @@ suite('PanelStateManager', () => {
                     text: 'Review this logic',
                     isSubmitted: true,
                     codeContext: 'function onClick() {}',
-                    timestamp
+                    timestamp,
+                    status: 'open',
+                    replies: []
                 }
             ];
 
@@ -182,4 +186,189 @@ suite('PanelStateManager', () => {
             assert.ok(!state.comments.some(c => c.text === 'Thread B'));
         });
     });
+
+    suite('commit timeline', () => {
+        const commit = { sha: 'c1', subject: 'Add feature', author: 'agent', timestamp: 1 };
+        const file = { path: 'src/a.ts', name: 'a.ts', status: 'added' as const };
+
+        test('selecting a commit shows its files and clears the file selection', () => {
+            manager.setCommits([commit]);
+            manager.selectFile('src/b.ts');
+
+            manager.selectCommit('c1', [file]);
+
+            const state = manager.getState();
+            assert.strictEqual(state.selectedCommit, 'c1');
+            assert.deepStrictEqual(state.commitFiles, [file]);
+            assert.strictEqual(state.selectedFile, null);
+            assert.strictEqual(state.diff, null);
+        });
+
+        test('clearSelectedCommit returns to working tree changes', () => {
+            manager.setCommits([commit]);
+            manager.selectCommit('c1', [file]);
+
+            manager.clearSelectedCommit();
+
+            const state = manager.getState();
+            assert.strictEqual(state.selectedCommit, null);
+            assert.deepStrictEqual(state.commitFiles, []);
+        });
+
+        test('setCommits keeps selection of a commit still in the timeline', () => {
+            manager.setCommits([commit]);
+            manager.selectCommit('c1', [file]);
+
+            manager.setCommits([{ ...commit, sha: 'c2' }, commit]);
+
+            assert.strictEqual(manager.getState().selectedCommit, 'c1');
+            assert.strictEqual(manager.getState().commits.length, 2);
+        });
+
+        test('setCommits drops selection of a commit that disappeared', () => {
+            manager.setCommits([commit]);
+            manager.selectCommit('c1', [file]);
+
+            // e.g. the agent amended or reset the commit
+            manager.setCommits([{ ...commit, sha: 'c1-amended' }]);
+
+            assert.strictEqual(manager.getState().selectedCommit, null);
+            assert.deepStrictEqual(manager.getState().commitFiles, []);
+        });
+    });
+
+    suite('turn checkpoints', () => {
+        const checkpoint = { turn: 1, createdAt: 1, changedFileCount: 1 };
+        const file = { path: 'src/a.ts', name: 'a.ts', status: 'modified' as const };
+
+        test('selecting a turn shows its files and clears a selected commit', () => {
+            manager.setCommits([{ sha: 'c1', subject: 'Add feature', author: 'agent', timestamp: 1 }]);
+            manager.selectCommit('c1', [file]);
+            manager.setCheckpoints([checkpoint]);
+
+            manager.selectTurn(1, 'since', [file]);
+
+            const state = manager.getState();
+            assert.strictEqual(state.selectedTurn, 1);
+            assert.strictEqual(state.turnDiffScope, 'since');
+            assert.deepStrictEqual(state.turnFiles, [file]);
+            assert.strictEqual(state.selectedCommit, null);
+            assert.deepStrictEqual(state.commitFiles, []);
+        });
+
+        test('selecting a commit clears the selected turn', () => {
+            manager.setCheckpoints([checkpoint]);
+            manager.selectTurn(1, 'turn', [file]);
+
+            manager.selectCommit('c1', [file]);
+
+            assert.strictEqual(manager.getState().selectedTurn, null);
+            assert.deepStrictEqual(manager.getState().turnFiles, []);
+        });
+
+        test('clearSelectedTurn returns to working tree changes', () => {
+            manager.setCheckpoints([checkpoint]);
+            manager.selectTurn(1, 'turn', [file]);
+
+            manager.clearSelectedTurn();
+
+            assert.strictEqual(manager.getState().selectedTurn, null);
+            assert.deepStrictEqual(manager.getState().turnFiles, []);
+        });
+
+        test('setCheckpoints drops selection of an evicted turn', () => {
+            manager.setCheckpoints([checkpoint]);
+            manager.selectTurn(1, 'turn', [file]);
+
+            manager.setCheckpoints([{ ...checkpoint, turn: 2 }]);
+
+            assert.strictEqual(manager.getState().selectedTurn, null);
+        });
+    });
+
+    suite('checked files', () => {
+        const file = { path: 'src/a.ts', name: 'a.ts', status: 'modified' as const };
+
+        test('checks and unchecks files without duplicates', () => {
+            manager.setFileChecked('src/a.ts', true);
+            manager.setFileChecked('src/a.ts', true);
+            manager.setFileChecked('src/b.ts', true);
+            manager.setFileChecked('src/b.ts', false);
+
+            assert.deepStrictEqual(manager.getState().checkedFiles, ['src/a.ts']);
+        });
+
+        test('unchecks files that leave the session', () => {
+            manager.addSessionFile(file);
+            manager.setCheckedFiles(['src/a.ts', 'src/b.ts']);
+
+            manager.removeSessionFile('src/a.ts');
+
+            assert.deepStrictEqual(manager.getState().checkedFiles, ['src/b.ts']);
+        });
+    });
+
+    suite('diff view mode', () => {
+        function diffOf(file: string) {
+            return { file, chunks: [], stats: { additions: 0, deletions: 0 }, chunkStates: [], scopes: [] };
+        }
+
+        test('keeps the split layout when another file is shown', () => {
+            manager.showDiff(diffOf('src/a.ts'));
+            manager.setDiffViewMode('split');
+
+            manager.showDiff(diffOf('src/b.ts'));
+
+            assert.strictEqual(manager.getState().diffViewMode, 'split');
+        });
+
+        test('remembers the split layout while scope view is shown', () => {
+            manager.showDiff(diffOf('src/a.ts'));
+            manager.setDiffViewMode('split');
+            manager.setDiffViewMode('scope');
+
+            assert.strictEqual(manager.getDiffLayout(), 'split');
+
+            manager.showDiff(diffOf('src/b.ts'));
+            assert.strictEqual(manager.getState().diffViewMode, 'split');
+        });
+
+        test('resets scope view to the unified diff and markdown to preview', () => {
+            manager.setDiffViewMode('scope');
+            manager.showDiff(diffOf('src/a.ts'));
+            assert.strictEqual(manager.getState().diffViewMode, 'diff');
+
+            manager.setDiffViewMode('split');
+            manager.showDiff(diffOf('README.md'));
+            assert.strictEqual(manager.getState().diffViewMode, 'preview');
+        });
+
+        test('setDiffChunks replaces chunks and keeps collapse states', () => {
+            const chunk = { header: '@@ -1 +1 @@', oldStart: 1, newStart: 1, lines: [], stats: { additions: 0, deletions: 0 } };
+            manager.showDiff({ ...diffOf('src/a.ts'), chunks: [chunk], chunkStates: [{ index: 0, isCollapsed: false, scopeLabel: null }] });
+            manager.toggleChunkCollapse(0);
+
+            const expanded = { ...chunk, header: '@@ -1,3 +1,3 @@' };
+            manager.setDiffChunks([expanded]);
+
+            const diff = manager.getState().diff;
+            assert.deepStrictEqual(diff?.chunks, [expanded]);
+            assert.strictEqual(diff?.chunkStates[0].isCollapsed, true);
+        });
+
+        test('remembers lines revealed in a file until another file is shown', () => {
+            const line = (n: number) => ({ type: 'context' as const, content: `line${n}`, oldLineNumber: n, newLineNumber: n });
+            const chunk = { header: '@@ -5 +5 @@', oldStart: 5, newStart: 5, lines: [line(5)], stats: { additions: 0, deletions: 0 } };
+            manager.showDiff({ ...diffOf('src/a.ts'), chunks: [chunk] });
+
+            manager.setDiffChunks([{ ...chunk, header: '@@ -3,3 +3,3 @@', oldStart: 3, newStart: 3, lines: [line(3), line(4), line(5)] }]);
+            manager.showDiff({ ...diffOf('src/a.ts'), chunks: [chunk] });
+
+            assert.deepStrictEqual([...manager.getRevealedLines('src/a.ts')], [3, 4]);
+            assert.strictEqual(manager.getRevealedLines('src/b.ts').size, 0);
+
+            manager.showDiff(diffOf('src/b.ts'));
+            assert.strictEqual(manager.getRevealedLines('src/a.ts').size, 0);
+        });
+    });
 });
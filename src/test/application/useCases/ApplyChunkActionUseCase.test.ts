@@ -0,0 +1,203 @@
+import * as assert from 'assert';
+import { ApplyChunkActionUseCase } from '../../../application/useCases/ApplyChunkActionUseCase';
+import { IGitPort, FileStatus, MergeBranchOptions, WorktreeInfo, GitCommit } from '../../../application/ports/outbound/IGitPort';
+import { DiffService } from '../../../domain/services/DiffService';
+
+class MockGitPort implements IGitPort {
+    public appliedPatches: Array<{ action: 'reverse' | 'stage'; workspaceRoot: string; patch: string }> = [];
+    public applyError: Error | null = null;
+
+    async getDiff(_workspaceRoot: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async isGitRepository(_workspaceRoot: string): Promise<boolean> {
+        return true;
+    }
+
+    async getUncommittedFiles(_workspaceRoot: string): Promise<string[]> {
+        return [];
+    }
+
+    async getFileStatus(_workspaceRoot: string, _relativePath: string): Promise<FileStatus> {
+        return 'modified';
+    }
+
+    async getUncommittedFilesWithStatus(_workspaceRoot: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
+
+    async getCurrentBranch(_workspaceRoot: string): Promise<string> {
+        return 'main';
+    }
+
+    async createWorktree(_path: string, _branch: string, _workspaceRoot: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async getWorktreeRoot(_workspaceRoot: string): Promise<string | null> {
+        return null;
+    }
+
+    async listWorktrees(_workspaceRoot: string): Promise<WorktreeInfo[]> {
+        return [];
+    }
+
+    async isValidWorktree(_path: string, _workspaceRoot: string): Promise<boolean> {
+        return true;
+    }
+
+    async getWorktreeBranch(_worktreePath: string): Promise<string> {
+        return 'feature';
+    }
+
+    async removeWorktree(_worktreePath: string, _workspaceRoot: string, _force?: boolean): Promise<void> {
+        // Not needed for tests
+    }
+
+    async deleteBranch(_branchName: string, _workspaceRoot: string, _force?: boolean): Promise<void> {
+        // Not needed for tests
+    }
+
+    async getMergeConflicts(_baseBranch: string, _branch: string, _workspaceRoot: string): Promise<string[]> {
+        return [];
+    }
+
+    async mergeBranch(_branch: string, _workspaceRoot: string, _options?: MergeBranchOptions): Promise<void> {
+        // Not needed for tests
+    }
+
+    async rebaseBranch(_worktreePath: string, _ontoBranch: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async resetHard(_workspaceRoot: string, _commit: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async getHeadCommit(_workspaceRoot: string): Promise<string> {
+        return 'abc123';
+    }
+
+    async getMergeBase(_refA: string, _refB: string, _workspaceRoot: string): Promise<string | null> {
+        return null;
+    }
+
+    async getDiffFromCommit(_workspaceRoot: string, _baseCommit: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async getChangedFilesFromCommit(_workspaceRoot: string, _baseCommit: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
+
+    async getCommitLog(_workspaceRoot: string, _sinceCommit: string): Promise<GitCommit[]> {
+        return [];
+    }
+
+    async getCommitFiles(_workspaceRoot: string, _sha: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
+
+    async getCommitDiff(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async getFileAtCommit(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<string | null> {
+        return null;
+    }
+
+    async getFileBytesAtCommit(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<Uint8Array | null> {
+        return null;
+    }
+
+    async applyReversePatch(workspaceRoot: string, patch: string): Promise<void> {
+        if (this.applyError) throw this.applyError;
+        this.appliedPatches.push({ action: 'reverse', workspaceRoot, patch });
+    }
+
+    async stagePatch(workspaceRoot: string, patch: string): Promise<void> {
+        if (this.applyError) throw this.applyError;
+        this.appliedPatches.push({ action: 'stage', workspaceRoot, patch });
+    }
+
+    async stageFiles(_workspaceRoot: string, _relativePaths: string[]): Promise<void> {
+        // Not needed for tests
+    }
+
+    async commit(_workspaceRoot: string, _message: string, _relativePaths?: string[]): Promise<string> {
+        return 'abc123';
+    }
+}
+
+suite('ApplyChunkActionUseCase', () => {
+    const diff = '@@ -1,3 +1,4 @@\n a\n-b\n+B\n+C\n d\n';
+    let gitPort: MockGitPort;
+    let diffService: DiffService;
+    let useCase: ApplyChunkActionUseCase;
+
+    setup(() => {
+        gitPort = new MockGitPort();
+        diffService = new DiffService();
+        useCase = new ApplyChunkActionUseCase(gitPort, diffService);
+    });
+
+    function chunks() {
+        return diffService.parseUnifiedDiff('src/a.ts', diff).chunks;
+    }
+
+    test('discards a chunk by reverse-applying it', async () => {
+        await useCase.execute({
+            workspaceRoot: '/workspace',
+            relativePath: 'src/a.ts',
+            action: 'discard',
+            chunks: chunks(),
+        });
+
+        assert.strictEqual(gitPort.appliedPatches.length, 1);
+        assert.strictEqual(gitPort.appliedPatches[0].action, 'reverse');
+        assert.strictEqual(gitPort.appliedPatches[0].workspaceRoot, '/workspace');
+        assert.ok(gitPort.appliedPatches[0].patch.includes('--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1,3 +1,4 @@'));
+    });
+
+    test('stages only the selected lines', async () => {
+        await useCase.execute({
+            workspaceRoot: '/workspace',
+            relativePath: 'src/a.ts',
+            action: 'stage',
+            chunks: chunks(),
+            lineRange: { startLine: 3, endLine: 3 },
+        });
+
+        assert.strictEqual(gitPort.appliedPatches[0].action, 'stage');
+        assert.ok(gitPort.appliedPatches[0].patch.endsWith('@@ -1,3 +1,4 @@\n a\n b\n+C\n d\n'));
+    });
+
+    test('rejects when no change is selected', async () => {
+        await assert.rejects(
+            useCase.execute({
+                workspaceRoot: '/workspace',
+                relativePath: 'src/a.ts',
+                action: 'discard',
+                chunks: chunks(),
+                lineRange: { startLine: 4, endLine: 4 },
+            }),
+            /No changes selected/
+        );
+        assert.strictEqual(gitPort.appliedPatches.length, 0);
+    });
+
+    test('passes git errors through', async () => {
+        gitPort.applyError = new Error('error: patch does not apply');
+
+        await assert.rejects(
+            useCase.execute({
+                workspaceRoot: '/workspace',
+                relativePath: 'src/a.ts',
+                action: 'stage',
+                chunks: chunks(),
+            }),
+            /patch does not apply/
+        );
+    });
+});
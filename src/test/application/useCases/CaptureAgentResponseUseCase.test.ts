@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import { CaptureAgentResponseUseCase } from '../../../application/useCases/CaptureAgentResponseUseCase';
+import { ICommentRepository } from '../../../application/ports/outbound/ICommentRepository';
+import { Comment } from '../../../domain/entities/Comment';
+
+class MockCommentRepository implements ICommentRepository {
+    comments: Comment[] = [];
+
+    async save(comment: Comment): Promise<void> { this.comments.push(comment); }
+    async findAll(): Promise<Comment[]> { return [...this.comments]; }
+    async findActive(): Promise<Comment[]> { return this.comments.filter(c => c.isPending); }
+    async findByThreadId(_threadId: string): Promise<Comment[]> { return []; }
+    async findActiveByThreadId(_threadId: string): Promise<Comment[]> { return []; }
+    async markAsSubmitted(_ids: string[]): Promise<void> {}
+    async update(_id: string, _text: string): Promise<Comment | null> { return null; }
+    async replace(comment: Comment): Promise<boolean> {
+        const index = this.comments.findIndex(c => c.id === comment.id);
+        if (index === -1) return false;
+        this.comments[index] = comment;
+        return true;
+    }
+    async delete(_id: string): Promise<boolean> { return false; }
+    async deleteByThreadId(_threadId: string): Promise<number> { return 0; }
+}
+
+function createComment(id: string): Comment {
+    return new Comment({
+        id,
+        file: 'src/app.ts',
+        line: 10,
+        text: 'Comment ' + id,
+        codeContext: 'code',
+        isSubmitted: true,
+        timestamp: Date.now()
+    });
+}
+
+suite('CaptureAgentResponseUseCase', () => {
+    let useCase: CaptureAgentResponseUseCase;
+    let repository: MockCommentRepository;
+    let captured: { terminalId: string; ids: string[] }[];
+
+    function agentReplies(id: string): string[] {
+        const comment = repository.comments.find(c => c.id === id);
+        return (comment?.replies ?? []).filter(r => r.author === 'agent').map(r => r.text);
+    }
+
+    setup(() => {
+        repository = new MockCommentRepository();
+        repository.comments = [createComment('c1'), createComment('c2'), createComment('c3')];
+        useCase = new CaptureAgentResponseUseCase(repository);
+        captured = [];
+        useCase.onResponseCaptured((terminalId, comments) => {
+            captured.push({ terminalId, ids: comments.map(c => c.id) });
+        });
+    });
+
+    test('attaches output up to the next idle transition to the sent comments', async () => {
+        useCase.startCapture('t1', ['c1', 'c2'], 'prompt');
+        useCase.processOutput('t1', 'Fixed the null check.\n');
+        await useCase.handleStatusChange('t1', 'working');
+        useCase.processOutput('t1', 'Renamed the helper.\n');
+
+        await useCase.handleStatusChange('t1', 'idle');
+        useCase.processOutput('t1', 'Unrelated output\n');
+        await useCase.handleStatusChange('t1', 'idle');
+
+        assert.deepStrictEqual(agentReplies('c1'), ['Fixed the null check.\nRenamed the helper.']);
+        assert.deepStrictEqual(agentReplies('c2'), ['Fixed the null check.\nRenamed the helper.']);
+        assert.deepStrictEqual(agentReplies('c3'), []);
+        assert.deepStrictEqual(captured, [{ terminalId: 't1', ids: ['c1', 'c2'] }]);
+    });
+
+    test('strips escape codes, redrawn lines and the echoed prompt', async () => {
+        useCase.startCapture('t1', ['c1'], 'Here are my comments\nLine 10: Comment c1');
+        useCase.processOutput(
+            't1',
+            '\x1b]0;claude\x07Here are my comments\r\nLine 10: Comment c1\r\n' +
+            'Working…\rDone\x1b[K\r\n\x1b[1m\x1b[32mUpdated\x1b[0m src/app.ts\r\n\r\n\r\n\r\nAll set.'
+        );
+
+        await useCase.handleStatusChange('t1', 'idle');
+
+        assert.deepStrictEqual(agentReplies('c1'), ['Done\nUpdated src/app.ts\n\nAll set.']);
+    });
+
+    test('ignores output of terminals without a capture', async () => {
+        useCase.processOutput('t2', 'some output');
+
+        await useCase.handleStatusChange('t2', 'idle');
+
+        assert.deepStrictEqual(captured, []);
+    });
+
+    test('attaches nothing when the agent printed nothing but the prompt', async () => {
+        useCase.startCapture('t1', ['c1'], 'prompt line');
+        useCase.processOutput('t1', 'prompt line\r\n\r\n');
+
+        await useCase.handleStatusChange('t1', 'idle');
+
+        assert.deepStrictEqual(agentReplies('c1'), []);
+        assert.deepStrictEqual(captured, []);
+    });
+
+    test('joins comments sent while a capture runs', async () => {
+        useCase.startCapture('t1', ['c1'], 'first');
+        useCase.startCapture('t1', ['c2'], 'second');
+        useCase.processOutput('t1', 'Both handled');
+
+        await useCase.handleStatusChange('t1', 'idle');
+
+        assert.deepStrictEqual(captured, [{ terminalId: 't1', ids: ['c1', 'c2'] }]);
+    });
+
+    test('drops a capture when cleared', async () => {
+        useCase.startCapture('t1', ['c1'], 'prompt');
+        useCase.processOutput('t1', 'partial');
+        useCase.clear('t1');
+
+        await useCase.handleStatusChange('t1', 'idle');
+
+        assert.deepStrictEqual(agentReplies('c1'), []);
+    });
+});
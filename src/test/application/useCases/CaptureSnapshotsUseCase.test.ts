@@ -1,7 +1,7 @@
 import * as assert from 'assert';
 import { CaptureSnapshotsUseCase } from '../../../application/useCases/CaptureSnapshotsUseCase';
 import { ISnapshotRepository } from '../../../application/ports/outbound/ISnapshotRepository';
-import { IFileSystemPort } from '../../../application/ports/outbound/IFileSystemPort';
+import { FileStat, IFileSystemPort } from '../../../application/ports/outbound/IFileSystemPort';
 import { IFileGlobber } from '../../../application/ports/outbound/IFileGlobber';
 import { FileSnapshot } from '../../../domain/entities/FileSnapshot';
 
@@ -30,13 +30,17 @@ class MockSnapshotRepository implements ISnapshotRepository {
         this.savedSnapshots = [];
     }
 
-    getAll(): Map<string, FileSnapshot> {
-        return new Map(this.snapshots);
+    getPaths(): string[] {
+        return Array.from(this.snapshots.keys());
     }
 
     getStats(): { count: number; totalSize: number } {
         return { count: this.snapshots.size, totalSize: 0 };
     }
+
+    async flush(): Promise<void> {
+        // Not needed for tests
+    }
 }
 
 class MockFileSystemPort implements IFileSystemPort {
@@ -71,6 +75,18 @@ class MockFileSystemPort implements IFileSystemPort {
         return this.files.has(absolutePath);
     }
 
+    async stat(_absolutePath: string): Promise<FileStat | undefined> {
+        return undefined;
+    }
+
+    async writeFile(_path: string, _content: string): Promise<void> {
+        // Not needed for CaptureSnapshotsUseCase tests
+    }
+
+    async removeFile(_path: string): Promise<void> {
+        // Not needed for CaptureSnapshotsUseCase tests
+    }
+
     async copyFile(_source: string, _dest: string): Promise<void> {
         // Not needed for CaptureSnapshotsUseCase tests
     }
@@ -79,6 +95,10 @@ class MockFileSystemPort implements IFileSystemPort {
         // Not needed for CaptureSnapshotsUseCase tests
     }
 
+    async createSymlink(_target: string, _linkPath: string): Promise<void> {
+        // Not needed for CaptureSnapshotsUseCase tests
+    }
+
     joinPath(...segments: string[]): string {
         return segments.join('/');
     }
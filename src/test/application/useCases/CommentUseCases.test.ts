@@ -2,8 +2,10 @@ import * as assert from 'assert';
 import { AddCommentUseCase } from '../../../application/useCases/AddCommentUseCase';
 import { EditCommentUseCase } from '../../../application/useCases/EditCommentUseCase';
 import { DeleteCommentUseCase } from '../../../application/useCases/DeleteCommentUseCase';
+import { ManageCommentThreadsUseCase } from '../../../application/useCases/ManageCommentThreadsUseCase';
+import { DiffService } from '../../../domain/services/DiffService';
 import { ICommentRepository } from '../../../application/ports/outbound/ICommentRepository';
-import { Comment } from '../../../domain/entities/Comment';
+import { Comment, CommentData } from '../../../domain/entities/Comment';
 
 class MockCommentRepository implements ICommentRepository {
     private comments = new Map<string, Comment>();
@@ -21,7 +23,7 @@ class MockCommentRepository implements ICommentRepository {
     }
 
     async findActive(): Promise<Comment[]> {
-        return Array.from(this.comments.values()).filter(c => !c.isSubmitted);
+        return Array.from(this.comments.values()).filter(c => c.isPending);
     }
 
     async findByThreadId(threadId: string): Promise<Comment[]> {
@@ -29,7 +31,7 @@ class MockCommentRepository implements ICommentRepository {
     }
 
     async findActiveByThreadId(threadId: string): Promise<Comment[]> {
-        return Array.from(this.comments.values()).filter(c => c.threadId === threadId && !c.isSubmitted);
+        return Array.from(this.comments.values()).filter(c => c.threadId === threadId && c.isPending);
     }
 
     async markAsSubmitted(ids: string[]): Promise<void> {
@@ -49,6 +51,12 @@ class MockCommentRepository implements ICommentRepository {
         return updated;
     }
 
+    async replace(comment: Comment): Promise<boolean> {
+        if (!this.comments.has(comment.id)) return false;
+        this.comments.set(comment.id, comment);
+        return true;
+    }
+
     async delete(id: string): Promise<boolean> {
         return this.comments.delete(id);
     }
@@ -300,3 +308,144 @@ suite('DeleteCommentUseCase', () => {
         assert.strictEqual(remaining[0].id, comment2.id);
     });
 });
+
+suite('ManageCommentThreadsUseCase', () => {
+    let useCase: ManageCommentThreadsUseCase;
+    let repository: MockCommentRepository;
+
+    function createComment(id: string, overrides: Partial<CommentData> = {}): Comment {
+        return new Comment({
+            id,
+            file: 'test.ts',
+            line: 2,
+            text: 'Comment ' + id,
+            codeContext: 'const a = 1;',
+            isSubmitted: true,
+            timestamp: Date.now(),
+            ...overrides
+        });
+    }
+
+    setup(() => {
+        repository = new MockCommentRepository();
+        useCase = new ManageCommentThreadsUseCase(repository, new DiffService());
+    });
+
+    test('should add a reply to be sent with the next submit', async () => {
+        repository.addComment(createComment('c1'));
+
+        const result = await useCase.reply({ id: 'c1', text: '  Any update?  ' });
+
+        assert.ok(result);
+        assert.deepStrictEqual(result.replies.map(r => r.text), ['Any update?']);
+        assert.strictEqual(result.isPending, true);
+        assert.strictEqual((await repository.findAll())[0].replies.length, 1);
+    });
+
+    test('should ignore empty replies', async () => {
+        repository.addComment(createComment('c1'));
+
+        assert.strictEqual(await useCase.reply({ id: 'c1', text: '   ' }), null);
+        assert.strictEqual((await repository.findAll())[0].replies.length, 0);
+    });
+
+    test('should resolve and reopen a comment', async () => {
+        repository.addComment(createComment('c1'));
+
+        const resolved = await useCase.setResolved('c1', true);
+        const reopened = await useCase.setResolved('c1', false);
+
+        assert.strictEqual(resolved?.status, 'resolved');
+        assert.strictEqual(reopened?.status, 'open');
+    });
+
+    test('should return null for non-existent comment', async () => {
+        assert.strictEqual(await useCase.setResolved('missing', true), null);
+    });
+
+    test('should move comments to where their code is now', async () => {
+        repository.addComment(createComment('c1'));
+        repository.addComment(createComment('c2', { line: 1, codeContext: 'import x;' }));
+
+        const changed = await useCase.reanchor({ file: 'test.ts', content: 'import x;\n\n\nconst a = 1;' });
+
+        assert.deepStrictEqual(changed.map(c => [c.id, c.line]), [['c1', 4]]);
+    });
+
+    test('should mark comments outdated when their code is gone and restore them when it returns', async () => {
+        repository.addComment(createComment('c1'));
+
+        const [outdated] = await useCase.reanchor({ file: 'test.ts', content: 'const a = 2;' });
+        const unchanged = await useCase.reanchor({ file: 'test.ts', content: 'const a = 2;' });
+        const [restored] = await useCase.reanchor({ file: 'test.ts', content: 'x\nconst a = 1;' });
+
+        assert.strictEqual(outdated.status, 'outdated');
+        assert.strictEqual(unchanged.length, 0);
+        assert.strictEqual(restored.status, 'open');
+        assert.strictEqual(restored.line, 2);
+    });
+
+    test('should follow edited code through the diff and mark it outdated', async () => {
+        repository.addComment(createComment('c1', { line: 3, codeContext: 'const a = 1;' }));
+        useCase.trackFile('test.ts', 'one\ntwo\nconst a = 1;\nthree');
+
+        const [outdated] = await useCase.reanchor({ file: 'test.ts', content: 'new\none\ntwo\nconst a = 42;\nthree' });
+
+        assert.strictEqual(outdated.status, 'outdated');
+        assert.strictEqual(outdated.line, 4);
+        assert.strictEqual(outdated.codeContext, 'const a = 1;');
+    });
+
+    test('should keep following an outdated comment through later edits', async () => {
+        repository.addComment(createComment('c1', { line: 3, codeContext: 'const a = 1;' }));
+        useCase.trackFile('test.ts', 'one\ntwo\nconst a = 1;\nthree');
+        await useCase.reanchor({ file: 'test.ts', content: 'one\ntwo\nconst a = 42;\nthree' });
+
+        const [moved] = await useCase.reanchor({ file: 'test.ts', content: 'zero\none\ntwo\nconst a = 42;\nthree' });
+
+        assert.strictEqual(moved.status, 'outdated');
+        assert.strictEqual(moved.line, 4);
+    });
+
+    test('should mark comments deleted when their code is removed', async () => {
+        repository.addComment(createComment('c1', { line: 2, endLine: 3, codeContext: 'const a = 1;\nconst b = 2;' }));
+        useCase.trackFile('test.ts', 'one\nconst a = 1;\nconst b = 2;\nthree');
+
+        const [deleted] = await useCase.reanchor({ file: 'test.ts', content: 'one\nthree' });
+
+        assert.strictEqual(deleted.status, 'deleted');
+        assert.strictEqual(deleted.line, 2);
+        assert.strictEqual(deleted.endLine, undefined);
+    });
+
+    test('should mark a comment deleted when its line goes even if the same line remains elsewhere', async () => {
+        repository.addComment(createComment('c1', { line: 4, codeContext: 'return null;' }));
+        useCase.trackFile('test.ts', 'if (a) {\nreturn null;\n} else {\nreturn null;\n}');
+
+        const [deleted] = await useCase.reanchor({ file: 'test.ts', content: 'if (a) {\nreturn null;\n} else {\n}' });
+
+        assert.strictEqual(deleted.status, 'deleted');
+        assert.strictEqual(deleted.line, 4);
+    });
+
+    test('should reopen an outdated comment when its code is restored in place', async () => {
+        repository.addComment(createComment('c1', { line: 2 }));
+        useCase.trackFile('test.ts', 'one\nconst a = 1;\nthree');
+        await useCase.reanchor({ file: 'test.ts', content: 'one\nconst a = 2;\nthree' });
+
+        const [restored] = await useCase.reanchor({ file: 'test.ts', content: 'one\nconst a = 1;\nthree' });
+
+        assert.strictEqual(restored.status, 'open');
+        assert.strictEqual(restored.line, 2);
+    });
+
+    test('should leave resolved comments, other files and other threads alone', async () => {
+        repository.addComment(createComment('resolved', { status: 'resolved' }));
+        repository.addComment(createComment('other-file', { file: 'other.ts' }));
+        repository.addComment(createComment('other-thread', { threadId: 'tid-b' }));
+
+        const changed = await useCase.reanchor({ file: 'test.ts', content: '', threadId: 'tid-a' });
+
+        assert.strictEqual(changed.length, 0);
+    });
+});
@@ -0,0 +1,205 @@
+import * as assert from 'assert';
+import { CommitChangesUseCase } from '../../../application/useCases/CommitChangesUseCase';
+import { IGitPort, FileStatus, MergeBranchOptions, WorktreeInfo, GitCommit } from '../../../application/ports/outbound/IGitPort';
+import { ITerminalPort, OpenTerminalInfo } from '../../../application/ports/outbound/ITerminalPort';
+
+class MockGitPort implements IGitPort {
+    public staged: string[][] = [];
+    public commits: Array<{ message: string; paths?: string[] }> = [];
+    public commitError: Error | null = null;
+    public uncommitted: Array<{ path: string; status: FileStatus }> = [];
+
+    async getDiff(_workspaceRoot: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async isGitRepository(_workspaceRoot: string): Promise<boolean> {
+        return true;
+    }
+
+    async getUncommittedFiles(_workspaceRoot: string): Promise<string[]> {
+        return [];
+    }
+
+    async getFileStatus(_workspaceRoot: string, _relativePath: string): Promise<FileStatus> {
+        return 'modified';
+    }
+
+    async getUncommittedFilesWithStatus(_workspaceRoot: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return this.uncommitted;
+    }
+
+    async getCurrentBranch(_workspaceRoot: string): Promise<string> {
+        return 'main';
+    }
+
+    async createWorktree(_path: string, _branch: string, _workspaceRoot: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async getWorktreeRoot(_workspaceRoot: string): Promise<string | null> {
+        return null;
+    }
+
+    async listWorktrees(_workspaceRoot: string): Promise<WorktreeInfo[]> {
+        return [];
+    }
+
+    async isValidWorktree(_path: string, _workspaceRoot: string): Promise<boolean> {
+        return true;
+    }
+
+    async getWorktreeBranch(_worktreePath: string): Promise<string> {
+        return 'feature';
+    }
+
+    async removeWorktree(_worktreePath: string, _workspaceRoot: string, _force?: boolean): Promise<void> {
+        // Not needed for tests
+    }
+
+    async deleteBranch(_branchName: string, _workspaceRoot: string, _force?: boolean): Promise<void> {
+        // Not needed for tests
+    }
+
+    async getMergeConflicts(_baseBranch: string, _branch: string, _workspaceRoot: string): Promise<string[]> {
+        return [];
+    }
+
+    async mergeBranch(_branch: string, _workspaceRoot: string, _options?: MergeBranchOptions): Promise<void> {
+        // Not needed for tests
+    }
+
+    async rebaseBranch(_worktreePath: string, _ontoBranch: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async resetHard(_workspaceRoot: string, _commit: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async getHeadCommit(_workspaceRoot: string): Promise<string> {
+        return 'abc123';
+    }
+
+    async getMergeBase(_refA: string, _refB: string, _workspaceRoot: string): Promise<string | null> {
+        return null;
+    }
+
+    async getDiffFromCommit(_workspaceRoot: string, _baseCommit: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async getChangedFilesFromCommit(_workspaceRoot: string, _baseCommit: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
+
+    async getCommitLog(_workspaceRoot: string, _sinceCommit: string): Promise<GitCommit[]> {
+        return [];
+    }
+
+    async getCommitFiles(_workspaceRoot: string, _sha: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
+
+    async getCommitDiff(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async getFileAtCommit(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<string | null> {
+        return null;
+    }
+
+    async getFileBytesAtCommit(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<Uint8Array | null> {
+        return null;
+    }
+
+    async applyReversePatch(_workspaceRoot: string, _patch: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async stagePatch(_workspaceRoot: string, _patch: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async stageFiles(_workspaceRoot: string, relativePaths: string[]): Promise<void> {
+        this.staged.push(relativePaths);
+    }
+
+    async commit(_workspaceRoot: string, message: string, relativePaths?: string[]): Promise<string> {
+        if (this.commitError) throw this.commitError;
+        this.commits.push({ message, paths: relativePaths });
+        return 'def456';
+    }
+}
+
+class MockTerminalPort implements ITerminalPort {
+    public sentMessages: { terminalId: string; text: string }[] = [];
+
+    initialize(): void {}
+    sendText(terminalId: string, text: string): void {
+        this.sentMessages.push({ terminalId, text });
+    }
+    showTerminal(_terminalId: string): void {}
+    async createTerminal(_name: string, _cwd?: string): Promise<string> { return 'mock-terminal'; }
+    onTerminalActivity(_callback: (terminalId: string, hasActivity: boolean) => void): void {}
+    onTerminalOutput(_callback: (terminalId: string, data: string) => void): void {}
+    onCommandExecuted(_callback: (terminalId: string, command: string) => void): void {}
+    onCommandEnded(_callback: (terminalId: string, command: string) => void): void {}
+    async closeTerminal(_terminalId: string): Promise<void> {}
+    async getOpenTerminals(): Promise<OpenTerminalInfo[]> { return []; }
+    updateTerminalName(_terminalId: string, _newName: string): void {}
+    getDisplayName(_terminalId: string): string | undefined { return undefined; }
+}
+
+suite('CommitChangesUseCase', () => {
+    let gitPort: MockGitPort;
+    let terminalPort: MockTerminalPort;
+    let useCase: CommitChangesUseCase;
+
+    setup(() => {
+        gitPort = new MockGitPort();
+        terminalPort = new MockTerminalPort();
+        useCase = new CommitChangesUseCase(gitPort, terminalPort);
+    });
+
+    test('stages and commits only the checked files', async () => {
+        gitPort.uncommitted = [{ path: 'src/b.ts', status: 'modified' }];
+
+        const result = await useCase.commit({
+            workspaceRoot: '/workspace',
+            message: '  Fix parser  \n',
+            paths: ['src/a.ts', 'src/new.ts'],
+        });
+
+        assert.deepStrictEqual(gitPort.staged, [['src/a.ts', 'src/new.ts']]);
+        assert.deepStrictEqual(gitPort.commits, [{ message: 'Fix parser', paths: ['src/a.ts', 'src/new.ts'] }]);
+        assert.strictEqual(result.commit, 'def456');
+        assert.deepStrictEqual(result.uncommittedFiles, [{ path: 'src/b.ts', status: 'modified' }]);
+    });
+
+    test('rejects an empty message without committing', async () => {
+        await assert.rejects(
+            useCase.commit({ workspaceRoot: '/workspace', message: '   ', paths: ['src/a.ts'] }),
+            /Commit message is empty/
+        );
+        assert.deepStrictEqual(gitPort.commits, []);
+    });
+
+    test('passes git errors through', async () => {
+        gitPort.commitError = new Error('nothing to commit, working tree clean');
+
+        await assert.rejects(
+            useCase.commit({ workspaceRoot: '/workspace', message: 'Fix', paths: [] }),
+            /nothing to commit/
+        );
+    });
+
+    test('asks the agent to draft a message for the checked files', () => {
+        useCase.requestDraftMessage('terminal-1', ['src/a.ts']);
+
+        assert.strictEqual(terminalPort.sentMessages.length, 1);
+        assert.strictEqual(terminalPort.sentMessages[0].terminalId, 'terminal-1');
+        assert.ok(terminalPort.sentMessages[0].text.includes('- src/a.ts'));
+        assert.ok(terminalPort.sentMessages[0].text.includes('Do not commit'));
+    });
+});
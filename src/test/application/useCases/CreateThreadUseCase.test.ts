@@ -1,11 +1,17 @@
 import * as assert from 'assert';
 import { CreateThreadUseCase } from '../../../application/useCases/CreateThreadUseCase';
 import { IThreadStateRepository } from '../../../application/ports/outbound/IThreadStateRepository';
-import { ITerminalPort, TerminalActivityCallback, TerminalOutputCallback, TerminalCommandCallback } from '../../../application/ports/outbound/ITerminalPort';
-import { IGitPort, FileStatus } from '../../../application/ports/outbound/IGitPort';
-import { IFileSystemPort } from '../../../application/ports/outbound/IFileSystemPort';
+import { ITerminalPort, TerminalActivityCallback, TerminalOutputCallback, TerminalCommandCallback, OpenTerminalInfo } from '../../../application/ports/outbound/ITerminalPort';
+import { IGitPort, FileStatus, MergeBranchOptions, GitCommit } from '../../../application/ports/outbound/IGitPort';
+import { FileStat, IFileSystemPort } from '../../../application/ports/outbound/IFileSystemPort';
 import { IFileGlobber } from '../../../application/ports/outbound/IFileGlobber';
 import { ThreadState } from '../../../domain/entities/ThreadState';
+import { AgentRegistry } from '../../../domain/services/AgentRegistry';
+import {
+    IRunWorktreeSetupUseCase,
+    RunWorktreeSetupInput,
+    RunWorktreeSetupOutput,
+} from '../../../application/ports/inbound/IRunWorktreeSetupUseCase';
 
 class MockThreadStateRepository implements IThreadStateRepository {
     public savedStates: ThreadState[] = [];
@@ -33,17 +39,26 @@ class MockThreadStateRepository implements IThreadStateRepository {
     async updateWhitelist(_threadId: string, _patterns: string[]): Promise<void> {
         // Not needed for tests
     }
+
+    async updateBase(_threadId: string, _baseCommit: string, _baseBranch?: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async updateTerminalId(_threadId: string, _terminalId: string): Promise<void> {
+        // Not needed for tests
+    }
 }
 
 class MockTerminalPort implements ITerminalPort {
     private terminalCounter = 0;
+    public sentTexts: Array<{ terminalId: string; text: string }> = [];
 
     initialize(): void {
         // Not needed for tests
     }
 
-    sendText(_terminalId: string, _text: string): void {
-        // Not needed for tests
+    sendText(terminalId: string, text: string): void {
+        this.sentTexts.push({ terminalId, text });
     }
 
     showTerminal(_terminalId: string): void {
@@ -74,6 +89,10 @@ class MockTerminalPort implements ITerminalPort {
         // Not needed for tests
     }
 
+    async getOpenTerminals(): Promise<OpenTerminalInfo[]> {
+        return [];
+    }
+
     updateTerminalName(_terminalId: string, _newName: string): void {
         // Not needed for tests
     }
@@ -137,11 +156,80 @@ class MockGitPort implements IGitPort {
     async deleteBranch(_branchName: string, _workspaceRoot: string, _force?: boolean): Promise<void> {
         // Not needed for tests
     }
+
+    async getMergeConflicts(_baseBranch: string, _branch: string, _workspaceRoot: string): Promise<string[]> {
+        return [];
+    }
+
+    async mergeBranch(_branch: string, _workspaceRoot: string, _options?: MergeBranchOptions): Promise<void> {
+        // Not needed for tests
+    }
+
+    async rebaseBranch(_worktreePath: string, _ontoBranch: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async resetHard(_workspaceRoot: string, _commit: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async getHeadCommit(_workspaceRoot: string): Promise<string> {
+        return 'abc123';
+    }
+
+    async getMergeBase(_refA: string, _refB: string, _workspaceRoot: string): Promise<string | null> {
+        return null;
+    }
+
+    async getDiffFromCommit(_workspaceRoot: string, _baseCommit: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async getChangedFilesFromCommit(_workspaceRoot: string, _baseCommit: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
+
+    async getCommitLog(_workspaceRoot: string, _sinceCommit: string): Promise<GitCommit[]> {
+        return [];
+    }
+
+    async getCommitFiles(_workspaceRoot: string, _sha: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
+
+    async getCommitDiff(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async getFileAtCommit(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<string | null> {
+        return null;
+    }
+
+    async getFileBytesAtCommit(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<Uint8Array | null> {
+        return null;
+    }
+
+    async applyReversePatch(_workspaceRoot: string, _patch: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async stagePatch(_workspaceRoot: string, _patch: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async stageFiles(_workspaceRoot: string, _relativePaths: string[]): Promise<void> {
+        // Not needed for tests
+    }
+
+    async commit(_workspaceRoot: string, _message: string, _relativePaths?: string[]): Promise<string> {
+        return 'abc123';
+    }
 }
 
 class MockFileSystemPort implements IFileSystemPort {
     public copiedFiles: Array<{ source: string; dest: string }> = [];
     public createdDirs: string[] = [];
+    public symlinks: Array<{ target: string; linkPath: string }> = [];
     public failOnFile?: string;
 
     async readFile(_path: string): Promise<string> {
@@ -156,6 +244,10 @@ class MockFileSystemPort implements IFileSystemPort {
         return true;
     }
 
+    async stat(_path: string): Promise<FileStat | undefined> {
+        return undefined;
+    }
+
     getWorkspaceRoot(): string | undefined {
         return '/workspace';
     }
@@ -168,6 +260,14 @@ class MockFileSystemPort implements IFileSystemPort {
         return absolutePath.replace('/workspace/', '');
     }
 
+    async writeFile(_path: string, _content: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async removeFile(_path: string): Promise<void> {
+        // Not needed for tests
+    }
+
     async copyFile(source: string, dest: string): Promise<void> {
         if (this.failOnFile === source) {
             throw new Error('Copy failed');
@@ -179,11 +279,25 @@ class MockFileSystemPort implements IFileSystemPort {
         this.createdDirs.push(dirPath);
     }
 
+    async createSymlink(target: string, linkPath: string): Promise<void> {
+        this.symlinks.push({ target, linkPath });
+    }
+
     joinPath(...segments: string[]): string {
         return segments.join('/');
     }
 }
 
+class MockRunWorktreeSetupUseCase implements IRunWorktreeSetupUseCase {
+    public inputs: RunWorktreeSetupInput[] = [];
+    public result: RunWorktreeSetupOutput = { success: true };
+
+    async execute(input: RunWorktreeSetupInput): Promise<RunWorktreeSetupOutput> {
+        this.inputs.push(input);
+        return this.result;
+    }
+}
+
 class MockFileGlobber implements IFileGlobber {
     private results = new Map<string, string[]>();
 
@@ -289,6 +403,21 @@ suite('CreateThreadUseCase', () => {
             assert.strictEqual(mockFileSystem.copiedFiles.length, 0);
         });
 
+        test('TS7: symlinks instead of copying in symlink mode', async () => {
+            mockGlobber.setPattern('.env', ['/workspace/.env']);
+
+            const result = await useCase.execute({
+                name: 'test-thread',
+                isolationMode: 'worktree',
+                workspaceRoot: '/workspace',
+                worktreeCopyPatterns: [{ pattern: 'node_modules', mode: 'symlink' }, '.env'],
+            });
+
+            const worktreePath = result.threadState.worktreePath;
+            assert.deepStrictEqual(mockFileSystem.symlinks, [{ target: '/workspace/node_modules', linkPath: `${worktreePath}/node_modules` }]);
+            assert.strictEqual(mockFileSystem.copiedFiles.length, 1);
+        });
+
         test('TS6: preserves directory structure', async () => {
             mockGlobber.setPattern('secrets/**/*.json', ['/workspace/secrets/api/keys.json']);
 
@@ -303,6 +432,26 @@ suite('CreateThreadUseCase', () => {
             assert.ok(mockFileSystem.copiedFiles[0].dest.includes('secrets/api/keys.json'));
             assert.ok(mockFileSystem.createdDirs.some(d => d.includes('secrets/api')));
         });
+
+        test('TS8: records the patterns on worktree threads only', async () => {
+            const patterns = [{ pattern: 'node_modules', mode: 'symlink' as const }, '.env'];
+
+            const worktree = await useCase.execute({
+                name: 'test-thread',
+                isolationMode: 'worktree',
+                workspaceRoot: '/workspace',
+                worktreeCopyPatterns: patterns,
+            });
+            const local = await useCase.execute({
+                name: 'local-thread',
+                isolationMode: 'none',
+                workspaceRoot: '/workspace',
+                worktreeCopyPatterns: patterns,
+            });
+
+            assert.deepStrictEqual(worktree.threadState.toData().worktreeCopyPatterns, patterns);
+            assert.strictEqual(local.threadState.worktreeCopyPatterns, undefined);
+        });
     });
 
     suite('basic thread creation', () => {
@@ -329,5 +478,227 @@ suite('CreateThreadUseCase', () => {
             assert.strictEqual(mockGit.createdWorktrees.length, 1);
             assert.ok(mockGit.createdWorktrees[0].path.includes('worktree-thread'));
         });
+
+        test('records base branch in worktree mode', async () => {
+            const result = await useCase.execute({
+                name: 'worktree-thread',
+                isolationMode: 'worktree',
+                workspaceRoot: '/workspace',
+            });
+
+            assert.strictEqual(result.threadState.baseBranch, 'main');
+        });
+
+        test('does not record base branch in non-worktree mode', async () => {
+            const result = await useCase.execute({
+                name: 'simple-thread',
+                isolationMode: 'none',
+                workspaceRoot: '/workspace',
+            });
+
+            assert.strictEqual(result.threadState.baseBranch, undefined);
+        });
+
+        test('records base commit in both isolation modes', async () => {
+            const local = await useCase.execute({
+                name: 'simple-thread',
+                isolationMode: 'none',
+                workspaceRoot: '/workspace',
+            });
+            const worktree = await useCase.execute({
+                name: 'worktree-thread',
+                isolationMode: 'worktree',
+                workspaceRoot: '/workspace',
+            });
+
+            assert.strictEqual(local.threadState.baseCommit, 'abc123');
+            assert.strictEqual(worktree.threadState.baseCommit, 'abc123');
+        });
+    });
+
+    suite('agent launch', () => {
+        let registry: AgentRegistry;
+
+        setup(() => {
+            registry = new AgentRegistry();
+            useCase = new CreateThreadUseCase(
+                mockThreadRepo,
+                mockTerminal,
+                mockGit,
+                mockFileSystem,
+                mockGlobber,
+                registry
+            );
+        });
+
+        test('opens empty terminal when no agent selected', async () => {
+            const result = await useCase.execute({
+                name: 'simple-thread',
+                isolationMode: 'none',
+                workspaceRoot: '/workspace',
+            });
+
+            assert.strictEqual(mockTerminal.sentTexts.length, 0);
+            assert.strictEqual(result.threadState.agentId, undefined);
+        });
+
+        test('starts agent CLI with quoted initial prompt', async () => {
+            const result = await useCase.execute({
+                name: 'simple-thread',
+                isolationMode: 'none',
+                workspaceRoot: '/workspace',
+                agentId: 'claude',
+                initialPrompt: "Fix the user's login bug",
+            });
+
+            assert.deepStrictEqual(mockTerminal.sentTexts, [{
+                terminalId: result.threadState.terminalId,
+                text: "claude 'Fix the user'\\''s login bug'",
+            }]);
+            assert.strictEqual(result.threadState.agentId, 'claude');
+        });
+
+        test('applies configured args and worktree-only args', async () => {
+            registry.setLaunchArgs({
+                claude: { args: ['--model', 'opus'], worktreeArgs: ['--dangerously-skip-permissions'] },
+            });
+
+            await useCase.execute({ name: 'local', isolationMode: 'none', workspaceRoot: '/workspace', agentId: 'claude' });
+            await useCase.execute({ name: 'isolated', isolationMode: 'worktree', workspaceRoot: '/workspace', agentId: 'claude' });
+
+            assert.strictEqual(mockTerminal.sentTexts[0].text, 'claude --model opus');
+            assert.strictEqual(mockTerminal.sentTexts[1].text, 'claude --model opus --dangerously-skip-permissions');
+        });
+
+        test('uses agent-specific prompt arguments', async () => {
+            await useCase.execute({
+                name: 'thread',
+                isolationMode: 'none',
+                workspaceRoot: '/workspace',
+                agentId: 'gemini',
+                initialPrompt: 'add tests',
+            });
+
+            assert.strictEqual(mockTerminal.sentTexts[0].text, "gemini -i 'add tests'");
+        });
+
+        test('drops prompt for agents that cannot take one', async () => {
+            await useCase.execute({
+                name: 'thread',
+                isolationMode: 'none',
+                workspaceRoot: '/workspace',
+                agentId: 'aider',
+                initialPrompt: 'add tests',
+            });
+
+            assert.strictEqual(mockTerminal.sentTexts[0].text, 'aider');
+        });
+
+        test('runs setup command before the agent', async () => {
+            await useCase.execute({
+                name: 'thread',
+                isolationMode: 'worktree',
+                workspaceRoot: '/workspace',
+                agentId: 'codex',
+                setupCommand: 'npm ci',
+            });
+
+            assert.deepStrictEqual(mockTerminal.sentTexts.map(t => t.text), ['npm ci', 'codex']);
+        });
+
+        test('applies initial whitelist patterns', async () => {
+            const result = await useCase.execute({
+                name: 'thread',
+                isolationMode: 'none',
+                workspaceRoot: '/workspace',
+                whitelistPatterns: ['dist/**'],
+            });
+
+            assert.deepStrictEqual(result.threadState.whitelistPatterns, ['dist/**']);
+        });
+
+        test('does not launch unknown agents', async () => {
+            const result = await useCase.execute({
+                name: 'thread',
+                isolationMode: 'none',
+                workspaceRoot: '/workspace',
+                agentId: 'unknown',
+            });
+
+            assert.strictEqual(mockTerminal.sentTexts.length, 0);
+            assert.strictEqual(result.threadState.agentId, undefined);
+        });
+    });
+
+    suite('worktree setup', () => {
+        let mockSetup: MockRunWorktreeSetupUseCase;
+        const steps = [{ kind: 'run' as const, name: 'Install', command: 'npm ci', timeoutMs: 1000 }];
+
+        setup(() => {
+            mockSetup = new MockRunWorktreeSetupUseCase();
+            useCase = new CreateThreadUseCase(
+                mockThreadRepo,
+                mockTerminal,
+                mockGit,
+                mockFileSystem,
+                mockGlobber,
+                new AgentRegistry(),
+                mockSetup
+            );
+        });
+
+        test('starts agent only after setup succeeds', async () => {
+            const result = await useCase.execute({
+                name: 'thread',
+                isolationMode: 'worktree',
+                workspaceRoot: '/workspace',
+                agentId: 'codex',
+                setupCommand: 'make dev',
+                setupSteps: steps,
+            });
+
+            assert.ok(result.setup);
+            assert.strictEqual(mockSetup.inputs[0].worktreePath, result.threadState.worktreePath);
+            assert.strictEqual(mockSetup.inputs[0].workspaceRoot, '/workspace');
+
+            const setupResult = await result.setup;
+            assert.strictEqual(setupResult.success, true);
+            assert.deepStrictEqual(mockTerminal.sentTexts.map(t => t.text), ['make dev', 'codex']);
+            // Saved on creation, then again with the agent once it started
+            assert.strictEqual(mockThreadRepo.savedStates.length, 2);
+            assert.strictEqual(mockThreadRepo.savedStates[1].toData().agentId, 'codex');
+        });
+
+        test('does not start agent when setup fails', async () => {
+            mockSetup.result = { success: false, failedStep: 'Install', error: 'Exited with code 1' };
+
+            const result = await useCase.execute({
+                name: 'thread',
+                isolationMode: 'worktree',
+                workspaceRoot: '/workspace',
+                agentId: 'codex',
+                setupSteps: steps,
+            });
+
+            const setupResult = await result.setup;
+            assert.strictEqual(setupResult?.success, false);
+            assert.strictEqual(mockTerminal.sentTexts.length, 0);
+            assert.strictEqual(result.threadState.agentId, undefined);
+            assert.strictEqual(mockThreadRepo.savedStates.length, 1);
+        });
+
+        test('skips setup for local threads', async () => {
+            const result = await useCase.execute({
+                name: 'thread',
+                isolationMode: 'none',
+                workspaceRoot: '/workspace',
+                agentId: 'codex',
+                setupSteps: steps,
+            });
+
+            assert.strictEqual(result.setup, undefined);
+            assert.strictEqual(mockSetup.inputs.length, 0);
+            assert.deepStrictEqual(mockTerminal.sentTexts.map(t => t.text), ['codex']);
+        });
     });
 });
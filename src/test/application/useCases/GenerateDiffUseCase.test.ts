@@ -2,8 +2,8 @@ import * as assert from 'assert';
 import { GenerateDiffUseCase } from '../../../application/useCases/GenerateDiffUseCase';
 import { DiffService } from '../../../domain/services/DiffService';
 import { ISnapshotRepository } from '../../../application/ports/outbound/ISnapshotRepository';
-import { IFileSystemPort } from '../../../application/ports/outbound/IFileSystemPort';
-import { IGitPort, FileStatus } from '../../../application/ports/outbound/IGitPort';
+import { FileStat, IFileSystemPort } from '../../../application/ports/outbound/IFileSystemPort';
+import { IGitPort, FileStatus, MergeBranchOptions, GitCommit } from '../../../application/ports/outbound/IGitPort';
 import { FileSnapshot } from '../../../domain/entities/FileSnapshot';
 
 class MockSnapshotRepository implements ISnapshotRepository {
@@ -26,8 +26,8 @@ class MockSnapshotRepository implements ISnapshotRepository {
         this.snapshots.clear();
     }
 
-    getAll(): Map<string, FileSnapshot> {
-        return new Map(this.snapshots);
+    getPaths(): string[] {
+        return Array.from(this.snapshots.keys());
     }
 
     getStats(): { count: number; totalSize: number } {
@@ -37,6 +37,10 @@ class MockSnapshotRepository implements ISnapshotRepository {
     setSnapshot(path: string, content: string): void {
         this.snapshots.set(path, FileSnapshot.create(path, content));
     }
+
+    async flush(): Promise<void> {
+        // Not needed for tests
+    }
 }
 
 class MockFileSystemPort implements IFileSystemPort {
@@ -71,6 +75,10 @@ class MockFileSystemPort implements IFileSystemPort {
         return this.files.has(absolutePath);
     }
 
+    async stat(_absolutePath: string): Promise<FileStat | undefined> {
+        return undefined;
+    }
+
     setFile(relativePath: string, content: string): void {
         this.files.set(`${this.workspaceRoot}/${relativePath}`, content);
     }
@@ -83,6 +91,14 @@ class MockFileSystemPort implements IFileSystemPort {
         this.workspaceRoot = root;
     }
 
+    async writeFile(_path: string, _content: string): Promise<void> {
+        // Not needed for GenerateDiffUseCase tests
+    }
+
+    async removeFile(_path: string): Promise<void> {
+        // Not needed for GenerateDiffUseCase tests
+    }
+
     async copyFile(_source: string, _dest: string): Promise<void> {
         // Not needed for GenerateDiffUseCase tests
     }
@@ -91,6 +107,10 @@ class MockFileSystemPort implements IFileSystemPort {
         // Not needed for GenerateDiffUseCase tests
     }
 
+    async createSymlink(_target: string, _linkPath: string): Promise<void> {
+        // Not needed for GenerateDiffUseCase tests
+    }
+
     joinPath(...segments: string[]): string {
         return segments.join('/');
     }
@@ -98,6 +118,11 @@ class MockFileSystemPort implements IFileSystemPort {
 
 class MockGitPort implements IGitPort {
     private diffs = new Map<string, string>();
+    private baseDiffs = new Map<string, string>();
+    private changedSinceBase: Array<{ path: string; status: FileStatus }> = [];
+    public lastBaseCommit: string | null = null;
+    /** File bytes by `${sha}:${path}` */
+    public fileBytes = new Map<string, Uint8Array>();
 
     async getDiff(_workspaceRoot: string, relativePath: string): Promise<string> {
         return this.diffs.get(relativePath) || '';
@@ -151,9 +176,87 @@ class MockGitPort implements IGitPort {
         // Not needed for tests
     }
 
+    async getMergeConflicts(_baseBranch: string, _branch: string, _workspaceRoot: string): Promise<string[]> {
+        return [];
+    }
+
+    async mergeBranch(_branch: string, _workspaceRoot: string, _options?: MergeBranchOptions): Promise<void> {
+        // Not needed for tests
+    }
+
+    async rebaseBranch(_worktreePath: string, _ontoBranch: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async resetHard(_workspaceRoot: string, _commit: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async getHeadCommit(_workspaceRoot: string): Promise<string> {
+        return 'head-sha';
+    }
+
+    async getMergeBase(_refA: string, _refB: string, _workspaceRoot: string): Promise<string | null> {
+        return null;
+    }
+
+    async getDiffFromCommit(_workspaceRoot: string, baseCommit: string, relativePath: string): Promise<string> {
+        this.lastBaseCommit = baseCommit;
+        return this.baseDiffs.get(relativePath) || '';
+    }
+
+    async getChangedFilesFromCommit(_workspaceRoot: string, baseCommit: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        this.lastBaseCommit = baseCommit;
+        return this.changedSinceBase;
+    }
+
+    async getCommitLog(_workspaceRoot: string, _sinceCommit: string): Promise<GitCommit[]> {
+        return [];
+    }
+
+    async getCommitFiles(_workspaceRoot: string, _sha: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
+
+    async getCommitDiff(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async getFileAtCommit(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<string | null> {
+        return null;
+    }
+
+    async getFileBytesAtCommit(_workspaceRoot: string, sha: string, relativePath: string): Promise<Uint8Array | null> {
+        return this.fileBytes.get(`${sha}:${relativePath}`) ?? null;
+    }
+
     setDiff(relativePath: string, diff: string): void {
         this.diffs.set(relativePath, diff);
     }
+
+    setBaseDiff(relativePath: string, diff: string): void {
+        this.baseDiffs.set(relativePath, diff);
+    }
+
+    setChangedSinceBase(files: Array<{ path: string; status: FileStatus }>): void {
+        this.changedSinceBase = files;
+    }
+
+    async applyReversePatch(_workspaceRoot: string, _patch: string): Promise<void> {
+        // Not needed for GenerateDiffUseCase tests
+    }
+
+    async stagePatch(_workspaceRoot: string, _patch: string): Promise<void> {
+        // Not needed for GenerateDiffUseCase tests
+    }
+
+    async stageFiles(_workspaceRoot: string, _relativePaths: string[]): Promise<void> {
+        // Not needed for GenerateDiffUseCase tests
+    }
+
+    async commit(_workspaceRoot: string, _message: string, _relativePaths?: string[]): Promise<string> {
+        return 'abc123';
+    }
 }
 
 suite('GenerateDiffUseCase', () => {
@@ -317,4 +420,180 @@ suite('GenerateDiffUseCase', () => {
             assert.ok(hasSnapshotContent, 'Should use snapshot diff');
         });
     });
+
+    suite('base diff mode', () => {
+        const baseDiff = `@@ -1,2 +1,4 @@
+ line1
++committed
++uncommitted
+ line2`;
+
+        test('uses uncommitted diff by default', async () => {
+            useCase.setBaseCommit('base-sha');
+            gitPort.setDiff('test.ts', '@@ -1 +1,2 @@\n line1\n+uncommitted');
+            gitPort.setBaseDiff('test.ts', baseDiff);
+
+            const result = await useCase.execute('test.ts');
+
+            assert.ok(result);
+            assert.strictEqual(result.stats.additions, 1);
+            assert.strictEqual(gitPort.lastBaseCommit, null);
+        });
+
+        test('diffs against base commit in base mode', async () => {
+            useCase.setBaseCommit('base-sha');
+            useCase.setDiffBaseMode('base');
+            gitPort.setBaseDiff('test.ts', baseDiff);
+
+            const result = await useCase.execute('test.ts');
+
+            assert.ok(result);
+            assert.strictEqual(result.stats.additions, 2);
+            assert.strictEqual(gitPort.lastBaseCommit, 'base-sha');
+        });
+
+        test('prefers base diff over snapshot diff in base mode', async () => {
+            useCase.setBaseCommit('base-sha');
+            useCase.setDiffBaseMode('base');
+            gitPort.setBaseDiff('test.ts', baseDiff);
+            snapshotRepo.setSnapshot('test.ts', 'line1\ncommitted\nline2');
+            fileSystem.setFile('test.ts', 'line1\ncommitted\nuncommitted\nline2');
+
+            const result = await useCase.execute('test.ts');
+
+            assert.ok(result);
+            assert.strictEqual(result.stats.additions, 2);
+        });
+
+        test('falls back to snapshot diff when git has no base diff', async () => {
+            useCase.setBaseCommit('base-sha');
+            useCase.setDiffBaseMode('base');
+            snapshotRepo.setSnapshot('ignored.env', 'A=1');
+            fileSystem.setFile('ignored.env', 'A=2');
+
+            const result = await useCase.execute('ignored.env');
+
+            assert.ok(result);
+            assert.strictEqual(result.stats.additions, 1);
+            assert.strictEqual(result.stats.deletions, 1);
+        });
+
+        test('behaves like head mode without a base commit', async () => {
+            useCase.setDiffBaseMode('base');
+            gitPort.setDiff('test.ts', '@@ -1 +1,2 @@\n line1\n+uncommitted');
+
+            const result = await useCase.execute('test.ts');
+
+            assert.ok(result);
+            assert.strictEqual(result.stats.additions, 1);
+            assert.strictEqual(gitPort.lastBaseCommit, null);
+        });
+
+        test('lists files changed since base', async () => {
+            useCase.setBaseCommit('base-sha');
+            gitPort.setChangedSinceBase([{ path: 'a.ts', status: 'modified' }]);
+
+            const files = await useCase.getChangedFilesSinceBase();
+
+            assert.deepStrictEqual(files, [{ path: 'a.ts', status: 'modified' }]);
+            assert.strictEqual(gitPort.lastBaseCommit, 'base-sha');
+        });
+
+        test('lists no files without a base commit', async () => {
+            gitPort.setChangedSinceBase([{ path: 'a.ts', status: 'modified' }]);
+
+            const files = await useCase.getChangedFilesSinceBase();
+
+            assert.deepStrictEqual(files, []);
+        });
+    });
+
+    suite('diff options', () => {
+        test('applies the options to snapshot diffs', async () => {
+            snapshotRepo.setSnapshot('test.ts', 'if (a) {\n  run();\n}\nend();');
+            fileSystem.setFile('test.ts', 'if (a) {\n    run();\n}\nstop();');
+            useCase.setDiffOptions({ ignoreWhitespace: true });
+
+            const result = await useCase.execute('test.ts');
+
+            assert.ok(result);
+            assert.deepStrictEqual(result.stats, { additions: 1, deletions: 1 });
+        });
+
+        test('keeps a file whose changes are all hidden by the options', async () => {
+            snapshotRepo.setSnapshot('test.ts', 'if (a) {\n  run();\n}');
+            fileSystem.setFile('test.ts', 'if (a) {\n    run();\n}');
+            useCase.setDiffOptions({ ignoreWhitespace: true });
+
+            const result = await useCase.execute('test.ts');
+
+            assert.ok(result, 'File with hidden changes should not be dropped');
+            assert.deepStrictEqual(result.chunks, []);
+        });
+
+        test('returns a copy of the options', () => {
+            useCase.setDiffOptions({ detectMoves: true });
+
+            const options = useCase.getDiffOptions();
+            options.detectMoves = false;
+
+            assert.deepStrictEqual(useCase.getDiffOptions(), { detectMoves: true });
+        });
+    });
+
+    suite('expand context', () => {
+        test('reveals lines after the last chunk from the current file', async () => {
+            gitPort.setDiff('test.ts', '@@ -1,2 +1,2 @@\n-old\n+new\n line2');
+            fileSystem.setFile('test.ts', 'new\nline2\nline3\nline4\n');
+            const diff = await useCase.execute('test.ts');
+            assert.ok(diff);
+
+            const chunks = await useCase.expandContext('test.ts', diff.chunks, 1, 'all');
+
+            assert.ok(chunks);
+            assert.deepStrictEqual(chunks[0].lines.map(l => l.content), ['old', 'new', 'line2', 'line3', 'line4']);
+            assert.strictEqual(chunks[0].header, '@@ -1,4 +1,4 @@');
+        });
+
+        test('returns null when the file cannot be read', async () => {
+            const chunks = await useCase.expandContext('missing.ts', [], 0, 'all');
+
+            assert.strictEqual(chunks, null);
+        });
+
+        test('reveals remembered lines again in a regenerated diff', async () => {
+            gitPort.setDiff('test.ts', '@@ -1,2 +1,2 @@\n-old\n+new\n line2');
+            fileSystem.setFile('test.ts', 'new\nline2\nline3\nline4\n');
+            const diff = await useCase.execute('test.ts');
+            assert.ok(diff);
+
+            const chunks = await useCase.revealContext('test.ts', diff.chunks, new Set([3]));
+
+            assert.deepStrictEqual(chunks[0].lines.map(l => l.content), ['old', 'new', 'line2', 'line3']);
+        });
+    });
+
+    suite('renames and binary files', () => {
+        test('keeps a binary file that git has no lines for', async () => {
+            gitPort.setDiff('img.png', 'diff --git a/img.png b/img.png\nBinary files a/img.png and b/img.png differ\n');
+
+            const result = await useCase.execute('img.png');
+
+            assert.ok(result);
+            assert.strictEqual(result.binary, true);
+        });
+
+        test('reads the original bytes from HEAD, or the base commit in base mode', async () => {
+            gitPort.fileBytes.set('HEAD:img.png', new Uint8Array([1]));
+            gitPort.fileBytes.set('base-sha:old.png', new Uint8Array([2]));
+            const diff = { file: 'img.png', chunks: [], stats: { additions: 0, deletions: 0 } };
+
+            assert.deepStrictEqual(await useCase.getOriginalFileBytes('img.png', diff), new Uint8Array([1]));
+
+            useCase.setBaseCommit('base-sha');
+            useCase.setDiffBaseMode('base');
+            const renamed = { ...diff, origin: { kind: 'renamed' as const, oldPath: 'old.png', similarity: 90 } };
+            assert.deepStrictEqual(await useCase.getOriginalFileBytes('img.png', renamed), new Uint8Array([2]));
+        });
+    });
 });
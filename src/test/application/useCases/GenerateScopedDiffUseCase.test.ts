@@ -1,10 +1,11 @@
 import * as assert from 'assert';
 import { GenerateScopedDiffUseCase } from '../../../application/useCases/GenerateScopedDiffUseCase';
 import { ScopeMappingService } from '../../../domain/services/ScopeMappingService';
-import { IGenerateDiffUseCase } from '../../../application/ports/inbound/IGenerateDiffUseCase';
+import { IGenerateDiffUseCase, DiffBaseMode } from '../../../application/ports/inbound/IGenerateDiffUseCase';
+import { FileStatus } from '../../../application/ports/outbound/IGitPort';
 import { ISymbolPort, ScopeInfo } from '../../../application/ports/outbound/ISymbolPort';
-import { IFileSystemPort } from '../../../application/ports/outbound/IFileSystemPort';
-import { DiffResult } from '../../../domain/entities/Diff';
+import { FileStat, IFileSystemPort } from '../../../application/ports/outbound/IFileSystemPort';
+import { ContextExpansion, DiffChunk, DiffOptions, DiffResult } from '../../../domain/entities/Diff';
 
 class MockGenerateDiffUseCase implements IGenerateDiffUseCase {
     private result: DiffResult | null = null;
@@ -25,6 +26,51 @@ class MockGenerateDiffUseCase implements IGenerateDiffUseCase {
     getWorkspaceRoot(): string | undefined {
         return this.workspaceRoot;
     }
+
+    setBaseCommit(_baseCommit: string | undefined): void {
+        // Not needed for tests
+    }
+
+    getBaseCommit(): string | undefined {
+        return undefined;
+    }
+
+    setDiffBaseMode(_mode: DiffBaseMode): void {
+        // Not needed for tests
+    }
+
+    getDiffBaseMode(): DiffBaseMode {
+        return 'head';
+    }
+
+    setDiffOptions(_options: DiffOptions): void {
+        // Not needed for tests
+    }
+
+    getDiffOptions(): DiffOptions {
+        return {};
+    }
+
+    async expandContext(
+        _relativePath: string,
+        _chunks: DiffChunk[],
+        _gap: number,
+        _direction: ContextExpansion
+    ): Promise<DiffChunk[] | null> {
+        return null;
+    }
+
+    async revealContext(_relativePath: string, chunks: DiffChunk[], _lines: ReadonlySet<number>): Promise<DiffChunk[]> {
+        return chunks;
+    }
+
+    async getOriginalFileBytes(_relativePath: string, _diff: DiffResult): Promise<Uint8Array | null> {
+        return null;
+    }
+
+    async getChangedFilesSinceBase(): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
 }
 
 class MockSymbolPort implements ISymbolPort {
@@ -87,6 +133,18 @@ class MockFileSystemPort implements IFileSystemPort {
         return true;
     }
 
+    async stat(_absolutePath: string): Promise<FileStat | undefined> {
+        return undefined;
+    }
+
+    async writeFile(_path: string, _content: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async removeFile(_path: string): Promise<void> {
+        // Not needed for tests
+    }
+
     async copyFile(_source: string, _dest: string): Promise<void> {
         // Not needed for GenerateScopedDiffUseCase tests
     }
@@ -95,6 +153,10 @@ class MockFileSystemPort implements IFileSystemPort {
         // Not needed for GenerateScopedDiffUseCase tests
     }
 
+    async createSymlink(_target: string, _linkPath: string): Promise<void> {
+        // Not needed for GenerateScopedDiffUseCase tests
+    }
+
     joinPath(...segments: string[]): string {
         return segments.join('/');
     }
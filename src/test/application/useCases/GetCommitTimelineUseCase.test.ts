@@ -0,0 +1,234 @@
+import * as assert from 'assert';
+import { GetCommitTimelineUseCase } from '../../../application/useCases/GetCommitTimelineUseCase';
+import { IGitPort, FileStatus, MergeBranchOptions, WorktreeInfo, GitCommit } from '../../../application/ports/outbound/IGitPort';
+import { DiffService } from '../../../domain/services/DiffService';
+
+class MockGitPort implements IGitPort {
+    public commits: GitCommit[] = [];
+    public commitFiles = new Map<string, Array<{ path: string; status: FileStatus }>>();
+    public commitDiffs = new Map<string, string>();
+    /** File bytes by `${sha}:${path}` */
+    public fileBytes = new Map<string, Uint8Array>();
+    public logRequests: Array<{ workspaceRoot: string; sinceCommit: string }> = [];
+
+    async getDiff(_workspaceRoot: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async isGitRepository(_workspaceRoot: string): Promise<boolean> {
+        return true;
+    }
+
+    async getUncommittedFiles(_workspaceRoot: string): Promise<string[]> {
+        return [];
+    }
+
+    async getFileStatus(_workspaceRoot: string, _relativePath: string): Promise<FileStatus> {
+        return 'modified';
+    }
+
+    async getUncommittedFilesWithStatus(_workspaceRoot: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
+
+    async getCurrentBranch(_workspaceRoot: string): Promise<string> {
+        return 'main';
+    }
+
+    async createWorktree(_path: string, _branch: string, _workspaceRoot: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async getWorktreeRoot(_workspaceRoot: string): Promise<string | null> {
+        return null;
+    }
+
+    async listWorktrees(_workspaceRoot: string): Promise<WorktreeInfo[]> {
+        return [];
+    }
+
+    async isValidWorktree(_path: string, _workspaceRoot: string): Promise<boolean> {
+        return true;
+    }
+
+    async getWorktreeBranch(_worktreePath: string): Promise<string> {
+        return 'feature';
+    }
+
+    async removeWorktree(_worktreePath: string, _workspaceRoot: string, _force?: boolean): Promise<void> {
+        // Not needed for tests
+    }
+
+    async deleteBranch(_branchName: string, _workspaceRoot: string, _force?: boolean): Promise<void> {
+        // Not needed for tests
+    }
+
+    async getMergeConflicts(_baseBranch: string, _branch: string, _workspaceRoot: string): Promise<string[]> {
+        return [];
+    }
+
+    async mergeBranch(_branch: string, _workspaceRoot: string, _options?: MergeBranchOptions): Promise<void> {
+        // Not needed for tests
+    }
+
+    async rebaseBranch(_worktreePath: string, _ontoBranch: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async resetHard(_workspaceRoot: string, _commit: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async getHeadCommit(_workspaceRoot: string): Promise<string> {
+        return 'abc123';
+    }
+
+    async getMergeBase(_refA: string, _refB: string, _workspaceRoot: string): Promise<string | null> {
+        return null;
+    }
+
+    async getDiffFromCommit(_workspaceRoot: string, _baseCommit: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async getChangedFilesFromCommit(_workspaceRoot: string, _baseCommit: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
+
+    async getCommitLog(workspaceRoot: string, sinceCommit: string): Promise<GitCommit[]> {
+        this.logRequests.push({ workspaceRoot, sinceCommit });
+        return this.commits;
+    }
+
+    async getCommitFiles(_workspaceRoot: string, sha: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return this.commitFiles.get(sha) ?? [];
+    }
+
+    async getCommitDiff(_workspaceRoot: string, sha: string, relativePath: string): Promise<string> {
+        return this.commitDiffs.get(`${sha}:${relativePath}`) ?? '';
+    }
+
+    async getFileAtCommit(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<string | null> {
+        return null;
+    }
+
+    async getFileBytesAtCommit(_workspaceRoot: string, sha: string, relativePath: string): Promise<Uint8Array | null> {
+        return this.fileBytes.get(`${sha}:${relativePath}`) ?? null;
+    }
+
+    async applyReversePatch(_workspaceRoot: string, _patch: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async stagePatch(_workspaceRoot: string, _patch: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async stageFiles(_workspaceRoot: string, _relativePaths: string[]): Promise<void> {
+        // Not needed for tests
+    }
+
+    async commit(_workspaceRoot: string, _message: string, _relativePaths?: string[]): Promise<string> {
+        return 'abc123';
+    }
+}
+
+suite('GetCommitTimelineUseCase', () => {
+    let mockGit: MockGitPort;
+    let diffService: DiffService;
+
+    const commit: GitCommit = {
+        sha: 'c1',
+        subject: 'Add feature',
+        author: 'agent',
+        timestamp: 1700000000000,
+    };
+
+    setup(() => {
+        mockGit = new MockGitPort();
+        diffService = new DiffService();
+    });
+
+    test('lists commits since the starting commit', async () => {
+        mockGit.commits = [commit];
+        const useCase = new GetCommitTimelineUseCase(mockGit, diffService, '/workspace', 'base-sha');
+
+        const commits = await useCase.execute();
+
+        assert.deepStrictEqual(commits, [commit]);
+        assert.deepStrictEqual(mockGit.logRequests, [{ workspaceRoot: '/workspace', sinceCommit: 'base-sha' }]);
+    });
+
+    test('lists no commits without a starting commit', async () => {
+        mockGit.commits = [commit];
+        const useCase = new GetCommitTimelineUseCase(mockGit, diffService, '/workspace', undefined);
+
+        const commits = await useCase.execute();
+
+        assert.deepStrictEqual(commits, []);
+        assert.strictEqual(mockGit.logRequests.length, 0);
+    });
+
+    test('lists files changed by a commit', async () => {
+        mockGit.commitFiles.set('c1', [{ path: 'src/a.ts', status: 'added' }]);
+        const useCase = new GetCommitTimelineUseCase(mockGit, diffService, '/workspace', 'base-sha');
+
+        const files = await useCase.getCommitFiles('c1');
+
+        assert.deepStrictEqual(files, [{ path: 'src/a.ts', status: 'added' }]);
+    });
+
+    test('parses the diff a commit made to a file', async () => {
+        mockGit.commitDiffs.set('c1:src/a.ts', `diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,2 +1,3 @@
+ line1
++added
+ line2`);
+        const useCase = new GetCommitTimelineUseCase(mockGit, diffService, '/workspace', 'base-sha');
+
+        const diff = await useCase.getCommitDiff('c1', 'src/a.ts');
+
+        assert.ok(diff);
+        assert.strictEqual(diff.file, 'src/a.ts');
+        assert.strictEqual(diff.stats.additions, 1);
+    });
+
+    test('returns null when the commit did not change the file', async () => {
+        const useCase = new GetCommitTimelineUseCase(mockGit, diffService, '/workspace', 'base-sha');
+
+        const diff = await useCase.getCommitDiff('c1', 'src/other.ts');
+
+        assert.strictEqual(diff, null);
+    });
+
+    test('keeps a file the commit only renamed', async () => {
+        mockGit.commitDiffs.set('c1:src/b.ts', `diff --git a/src/a.ts b/src/b.ts
+similarity index 100%
+rename from src/a.ts
+rename to src/b.ts`);
+        const useCase = new GetCommitTimelineUseCase(mockGit, diffService, '/workspace', 'base-sha');
+
+        const diff = await useCase.getCommitDiff('c1', 'src/b.ts');
+
+        assert.ok(diff);
+        assert.deepStrictEqual(diff.origin, { kind: 'renamed', oldPath: 'src/a.ts', similarity: 100 });
+    });
+
+    test('reads file bytes before and after a commit, before from the rename source', async () => {
+        mockGit.fileBytes.set('c1^:old.png', new Uint8Array([1]));
+        mockGit.fileBytes.set('c1:new.png', new Uint8Array([2]));
+        const useCase = new GetCommitTimelineUseCase(mockGit, diffService, '/workspace', 'base-sha');
+        const diff = {
+            file: 'new.png',
+            chunks: [],
+            stats: { additions: 0, deletions: 0 },
+            origin: { kind: 'renamed' as const, oldPath: 'old.png', similarity: 95 },
+        };
+
+        const bytes = await useCase.getCommitFileBytes('c1', 'new.png', diff);
+
+        assert.deepStrictEqual(bytes, { before: new Uint8Array([1]), after: new Uint8Array([2]) });
+    });
+});
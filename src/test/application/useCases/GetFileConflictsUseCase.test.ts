@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { GetFileConflictsUseCase } from '../../../application/useCases/GetFileConflictsUseCase';
+import { InMemoryFileThreadMappingRepository } from '../../../infrastructure/repositories/InMemoryFileThreadMappingRepository';
+import { FileThreadMapping } from '../../../domain/entities/FileThreadMapping';
+
+suite('GetFileConflictsUseCase', () => {
+    let useCase: GetFileConflictsUseCase;
+    let repository: InMemoryFileThreadMappingRepository;
+
+    setup(async () => {
+        repository = new InMemoryFileThreadMappingRepository();
+        useCase = new GetFileConflictsUseCase(repository);
+
+        await repository.save(FileThreadMapping.create('src/app.ts', 'tid-a'));
+        await repository.save(FileThreadMapping.create('src/app.ts', 'tid-b'));
+        await repository.save(FileThreadMapping.create('src/util.ts', 'tid-a'));
+        await repository.save(FileThreadMapping.create('src/util.ts', 'tid-gone'));
+    });
+
+    test('returns files modified by several of the given threads', async () => {
+        const conflicts = await useCase.execute({ threadIds: ['tid-a', 'tid-b'] });
+
+        assert.deepStrictEqual(conflicts, [{ filePath: 'src/app.ts', threadIds: ['tid-a', 'tid-b'] }]);
+    });
+
+    test('ignores threads that are not given', async () => {
+        const conflicts = await useCase.execute({ threadIds: ['tid-a', 'tid-c'] });
+
+        assert.deepStrictEqual(conflicts, []);
+    });
+
+    test('returns nothing for a single thread', async () => {
+        assert.deepStrictEqual(await useCase.execute({ threadIds: ['tid-a'] }), []);
+    });
+});
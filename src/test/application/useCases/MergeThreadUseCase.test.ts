@@ -0,0 +1,372 @@
+import * as assert from 'assert';
+import { MergeThreadUseCase } from '../../../application/useCases/MergeThreadUseCase';
+import { IThreadStateRepository } from '../../../application/ports/outbound/IThreadStateRepository';
+import { IGitPort, FileStatus, MergeBranchOptions, WorktreeInfo, GitCommit } from '../../../application/ports/outbound/IGitPort';
+import { ThreadState } from '../../../domain/entities/ThreadState';
+
+class MockThreadStateRepository implements IThreadStateRepository {
+    public states: ThreadState[] = [];
+
+    async save(state: ThreadState): Promise<void> {
+        this.states.push(state);
+    }
+
+    async findAll(): Promise<ThreadState[]> {
+        return this.states;
+    }
+
+    async findById(threadId: string): Promise<ThreadState | null> {
+        return this.states.find(s => s.threadId === threadId) ?? null;
+    }
+
+    async findByTerminalId(terminalId: string): Promise<ThreadState | null> {
+        return this.states.find(s => s.terminalId === terminalId) ?? null;
+    }
+
+    async delete(_threadId: string): Promise<boolean> {
+        return true;
+    }
+
+    async updateWhitelist(_threadId: string, _patterns: string[]): Promise<void> {
+        // Not needed for tests
+    }
+
+    async updateBase(_threadId: string, _baseCommit: string, _baseBranch?: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async updateTerminalId(_threadId: string, _terminalId: string): Promise<void> {
+        // Not needed for tests
+    }
+}
+
+class MockGitPort implements IGitPort {
+    public currentBranch = 'main';
+    public uncommittedFiles: Record<string, string[]> = {};
+    public conflicts: string[] = [];
+    public failMerge = false;
+    public headCommit = 'abc123';
+    public resets: Array<{ workspaceRoot: string; commit: string }> = [];
+    public merges: Array<{ branch: string; options?: MergeBranchOptions }> = [];
+    public rebases: Array<{ worktreePath: string; ontoBranch: string }> = [];
+    public deletedBranches: string[] = [];
+
+    async getDiff(_workspaceRoot: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async isGitRepository(_workspaceRoot: string): Promise<boolean> {
+        return true;
+    }
+
+    async getUncommittedFiles(workspaceRoot: string): Promise<string[]> {
+        return this.uncommittedFiles[workspaceRoot] ?? [];
+    }
+
+    async getFileStatus(_workspaceRoot: string, _relativePath: string): Promise<FileStatus> {
+        return 'modified';
+    }
+
+    async getUncommittedFilesWithStatus(_workspaceRoot: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
+
+    async getCurrentBranch(_workspaceRoot: string): Promise<string> {
+        return this.currentBranch;
+    }
+
+    async createWorktree(_path: string, _branch: string, _workspaceRoot: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async getWorktreeRoot(_workspaceRoot: string): Promise<string | null> {
+        return null;
+    }
+
+    async listWorktrees(_workspaceRoot: string): Promise<WorktreeInfo[]> {
+        return [];
+    }
+
+    async isValidWorktree(_path: string, _workspaceRoot: string): Promise<boolean> {
+        return true;
+    }
+
+    async getWorktreeBranch(_worktreePath: string): Promise<string> {
+        return 'feature';
+    }
+
+    async removeWorktree(_worktreePath: string, _workspaceRoot: string, _force?: boolean): Promise<void> {
+        // Not needed for tests
+    }
+
+    async deleteBranch(branchName: string, _workspaceRoot: string, _force?: boolean): Promise<void> {
+        this.deletedBranches.push(branchName);
+    }
+
+    async getMergeConflicts(_baseBranch: string, _branch: string, _workspaceRoot: string): Promise<string[]> {
+        return this.conflicts;
+    }
+
+    async mergeBranch(branch: string, _workspaceRoot: string, options?: MergeBranchOptions): Promise<void> {
+        if (this.failMerge) {
+            throw new Error('merge failed');
+        }
+        this.merges.push({ branch, options });
+    }
+
+    async rebaseBranch(worktreePath: string, ontoBranch: string): Promise<void> {
+        this.rebases.push({ worktreePath, ontoBranch });
+        this.headCommit = 'rebased';
+    }
+
+    async resetHard(workspaceRoot: string, commit: string): Promise<void> {
+        this.resets.push({ workspaceRoot, commit });
+    }
+
+    async getHeadCommit(_workspaceRoot: string): Promise<string> {
+        return this.headCommit;
+    }
+
+    async getMergeBase(_refA: string, _refB: string, _workspaceRoot: string): Promise<string | null> {
+        return null;
+    }
+
+    async getDiffFromCommit(_workspaceRoot: string, _baseCommit: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async getChangedFilesFromCommit(_workspaceRoot: string, _baseCommit: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
+
+    async getCommitLog(_workspaceRoot: string, _sinceCommit: string): Promise<GitCommit[]> {
+        return [];
+    }
+
+    async getCommitFiles(_workspaceRoot: string, _sha: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
+
+    async getCommitDiff(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async getFileAtCommit(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<string | null> {
+        return null;
+    }
+
+    async getFileBytesAtCommit(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<Uint8Array | null> {
+        return null;
+    }
+
+    async applyReversePatch(_workspaceRoot: string, _patch: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async stagePatch(_workspaceRoot: string, _patch: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async stageFiles(_workspaceRoot: string, _relativePaths: string[]): Promise<void> {
+        // Not needed for tests
+    }
+
+    async commit(_workspaceRoot: string, _message: string, _relativePaths?: string[]): Promise<string> {
+        return 'abc123';
+    }
+}
+
+suite('MergeThreadUseCase', () => {
+    let useCase: MergeThreadUseCase;
+    let mockThreadRepo: MockThreadStateRepository;
+    let mockGit: MockGitPort;
+    let thread: ThreadState;
+
+    setup(() => {
+        mockThreadRepo = new MockThreadStateRepository();
+        mockGit = new MockGitPort();
+        useCase = new MergeThreadUseCase(mockThreadRepo, mockGit);
+
+        thread = ThreadState.create({
+            name: 'feature',
+            terminalId: 'terminal-1',
+            workingDir: '/workspace.worktree/feature',
+            branch: 'feature',
+            worktreePath: '/workspace.worktree/feature',
+            baseBranch: 'main',
+            whitelistPatterns: [],
+        });
+        mockThreadRepo.states.push(thread);
+    });
+
+    test('merges branch into base branch with merge commit', async () => {
+        const result = await useCase.execute({
+            threadId: thread.threadId,
+            workspaceRoot: '/workspace',
+            strategy: 'merge',
+        });
+
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(result.baseBranch, 'main');
+        assert.strictEqual(mockGit.merges.length, 1);
+        assert.strictEqual(mockGit.merges[0].branch, 'feature');
+        assert.ok(!mockGit.merges[0].options?.squash);
+    });
+
+    test('squash merges with given commit message', async () => {
+        const result = await useCase.execute({
+            threadId: thread.threadId,
+            workspaceRoot: '/workspace',
+            strategy: 'squash',
+            commitMessage: 'Add feature',
+        });
+
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(mockGit.merges[0].options?.squash, true);
+        assert.strictEqual(mockGit.merges[0].options?.message, 'Add feature');
+    });
+
+    test('rebases worktree onto base and fast-forwards', async () => {
+        const result = await useCase.execute({
+            threadId: thread.threadId,
+            workspaceRoot: '/workspace',
+            strategy: 'rebase',
+        });
+
+        assert.strictEqual(result.success, true);
+        assert.deepStrictEqual(mockGit.rebases, [{ worktreePath: '/workspace.worktree/feature', ontoBranch: 'main' }]);
+        assert.strictEqual(mockGit.merges[0].options?.fastForwardOnly, true);
+    });
+
+    test('reports conflicts without merging', async () => {
+        mockGit.conflicts = ['src/a.ts', 'src/b.ts'];
+
+        const result = await useCase.execute({
+            threadId: thread.threadId,
+            workspaceRoot: '/workspace',
+            strategy: 'merge',
+        });
+
+        assert.strictEqual(result.success, false);
+        assert.deepStrictEqual(result.conflicts, ['src/a.ts', 'src/b.ts']);
+        assert.strictEqual(mockGit.merges.length, 0);
+    });
+
+    test('fails when merge fails', async () => {
+        mockGit.failMerge = true;
+
+        const result = await useCase.execute({
+            threadId: thread.threadId,
+            workspaceRoot: '/workspace',
+            strategy: 'merge',
+        });
+
+        assert.strictEqual(result.success, false);
+        assert.strictEqual(result.error, 'merge failed');
+    });
+
+    test('never deletes the branch', async () => {
+        mockGit.failMerge = true;
+        await useCase.execute({ threadId: thread.threadId, workspaceRoot: '/workspace', strategy: 'merge' });
+
+        mockGit.failMerge = false;
+        await useCase.execute({ threadId: thread.threadId, workspaceRoot: '/workspace', strategy: 'merge' });
+
+        assert.strictEqual(mockGit.deletedBranches.length, 0);
+    });
+
+    test('refuses when worktree has uncommitted changes', async () => {
+        mockGit.uncommittedFiles = { '/workspace.worktree/feature': ['src/a.ts'] };
+
+        const result = await useCase.execute({
+            threadId: thread.threadId,
+            workspaceRoot: '/workspace',
+            strategy: 'merge',
+        });
+
+        assert.strictEqual(result.success, false);
+        assert.ok(result.error?.includes('uncommitted'));
+        assert.strictEqual(mockGit.merges.length, 0);
+    });
+
+    test('refuses when the main workspace has uncommitted changes', async () => {
+        mockGit.uncommittedFiles = { '/workspace': ['src/staged.ts'] };
+
+        const result = await useCase.execute({
+            threadId: thread.threadId,
+            workspaceRoot: '/workspace',
+            strategy: 'squash',
+        });
+
+        assert.strictEqual(result.success, false);
+        assert.ok(result.error?.includes('Main workspace'));
+        assert.strictEqual(mockGit.merges.length, 0);
+    });
+
+    test('resets the rebased branch when the fast-forward fails', async () => {
+        mockGit.failMerge = true;
+
+        const result = await useCase.execute({
+            threadId: thread.threadId,
+            workspaceRoot: '/workspace',
+            strategy: 'rebase',
+        });
+
+        assert.strictEqual(result.success, false);
+        assert.deepStrictEqual(mockGit.resets, [{ workspaceRoot: '/workspace.worktree/feature', commit: 'abc123' }]);
+    });
+
+    test('refuses when base branch is not checked out', async () => {
+        mockGit.currentBranch = 'develop';
+
+        const result = await useCase.execute({
+            threadId: thread.threadId,
+            workspaceRoot: '/workspace',
+            strategy: 'merge',
+        });
+
+        assert.strictEqual(result.success, false);
+        assert.ok(result.error?.includes('main'));
+        assert.strictEqual(mockGit.merges.length, 0);
+    });
+
+    test('falls back to current branch when base branch was not recorded', async () => {
+        const legacy = ThreadState.create({
+            name: 'legacy',
+            terminalId: 'terminal-2',
+            workingDir: '/workspace.worktree/legacy',
+            branch: 'legacy',
+            worktreePath: '/workspace.worktree/legacy',
+            whitelistPatterns: [],
+        });
+        mockThreadRepo.states.push(legacy);
+        mockGit.currentBranch = 'develop';
+
+        const result = await useCase.execute({
+            threadId: legacy.threadId,
+            workspaceRoot: '/workspace',
+            strategy: 'merge',
+        });
+
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(result.baseBranch, 'develop');
+    });
+
+    test('fails for thread without worktree', async () => {
+        const local = ThreadState.create({
+            name: 'local',
+            terminalId: 'terminal-3',
+            workingDir: '/workspace',
+            whitelistPatterns: [],
+        });
+        mockThreadRepo.states.push(local);
+
+        const result = await useCase.execute({
+            threadId: local.threadId,
+            workspaceRoot: '/workspace',
+            strategy: 'merge',
+        });
+
+        assert.strictEqual(result.success, false);
+    });
+});
@@ -0,0 +1,300 @@
+import * as assert from 'assert';
+import { RestoreThreadSessionsUseCase } from '../../../application/useCases/RestoreThreadSessionsUseCase';
+import { ReopenThreadTerminalUseCase } from '../../../application/useCases/ReopenThreadTerminalUseCase';
+import { IThreadStateRepository } from '../../../application/ports/outbound/IThreadStateRepository';
+import {
+    ITerminalPort,
+    OpenTerminalInfo,
+    TerminalActivityCallback,
+    TerminalOutputCallback,
+    TerminalCommandCallback,
+} from '../../../application/ports/outbound/ITerminalPort';
+import { FileStat, IFileSystemPort } from '../../../application/ports/outbound/IFileSystemPort';
+import { ThreadState } from '../../../domain/entities/ThreadState';
+import { AgentRegistry } from '../../../domain/services/AgentRegistry';
+
+class MockThreadStateRepository implements IThreadStateRepository {
+    public states: ThreadState[] = [];
+    public terminalUpdates: Array<{ threadId: string; terminalId: string }> = [];
+
+    async save(state: ThreadState): Promise<void> {
+        this.states.push(state);
+    }
+
+    async findAll(): Promise<ThreadState[]> {
+        return this.states;
+    }
+
+    async findById(threadId: string): Promise<ThreadState | null> {
+        return this.states.find(s => s.threadId === threadId) ?? null;
+    }
+
+    async findByTerminalId(terminalId: string): Promise<ThreadState | null> {
+        return this.states.find(s => s.terminalId === terminalId) ?? null;
+    }
+
+    async delete(_threadId: string): Promise<boolean> {
+        return true;
+    }
+
+    async updateWhitelist(_threadId: string, _patterns: string[]): Promise<void> {
+        // Not needed for tests
+    }
+
+    async updateBase(_threadId: string, _baseCommit: string, _baseBranch?: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async updateTerminalId(threadId: string, terminalId: string): Promise<void> {
+        this.terminalUpdates.push({ threadId, terminalId });
+    }
+}
+
+class MockTerminalPort implements ITerminalPort {
+    public openTerminals: OpenTerminalInfo[] = [];
+    public created: Array<{ name: string; cwd?: string }> = [];
+
+    initialize(): void {
+        // Not needed for tests
+    }
+
+    sendText(_terminalId: string, _text: string): void {
+        // Not needed for tests
+    }
+
+    showTerminal(_terminalId: string): void {
+        // Not needed for tests
+    }
+
+    async createTerminal(name: string, cwd?: string): Promise<string> {
+        this.created.push({ name, cwd });
+        return `new-terminal-${this.created.length}`;
+    }
+
+    onTerminalActivity(_callback: TerminalActivityCallback): void {
+        // Not needed for tests
+    }
+
+    onTerminalOutput(_callback: TerminalOutputCallback): void {
+        // Not needed for tests
+    }
+
+    onCommandExecuted(_callback: TerminalCommandCallback): void {
+        // Not needed for tests
+    }
+
+    onCommandEnded(_callback: TerminalCommandCallback): void {
+        // Not needed for tests
+    }
+
+    async closeTerminal(_terminalId: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async getOpenTerminals(): Promise<OpenTerminalInfo[]> {
+        return [...this.openTerminals];
+    }
+}
+
+class MockFileSystemPort implements IFileSystemPort {
+    public existing = new Set<string>();
+
+    async readFile(_path: string): Promise<string> {
+        return '';
+    }
+
+    async fileExists(path: string): Promise<boolean> {
+        return this.existing.has(path);
+    }
+
+    async isFile(_path: string): Promise<boolean> {
+        return false;
+    }
+
+    async stat(_path: string): Promise<FileStat | undefined> {
+        return undefined;
+    }
+
+    getWorkspaceRoot(): string | undefined {
+        return '/workspace';
+    }
+
+    toAbsolutePath(relativePath: string): string {
+        return `/workspace/${relativePath}`;
+    }
+
+    toRelativePath(absolutePath: string): string {
+        return absolutePath.replace('/workspace/', '');
+    }
+
+    async writeFile(_path: string, _content: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async removeFile(_path: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async copyFile(_source: string, _dest: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async ensureDir(_dirPath: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async createSymlink(_target: string, _linkPath: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    joinPath(...segments: string[]): string {
+        return segments.join('/');
+    }
+}
+
+function thread(threadId: string, name: string, terminalId: string, worktreePath?: string): ThreadState {
+    return ThreadState.fromData({
+        threadId,
+        name,
+        terminalId,
+        workingDir: worktreePath ?? '/workspace',
+        branch: worktreePath ? name : undefined,
+        worktreePath,
+        whitelistPatterns: [],
+        createdAt: 0,
+    });
+}
+
+suite('RestoreThreadSessionsUseCase', () => {
+    let useCase: RestoreThreadSessionsUseCase;
+    let mockRepository: MockThreadStateRepository;
+    let mockTerminal: MockTerminalPort;
+
+    setup(() => {
+        mockRepository = new MockThreadStateRepository();
+        mockTerminal = new MockTerminalPort();
+        useCase = new RestoreThreadSessionsUseCase(mockRepository, mockTerminal, new AgentRegistry());
+    });
+
+    test('keeps threads whose terminal ID still exists', async () => {
+        mockRepository.states = [thread('t1', 'feature', '1001', '/wt/feature')];
+        mockTerminal.openTerminals = [{ terminalId: '1001', name: 'renamed' }];
+
+        const result = await useCase.execute();
+
+        assert.deepStrictEqual(result.restored.map(r => r.matchedBy), ['terminalId']);
+        assert.deepStrictEqual(mockRepository.terminalUpdates, []);
+    });
+
+    test('matches by name, then by working directory', async () => {
+        mockRepository.states = [
+            thread('t1', 'feature', '1001', '/wt/feature'),
+            thread('t2', 'bugfix', '1002', '/wt/bugfix'),
+        ];
+        mockTerminal.openTerminals = [
+            { terminalId: '2002', name: 'zsh', cwd: '/wt/bugfix/' },
+            { terminalId: '2001', name: 'feature' },
+        ];
+
+        const result = await useCase.execute();
+
+        assert.deepStrictEqual(
+            result.restored.map(r => [r.threadState.threadId, r.threadState.terminalId, r.matchedBy]),
+            [['t1', '2001', 'name'], ['t2', '2002', 'cwd']]
+        );
+        assert.deepStrictEqual(mockRepository.terminalUpdates, [
+            { threadId: 't1', terminalId: '2001' },
+            { threadId: 't2', terminalId: '2002' },
+        ]);
+    });
+
+    test('prefers the same-named terminal in the thread directory', async () => {
+        mockRepository.states = [thread('t1', 'feature', '1001', '/wt/feature')];
+        mockTerminal.openTerminals = [
+            { terminalId: '2001', name: 'feature', cwd: '/other' },
+            { terminalId: '2002', name: 'feature', cwd: '/wt/feature' },
+        ];
+
+        const result = await useCase.execute();
+
+        assert.strictEqual(result.restored[0].threadState.terminalId, '2002');
+    });
+
+    test('matches a thread without a worktree by directory only to an agent terminal', async () => {
+        mockRepository.states = [thread('t1', 'review', '1001')];
+        mockTerminal.openTerminals = [
+            { terminalId: '2001', name: 'zsh', cwd: '/workspace' },
+            { terminalId: '2002', name: 'claude', cwd: '/workspace' },
+        ];
+
+        const result = await useCase.execute();
+
+        assert.deepStrictEqual(result.restored.map(r => [r.threadState.terminalId, r.matchedBy]), [['2002', 'cwd']]);
+    });
+
+    test('leaves a thread without a worktree unmatched when only a shell is in its directory', async () => {
+        mockRepository.states = [thread('t1', 'review', '1001')];
+        mockTerminal.openTerminals = [{ terminalId: '2001', name: 'zsh', cwd: '/workspace' }];
+
+        const result = await useCase.execute();
+
+        assert.deepStrictEqual(result.unmatched.map(t => t.threadId), ['t1']);
+    });
+
+    test('does not match a detached thread by its old terminal ID', async () => {
+        const detached = thread('t1', 'review', '1001');
+        detached.detachTerminal();
+        mockRepository.states = [detached];
+        mockTerminal.openTerminals = [{ terminalId: '1001', name: 'zsh', cwd: '/workspace' }];
+
+        const result = await useCase.execute();
+
+        assert.deepStrictEqual(result.unmatched.map(t => t.threadId), ['t1']);
+        assert.strictEqual(detached.isDetached, true);
+    });
+
+    test('claims each terminal once and reports the rest as unmatched', async () => {
+        mockRepository.states = [
+            thread('t1', 'feature', '1001', '/wt/feature'),
+            thread('t2', 'feature', '1002', '/wt/feature-2'),
+        ];
+        mockTerminal.openTerminals = [{ terminalId: '2001', name: 'feature' }];
+
+        const result = await useCase.execute();
+
+        assert.deepStrictEqual(result.restored.map(r => r.threadState.threadId), ['t1']);
+        assert.deepStrictEqual(result.unmatched.map(t => t.threadId), ['t2']);
+    });
+});
+
+suite('ReopenThreadTerminalUseCase', () => {
+    let useCase: ReopenThreadTerminalUseCase;
+    let mockRepository: MockThreadStateRepository;
+    let mockTerminal: MockTerminalPort;
+    let mockFileSystem: MockFileSystemPort;
+
+    setup(() => {
+        mockRepository = new MockThreadStateRepository();
+        mockTerminal = new MockTerminalPort();
+        mockFileSystem = new MockFileSystemPort();
+        useCase = new ReopenThreadTerminalUseCase(mockRepository, mockTerminal, mockFileSystem);
+    });
+
+    test('opens a terminal in the worktree and records it', async () => {
+        mockRepository.states = [thread('t1', 'feature', '1001', '/wt/feature')];
+        mockFileSystem.existing.add('/wt/feature');
+
+        const { threadState } = await useCase.execute({ threadId: 't1' });
+
+        assert.deepStrictEqual(mockTerminal.created, [{ name: 'feature', cwd: '/wt/feature' }]);
+        assert.strictEqual(threadState.terminalId, 'new-terminal-1');
+        assert.deepStrictEqual(mockRepository.terminalUpdates, [{ threadId: 't1', terminalId: 'new-terminal-1' }]);
+    });
+
+    test('fails when the worktree is gone', async () => {
+        mockRepository.states = [thread('t1', 'feature', '1001', '/wt/feature')];
+
+        await assert.rejects(() => useCase.execute({ threadId: 't1' }), /no longer exists/);
+        assert.strictEqual(mockTerminal.created.length, 0);
+    });
+});
@@ -0,0 +1,203 @@
+import * as assert from 'assert';
+import { RunWorktreeSetupUseCase } from '../../../application/useCases/RunWorktreeSetupUseCase';
+import { SetupProgress } from '../../../application/ports/inbound/IRunWorktreeSetupUseCase';
+import { ICommandRunnerPort, CommandRunOptions, CommandRunResult } from '../../../application/ports/outbound/ICommandRunnerPort';
+import { FileStat, IFileSystemPort } from '../../../application/ports/outbound/IFileSystemPort';
+import { SetupStep, parseSetupSteps, DEFAULT_SETUP_STEP_TIMEOUT_MS } from '../../../domain/entities/SetupStep';
+
+class MockCommandRunner implements ICommandRunnerPort {
+    public runs: Array<{ command: string; options: CommandRunOptions }> = [];
+    private results = new Map<string, CommandRunResult>();
+
+    setResult(command: string, result: CommandRunResult): void {
+        this.results.set(command, result);
+    }
+
+    async run(command: string, options: CommandRunOptions): Promise<CommandRunResult> {
+        this.runs.push({ command, options });
+        options.onOutput?.(`output of ${command}\n`);
+        return this.results.get(command) ?? { exitCode: 0, timedOut: false };
+    }
+}
+
+class MockFileSystemPort implements IFileSystemPort {
+    public existing = new Set<string>();
+    public symlinks: Array<{ target: string; linkPath: string }> = [];
+    public createdDirs: string[] = [];
+
+    async readFile(_path: string): Promise<string> {
+        return '';
+    }
+
+    async fileExists(path: string): Promise<boolean> {
+        return this.existing.has(path);
+    }
+
+    async isFile(_path: string): Promise<boolean> {
+        return false;
+    }
+
+    async stat(_path: string): Promise<FileStat | undefined> {
+        return undefined;
+    }
+
+    getWorkspaceRoot(): string | undefined {
+        return '/workspace';
+    }
+
+    toAbsolutePath(relativePath: string): string {
+        return `/workspace/${relativePath}`;
+    }
+
+    toRelativePath(absolutePath: string): string {
+        return absolutePath.replace('/workspace/', '');
+    }
+
+    async writeFile(_path: string, _content: string): Promise<void> {
+        // Not needed for RunWorktreeSetupUseCase tests
+    }
+
+    async removeFile(_path: string): Promise<void> {
+        // Not needed for RunWorktreeSetupUseCase tests
+    }
+
+    async copyFile(_source: string, _dest: string): Promise<void> {
+        // Not needed for RunWorktreeSetupUseCase tests
+    }
+
+    async ensureDir(dirPath: string): Promise<void> {
+        this.createdDirs.push(dirPath);
+    }
+
+    async createSymlink(target: string, linkPath: string): Promise<void> {
+        this.symlinks.push({ target, linkPath });
+    }
+
+    joinPath(...segments: string[]): string {
+        return segments.join('/');
+    }
+}
+
+function run(command: string, timeoutMs = 1000): SetupStep {
+    return { kind: 'run', name: command, command, timeoutMs };
+}
+
+suite('RunWorktreeSetupUseCase', () => {
+    let useCase: RunWorktreeSetupUseCase;
+    let mockRunner: MockCommandRunner;
+    let mockFileSystem: MockFileSystemPort;
+
+    setup(() => {
+        mockRunner = new MockCommandRunner();
+        mockFileSystem = new MockFileSystemPort();
+        useCase = new RunWorktreeSetupUseCase(mockRunner, mockFileSystem);
+    });
+
+    test('runs steps in order in the worktree and reports progress', async () => {
+        const progress: SetupProgress[] = [];
+        let log = '';
+
+        const result = await useCase.execute({
+            workspaceRoot: '/workspace',
+            worktreePath: '/wt',
+            steps: [run('npm ci', 5000), run('npm run build')],
+            onProgress: (p) => progress.push(p),
+            onOutput: (text) => { log += text; },
+        });
+
+        assert.strictEqual(result.success, true);
+        assert.deepStrictEqual(mockRunner.runs.map(r => r.command), ['npm ci', 'npm run build']);
+        assert.strictEqual(mockRunner.runs[0].options.cwd, '/wt');
+        assert.strictEqual(mockRunner.runs[0].options.timeoutMs, 5000);
+        assert.deepStrictEqual(progress.map(p => [p.index, p.total]), [[0, 2], [1, 2]]);
+        assert.ok(log.includes('$ npm ci'));
+        assert.ok(log.includes('output of npm run build'));
+    });
+
+    test('stops at the first failing step', async () => {
+        mockRunner.setResult('npm ci', { exitCode: 1, timedOut: false });
+
+        const result = await useCase.execute({
+            workspaceRoot: '/workspace',
+            worktreePath: '/wt',
+            steps: [run('npm ci'), run('npm run build')],
+        });
+
+        assert.strictEqual(result.success, false);
+        assert.strictEqual(result.failedStep, 'npm ci');
+        assert.strictEqual(result.error, 'Exited with code 1');
+        assert.strictEqual(mockRunner.runs.length, 1);
+    });
+
+    test('reports timeouts', async () => {
+        mockRunner.setResult('sleep 999', { exitCode: null, timedOut: true });
+
+        const result = await useCase.execute({
+            workspaceRoot: '/workspace',
+            worktreePath: '/wt',
+            steps: [run('sleep 999', 30000)],
+        });
+
+        assert.strictEqual(result.success, false);
+        assert.strictEqual(result.error, 'Timed out after 30s');
+    });
+
+    test('reports commands that cannot be started', async () => {
+        mockRunner.run = async () => { throw new Error('spawn ENOENT'); };
+
+        const result = await useCase.execute({
+            workspaceRoot: '/workspace',
+            worktreePath: '/wt',
+            steps: [run('missing')],
+        });
+
+        assert.strictEqual(result.success, false);
+        assert.strictEqual(result.error, 'spawn ENOENT');
+    });
+
+    suite('symlink steps', () => {
+        const linkStep: SetupStep = { kind: 'symlink', name: 'Link node_modules', path: 'node_modules' };
+
+        test('links path from the main checkout', async () => {
+            mockFileSystem.existing.add('/workspace/node_modules');
+
+            const result = await useCase.execute({ workspaceRoot: '/workspace', worktreePath: '/wt', steps: [linkStep] });
+
+            assert.strictEqual(result.success, true);
+            assert.deepStrictEqual(mockFileSystem.symlinks, [{ target: '/workspace/node_modules', linkPath: '/wt/node_modules' }]);
+        });
+
+        test('skips missing sources and existing targets', async () => {
+            let result = await useCase.execute({ workspaceRoot: '/workspace', worktreePath: '/wt', steps: [linkStep] });
+            assert.strictEqual(result.success, true);
+
+            mockFileSystem.existing.add('/workspace/node_modules');
+            mockFileSystem.existing.add('/wt/node_modules');
+            result = await useCase.execute({ workspaceRoot: '/workspace', worktreePath: '/wt', steps: [linkStep] });
+
+            assert.strictEqual(result.success, true);
+            assert.strictEqual(mockFileSystem.symlinks.length, 0);
+        });
+    });
+
+    suite('parseSetupSteps', () => {
+        test('parses run and symlink steps', () => {
+            const steps = parseSetupSteps([
+                { run: ' npm ci ', timeoutSeconds: 120 },
+                { name: 'Deps', symlink: 'node_modules' },
+                { run: './bootstrap.sh' },
+            ]);
+
+            assert.deepStrictEqual(steps, [
+                { kind: 'run', name: 'npm ci', command: 'npm ci', timeoutMs: 120000 },
+                { kind: 'symlink', name: 'Deps', path: 'node_modules' },
+                { kind: 'run', name: './bootstrap.sh', command: './bootstrap.sh', timeoutMs: DEFAULT_SETUP_STEP_TIMEOUT_MS },
+            ]);
+        });
+
+        test('skips malformed entries', () => {
+            assert.deepStrictEqual(parseSetupSteps([null, {}, { run: '  ' }, { symlink: 3 }]), []);
+            assert.deepStrictEqual(parseSetupSteps('npm ci'), []);
+        });
+    });
+});
@@ -1,7 +1,7 @@
 import * as assert from 'assert';
 import { SubmitCommentsUseCase } from '../../../application/useCases/SubmitCommentsUseCase';
 import { ICommentRepository } from '../../../application/ports/outbound/ICommentRepository';
-import { ITerminalPort } from '../../../application/ports/outbound/ITerminalPort';
+import { ITerminalPort, OpenTerminalInfo } from '../../../application/ports/outbound/ITerminalPort';
 import { INotificationPort } from '../../../application/ports/outbound/INotificationPort';
 import { IFileThreadMappingRepository } from '../../../application/ports/outbound/IFileThreadMappingRepository';
 import { IThreadStateRepository } from '../../../application/ports/outbound/IThreadStateRepository';
@@ -19,11 +19,12 @@ class MockCommentRepository implements ICommentRepository {
 
     async save(_comment: Comment): Promise<void> {}
     async findAll(): Promise<Comment[]> { return this.comments; }
-    async findActive(): Promise<Comment[]> { return this.comments.filter(c => !c.isSubmitted); }
+    async findActive(): Promise<Comment[]> { return this.comments.filter(c => c.isPending); }
     async findByThreadId(_threadId: string): Promise<Comment[]> { return []; }
     async findActiveByThreadId(_threadId: string): Promise<Comment[]> { return []; }
     async markAsSubmitted(_ids: string[]): Promise<void> {}
     async update(_id: string, _text: string): Promise<Comment | null> { return null; }
+    async replace(_comment: Comment): Promise<boolean> { return false; }
     async delete(_id: string): Promise<boolean> { return false; }
     async deleteByThreadId(_threadId: string): Promise<number> { return 0; }
 }
@@ -42,6 +43,7 @@ class MockTerminalPort implements ITerminalPort {
     onCommandExecuted(_callback: (terminalId: string, command: string) => void): void {}
     onCommandEnded(_callback: (terminalId: string, command: string) => void): void {}
     async closeTerminal(_terminalId: string): Promise<void> {}
+    async getOpenTerminals(): Promise<OpenTerminalInfo[]> { return []; }
     updateTerminalName(_terminalId: string, _newName: string): void {}
     getDisplayName(_terminalId: string): string | undefined { return undefined; }
 }
@@ -71,9 +73,14 @@ class MockFileThreadMappingRepository implements IFileThreadMappingRepository {
     async findByFilePath(filePath: string): Promise<FileThreadMapping | null> {
         return this.mappings.get(filePath) ?? null;
     }
+    async findAllByFilePath(filePath: string): Promise<FileThreadMapping[]> {
+        const mapping = this.mappings.get(filePath);
+        return mapping ? [mapping] : [];
+    }
     async findByThreadId(_threadId: string): Promise<FileThreadMapping[]> { return []; }
     async findAll(): Promise<FileThreadMapping[]> { return []; }
     async delete(_filePath: string): Promise<boolean> { return false; }
+    async deleteByThreadId(_threadId: string): Promise<number> { return 0; }
     async clear(): Promise<void> {}
 }
 
@@ -100,6 +107,8 @@ class MockThreadStateRepository implements IThreadStateRepository {
     async findByTerminalId(_terminalId: string): Promise<ThreadState | null> { return null; }
     async delete(_threadId: string): Promise<boolean> { return false; }
     async updateWhitelist(_threadId: string, _patterns: string[]): Promise<void> {}
+    async updateBase(_threadId: string, _baseCommit: string, _baseBranch?: string): Promise<void> {}
+    async updateTerminalId(_threadId: string, _terminalId: string): Promise<void> {}
 }
 
 function createComment(id: string, filePath: string, text: string): Comment {
@@ -266,5 +275,41 @@ suite('SubmitCommentsUseCase - Routing', () => {
             assert.ok(message.text.includes('Fix this'));
             assert.ok(message.text.includes('Also this'));
         });
+
+        test('should start capturing the agent response on the target terminal', async () => {
+            // Arrange
+            const started: { terminalId: string; ids: string[] }[] = [];
+            const capture = {
+                startCapture: (terminalId: string, ids: string[]) => { started.push({ terminalId, ids }); },
+                processOutput: () => {},
+                handleStatusChange: async () => {},
+                onResponseCaptured: () => {},
+                clear: () => {},
+            };
+            useCase = new SubmitCommentsUseCase(commentRepo, terminalPort, notificationPort, mappingRepo, threadRepo, capture);
+            commentRepo.setComments([createComment('c1', 'src/app.ts', 'Fix this')]);
+
+            // Act
+            await useCase.executeWithRouting(createSession('terminal-1'));
+
+            // Assert
+            assert.deepStrictEqual(started, [{ terminalId: 'terminal-1', ids: ['c1'] }]);
+        });
+
+        test('should quote a sent comment and send only its new replies', async () => {
+            // Arrange
+            const sent = createComment('c1', 'src/app.ts', 'Fix this');
+            sent.markAsSubmitted();
+            commentRepo.setComments([sent.withReply('Still broken').withReply('See line 12')]);
+            const focusedSession = createSession('terminal-1');
+
+            // Act
+            await useCase.executeWithRouting(focusedSession);
+
+            // Assert
+            const message = terminalPort.sentMessages[0];
+            assert.ok(message.text.includes('Line 10 (my earlier comment: Fix this)'));
+            assert.ok(message.text.includes('  Follow-up: Still broken\n  Follow-up: See line 12'));
+        });
     });
 });
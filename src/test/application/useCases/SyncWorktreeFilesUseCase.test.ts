@@ -0,0 +1,205 @@
+import * as assert from 'assert';
+import { SyncWorktreeFilesUseCase } from '../../../application/useCases/SyncWorktreeFilesUseCase';
+import { FileStat, IFileSystemPort } from '../../../application/ports/outbound/IFileSystemPort';
+import { IFileGlobber } from '../../../application/ports/outbound/IFileGlobber';
+import { normalizeWorktreeCopyPatterns } from '../../../domain/entities/WorktreeCopyPattern';
+
+class MockFileSystemPort implements IFileSystemPort {
+    public files = new Map<string, string>();
+    public mtimes = new Map<string, number>();
+    public reads: string[] = [];
+    public copiedFiles: Array<{ source: string; dest: string }> = [];
+    public symlinks: Array<{ target: string; linkPath: string }> = [];
+
+    async readFile(path: string): Promise<string> {
+        this.reads.push(path);
+        const content = this.files.get(path);
+        if (content === undefined) throw new Error(`ENOENT: ${path}`);
+        return content;
+    }
+
+    async fileExists(path: string): Promise<boolean> {
+        return this.files.has(path);
+    }
+
+    async isFile(path: string): Promise<boolean> {
+        return this.files.has(path);
+    }
+
+    async stat(path: string): Promise<FileStat | undefined> {
+        const content = this.files.get(path);
+        // Files without a set time never match one, so their contents are compared
+        return content === undefined ? undefined : { size: content.length, mtimeMs: this.mtimes.get(path) ?? NaN };
+    }
+
+    getWorkspaceRoot(): string | undefined {
+        return '/workspace';
+    }
+
+    toAbsolutePath(relativePath: string): string {
+        return `/workspace/${relativePath}`;
+    }
+
+    toRelativePath(absolutePath: string): string {
+        return absolutePath.replace('/workspace/', '');
+    }
+
+    async writeFile(_path: string, _content: string): Promise<void> {
+        // Not needed for SyncWorktreeFilesUseCase tests
+    }
+
+    async removeFile(_path: string): Promise<void> {
+        // Not needed for SyncWorktreeFilesUseCase tests
+    }
+
+    async copyFile(source: string, dest: string): Promise<void> {
+        this.copiedFiles.push({ source, dest });
+        this.files.set(dest, this.files.get(source) ?? '');
+        this.mtimes.set(dest, this.mtimes.get(source) ?? NaN);
+    }
+
+    async ensureDir(_dirPath: string): Promise<void> {
+        // Not needed for SyncWorktreeFilesUseCase tests
+    }
+
+    async createSymlink(target: string, linkPath: string): Promise<void> {
+        this.symlinks.push({ target, linkPath });
+        this.files.set(linkPath, this.files.get(target) ?? '');
+    }
+
+    joinPath(...segments: string[]): string {
+        return segments.join('/');
+    }
+}
+
+class MockFileGlobber implements IFileGlobber {
+    private results = new Map<string, string[]>();
+
+    setPattern(pattern: string, files: string[]): void {
+        this.results.set(pattern, files);
+    }
+
+    async glob(pattern: string, _cwd: string): Promise<string[]> {
+        return this.results.get(pattern) ?? [];
+    }
+}
+
+suite('SyncWorktreeFilesUseCase', () => {
+    let useCase: SyncWorktreeFilesUseCase;
+    let mockFileSystem: MockFileSystemPort;
+    let mockGlobber: MockFileGlobber;
+
+    setup(() => {
+        mockFileSystem = new MockFileSystemPort();
+        mockGlobber = new MockFileGlobber();
+        useCase = new SyncWorktreeFilesUseCase(mockFileSystem, mockGlobber);
+
+        mockGlobber.setPattern('.env*', ['/workspace/.env', '/workspace/.env.local']);
+        mockFileSystem.files.set('/workspace/.env', 'KEY=new');
+        mockFileSystem.files.set('/workspace/.env.local', 'LOCAL=1');
+    });
+
+    test('reports missing and changed copies without writing in check mode', async () => {
+        mockFileSystem.files.set('/wt/.env', 'KEY=old');
+
+        const result = await useCase.execute({
+            workspaceRoot: '/workspace',
+            worktreePath: '/wt',
+            patterns: ['.env*'],
+            checkOnly: true,
+        });
+
+        assert.deepStrictEqual(result.stale.sort(), ['.env', '.env.local']);
+        assert.deepStrictEqual(result.synced, []);
+        assert.strictEqual(mockFileSystem.copiedFiles.length, 0);
+    });
+
+    test('reads contents only when size or modification time differ', async () => {
+        mockFileSystem.mtimes.set('/workspace/.env', 2);
+        mockFileSystem.files.set('/wt/.env', 'KEY=new');
+        mockFileSystem.mtimes.set('/wt/.env', 2);
+        mockFileSystem.files.set('/wt/.env.local', 'LOCAL=12');
+
+        const result = await useCase.execute({
+            workspaceRoot: '/workspace',
+            worktreePath: '/wt',
+            patterns: ['.env*'],
+            checkOnly: true,
+        });
+
+        assert.deepStrictEqual(result.stale, ['.env.local']);
+        assert.deepStrictEqual(mockFileSystem.reads, []);
+    });
+
+    test('copies only stale files', async () => {
+        mockFileSystem.files.set('/wt/.env', 'KEY=old');
+        mockFileSystem.files.set('/wt/.env.local', 'LOCAL=1');
+
+        const result = await useCase.execute({
+            workspaceRoot: '/workspace',
+            worktreePath: '/wt',
+            patterns: ['.env*'],
+        });
+
+        assert.deepStrictEqual(result.synced, ['.env']);
+        assert.deepStrictEqual(result.stale, []);
+        assert.strictEqual(mockFileSystem.files.get('/wt/.env'), 'KEY=new');
+    });
+
+    test('reports files that could not be synced', async () => {
+        mockFileSystem.copyFile = async () => { throw new Error('EACCES'); };
+
+        const result = await useCase.execute({
+            workspaceRoot: '/workspace',
+            worktreePath: '/wt',
+            patterns: ['.env*'],
+        });
+
+        assert.deepStrictEqual(result.synced, []);
+        assert.strictEqual(result.stale.length, 2);
+    });
+
+    suite('symlink mode', () => {
+        test('links literal paths as a whole', async () => {
+            mockFileSystem.files.set('/workspace/node_modules', '');
+
+            const result = await useCase.execute({
+                workspaceRoot: '/workspace',
+                worktreePath: '/wt',
+                patterns: [{ pattern: 'node_modules', mode: 'symlink' }],
+            });
+
+            assert.deepStrictEqual(result.synced, ['node_modules']);
+            assert.deepStrictEqual(mockFileSystem.symlinks, [{ target: '/workspace/node_modules', linkPath: '/wt/node_modules' }]);
+        });
+
+        test('existing links are never stale', async () => {
+            mockFileSystem.files.set('/wt/.env', 'KEY=old');
+            mockFileSystem.files.set('/wt/.env.local', 'LOCAL=1');
+
+            const result = await useCase.execute({
+                workspaceRoot: '/workspace',
+                worktreePath: '/wt',
+                patterns: [{ pattern: '.env*', mode: 'symlink' }],
+                checkOnly: true,
+            });
+
+            assert.deepStrictEqual(result.stale, []);
+        });
+    });
+
+    suite('normalizeWorktreeCopyPatterns', () => {
+        test('defaults to copy and drops empty patterns', () => {
+            assert.deepStrictEqual(normalizeWorktreeCopyPatterns([
+                ' .env* ',
+                { pattern: '.venv', mode: 'symlink' },
+                { pattern: 'config/**' },
+                '  ',
+            ]), [
+                { pattern: '.env*', mode: 'copy' },
+                { pattern: '.venv', mode: 'symlink' },
+                { pattern: 'config/**', mode: 'copy' },
+            ]);
+        });
+    });
+});
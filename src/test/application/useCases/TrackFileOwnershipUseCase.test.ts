@@ -14,6 +14,10 @@ class MockFileThreadMappingRepository implements IFileThreadMappingRepository {
         return null;
     }
 
+    async findAllByFilePath(filePath: string): Promise<FileThreadMapping[]> {
+        return this.savedMappings.filter(m => m.filePath === filePath);
+    }
+
     async findByThreadId(_threadId: string): Promise<FileThreadMapping[]> {
         return [];
     }
@@ -26,6 +30,10 @@ class MockFileThreadMappingRepository implements IFileThreadMappingRepository {
         return false;
     }
 
+    async deleteByThreadId(_threadId: string): Promise<number> {
+        return 0;
+    }
+
     async clear(): Promise<void> {
         this.savedMappings = [];
     }
@@ -93,4 +101,24 @@ suite('TrackFileOwnershipUseCase', () => {
             assert.strictEqual(mockRepository.savedMappings.length, 2);
         });
     });
+
+    suite('Conflicts', () => {
+        test('should report other threads that modified the file', async () => {
+            await useCase.execute({ filePath: 'src/app.ts', threadId: 'tid-a' });
+
+            const result = await useCase.execute({ filePath: 'src/app.ts', threadId: 'tid-b' });
+
+            assert.deepStrictEqual(result.otherThreadIds, ['tid-a']);
+            assert.strictEqual(result.isFirstEdit, true);
+        });
+
+        test('should not flag repeated edits by the same thread as first edit', async () => {
+            await useCase.execute({ filePath: 'src/app.ts', threadId: 'tid-a' });
+
+            const result = await useCase.execute({ filePath: 'src/app.ts', threadId: 'tid-a' });
+
+            assert.deepStrictEqual(result.otherThreadIds, []);
+            assert.strictEqual(result.isFirstEdit, false);
+        });
+    });
 });
@@ -0,0 +1,339 @@
+import * as assert from 'assert';
+import { TurnCheckpointsUseCase } from '../../../application/useCases/TurnCheckpointsUseCase';
+import { FileStat, IFileSystemPort } from '../../../application/ports/outbound/IFileSystemPort';
+import { IGitPort, FileStatus, WorktreeInfo, GitCommit, MergeBranchOptions } from '../../../application/ports/outbound/IGitPort';
+import { InMemoryCheckpointRepository } from '../../../infrastructure/repositories/InMemoryCheckpointRepository';
+import { InMemorySnapshotRepository } from '../../../infrastructure/repositories/InMemorySnapshotRepository';
+import { FileSnapshot } from '../../../domain/entities/FileSnapshot';
+import { DiffService } from '../../../domain/services/DiffService';
+
+class MockFileSystemPort implements IFileSystemPort {
+    public files = new Map<string, string>();
+
+    async readFile(path: string): Promise<string> {
+        const content = this.files.get(path);
+        if (content === undefined) throw new Error(`ENOENT: ${path}`);
+        return content;
+    }
+
+    async fileExists(path: string): Promise<boolean> {
+        return this.files.has(path);
+    }
+
+    async isFile(path: string): Promise<boolean> {
+        return this.files.has(path);
+    }
+
+    async stat(_path: string): Promise<FileStat | undefined> {
+        return undefined;
+    }
+
+    getWorkspaceRoot(): string | undefined {
+        return '/workspace';
+    }
+
+    toAbsolutePath(relativePath: string): string {
+        return `/workspace/${relativePath}`;
+    }
+
+    toRelativePath(absolutePath: string): string {
+        return absolutePath.replace('/workspace/', '');
+    }
+
+    async writeFile(path: string, content: string): Promise<void> {
+        this.files.set(path, content);
+    }
+
+    async removeFile(path: string): Promise<void> {
+        this.files.delete(path);
+    }
+
+    async copyFile(_source: string, _dest: string): Promise<void> {
+        // Not needed for TurnCheckpointsUseCase tests
+    }
+
+    async ensureDir(_dirPath: string): Promise<void> {
+        // Not needed for TurnCheckpointsUseCase tests
+    }
+
+    async createSymlink(_target: string, _linkPath: string): Promise<void> {
+        // Not needed for TurnCheckpointsUseCase tests
+    }
+
+    joinPath(...segments: string[]): string {
+        return segments.join('/');
+    }
+}
+
+class MockGitPort implements IGitPort {
+    /** `${sha}:${path}` -> content */
+    public committedFiles = new Map<string, string>();
+
+    async getFileAtCommit(_workspaceRoot: string, sha: string, relativePath: string): Promise<string | null> {
+        return this.committedFiles.get(`${sha}:${relativePath}`) ?? null;
+    }
+
+    async getFileBytesAtCommit(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<Uint8Array | null> {
+        return null;
+    }
+
+    async getDiff(_workspaceRoot: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async isGitRepository(_workspaceRoot: string): Promise<boolean> {
+        return true;
+    }
+
+    async getUncommittedFiles(_workspaceRoot: string): Promise<string[]> {
+        return [];
+    }
+
+    async getFileStatus(_workspaceRoot: string, _relativePath: string): Promise<FileStatus> {
+        return 'modified';
+    }
+
+    async getUncommittedFilesWithStatus(_workspaceRoot: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
+
+    async getCurrentBranch(_workspaceRoot: string): Promise<string> {
+        return 'main';
+    }
+
+    async createWorktree(_path: string, _branch: string, _workspaceRoot: string): Promise<void> {
+        // Not needed for TurnCheckpointsUseCase tests
+    }
+
+    async getWorktreeRoot(_workspaceRoot: string): Promise<string | null> {
+        return null;
+    }
+
+    async listWorktrees(_workspaceRoot: string): Promise<WorktreeInfo[]> {
+        return [];
+    }
+
+    async isValidWorktree(_path: string, _workspaceRoot: string): Promise<boolean> {
+        return false;
+    }
+
+    async getWorktreeBranch(_worktreePath: string): Promise<string> {
+        return 'main';
+    }
+
+    async removeWorktree(_worktreePath: string, _workspaceRoot: string, _force?: boolean): Promise<void> {
+        // Not needed for TurnCheckpointsUseCase tests
+    }
+
+    async deleteBranch(_branchName: string, _workspaceRoot: string, _force?: boolean): Promise<void> {
+        // Not needed for TurnCheckpointsUseCase tests
+    }
+
+    async getMergeConflicts(_baseBranch: string, _branch: string, _workspaceRoot: string): Promise<string[]> {
+        return [];
+    }
+
+    async mergeBranch(_branch: string, _workspaceRoot: string, _options?: MergeBranchOptions): Promise<void> {
+        // Not needed for TurnCheckpointsUseCase tests
+    }
+
+    async rebaseBranch(_worktreePath: string, _ontoBranch: string): Promise<void> {
+        // Not needed for TurnCheckpointsUseCase tests
+    }
+
+    async resetHard(_workspaceRoot: string, _commit: string): Promise<void> {
+        // Not needed for tests
+    }
+
+    async getHeadCommit(_workspaceRoot: string): Promise<string> {
+        return 'start';
+    }
+
+    async getMergeBase(_refA: string, _refB: string, _workspaceRoot: string): Promise<string | null> {
+        return null;
+    }
+
+    async getDiffFromCommit(_workspaceRoot: string, _baseCommit: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async getChangedFilesFromCommit(_workspaceRoot: string, _baseCommit: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
+
+    async getCommitLog(_workspaceRoot: string, _sinceCommit: string): Promise<GitCommit[]> {
+        return [];
+    }
+
+    async getCommitFiles(_workspaceRoot: string, _sha: string): Promise<Array<{ path: string; status: FileStatus }>> {
+        return [];
+    }
+
+    async getCommitDiff(_workspaceRoot: string, _sha: string, _relativePath: string): Promise<string> {
+        return '';
+    }
+
+    async applyReversePatch(_workspaceRoot: string, _patch: string): Promise<void> {
+        // Not needed for TurnCheckpointsUseCase tests
+    }
+
+    async stagePatch(_workspaceRoot: string, _patch: string): Promise<void> {
+        // Not needed for TurnCheckpointsUseCase tests
+    }
+
+    async stageFiles(_workspaceRoot: string, _relativePaths: string[]): Promise<void> {
+        // Not needed for TurnCheckpointsUseCase tests
+    }
+
+    async commit(_workspaceRoot: string, _message: string, _relativePaths?: string[]): Promise<string> {
+        return 'abc123';
+    }
+}
+
+suite('TurnCheckpointsUseCase', () => {
+    let useCase: TurnCheckpointsUseCase;
+    let fileSystem: MockFileSystemPort;
+    let gitPort: MockGitPort;
+    let snapshotRepository: InMemorySnapshotRepository;
+
+    function write(relativePath: string, content: string): void {
+        fileSystem.files.set(`/workspace/${relativePath}`, content);
+    }
+
+    function read(relativePath: string): string | undefined {
+        return fileSystem.files.get(`/workspace/${relativePath}`);
+    }
+
+    setup(async () => {
+        fileSystem = new MockFileSystemPort();
+        gitPort = new MockGitPort();
+        snapshotRepository = new InMemorySnapshotRepository();
+        useCase = new TurnCheckpointsUseCase(
+            new InMemoryCheckpointRepository(),
+            snapshotRepository,
+            fileSystem,
+            gitPort,
+            new DiffService(),
+            '/workspace',
+            'start'
+        );
+
+        // a.ts is committed; the session starts with a clean tree
+        gitPort.committedFiles.set('start:a.ts', 'one\n');
+        write('a.ts', 'one\n');
+        await useCase.captureStart([]);
+    });
+
+    test('numbers checkpoints per turn and skips turns that changed nothing', async () => {
+        write('a.ts', 'two\n');
+        const first = await useCase.capture(['a.ts']);
+        const unchanged = await useCase.capture(['a.ts']);
+        write('b.ts', 'new\n');
+        const second = await useCase.capture(['a.ts', 'b.ts']);
+
+        assert.strictEqual(first?.turn, 1);
+        assert.strictEqual(unchanged, null);
+        assert.strictEqual(second?.turn, 2);
+        assert.strictEqual(second?.changedFileCount, 1);
+        assert.deepStrictEqual(useCase.list().map(c => c.turn), [0, 1, 2]);
+    });
+
+    test('lists files changed in a turn against the previous checkpoint', async () => {
+        write('a.ts', 'two\n');
+        await useCase.capture(['a.ts']);
+        write('b.ts', 'new\n');
+        await useCase.capture(['a.ts', 'b.ts']);
+
+        assert.deepStrictEqual(await useCase.getChangedFiles(1, 'turn'), [{ path: 'a.ts', status: 'modified' }]);
+        assert.deepStrictEqual(await useCase.getChangedFiles(2, 'turn'), [{ path: 'b.ts', status: 'added' }]);
+    });
+
+    test('diffs a turn from the starting commit for files first touched in it', async () => {
+        write('a.ts', 'two\n');
+        await useCase.capture(['a.ts']);
+
+        const diff = await useCase.getDiff(1, 'turn', 'a.ts');
+
+        assert.ok(diff);
+        assert.deepStrictEqual(diff.stats, { additions: 1, deletions: 1 });
+    });
+
+    test('since scope includes changes of the turn in progress', async () => {
+        write('a.ts', 'two\n');
+        await useCase.capture(['a.ts']);
+        write('c.ts', 'working\n');
+
+        const files = await useCase.getChangedFiles(1, 'since', ['a.ts', 'c.ts']);
+
+        assert.deepStrictEqual(files, [{ path: 'c.ts', status: 'added' }]);
+        assert.strictEqual(await useCase.getDiff(1, 'since', 'a.ts'), null);
+    });
+
+    test('falls back to session snapshots for files git does not track', async () => {
+        await snapshotRepository.save(FileSnapshot.create('.env', 'KEY=old\n'));
+        write('.env', 'KEY=new\n');
+        await useCase.capture(['.env']);
+
+        assert.deepStrictEqual(await useCase.getChangedFiles(1, 'turn'), [{ path: '.env', status: 'modified' }]);
+    });
+
+    suite('revert', () => {
+        test('restores contents, deletes files created later and recreates deleted ones', async () => {
+            write('a.ts', 'two\n');
+            await useCase.capture(['a.ts']);
+            write('a.ts', 'three\n');
+            write('b.ts', 'new\n');
+            await useCase.capture(['a.ts', 'b.ts']);
+            fileSystem.files.delete('/workspace/a.ts');
+
+            const result = await useCase.revert(1, ['a.ts', 'b.ts']);
+
+            assert.deepStrictEqual(result.restored.sort(), ['a.ts', 'b.ts']);
+            assert.deepStrictEqual(result.failed, []);
+            assert.strictEqual(read('a.ts'), 'two\n');
+            assert.strictEqual(read('b.ts'), undefined);
+        });
+
+        test('keeps changes that existed before the session', async () => {
+            write('dirty.ts', 'user edit\n');
+            const withDirtyStart = new TurnCheckpointsUseCase(
+                new InMemoryCheckpointRepository(),
+                snapshotRepository,
+                fileSystem,
+                gitPort,
+                new DiffService(),
+                '/workspace',
+                'start'
+            );
+            await withDirtyStart.captureStart(['dirty.ts']);
+            write('dirty.ts', 'agent edit\n');
+            await withDirtyStart.capture(['dirty.ts']);
+
+            await withDirtyStart.revert(0);
+
+            assert.strictEqual(read('dirty.ts'), 'user edit\n');
+        });
+
+        test('reports files that could not be restored', async () => {
+            write('a.ts', 'two\n');
+            await useCase.capture(['a.ts']);
+            write('a.ts', 'three\n');
+            fileSystem.writeFile = async () => { throw new Error('EACCES'); };
+
+            const result = await useCase.revert(1);
+
+            assert.deepStrictEqual(result.restored, []);
+            assert.deepStrictEqual(result.failed, ['a.ts']);
+        });
+
+        test('keeps a file whose starting content git could not read', async () => {
+            write('big.ts', 'agent edit\n');
+            gitPort.getFileAtCommit = async () => { throw new Error('git show timed out'); };
+
+            const result = await useCase.revert(0, ['big.ts']);
+
+            assert.deepStrictEqual(result.failed, ['big.ts']);
+            assert.strictEqual(read('big.ts'), 'agent edit\n');
+        });
+    });
+});
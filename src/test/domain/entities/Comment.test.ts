@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { Comment, CommentData } from '../../../domain/entities/Comment';
+
+suite('Comment', () => {
+    function createComment(overrides: Partial<CommentData> = {}): Comment {
+        return new Comment({
+            id: 'c1',
+            file: 'src/app.ts',
+            line: 2,
+            text: 'Why not a map?',
+            codeContext: 'const items = [];',
+            isSubmitted: false,
+            timestamp: 1700000000000,
+            ...overrides,
+        });
+    }
+
+    suite('threads', () => {
+        test('defaults comments saved without a status to open threads', () => {
+            const comment = createComment();
+
+            assert.strictEqual(comment.status, 'open');
+            assert.deepStrictEqual(comment.replies, []);
+        });
+
+        test('is pending again when a sent comment gets a reply', () => {
+            const sent = createComment({ isSubmitted: true });
+
+            const replied = sent.withReply('Still there');
+
+            assert.strictEqual(sent.isPending, false);
+            assert.strictEqual(replied.isPending, true);
+            assert.deepStrictEqual(replied.pendingReplies.map((r) => r.text), ['Still there']);
+        });
+
+        test('marks replies as sent with the comment', () => {
+            const comment = createComment({ isSubmitted: true }).withReply('One').withReply('Two');
+
+            comment.markAsSubmitted();
+
+            assert.strictEqual(comment.isPending, false);
+            assert.deepStrictEqual(comment.replies.map((r) => r.id), ['c1-1', 'c1-2']);
+            assert.ok(comment.replies.every((r) => r.isSubmitted));
+        });
+
+        test('keeps the agent response out of what is sent next', () => {
+            const comment = createComment({ isSubmitted: true }).withAgentResponse('Done');
+
+            assert.strictEqual(comment.isPending, false);
+            assert.deepStrictEqual(comment.replies.map((r) => [r.author, r.text]), [['agent', 'Done']]);
+        });
+
+        test('reopens a resolved comment on reply', () => {
+            const resolved = createComment({ isSubmitted: true }).resolve();
+
+            assert.strictEqual(resolved.isPending, false);
+            assert.strictEqual(resolved.withReply('Not quite').status, 'open');
+        });
+    });
+
+    suite('findAnchor', () => {
+        test('finds the commented lines after they moved', () => {
+            const comment = createComment({ codeContext: 'const a = 1;\nconst b = 2;', endLine: 3 });
+
+            const anchor = comment.findAnchor('// header\n// more\n\nconst a = 1;\nconst b = 2;\n');
+
+            assert.deepStrictEqual(anchor, { line: 4, endLine: 5 });
+        });
+
+        test('picks the occurrence nearest the current line', () => {
+            const comment = createComment({ line: 5, codeContext: 'return;' });
+
+            const anchor = comment.findAnchor('return;\nx\nx\nx\nx\nreturn;\nx\nx\nx\nx\nx\nreturn;');
+
+            assert.deepStrictEqual(anchor, { line: 6, endLine: undefined });
+        });
+
+        test('ignores trailing whitespace', () => {
+            const comment = createComment({ codeContext: 'const items = [];  ' });
+
+            assert.deepStrictEqual(comment.findAnchor('\nconst items = [];\n'), { line: 2, endLine: undefined });
+        });
+
+        test('returns null when the code is gone or was never captured', () => {
+            assert.strictEqual(createComment().findAnchor('const items = new Map();'), null);
+            assert.strictEqual(createComment({ codeContext: '  ' }).findAnchor('  '), null);
+        });
+    });
+
+    suite('showsCodeAt', () => {
+        test('checks the anchored lines only', () => {
+            const comment = createComment({ codeContext: 'const a = 1;\nconst b = 2;', endLine: 3 });
+            const content = 'const a = 1;\nconst b = 2;\nconst a = 1;\nconst b = 2;  ';
+
+            assert.strictEqual(comment.showsCodeAt(content, { line: 3, endLine: 4 }), true);
+            assert.strictEqual(comment.showsCodeAt(content, { line: 2, endLine: 3 }), false);
+            assert.strictEqual(comment.showsCodeAt(content, { line: 3 }), false);
+            assert.strictEqual(comment.showsCodeAt(content, { line: 4, endLine: 5 }), false);
+        });
+    });
+});
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { parseThreadTemplates, resolveTemplateBranchName } from '../../../domain/entities/ThreadTemplate';
+
+suite('ThreadTemplate', () => {
+    suite('parseThreadTemplates', () => {
+        test('parses template fields', () => {
+            const [template] = parseThreadTemplates([{
+                name: ' Feature ',
+                isolationMode: 'worktree',
+                branchPattern: 'feat/{name}',
+                worktreeCopyPatterns: ['.env*'],
+                setupCommand: 'npm ci',
+                setupSteps: [{ symlink: 'node_modules' }],
+                agent: 'claude',
+                whitelistPatterns: ['dist/**'],
+            }]);
+
+            assert.strictEqual(template.name, 'Feature');
+            assert.strictEqual(template.isolationMode, 'worktree');
+            assert.deepStrictEqual(template.worktreeCopyPatterns, ['.env*']);
+            assert.strictEqual(template.setupCommand, 'npm ci');
+            assert.deepStrictEqual(template.setupSteps, [{ kind: 'symlink', name: 'Link node_modules', path: 'node_modules' }]);
+            assert.strictEqual(template.agent, 'claude');
+            assert.deepStrictEqual(template.whitelistPatterns, ['dist/**']);
+        });
+
+        test('skips entries without a name and duplicate names', () => {
+            const templates = parseThreadTemplates([
+                { isolationMode: 'local' },
+                { name: '' },
+                { name: 'Bugfix', agent: 'codex' },
+                { name: 'Bugfix', agent: 'gemini' },
+            ]);
+
+            assert.strictEqual(templates.length, 1);
+            assert.strictEqual(templates[0].agent, 'codex');
+        });
+
+        test('ignores invalid field values', () => {
+            const [template] = parseThreadTemplates([{
+                name: 'Odd',
+                isolationMode: 'branch',
+                setupCommand: '  ',
+                worktreeCopyPatterns: ['.env', 42],
+            }]);
+
+            assert.strictEqual(template.isolationMode, undefined);
+            assert.strictEqual(template.setupCommand, undefined);
+            assert.deepStrictEqual(template.worktreeCopyPatterns, ['.env']);
+        });
+
+        test('returns empty list for non-array setting', () => {
+            assert.deepStrictEqual(parseThreadTemplates(undefined), []);
+            assert.deepStrictEqual(parseThreadTemplates({ name: 'x' }), []);
+        });
+    });
+
+    suite('resolveTemplateBranchName', () => {
+        test('applies branch pattern', () => {
+            const branch = resolveTemplateBranchName({ name: 'Feature', branchPattern: 'feat/{name}' }, 'login page');
+            assert.strictEqual(branch, 'feat/login-page');
+        });
+
+        test('uses thread name without template or pattern', () => {
+            assert.strictEqual(resolveTemplateBranchName(undefined, ' fix-bug '), 'fix-bug');
+            assert.strictEqual(resolveTemplateBranchName({ name: 'Plain' }, 'fix-bug'), 'fix-bug');
+        });
+    });
+});
@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import { AgentRegistry, parseAgentDefinition } from '../../../domain/services/AgentRegistry';
+import { TerminalStatusDetector } from '../../../domain/services/TerminalStatusDetector';
+
+suite('AgentRegistry', () => {
+    let registry: AgentRegistry;
+
+    setup(() => {
+        registry = new AgentRegistry();
+    });
+
+    suite('matchCommand', () => {
+        test('matches built-in agent commands', () => {
+            assert.strictEqual(registry.matchCommand('claude'), 'claude');
+            assert.strictEqual(registry.matchCommand('npx claude --resume'), 'claude');
+            assert.strictEqual(registry.matchCommand('codex'), 'codex');
+            assert.strictEqual(registry.matchCommand('gcloud ai gemini'), 'gemini');
+            assert.strictEqual(registry.matchCommand('aider --model sonnet'), 'aider');
+            assert.strictEqual(registry.matchCommand('opencode'), 'opencode');
+            assert.strictEqual(registry.matchCommand('cursor-agent'), 'cursor-agent');
+        });
+
+        test('ignores the executable directory', () => {
+            assert.strictEqual(registry.matchCommand('/usr/local/bin/claude'), 'claude');
+        });
+
+        test('returns null for other commands', () => {
+            assert.strictEqual(registry.matchCommand('ls -la'), null);
+            assert.strictEqual(registry.matchCommand('git commit -m "claude"'), null);
+            assert.strictEqual(registry.matchCommand('claudette'), null);
+        });
+    });
+
+    suite('detectFromName', () => {
+        test('detects agent by id or display name', () => {
+            assert.strictEqual(registry.detectFromName('codex-refactor'), 'codex');
+            assert.strictEqual(registry.detectFromName('Cursor Agent 2'), 'cursor-agent');
+        });
+
+        test('returns null when nothing matches', () => {
+            assert.strictEqual(registry.detectFromName('feature-login'), null);
+        });
+    });
+
+    suite('buildLaunchCommand', () => {
+        test('inserts prompt text as typed', () => {
+            const command = registry.buildLaunchCommand('gemini', {
+                name: 'thread',
+                branch: 'feature',
+                prompt: 'fix $& and {name} on {branch}',
+                isolated: false,
+            });
+
+            assert.strictEqual(command, "gemini -i 'fix $& and {name} on {branch}'");
+        });
+    });
+
+    suite('custom definitions', () => {
+        test('registers agent from settings', () => {
+            registry.setCustomDefinitions([parseAgentDefinition({
+                id: 'my-agent',
+                displayName: 'My Agent',
+                commands: ['my-agent'],
+                bannerPatterns: ['My Agent v\\d+'],
+                statusPatterns: { waiting: ['approve\\?'] },
+            })]);
+
+            assert.strictEqual(registry.matchCommand('bunx my-agent'), 'my-agent');
+            assert.strictEqual(registry.getDisplayName('my-agent'), 'My Agent');
+
+            const detector = new TerminalStatusDetector(registry);
+            assert.strictEqual(detector.detectAIType('Welcome to My Agent v2'), 'my-agent');
+            assert.strictEqual(detector.detect('my-agent', 'Run tests? Approve?'), 'waiting');
+        });
+
+        test('custom definition replaces built-in with same id', () => {
+            registry.setCustomDefinitions([parseAgentDefinition({
+                id: 'codex',
+                displayName: 'Codex (fork)',
+                commands: ['codex-fork'],
+            })]);
+
+            assert.strictEqual(registry.matchCommand('codex-fork'), 'codex');
+            assert.strictEqual(registry.matchCommand('codex'), null);
+            assert.strictEqual(registry.getDisplayName('codex'), 'Codex (fork)');
+        });
+
+        test('reloading settings drops previous custom definitions', () => {
+            registry.setCustomDefinitions([parseAgentDefinition({ id: 'my-agent', commands: ['my-agent'] })]);
+            registry.setCustomDefinitions([]);
+
+            assert.strictEqual(registry.get('my-agent'), undefined);
+            assert.strictEqual(registry.matchCommand('codex'), 'codex');
+        });
+
+        test('falls back to generic status patterns', () => {
+            registry.register(parseAgentDefinition({ id: 'bare' }));
+            const detector = new TerminalStatusDetector(registry);
+
+            assert.strictEqual(registry.getDisplayName('bare'), 'bare');
+            assert.strictEqual(detector.detect('bare', 'Continue? (y/n)'), 'waiting');
+        });
+
+        test('rejects invalid definitions', () => {
+            assert.throws(() => parseAgentDefinition({ id: '' }), /requires an id/);
+            assert.throws(() => parseAgentDefinition({ id: 'x', bannerPatterns: ['('] }), /Invalid banner pattern/);
+        });
+    });
+});
@@ -1,5 +1,5 @@
 import * as assert from 'assert';
-import { DiffService } from '../../../domain/services/DiffService';
+import { DiffService, unquoteGitPath } from '../../../domain/services/DiffService';
 
 suite('DiffService', () => {
     let diffService: DiffService;
@@ -240,6 +240,466 @@ suite('DiffService', () => {
         });
     });
 
+    suite('createPatch', () => {
+        // Line 2 added; line 9 (old 8) changed and a line added after it
+        const diff = [
+            '@@ -1,2 +1,3 @@',
+            ' a',
+            '+new',
+            ' b',
+            '@@ -8,3 +9,4 @@',
+            ' h',
+            '-k',
+            '+K',
+            '+K2',
+            ' l',
+            '',
+        ].join('\n');
+        const header = 'diff --git a/f.txt b/f.txt\n--- a/f.txt\n+++ b/f.txt\n';
+
+        function chunks() {
+            return diffService.parseUnifiedDiff('f.txt', diff).chunks;
+        }
+
+        test('should rebuild the diff from all chunks', () => {
+            const patch = diffService.createPatch('f.txt', chunks());
+
+            assert.strictEqual(patch, header + diff);
+        });
+
+        test('should shift old start lines by earlier hunks when reversing', () => {
+            const patch = diffService.createPatch('f.txt', chunks(), { reverse: true });
+
+            assert.ok(patch.includes('@@ -1,2 +1,3 @@\n'));
+            assert.ok(patch.includes('@@ -8,3 +9,4 @@\n'));
+        });
+
+        test('should keep unselected additions as context when reversing lines', () => {
+            const patch = diffService.createPatch('f.txt', chunks(), {
+                reverse: true,
+                lineRange: { startLine: 11, endLine: 11 },
+            });
+
+            assert.strictEqual(patch, header + '@@ -9,3 +9,4 @@\n h\n K\n+K2\n l\n');
+        });
+
+        test('should keep unselected deletions as context when staging lines', () => {
+            // A removed line belongs to the line that replaces it
+            const patch = diffService.createPatch('f.txt', chunks(), {
+                lineRange: { startLine: 10, endLine: 10 },
+            });
+
+            assert.strictEqual(patch, header + '@@ -8,3 +8,3 @@\n h\n-k\n+K\n l\n');
+        });
+
+        test('should keep the no-newline marker of a file without a final newline', () => {
+            const noNewline = [
+                'diff --git a/n.txt b/n.txt',
+                'index 1111111..2222222 100644',
+                '--- a/n.txt',
+                '+++ b/n.txt',
+                '@@ -1,2 +1,2 @@',
+                ' a',
+                '-b',
+                '\\ No newline at end of file',
+                '+c',
+                '\\ No newline at end of file',
+                '',
+            ].join('\n');
+            const parsed = diffService.parseUnifiedDiff('n.txt', noNewline).chunks;
+
+            assert.deepStrictEqual(parsed[0].lines.map(l => l.noNewlineAtEnd ?? false), [false, true, true]);
+            assert.strictEqual(
+                diffService.createPatch('n.txt', parsed),
+                'diff --git a/n.txt b/n.txt\n--- a/n.txt\n+++ b/n.txt\n' +
+                '@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+c\n\\ No newline at end of file\n'
+            );
+        });
+
+        test('should keep changed lines that start with -- or ++', () => {
+            const dashes = [
+                'diff --git a/d.sql b/d.sql',
+                '--- a/d.sql',
+                '+++ b/d.sql',
+                '@@ -1,3 +1,3 @@',
+                ' select 1;',
+                '--- note',
+                '+++ counter',
+                ' select 2;',
+                '',
+            ].join('\n');
+            const parsed = diffService.parseUnifiedDiff('d.sql', dashes);
+
+            assert.deepStrictEqual(parsed.stats, { additions: 1, deletions: 1 });
+            assert.strictEqual(
+                diffService.createPatch('d.sql', parsed.chunks),
+                'diff --git a/d.sql b/d.sql\n--- a/d.sql\n+++ b/d.sql\n@@ -1,3 +1,3 @@\n select 1;\n--- note\n+++ counter\n select 2;\n'
+            );
+        });
+
+        test('should return empty patch when no change is in range', () => {
+            const patch = diffService.createPatch('f.txt', chunks(), {
+                lineRange: { startLine: 12, endLine: 12 },
+            });
+
+            assert.strictEqual(patch, '');
+        });
+    });
+
+    suite('word segments', () => {
+        test('marks the renamed word in a paired deletion and addition', () => {
+            const result = diffService.generateStructuredDiff('a.ts', 'const total = price * qty;\n', 'const sum = price * qty;\n');
+            const [deletion, addition] = result.chunks[0].lines;
+
+            assert.deepStrictEqual(deletion.segments, [{ start: 6, end: 11 }]);
+            assert.deepStrictEqual(addition.segments, [{ start: 6, end: 9 }]);
+        });
+
+        test('pairs lines in order within a run of changes', () => {
+            const diff = `@@ -1,2 +1,3 @@
+-let a = 1;
+-let b = 2;
++let a = 10;
++let b = 20;
++let c = 30;`;
+            const lines = diffService.parseUnifiedDiff('a.ts', diff).chunks[0].lines;
+
+            assert.deepStrictEqual(lines[1].segments, [{ start: 8, end: 9 }]);
+            assert.deepStrictEqual(lines[3].segments, [{ start: 8, end: 10 }]);
+            assert.strictEqual(lines[4].segments, undefined);
+        });
+
+        test('leaves rewritten lines without segments', () => {
+            const result = diffService.generateStructuredDiff('a.ts', 'return items.length;\n', 'throw new Error("x");\n');
+
+            assert.ok(result.chunks[0].lines.every(line => line.segments === undefined));
+        });
+    });
+
+    suite('large files', () => {
+        function generatedFile(lineCount: number, prefix = 'line'): string[] {
+            return Array.from({ length: lineCount }, (_, i) => `${prefix} ${i}: ${(i * 7919) % 1000}`);
+        }
+
+        test('keeps the unified format with minimal hunks', () => {
+            const result = diffService.generateUnifiedDiff('a\nb\nc\nd\ne\nf\ng\nh\n', 'a\nb\nc\nX\ne\nf\ng\nh\n');
+
+            assert.strictEqual(result, '@@ -1,7 +1,7 @@\n a\n b\n c\n-d\n+X\n e\n f\n g\n');
+        });
+
+        test('diffs a 20k-line file with scattered edits quickly', function() {
+            this.timeout(10000);
+            const oldLines = generatedFile(20000);
+            const newLines = [...oldLines];
+            for (let i = 0; i < newLines.length; i += 400) {
+                newLines[i] = `changed ${i}`;
+            }
+
+            const startTime = Date.now();
+            const result = diffService.generateStructuredDiff('gen.ts', oldLines.join('\n'), newLines.join('\n'));
+            const duration = Date.now() - startTime;
+
+            assert.deepStrictEqual(result.stats, { additions: 50, deletions: 50 });
+            assert.strictEqual(result.chunks.length, 50);
+            assert.strictEqual(result.tooLarge, undefined);
+            assert.ok(duration < 2000, `Diff took ${duration}ms`);
+        });
+
+        test('diffs a rewritten 20k-line file as a replaced block', function() {
+            this.timeout(10000);
+            const oldContent = generatedFile(20000).join('\n');
+            const newContent = generatedFile(20000, 'row').join('\n');
+
+            const startTime = Date.now();
+            const result = diffService.generateStructuredDiff('gen.ts', oldContent, newContent);
+            const duration = Date.now() - startTime;
+
+            assert.strictEqual(result.tooLarge, undefined);
+            assert.deepStrictEqual(result.stats, { additions: 20000, deletions: 20000 });
+            assert.ok(duration < 3000, `Diff took ${duration}ms`);
+        });
+
+        test('falls back to a valid diff when a minimal one costs too much', function() {
+            this.timeout(10000);
+            const oldLines = generatedFile(8000);
+            const newLines = oldLines.map((line, i) => (i % 2 === 0 ? `changed ${i}` : line));
+
+            const result = diffService.generateStructuredDiff('gen.ts', oldLines.join('\n'), newLines.join('\n'));
+
+            assert.strictEqual(result.tooLarge, undefined);
+            // Applying the hunks to the old lines gives the new ones
+            const rebuilt: string[] = [];
+            let oldIdx = 0;
+            for (const chunk of result.chunks) {
+                while (oldIdx < chunk.oldStart - 1) rebuilt.push(oldLines[oldIdx++]);
+                for (const line of chunk.lines) {
+                    if (line.type !== 'deletion') rebuilt.push(line.content);
+                    if (line.type !== 'addition') oldIdx++;
+                }
+            }
+            while (oldIdx < oldLines.length) rebuilt.push(oldLines[oldIdx++]);
+            assert.deepStrictEqual(rebuilt, newLines);
+        });
+
+        test('does not diff files over the line limit', () => {
+            const oldContent = generatedFile(120000).join('\n');
+            const newContent = generatedFile(120000, 'row').join('\n');
+
+            const result = diffService.generateStructuredDiff('gen.ts', oldContent, newContent);
+
+            assert.deepStrictEqual(result.tooLarge, { oldLineCount: 120000, newLineCount: 120000 });
+            assert.strictEqual(diffService.generateUnifiedDiff(oldContent, newContent), '');
+        });
+    });
+
+    suite('diff options', () => {
+        test('ignores whitespace-only changes', () => {
+            const old = 'if (a) {\n  run();\n}\nend();';
+            const newContent = 'if (a) {\n    run();\n}\nend( );';
+
+            assert.deepStrictEqual(
+                diffService.generateStructuredDiff('a.ts', old, newContent, { ignoreWhitespace: true }).chunks,
+                []
+            );
+            assert.strictEqual(diffService.generateStructuredDiff('a.ts', old, newContent).stats.additions, 2);
+        });
+
+        test('drops hunks that only add or remove blank lines', () => {
+            const rawDiff = [
+                'diff --git a/a.ts b/a.ts',
+                '--- a/a.ts',
+                '+++ b/a.ts',
+                '@@ -1,2 +1,3 @@',
+                ' one',
+                '+',
+                ' two',
+                '@@ -10,2 +11,2 @@',
+                ' ten',
+                '-eleven',
+                '+ELEVEN',
+            ].join('\n');
+
+            const result = diffService.parseUnifiedDiff('a.ts', rawDiff, { ignoreBlankLines: true });
+
+            assert.strictEqual(result.chunks.length, 1);
+            assert.strictEqual(result.chunks[0].oldStart, 10);
+            assert.deepStrictEqual(result.stats, { additions: 1, deletions: 1 });
+        });
+
+        test('links a moved block to where it went, even when re-indented', () => {
+            const fn = ['function a() {', '  const one = 1;', '  const two = 2;', '  return one + two;', '}'];
+            const others = ['x', 'y', 'z', 'w'];
+            const old = [...fn, ...others, 'tail'].join('\n');
+            const newContent = [...others, ...fn.map(l => '  ' + l), 'tail'].join('\n');
+
+            const lines = diffService
+                .generateStructuredDiff('a.ts', old, newContent, { detectMoves: true })
+                .chunks.flatMap(c => c.lines);
+
+            const deleted = lines.find(l => l.type === 'deletion' && l.content === 'function a() {');
+            const added = lines.find(l => l.type === 'addition' && l.content === '  function a() {');
+            assert.strictEqual(deleted?.movedTo, 5);
+            assert.strictEqual(added?.movedFrom, 1);
+        });
+
+        test('does not mark short or unmoved changes as moves', () => {
+            const old = 'a\nb\nc\nd\ne';
+            const newContent = 'b\na\nc\nd\nE';
+
+            const lines = diffService
+                .generateStructuredDiff('a.ts', old, newContent, { detectMoves: true })
+                .chunks.flatMap(c => c.lines);
+
+            assert.ok(lines.every(l => l.movedTo === undefined && l.movedFrom === undefined));
+        });
+    });
+
+    suite('expand context', () => {
+        const oldFile = Array.from({ length: 60 }, (_, i) => `line${i + 1}`);
+        // Line 30 edited, a line added after line 50
+        const newFile = [...oldFile.slice(0, 29), 'CHANGED', ...oldFile.slice(30, 50), 'ADDED', ...oldFile.slice(50)];
+        const diffOf = () => diffService.generateStructuredDiff('a.ts', oldFile.join('\n'), newFile.join('\n')).chunks;
+
+        test('reveals up to 20 lines above a chunk', () => {
+            const chunks = diffService.expandContext(diffOf(), 0, 'up', newFile);
+
+            assert.strictEqual(chunks[0].header, '@@ -7,27 +7,27 @@');
+            assert.deepStrictEqual(chunks[0].lines[0], {
+                type: 'context',
+                content: 'line7',
+                oldLineNumber: 7,
+                newLineNumber: 7,
+            });
+            assert.deepStrictEqual(chunks[1], diffOf()[1]);
+        });
+
+        test('reveals lines above a later chunk with their old and new numbers', () => {
+            const chunks = diffService.expandContext(diffOf(), 1, 'up', newFile);
+
+            assert.strictEqual(chunks[1].header, '@@ -34,20 +34,21 @@');
+            assert.deepStrictEqual(chunks[0], diffOf()[0]);
+        });
+
+        test('reveals lines below a chunk, offset by its changes', () => {
+            const chunks = diffService.expandContext(diffOf(), 2, 'down', newFile);
+
+            const last = chunks[1].lines[chunks[1].lines.length - 1];
+            assert.deepStrictEqual(
+                [last.content, last.oldLineNumber, last.newLineNumber],
+                ['line60', 60, 61]
+            );
+            assert.strictEqual(chunks[1].header, '@@ -48,13 +48,14 @@');
+        });
+
+        test('reveals a whole gap and keeps the chunks applicable', () => {
+            const chunks = diffService.expandContext(diffOf(), 0, 'all', newFile);
+
+            assert.strictEqual(chunks[0].oldStart, 1);
+            assert.strictEqual(chunks[0].header, '@@ -1,33 +1,33 @@');
+            assert.ok(diffService.createPatch('a.ts', chunks).includes('@@ -1,33 +1,33 @@\n line1\n'));
+        });
+
+        test('leaves chunks alone when the gap is empty', () => {
+            const chunks = diffService.expandContext(diffOf(), 0, 'all', newFile);
+
+            assert.strictEqual(diffService.expandContext(chunks, 0, 'up', newFile), chunks);
+        });
+
+        test('reveals remembered lines next to the regenerated chunks', () => {
+            const expanded = diffService.expandContext(diffService.expandContext(diffOf(), 0, 'up', newFile), 2, 'down', newFile);
+            const revealed = new Set(expanded.flatMap(c => c.lines.map(l => l.newLineNumber!)));
+
+            assert.deepStrictEqual(diffService.revealContext(diffOf(), revealed, newFile), expanded);
+        });
+
+        test('reveals a whole gap when all of its lines are remembered', () => {
+            const revealed = new Set(Array.from({ length: 30 }, (_, i) => i + 1));
+
+            const chunks = diffService.revealContext(diffOf(), revealed, newFile);
+
+            assert.strictEqual(chunks[0].header, '@@ -1,33 +1,33 @@');
+        });
+
+        test('skips remembered lines that no longer touch a chunk', () => {
+            const chunks = diffService.revealContext(diffOf(), new Set([2, 3, 40]), newFile);
+
+            assert.deepStrictEqual(chunks, diffOf());
+        });
+    });
+
+    suite('renames and binary files', () => {
+        test('keeps rename source and similarity from the header', () => {
+            const rawDiff = [
+                'diff --git a/old.ts b/new.ts',
+                'similarity index 97%',
+                'rename from old.ts',
+                'rename to new.ts',
+                'index 96cc558..1c5a36f 100644',
+                '--- a/old.ts',
+                '+++ b/new.ts',
+                '@@ -3,1 +3,2 @@',
+                ' three',
+                '+four',
+            ].join('\n');
+
+            const result = diffService.parseUnifiedDiff('new.ts', rawDiff);
+
+            assert.deepStrictEqual(result.origin, { kind: 'renamed', oldPath: 'old.ts', similarity: 97 });
+            assert.strictEqual(result.chunks.length, 1);
+            assert.strictEqual(result.stats.additions, 1);
+        });
+
+        test('unquotes a rename source with non-ASCII characters', () => {
+            const rawDiff = [
+                'diff --git "a/\\353\\251\\224\\353\\252\\250.txt" b/memo.txt',
+                'similarity index 100%',
+                'rename from "\\353\\251\\224\\353\\252\\250.txt"',
+                'rename to memo.txt',
+            ].join('\n');
+
+            const result = diffService.parseUnifiedDiff('memo.txt', rawDiff);
+
+            assert.strictEqual(result.origin?.oldPath, '메모.txt');
+            assert.strictEqual(unquoteGitPath('"a\\tb \\"c\\""'), 'a\tb "c"');
+        });
+
+        test('counts a rename without content changes as a change', () => {
+            const rawDiff = [
+                'diff --git a/src/a.ts b/lib/a.ts',
+                'similarity index 100%',
+                'copy from src/a.ts',
+                'copy to lib/a.ts',
+            ].join('\n');
+
+            const result = diffService.parseUnifiedDiff('lib/a.ts', rawDiff);
+
+            assert.deepStrictEqual(result.origin, { kind: 'copied', oldPath: 'src/a.ts', similarity: 100 });
+            assert.deepStrictEqual(result.chunks, []);
+            assert.strictEqual(diffService.hasChanges(result), true);
+        });
+
+        test('marks git binary diffs', () => {
+            const rawDiff = [
+                'diff --git a/img.png b/img.png',
+                'index d0463d4..d2ffac3 100644',
+                'Binary files a/img.png and b/img.png differ',
+            ].join('\n');
+
+            const result = diffService.parseUnifiedDiff('img.png', rawDiff);
+
+            assert.strictEqual(result.binary, true);
+            assert.strictEqual(diffService.hasChanges(result), true);
+            assert.strictEqual(diffService.parseUnifiedDiff('a.ts', '@@ -1 +1 @@\n-a\n+b').binary, undefined);
+        });
+
+        test('does not diff binary content line by line', () => {
+            const old = '\x89PNG\0\x01';
+            const changed = '\x89PNG\0\x02';
+
+            assert.deepStrictEqual(diffService.generateStructuredDiff('img.png', old, changed), {
+                file: 'img.png',
+                chunks: [],
+                stats: { additions: 0, deletions: 0 },
+                binary: true,
+            });
+            assert.strictEqual(diffService.hasChanges(diffService.generateStructuredDiff('img.png', old, old)), false);
+            assert.strictEqual(diffService.generateNewFileStructuredDiff('img.png', changed).binary, true);
+            assert.strictEqual(diffService.generateDeletedFileStructuredDiff('img.png', old).binary, true);
+        });
+    });
+
+    suite('mapLineRange', () => {
+        test('moves unchanged lines past added ones', () => {
+            const mapped = diffService.mapLineRange('a\nb\nc', 'x\ny\na\nb\nc', { startLine: 2, endLine: 3 });
+
+            assert.deepStrictEqual(mapped, { startLine: 4, endLine: 5, changed: false, deleted: false });
+        });
+
+        test('maps edited lines to their replacement', () => {
+            const mapped = diffService.mapLineRange('a\nb\nc', 'a\nB\nc', { startLine: 2, endLine: 2 });
+
+            assert.deepStrictEqual(mapped, { startLine: 2, endLine: 2, changed: true, deleted: false });
+        });
+
+        test('counts lines added inside the range as a change', () => {
+            const mapped = diffService.mapLineRange('a\nb\nc', 'a\nb\nnew\nc', { startLine: 2, endLine: 3 });
+
+            assert.deepStrictEqual(mapped, { startLine: 2, endLine: 4, changed: true, deleted: false });
+        });
+
+        test('points removed lines at the line that follows them', () => {
+            const mapped = diffService.mapLineRange('a\nb\nc\nd', 'a\nd', { startLine: 2, endLine: 3 });
+
+            assert.deepStrictEqual(mapped, { startLine: 2, endLine: 2, changed: true, deleted: true });
+        });
+
+        test('points lines removed at the end of the file at its last line', () => {
+            const mapped = diffService.mapLineRange('a\nb\nc', 'a', { startLine: 3, endLine: 3 });
+
+            assert.deepStrictEqual(mapped, { startLine: 1, endLine: 1, changed: true, deleted: true });
+        });
+    });
+
     suite('edge cases', () => {
         test('should handle empty old content (new file via generateUnifiedDiff)', () => {
             const result = diffService.generateUnifiedDiff('', 'new content');
@@ -0,0 +1,187 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DiskSnapshotRepository, pruneSnapshotStore } from '../../../infrastructure/repositories/DiskSnapshotRepository';
+import { FileSnapshot } from '../../../domain/entities/FileSnapshot';
+
+suite('DiskSnapshotRepository', () => {
+    let storageDir: string;
+
+    const quota = { maxFiles: 3, maxFileSize: 100, maxTotalSize: 200 };
+
+    function blobCount(): number {
+        const objectsDir = path.join(storageDir, 'objects');
+        if (!fs.existsSync(objectsDir)) return 0;
+        return fs.readdirSync(objectsDir)
+            .reduce((count, prefix) => count + fs.readdirSync(path.join(objectsDir, prefix)).length, 0);
+    }
+
+    /** Age every blob past the garbage collection grace period */
+    function ageBlobs(): void {
+        const objectsDir = path.join(storageDir, 'objects');
+        const old = new Date(Date.now() - 10 * 60 * 1000);
+        for (const prefix of fs.readdirSync(objectsDir)) {
+            for (const hash of fs.readdirSync(path.join(objectsDir, prefix))) {
+                fs.utimesSync(path.join(objectsDir, prefix, hash), old, old);
+            }
+        }
+    }
+
+    let opened: DiskSnapshotRepository[];
+
+    function open(sessionKey: string): DiskSnapshotRepository {
+        const repository = new DiskSnapshotRepository(storageDir, sessionKey, quota);
+        opened.push(repository);
+        return repository;
+    }
+
+    setup(() => {
+        storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'code-squad-snapshots-'));
+        opened = [];
+    });
+
+    teardown(async () => {
+        // No index write may land after the folder is gone
+        await Promise.all(opened.map(repository => repository.flush()));
+        fs.rmSync(storageDir, { recursive: true, force: true });
+    });
+
+    suite('persistence', () => {
+        test('restores snapshots for the same session key', async () => {
+            const repository = open('thread-1');
+            await repository.save(FileSnapshot.create('dist/app.js', 'console.log(1);'));
+            await repository.flush();
+
+            const reloaded = open('thread-1');
+            const snapshot = await reloaded.findByPath('dist/app.js');
+
+            assert.ok(reloaded.has('dist/app.js'));
+            assert.strictEqual(snapshot?.content, 'console.log(1);');
+            assert.deepStrictEqual(reloaded.getStats(), { count: 1, totalSize: 15 });
+        });
+
+        test('keeps sessions apart and stores identical content once', async () => {
+            const first = open('thread-1');
+            const second = open('thread-2');
+            await first.save(FileSnapshot.create('a.txt', 'same'));
+            await second.save(FileSnapshot.create('b.txt', 'same'));
+
+            assert.strictEqual(first.has('b.txt'), false);
+            assert.strictEqual(blobCount(), 1);
+        });
+
+        test('clear forgets the session after reload', async () => {
+            const repository = open('thread-1');
+            await repository.save(FileSnapshot.create('a.txt', 'a'));
+
+            await repository.flush();
+
+            repository.clear();
+            await repository.flush();
+
+            assert.strictEqual(open('thread-1').getStats().count, 0);
+        });
+
+        test('drops snapshots whose content was removed from disk', async () => {
+            const repository = open('thread-1');
+            await repository.save(FileSnapshot.create('a.txt', 'a'));
+            fs.rmSync(path.join(storageDir, 'objects'), { recursive: true });
+
+            assert.strictEqual(await repository.findByPath('a.txt'), undefined);
+            assert.strictEqual(repository.has('a.txt'), false);
+        });
+    });
+
+    suite('index writes', () => {
+        test('writes the index once for a batch of saves', async () => {
+            const repository = open('thread-1');
+            const indexPath = path.join(storageDir, 'sessions', 'thread-1.json');
+            await repository.save(FileSnapshot.create('a.txt', 'a'));
+            await repository.save(FileSnapshot.create('b.txt', 'b'));
+
+            assert.strictEqual(fs.existsSync(indexPath), false);
+
+            await repository.flush();
+
+            const index = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+            assert.deepStrictEqual(index.entries.map((e: { relativePath: string }) => e.relativePath), ['a.txt', 'b.txt']);
+        });
+
+        test('lists paths without reading their contents', async () => {
+            const repository = open('thread-1');
+            await repository.save(FileSnapshot.create('a.txt', 'a'));
+            fs.rmSync(path.join(storageDir, 'objects'), { recursive: true });
+
+            assert.deepStrictEqual(repository.getPaths(), ['a.txt']);
+        });
+    });
+
+    suite('quotas', () => {
+        test('skips files over the size limit', async () => {
+            const repository = open('thread-1');
+
+            const saved = await repository.save(FileSnapshot.create('big.bin', 'x'.repeat(101)));
+
+            assert.strictEqual(saved, false);
+            assert.strictEqual(blobCount(), 0);
+        });
+
+        test('evicts the least recently used snapshot at the file limit', async () => {
+            const repository = open('thread-1');
+            await repository.save(FileSnapshot.create('a.txt', 'a'));
+            await repository.save(FileSnapshot.create('b.txt', 'b'));
+            await repository.save(FileSnapshot.create('c.txt', 'c'));
+            await repository.findByPath('a.txt');
+
+            await repository.save(FileSnapshot.create('d.txt', 'd'));
+
+            assert.deepStrictEqual(Array.from(repository.getPaths()).sort(), ['a.txt', 'c.txt', 'd.txt']);
+        });
+
+        test('evicts until the total size fits', async () => {
+            const repository = open('thread-1');
+            await repository.save(FileSnapshot.create('a.txt', 'a'.repeat(80)));
+            await repository.save(FileSnapshot.create('b.txt', 'b'.repeat(80)));
+
+            await repository.save(FileSnapshot.create('c.txt', 'c'.repeat(90)));
+
+            assert.deepStrictEqual(Array.from(repository.getPaths()), ['b.txt', 'c.txt']);
+            assert.strictEqual(repository.getStats().totalSize, 170);
+        });
+
+        test('updating a path replaces its size', async () => {
+            const repository = open('thread-1');
+            await repository.save(FileSnapshot.create('a.txt', 'a'.repeat(80)));
+            await repository.save(FileSnapshot.create('a.txt', 'a'.repeat(90)));
+
+            assert.deepStrictEqual(repository.getStats(), { count: 1, totalSize: 90 });
+        });
+    });
+
+    suite('pruneSnapshotStore', () => {
+        test('removes other sessions and their unreferenced content', async () => {
+            const kept = open('thread-1');
+            const dropped = open('terminal-7');
+            await kept.save(FileSnapshot.create('a.txt', 'kept'));
+            await dropped.save(FileSnapshot.create('a.txt', 'dropped'));
+            await Promise.all([kept.flush(), dropped.flush()]);
+            ageBlobs();
+
+            await pruneSnapshotStore(storageDir, ['thread-1']);
+
+            assert.strictEqual(blobCount(), 1);
+            assert.strictEqual(open('terminal-7').getStats().count, 0);
+            assert.strictEqual((await open('thread-1').findByPath('a.txt'))?.content, 'kept');
+        });
+
+        test('keeps recently written content', async () => {
+            const dropped = open('terminal-7');
+            await dropped.save(FileSnapshot.create('a.txt', 'fresh'));
+
+            await pruneSnapshotStore(storageDir, []);
+
+            assert.strictEqual(blobCount(), 1);
+        });
+    });
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { InMemoryCheckpointRepository } from '../../../infrastructure/repositories/InMemoryCheckpointRepository';
+import { Checkpoint } from '../../../domain/entities/Checkpoint';
+
+function checkpoint(turn: number): Checkpoint {
+    return Checkpoint.create(turn, new Map([['a.ts', `turn ${turn}`]]), ['a.ts']);
+}
+
+suite('InMemoryCheckpointRepository', () => {
+    test('lists checkpoints oldest turn first', async () => {
+        const repository = new InMemoryCheckpointRepository();
+        await repository.save(checkpoint(2));
+        await repository.save(checkpoint(0));
+        await repository.save(checkpoint(1));
+
+        assert.deepStrictEqual(repository.findAll().map(c => c.turn), [0, 1, 2]);
+        assert.strictEqual((await repository.findByTurn(1))?.getContent('a.ts'), 'turn 1');
+    });
+
+    test('evicts the oldest turn but keeps the session start', async () => {
+        const repository = new InMemoryCheckpointRepository(3);
+        for (let turn = 0; turn <= 4; turn++) {
+            await repository.save(checkpoint(turn));
+        }
+
+        assert.deepStrictEqual(repository.findAll().map(c => c.turn), [0, 3, 4]);
+        assert.strictEqual(await repository.findByTurn(1), undefined);
+    });
+});
@@ -121,4 +121,42 @@ suite('InMemoryFileThreadMappingRepository', () => {
             assert.strictEqual(deleted, false);
         });
     });
+
+    suite('findAllByFilePath', () => {
+        test('should keep every thread that modified the file', async () => {
+            await repository.save(FileThreadMapping.create('src/app.ts', 'tid-a'));
+            await repository.save(FileThreadMapping.create('src/app.ts', 'tid-b'));
+
+            const result = await repository.findAllByFilePath('src/app.ts');
+
+            assert.deepStrictEqual(result.map(m => m.threadId), ['tid-a', 'tid-b']);
+            assert.strictEqual((await repository.findByThreadId('tid-a')).length, 1);
+        });
+
+        test('should move a thread to the end when it modifies the file again', async () => {
+            await repository.save(FileThreadMapping.create('src/app.ts', 'tid-a'));
+            await repository.save(FileThreadMapping.create('src/app.ts', 'tid-b'));
+            await repository.save(FileThreadMapping.create('src/app.ts', 'tid-a'));
+
+            const all = await repository.findAllByFilePath('src/app.ts');
+            const latest = await repository.findByFilePath('src/app.ts');
+
+            assert.deepStrictEqual(all.map(m => m.threadId), ['tid-b', 'tid-a']);
+            assert.strictEqual(latest!.threadId, 'tid-a');
+        });
+    });
+
+    suite('deleteByThreadId', () => {
+        test('should remove only the thread\'s mappings', async () => {
+            await repository.save(FileThreadMapping.create('src/app.ts', 'tid-a'));
+            await repository.save(FileThreadMapping.create('src/app.ts', 'tid-b'));
+            await repository.save(FileThreadMapping.create('src/util.ts', 'tid-a'));
+
+            const count = await repository.deleteByThreadId('tid-a');
+
+            assert.strictEqual(count, 2);
+            assert.deepStrictEqual((await repository.findAll()).map(m => m.threadId), ['tid-b']);
+            assert.strictEqual(await repository.findByFilePath('src/util.ts'), null);
+        });
+    });
 });
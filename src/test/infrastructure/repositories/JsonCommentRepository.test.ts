@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonCommentRepository, migrateCommentFile } from '../../../infrastructure/repositories/JsonCommentRepository';
+import { Comment } from '../../../domain/entities/Comment';
+
+suite('JsonCommentRepository', () => {
+    let workspaceRoot: string;
+    let storagePath: string;
+
+    const legacyComment = {
+        id: 'c-legacy',
+        file: 'src/app.ts',
+        line: 3,
+        text: 'Rename this',
+        codeContext: '',
+        isSubmitted: true,
+        timestamp: 1700000000000,
+    };
+
+    setup(() => {
+        workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'code-squad-comments-'));
+        fs.mkdirSync(path.join(workspaceRoot, '.vscode'));
+        storagePath = path.join(workspaceRoot, '.vscode', 'code-squad-comments.json');
+    });
+
+    teardown(() => {
+        fs.rmSync(workspaceRoot, { recursive: true, force: true });
+    });
+
+    suite('migration', () => {
+        test('loads legacy comments as open threads', async () => {
+            fs.writeFileSync(storagePath, JSON.stringify([legacyComment]));
+
+            const repository = new JsonCommentRepository(workspaceRoot);
+            const [comment] = await repository.findAll();
+
+            assert.strictEqual(comment.text, 'Rename this');
+            assert.strictEqual(comment.status, 'open');
+            assert.deepStrictEqual(comment.replies, []);
+            assert.strictEqual(comment.isPending, false);
+        });
+
+        test('rewrites legacy file in current format', () => {
+            fs.writeFileSync(storagePath, JSON.stringify([legacyComment]));
+
+            new JsonCommentRepository(workspaceRoot);
+            const written = JSON.parse(fs.readFileSync(storagePath, 'utf8'));
+
+            assert.strictEqual(written.version, 2);
+            assert.strictEqual(written.comments[0].id, 'c-legacy');
+            assert.strictEqual(written.comments[0].status, 'open');
+        });
+
+        test('keeps current format as is', () => {
+            const { comments, migrated } = migrateCommentFile({ version: 2, comments: [legacyComment] });
+
+            assert.strictEqual(migrated, false);
+            assert.strictEqual(comments.length, 1);
+        });
+
+        test('rejects newer file versions', () => {
+            assert.throws(() => migrateCommentFile({ version: 99, comments: [] }), /newer than supported/);
+        });
+
+        test('leaves a file it cannot load untouched', async () => {
+            const newer = JSON.stringify({ version: 99, comments: [legacyComment] });
+            fs.writeFileSync(storagePath, newer);
+
+            const repository = new JsonCommentRepository(workspaceRoot);
+            await repository.save(new Comment({ ...legacyComment, id: 'c-new', isSubmitted: false }));
+
+            assert.strictEqual(fs.readFileSync(storagePath, 'utf8'), newer);
+        });
+    });
+
+    suite('threads', () => {
+        test('persists replies and resolve state', async () => {
+            fs.writeFileSync(storagePath, JSON.stringify([legacyComment]));
+            const repository = new JsonCommentRepository(workspaceRoot);
+            const [comment] = await repository.findAll();
+
+            await repository.replace(comment.withReply('Done?').resolve());
+            const [reloaded] = await new JsonCommentRepository(workspaceRoot).findAll();
+
+            assert.strictEqual(reloaded.status, 'resolved');
+            assert.deepStrictEqual(reloaded.replies.map((r) => r.text), ['Done?']);
+        });
+
+        test('returns comments with unsent replies as active', async () => {
+            fs.writeFileSync(storagePath, JSON.stringify([legacyComment]));
+            const repository = new JsonCommentRepository(workspaceRoot);
+            const [comment] = await repository.findAll();
+
+            await repository.replace(comment.withReply('Any update?'));
+
+            assert.deepStrictEqual((await repository.findActive()).map((c) => c.id), ['c-legacy']);
+        });
+    });
+});
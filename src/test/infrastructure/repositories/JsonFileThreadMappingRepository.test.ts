@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    JsonFileThreadMappingRepository,
+    migrateFileThreadMappingFile,
+} from '../../../infrastructure/repositories/JsonFileThreadMappingRepository';
+import { FileThreadMapping } from '../../../domain/entities/FileThreadMapping';
+
+suite('JsonFileThreadMappingRepository', () => {
+    let workspaceRoot: string;
+    let storagePath: string;
+
+    setup(() => {
+        workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'code-squad-owners-'));
+        storagePath = path.join(workspaceRoot, '.vscode', 'code-squad-file-owners.json');
+    });
+
+    teardown(() => {
+        fs.rmSync(workspaceRoot, { recursive: true, force: true });
+    });
+
+    suite('persistence', () => {
+        test('restores mappings after reload', async () => {
+            const repository = new JsonFileThreadMappingRepository(workspaceRoot);
+            await repository.save(FileThreadMapping.create('src/app.ts', 'tid-a'));
+            await repository.save(FileThreadMapping.create('src/util.ts', 'tid-b'));
+
+            const reloaded = new JsonFileThreadMappingRepository(workspaceRoot);
+
+            assert.strictEqual((await reloaded.findByFilePath('src/app.ts'))!.threadId, 'tid-a');
+            assert.strictEqual((await reloaded.findAll()).length, 2);
+        });
+
+        test('keeps modification order across reloads', async () => {
+            const repository = new JsonFileThreadMappingRepository(workspaceRoot);
+            await repository.save(FileThreadMapping.create('src/app.ts', 'tid-a'));
+            await repository.save(FileThreadMapping.create('src/app.ts', 'tid-b'));
+            await repository.save(FileThreadMapping.create('src/app.ts', 'tid-a'));
+
+            const reloaded = new JsonFileThreadMappingRepository(workspaceRoot);
+            const all = await reloaded.findAllByFilePath('src/app.ts');
+
+            assert.deepStrictEqual(all.map(m => m.threadId), ['tid-b', 'tid-a']);
+            assert.strictEqual((await reloaded.findByFilePath('src/app.ts'))!.threadId, 'tid-a');
+        });
+
+        test('persists thread cleanup', async () => {
+            const repository = new JsonFileThreadMappingRepository(workspaceRoot);
+            await repository.save(FileThreadMapping.create('src/app.ts', 'tid-a'));
+            await repository.save(FileThreadMapping.create('src/app.ts', 'tid-b'));
+            await repository.save(FileThreadMapping.create('src/util.ts', 'tid-a'));
+
+            const count = await repository.deleteByThreadId('tid-a');
+            const reloaded = new JsonFileThreadMappingRepository(workspaceRoot);
+
+            assert.strictEqual(count, 2);
+            assert.deepStrictEqual((await reloaded.findAll()).map(m => m.threadId), ['tid-b']);
+            assert.strictEqual(await reloaded.findByFilePath('src/util.ts'), null);
+        });
+
+        test('keeps mappings in memory without a workspace', async () => {
+            const repository = new JsonFileThreadMappingRepository(undefined);
+            await repository.save(FileThreadMapping.create('src/app.ts', 'tid-a'));
+
+            assert.strictEqual((await repository.findByFilePath('src/app.ts'))!.threadId, 'tid-a');
+        });
+
+        test('starts empty when the file is unreadable', async () => {
+            fs.mkdirSync(path.dirname(storagePath));
+            fs.writeFileSync(storagePath, '{not json');
+
+            const repository = new JsonFileThreadMappingRepository(workspaceRoot);
+
+            assert.deepStrictEqual(await repository.findAll(), []);
+        });
+
+        test('leaves a file from a newer version untouched', async () => {
+            const newer = JSON.stringify({ version: 99, mappings: [{ filePath: 'a.ts', threadId: 't' }] });
+            fs.mkdirSync(path.dirname(storagePath));
+            fs.writeFileSync(storagePath, newer);
+
+            const repository = new JsonFileThreadMappingRepository(workspaceRoot);
+            await repository.save(FileThreadMapping.create('src/app.ts', 'tid-a'));
+
+            assert.strictEqual(fs.readFileSync(storagePath, 'utf8'), newer);
+        });
+
+        test('saves every change when saves overlap', async () => {
+            const repository = new JsonFileThreadMappingRepository(workspaceRoot);
+
+            await Promise.all([
+                repository.save(FileThreadMapping.create('a.ts', 'tid-a')),
+                repository.save(FileThreadMapping.create('b.ts', 'tid-a')),
+                repository.save(FileThreadMapping.create('c.ts', 'tid-b')),
+            ]);
+            const reloaded = new JsonFileThreadMappingRepository(workspaceRoot);
+
+            assert.deepStrictEqual((await reloaded.findAll()).map(m => m.filePath), ['a.ts', 'b.ts', 'c.ts']);
+        });
+    });
+
+    suite('migrateFileThreadMappingFile', () => {
+        test('drops malformed entries and defaults timestamps', () => {
+            const mappings = migrateFileThreadMappingFile({
+                version: 1,
+                mappings: [
+                    { filePath: 'a.ts', threadId: 't' },
+                    { filePath: 'b.ts' },
+                    null,
+                ],
+            });
+
+            assert.deepStrictEqual(mappings, [{ filePath: 'a.ts', threadId: 't', lastModifiedAt: 0 }]);
+        });
+
+        test('rejects newer versions', () => {
+            assert.throws(() => migrateFileThreadMappingFile({ version: 99, mappings: [] }), /newer than supported/);
+        });
+    });
+});
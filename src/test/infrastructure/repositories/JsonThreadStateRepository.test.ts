@@ -0,0 +1,152 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonThreadStateRepository, migrateThreadFile } from '../../../infrastructure/repositories/JsonThreadStateRepository';
+import { ThreadState } from '../../../domain/entities/ThreadState';
+
+suite('JsonThreadStateRepository', () => {
+    let workspaceRoot: string;
+    let storagePath: string;
+
+    const legacyThread = {
+        threadId: 'tid-legacy',
+        name: 'legacy',
+        terminalId: 'terminal-1',
+        workingDir: '/repo.worktree/legacy',
+        branch: 'legacy',
+        worktreePath: '/repo.worktree/legacy',
+        whitelistPatterns: ['dist/**'],
+        createdAt: 1700000000000,
+    };
+
+    setup(() => {
+        workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'code-squad-threads-'));
+        fs.mkdirSync(path.join(workspaceRoot, '.vscode'));
+        storagePath = path.join(workspaceRoot, '.vscode', 'code-squad-threads.json');
+    });
+
+    teardown(() => {
+        fs.rmSync(workspaceRoot, { recursive: true, force: true });
+    });
+
+    suite('migration', () => {
+        test('loads legacy array format', async () => {
+            fs.writeFileSync(storagePath, JSON.stringify([legacyThread]));
+
+            const repository = new JsonThreadStateRepository(workspaceRoot);
+            const thread = await repository.findById('tid-legacy');
+
+            assert.ok(thread);
+            assert.strictEqual(thread.branch, 'legacy');
+            assert.strictEqual(thread.baseCommit, undefined);
+            assert.deepStrictEqual(thread.whitelistPatterns, ['dist/**']);
+        });
+
+        test('rewrites legacy file in current format', () => {
+            fs.writeFileSync(storagePath, JSON.stringify([legacyThread]));
+
+            new JsonThreadStateRepository(workspaceRoot);
+            const written = JSON.parse(fs.readFileSync(storagePath, 'utf8'));
+
+            assert.strictEqual(written.version, 2);
+            assert.strictEqual(written.threads.length, 1);
+            assert.strictEqual(written.threads[0].threadId, 'tid-legacy');
+        });
+
+        test('normalizes missing fields', () => {
+            const { threads, migrated } = migrateThreadFile([
+                { threadId: 't', name: 'n', terminalId: 'x', workingDir: '/w' },
+            ]);
+
+            assert.strictEqual(migrated, true);
+            assert.deepStrictEqual(threads[0].whitelistPatterns, []);
+            assert.strictEqual(threads[0].createdAt, 0);
+        });
+
+        test('keeps current format as is', () => {
+            const { threads, migrated } = migrateThreadFile({ version: 2, threads: [legacyThread] });
+
+            assert.strictEqual(migrated, false);
+            assert.strictEqual(threads.length, 1);
+        });
+
+        test('rejects newer file versions', () => {
+            assert.throws(() => migrateThreadFile({ version: 99, threads: [] }), /newer than supported/);
+        });
+
+        test('leaves a file it cannot load untouched', async () => {
+            const newer = JSON.stringify({ version: 99, threads: [legacyThread] });
+            fs.writeFileSync(storagePath, newer);
+
+            const repository = new JsonThreadStateRepository(workspaceRoot);
+            await repository.save(ThreadState.fromData({ ...legacyThread, threadId: 'tid-new' }));
+
+            assert.strictEqual(fs.readFileSync(storagePath, 'utf8'), newer);
+            assert.ok(await repository.findById('tid-new'));
+        });
+    });
+
+    suite('base tracking', () => {
+        test('persists base branch and commit', async () => {
+            const repository = new JsonThreadStateRepository(workspaceRoot);
+            const state = ThreadState.create({
+                name: 'feature',
+                terminalId: 'terminal-1',
+                workingDir: '/repo.worktree/feature',
+                branch: 'feature',
+                worktreePath: '/repo.worktree/feature',
+                baseBranch: 'main',
+                baseCommit: 'abc123',
+                whitelistPatterns: [],
+            });
+            await repository.save(state);
+
+            const reloaded = await new JsonThreadStateRepository(workspaceRoot).findById(state.threadId);
+
+            assert.ok(reloaded);
+            assert.strictEqual(reloaded.baseBranch, 'main');
+            assert.strictEqual(reloaded.baseCommit, 'abc123');
+        });
+
+        test('backfills base of legacy thread', async () => {
+            fs.writeFileSync(storagePath, JSON.stringify([legacyThread]));
+            const repository = new JsonThreadStateRepository(workspaceRoot);
+
+            await repository.updateBase('tid-legacy', 'def456', 'main');
+            const reloaded = await new JsonThreadStateRepository(workspaceRoot).findById('tid-legacy');
+
+            assert.ok(reloaded);
+            assert.strictEqual(reloaded.baseCommit, 'def456');
+            assert.strictEqual(reloaded.baseBranch, 'main');
+        });
+
+        test('does not overwrite a recorded base', async () => {
+            fs.writeFileSync(storagePath, JSON.stringify({
+                version: 2,
+                threads: [{ ...legacyThread, baseBranch: 'main', baseCommit: 'abc123' }],
+            }));
+            const repository = new JsonThreadStateRepository(workspaceRoot);
+
+            await repository.updateBase('tid-legacy', 'def456', 'develop');
+            const thread = await repository.findById('tid-legacy');
+
+            assert.ok(thread);
+            assert.strictEqual(thread.baseCommit, 'abc123');
+            assert.strictEqual(thread.baseBranch, 'main');
+        });
+    });
+
+    suite('terminal reassignment', () => {
+        test('persists the new terminal ID', async () => {
+            fs.writeFileSync(storagePath, JSON.stringify([legacyThread]));
+            const repository = new JsonThreadStateRepository(workspaceRoot);
+
+            await repository.updateTerminalId('tid-legacy', '4242');
+            const reloaded = new JsonThreadStateRepository(workspaceRoot);
+
+            assert.strictEqual((await reloaded.findByTerminalId('4242'))?.threadId, 'tid-legacy');
+            assert.strictEqual(await reloaded.findByTerminalId('terminal-1'), null);
+        });
+    });
+});